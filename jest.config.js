@@ -30,5 +30,10 @@ module.exports = {
     '^.+\\.ts$': ['ts-jest', {
       isolatedModules: true,
     }],
+    // The CodeMirror Vim engine is published as an ES module only
+    '^.+/@replit/codemirror-vim-core/vim\\.js$': ['ts-jest', {
+      isolatedModules: true,
+    }],
   },
+  transformIgnorePatterns: ['/node_modules/(?!@replit/codemirror-vim-core/)'],
 };
@@ -7,29 +7,59 @@
  * Requirements: 1.1-1.5 (Plugin lifecycle, delegation, cleanup, <200 lines)
  */
 
-import { Plugin, TAbstractFile, Notice } from 'obsidian';
+import { Plugin, Notice } from 'obsidian';
 import {
   ServiceContainer, EventBus, ConfigManager, EnhancedErrorHandler,
-  VimAdapter, VimrcLoader, VimrcParser, MappingStore, MappingApplier,
-  CommandRegistry, SettingsTab, createFileAdapter, PluginApi, Logger, getLogger,
-  VimModeStatusBar,
+  VimAdapter, VimrcLoader, VimrcParser, MappingStore, MappingApplier, MappingExpander,
+  CommandRegistry, SettingsTab, createFileAdapter, createVimrcEnvironment, PluginApi, Logger, getLogger,
+  VimModeStatusBar, AbbreviationStore, AbbreviationExpander,
 } from './src';
 import { SurroundService } from './src/services/SurroundService';
 import { ServiceTokens } from './src/types/services';
 import type { VimrcSettings } from './src/types/settings';
+import { EventType } from './src/types/events';
+import { VimMode } from './src/types/mappings';
+import type { MappingExpansion } from './src/types/mappings';
 import type { MotionCallback, AsyncMotionCallback, ActionCallback } from './src/services/PluginApi';
 import { MappingHandler } from './src/handlers/MappingHandler';
 import { ObmapHandler } from './src/handlers/ObmapHandler';
 import { ExmapHandler } from './src/handlers/ExmapHandler';
 import { LetHandler } from './src/handlers/LetHandler';
+import { SetHandler } from './src/handlers/SetHandler';
+import { AutocmdHandler } from './src/handlers/AutocmdHandler';
+import { UserCommandHandler } from './src/handlers/UserCommandHandler';
+import { AbbreviationHandler } from './src/handlers/AbbreviationHandler';
+import { buildMappingList } from './src/services/MappingList';
+import { MappingListModal } from './src/ui/MappingListModal';
+import { ObsidianCommandExecutor } from './src/handlers/ObsidianCommandExecutor';
+import { openCheckResult } from './src/ui/VimrcCheckModal';
+import { VimrcView, VIEW_TYPE_VIMRC } from './src/ui/VimrcView';
+import type { VimrcViewConfig } from './src/ui/VimrcView';
+import { EMBEDDED_VIMRC_PATH } from './src/services/VimrcLoader';
+import { importVimrc } from './src/services/VimrcImporter';
+import { VimrcImportModal } from './src/ui/VimrcImportModal';
+import { KeymapExporter } from './src/services/KeymapExporter';
+import type { ExportTarget } from './src/services/KeymapExporter';
+import { KeymapExportModal } from './src/ui/KeymapExportModal';
+import { LoadHistory } from './src/services/LoadHistory';
+import { LoadHistoryModal } from './src/ui/LoadHistoryModal';
+import { FileWatcher } from './src/services/FileWatcher';
+import { ReloadScheduler } from './src/services/ReloadScheduler';
+import { FolderOverlayTracker } from './src/services/FolderOverlayTracker';
+import { LoadNotices } from './src/ui/LoadNotices';
+import { ProfileCommands } from './src/ui/ProfileCommands';
+import type { CheckResult } from './src/types/services';
 
 export default class VimrcPlugin extends Plugin {
   private container!: ServiceContainer;
   private pluginApi!: PluginApi;
+  private keymapExporter = new KeymapExporter();
+  private loadHistory!: LoadHistory;
   private surroundService: SurroundService | null = null;
   private vimModeStatusBar: VimModeStatusBar | null = null;
-  private fileWatcherRegistered = false;
-  private debounceTimer: NodeJS.Timeout | null = null;
+  private abbreviationExpander: AbbreviationExpander | null = null;
+  private reloads!: ReloadScheduler;
+  private loadNotices!: LoadNotices;
 
   async onload(): Promise<void> {
     await this.initializeServices();
@@ -38,11 +68,51 @@ export default class VimrcPlugin extends Plugin {
 
     const configManager = this.container.resolve(ServiceTokens.ConfigManager);
     const loader = this.container.resolve(ServiceTokens.VimrcLoader);
+    const eventBus = this.container.resolve(ServiceTokens.EventBus);
     this.addSettingTab(new SettingsTab(this.app, this, {
       configManager,
-      onReload: () => loader.reload(),
+      onReload: () => this.reloads.reload(),
+      vimrcEditor: this.createVimrcEditorConfig(),
     }));
-    this.setupFileWatcher();
+    this.loadNotices = new LoadNotices({
+      configManager,
+      onApplyAnyway: () => void this.reloads.reload(true),
+      onOpenErrors: async (filePath) => this.showCheckResult(await loader.check(filePath)),
+    });
+    this.reloads = new ReloadScheduler({
+      eventBus,
+      loader,
+      watcher: this.container.resolve(ServiceTokens.FileWatcher),
+      onReload: (result) => this.loadNotices.report(result),
+    });
+    this.reloads.start();
+    this.register(() => this.reloads.stop());
+    this.setupMappingContext();
+    this.addCommand({
+      id: 'check-vimrc',
+      name: 'Check vimrc',
+      callback: async () => this.showCheckResult(await loader.check()),
+    });
+    this.setupVimrcEditor();
+    this.setupVimrcImport();
+    this.addCommand({
+      id: 'export-keymap',
+      name: 'Export keymap for VSCodeVim / Neovim',
+      callback: () => new KeymapExportModal(this.app, this.keymapExporter.getTargets(),
+        (targetId) => this.exportKeymapAs(targetId)).open(),
+    });
+    this.addCommand({
+      id: 'show-load-history',
+      name: 'Show vimrc load history',
+      callback: () => new LoadHistoryModal(this.app, this.loadHistory.getSnapshots(), {
+        // The forced reload takes the place of the one the file watcher schedules
+        restore: async (snapshot) => {
+          await loader.writeVimrc(snapshot.path, snapshot.content);
+          this.reloads.schedule(true);
+        },
+        apply: async (snapshot) => this.loadNotices.report(await loader.applyInMemory(snapshot.content)),
+      }).open(),
+    });
 
     // Initialize Vim mode status bar
     this.vimModeStatusBar = new VimModeStatusBar({
@@ -51,9 +121,23 @@ export default class VimrcPlugin extends Plugin {
       configManager,
     });
     this.vimModeStatusBar.initialize();
+    new ProfileCommands({
+      plugin: this,
+      eventBus,
+      loader,
+      onErrors: (errors) => this.loadNotices.reportErrors(errors),
+    }).initialize();
+    this.register(eventBus.on(EventType.PROFILE_CHANGED, ({ name }) => this.vimModeStatusBar?.setProfile(name)));
 
     this.app.workspace.onLayoutReady(async () => {
-      this.reportLoadResults(await loader.load());
+      this.loadNotices.report(await loader.load());
+      new FolderOverlayTracker({
+        plugin: this,
+        app: this.app,
+        loader,
+        onErrors: (errors) => this.loadNotices.reportErrors(errors),
+        onUpdate: () => this.reloads.syncWatchedFiles(),
+      }).start();
     });
     log.info('Plugin loaded');
   }
@@ -61,9 +145,9 @@ export default class VimrcPlugin extends Plugin {
   onunload(): void {
     const log = getLogger('plugin');
     log.info('Unloading plugin...');
-    if (this.debounceTimer) clearTimeout(this.debounceTimer);
     if (this.vimModeStatusBar) this.vimModeStatusBar.destroy();
     if (this.surroundService) this.surroundService.cleanup();
+    if (this.abbreviationExpander) this.abbreviationExpander.dispose();
     if (this.container) {
       const loader = this.container.resolve(ServiceTokens.VimrcLoader);
       loader.cleanup().catch(() => {
@@ -85,29 +169,60 @@ export default class VimrcPlugin extends Plugin {
       new EnhancedErrorHandler(c.resolve(ServiceTokens.EventBus)));
     this.container.registerSingleton(ServiceTokens.VimAdapter, (c) =>
       new VimAdapter(c.resolve(ServiceTokens.EventBus)));
+    this.container.registerSingleton(ServiceTokens.FileWatcher, (c) =>
+      new FileWatcher(c.resolve(ServiceTokens.EventBus), this.app.vault));
 
     // Stores and appliers
     this.container.registerSingleton(ServiceTokens.MappingStore, (c) =>
       new MappingStore(c.resolve(ServiceTokens.EventBus)));
+    this.container.registerSingleton(ServiceTokens.MappingExpander, (c) =>
+      new MappingExpander(c.resolve(ServiceTokens.MappingStore), c.resolve(ServiceTokens.VimAdapter)));
     this.container.registerSingleton(ServiceTokens.MappingApplier, (c) =>
       new MappingApplier(
         c.resolve(ServiceTokens.MappingStore),
         c.resolve(ServiceTokens.VimAdapter),
-        c.resolve(ServiceTokens.EventBus)
+        c.resolve(ServiceTokens.EventBus),
+        c.resolve(ServiceTokens.MappingExpander)
       ));
+    this.container.registerSingleton(ServiceTokens.AbbreviationStore, (c) =>
+      new AbbreviationStore(c.resolve(ServiceTokens.EventBus)));
 
     // Parser
-    this.container.registerSingleton(ServiceTokens.VimrcParser, () => new VimrcParser());
+    this.container.registerSingleton(ServiceTokens.VimrcParser, () => new VimrcParser(createVimrcEnvironment(this.app)));
 
     // Create handlers
     const eventBus = this.container.resolve(ServiceTokens.EventBus);
     const errorHandler = this.container.resolve(ServiceTokens.ErrorHandler);
     const mappingStore = this.container.resolve(ServiceTokens.MappingStore);
     const vimAdapter = this.container.resolve(ServiceTokens.VimAdapter);
+    const abbreviationStore = this.container.resolve(ServiceTokens.AbbreviationStore);
+    const mappingExpander = this.container.resolve(ServiceTokens.MappingExpander);
 
-    const mappingHandler = new MappingHandler({ eventBus, errorHandler, mappingStore });
     const obmapHandler = new ObmapHandler({ eventBus, errorHandler, app: this.app });
     const exmapHandler = new ExmapHandler({ eventBus, errorHandler, app: this.app });
+    this.container.registerInstance(ServiceTokens.ObmapProvider, obmapHandler);
+    this.container.registerInstance(ServiceTokens.ExmapProvider, exmapHandler);
+    const mappingHandler = new MappingHandler({
+      eventBus, errorHandler, mappingStore,
+      onList: (request) => {
+        const entries = buildMappingList({
+          mappings: mappingStore.getAll(),
+          obmaps: obmapHandler.getObmapDefinitions(),
+          exmaps: exmapHandler.getExmapDefinitions(),
+          explain: (mapping) => mappingExpander.explain(mapping),
+        }, request);
+        new MappingListModal(this.app, entries, request.verbose).open();
+      },
+    });
+    const userCommandHandler = new UserCommandHandler({ eventBus, errorHandler });
+    const autocmdHandler = new AutocmdHandler({
+      eventBus, errorHandler, app: this.app,
+      execute: async (command, { file, autocmd }) => {
+        const loader = this.container.resolve(ServiceTokens.VimrcLoader);
+        const errors = await loader.executeCommandLine(command, { filePath: autocmd.filePath, buffer: file ?? undefined });
+        this.loadNotices.reportErrors(errors);
+      },
+    });
 
     // Command registry with handlers
     this.container.registerSingleton(ServiceTokens.CommandRegistry, () => {
@@ -119,9 +234,16 @@ export default class VimrcPlugin extends Plugin {
         eventBus, errorHandler,
         onLeaderKeyChange: (key) => mappingHandler.setLeaderKey(key),
       }));
+      registry.register(new SetHandler({ eventBus, errorHandler, vimAdapter }));
+      registry.register(autocmdHandler);
+      registry.register(userCommandHandler);
+      registry.register(new AbbreviationHandler({ eventBus, errorHandler, abbreviationStore }));
       return registry;
     });
 
+    // Load history, kept in plugin data next to the settings
+    this.loadHistory = new LoadHistory(this, this.container.resolve(ServiceTokens.ConfigManager));
+
     // Loader
     this.container.registerSingleton(ServiceTokens.VimrcLoader, (c) => {
       const loader = new VimrcLoader(
@@ -135,13 +257,20 @@ export default class VimrcPlugin extends Plugin {
         createFileAdapter(this.app)
       );
       loader.setVimAdapter(vimAdapter);
-      loader.setProviders(obmapHandler, exmapHandler);
+      loader.setDataFolder(this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`);
+      loader.setProviders(obmapHandler, exmapHandler, autocmdHandler, userCommandHandler);
+      loader.setAbbreviationStore(abbreviationStore);
+      loader.setLoadHistory(this.loadHistory);
+      const commandExecutor = new ObsidianCommandExecutor(this.app);
+      loader.setCommandValidator((commandId) => commandExecutor.validateCommand(commandId));
+      loader.setCheckParser(new VimrcParser(createVimrcEnvironment(this.app)));
       return loader;
     });
 
     // Initialize ConfigManager
     const configManager = this.container.resolve(ServiceTokens.ConfigManager) as ConfigManager;
     await configManager.initialize();
+    await this.loadHistory.initialize();
 
     // Initialize Logger
     Logger.initialize({
@@ -155,40 +284,98 @@ export default class VimrcPlugin extends Plugin {
     // Register built-in surround mappings
     this.surroundService = new SurroundService(this.app, vimAdapter);
     this.surroundService.register();
+
+    // Expand abbreviations while typing
+    this.abbreviationExpander = new AbbreviationExpander(abbreviationStore, vimAdapter);
+    this.registerEditorExtension(this.abbreviationExpander.extension());
   }
 
-  private setupFileWatcher(): void {
-    if (this.fileWatcherRegistered) return;
-    const settings = this.container.resolve(ServiceTokens.ConfigManager).getSettings();
+  /** Parsing and completion for editing vimrc content */
+  private createVimrcEditorConfig(): Omit<VimrcViewConfig, 'onSave'> {
+    const loader = this.container.resolve(ServiceTokens.VimrcLoader);
+    const vimAdapter = this.container.resolve(ServiceTokens.VimAdapter);
+    // A parser of its own, so editing does not reset the loaded variables
+    const parser = new VimrcParser(createVimrcEnvironment(this.app));
+    const commandExecutor = new ObsidianCommandExecutor(this.app);
+    return {
+      parse: async (content, filePath) => {
+        const sources = await loader.readSourcedFiles(filePath, content);
+        return parser.parse(content, { filePath, readSource: (path) => sources.get(path) ?? null });
+      },
+      getMaxMapDepth: () => {
+        const value = vimAdapter.getOption('maxmapdepth');
+        return typeof value === 'number' && value > 0 ? value : undefined;
+      },
+      getCommands: () => commandExecutor.listCommands(),
+    };
+  }
 
-    this.registerEvent(
-      this.app.vault.on('modify', (file: TAbstractFile) => {
-        const path = file.path;
-        if (path === settings.vimrcPath || path === '.vimrc' || path === '.obsidian.vimrc') {
-          this.debouncedReload();
+  /** Open .vimrc / .vim files, including the hidden vimrc, in the vimrc editor */
+  private setupVimrcEditor(): void {
+    const loader = this.container.resolve(ServiceTokens.VimrcLoader);
+    const editorConfig = this.createVimrcEditorConfig();
+    this.registerView(VIEW_TYPE_VIMRC, (leaf) => new VimrcView(leaf, {
+      ...editorConfig,
+      onSave: (filePath) => {
+        if (filePath === loader.getLastResult()?.path || loader.getSourcedFiles().includes(filePath)
+          || loader.getFolderOverlays().includes(filePath)) {
+          this.reloads.schedule();
         }
-      })
+      },
+    }));
+    this.registerExtensions(['vimrc', 'vim'], VIEW_TYPE_VIMRC);
+    this.addCommand({
+      id: 'edit-vimrc',
+      name: 'Edit vimrc',
+      callback: async () => {
+        const settings = this.container.resolve(ServiceTokens.ConfigManager).getSettings();
+        const file = loader.getLastResult()?.path ?? settings.vimrcPath;
+        if (file === EMBEDDED_VIMRC_PATH) {
+          new Notice('The vimrc is embedded in the plugin settings; edit it there');
+          return;
+        }
+        await this.app.workspace.getLeaf(true).setViewState({ type: VIEW_TYPE_VIMRC, active: true, state: { file } });
+      },
+    });
+  }
+
+  /** Convert obsidian-vimrc-support, IdeaVim and VSCodeVim configurations */
+  private setupVimrcImport(): void {
+    const loader = this.container.resolve(ServiceTokens.VimrcLoader);
+    const commandExecutor = new ObsidianCommandExecutor(this.app);
+    this.addCommand({
+      id: 'import-vimrc',
+      name: 'Import vimrc from another Vim plugin',
+      callback: () => new VimrcImportModal(this.app, {
+        convert: (content, format) => importVimrc(content, {
+          format,
+          validateCommand: (commandId) => commandExecutor.validateCommand(commandId),
+        }),
+        save: (result) => loader.saveImportedVimrc(result.content),
+      }).open(),
+    });
+  }
+
+  /** Track the active file for <buffer> mappings and evaluate <expr> mappings */
+  private setupMappingContext(): void {
+    const applier = this.container.resolve(ServiceTokens.MappingApplier);
+    const parser = this.container.resolve(ServiceTokens.VimrcParser);
+    applier.setExpressionEvaluator((expression, { count }) => parser.evaluate(expression, { 'v:count': count }));
+    applier.setActiveBuffer(this.app.workspace.getActiveFile()?.path ?? null);
+    this.registerEvent(
+      this.app.workspace.on('file-open', (file) => applier.setActiveBuffer(file?.path ?? null))
     );
-    this.fileWatcherRegistered = true;
   }
 
-  private debouncedReload(): void {
-    if (this.debounceTimer) clearTimeout(this.debounceTimer);
-    this.debounceTimer = setTimeout(async () => {
-      const loader = this.container.resolve(ServiceTokens.VimrcLoader);
-      this.reportLoadResults(await loader.reload());
-    }, 500);
+  private showCheckResult(result: CheckResult): void {
+    const loader = this.container.resolve(ServiceTokens.VimrcLoader);
+    openCheckResult(this.app, result, (diagnostic) => loader.applyQuickFix(diagnostic));
   }
 
-  private reportLoadResults(result: {
-    success: boolean; mappingCount: number; path: string | null;
-    errors: Array<{ lineNumber: number; message: string }>;
-  }): void {
-    const log = getLogger('plugin');
-    const settings = this.container.resolve(ServiceTokens.ConfigManager).getSettings();
-    if (result.path) log.info(`Loaded from ${result.path}: ${result.mappingCount} mapping(s)`);
-    for (const error of result.errors) new Notice(`Vimrc error (line ${error.lineNumber}): ${error.message}`);
-    if (settings.showLoadNotification && result.success) new Notice(`Vimrc loaded: ${result.mappingCount} mapping(s)`);
+  private async switchProfile(name: string | null): Promise<void> {
+    const loader = this.container.resolve(ServiceTokens.VimrcLoader);
+    this.loadNotices.reportErrors(await loader.switchProfile(name));
+    new Notice(name ? `Keymap profile: ${name}` : 'Keymap profile switched off');
   }
 
   get settings(): VimrcSettings {
@@ -235,4 +422,31 @@ export default class VimrcPlugin extends Plugin {
   mapAction(keys: string, actionName: string, contexts?: string[]): boolean {
     return this.pluginApi.mapAction(keys, actionName, contexts);
   }
+
+  /** Resolve keys typed in a mode through the vimrc mappings */
+  expandKeys(keys: string, mode: VimMode = VimMode.NORMAL, buffer?: string): MappingExpansion {
+    return this.container.resolve(ServiceTokens.MappingExpander).expand(keys, mode, buffer);
+  }
+
+  /** Explain what the active vimrc mapping of keys finally runs */
+  explainMapping(keys: string, mode: VimMode = VimMode.NORMAL): MappingExpansion | null {
+    const mapping = this.container.resolve(ServiceTokens.MappingStore).query({ source: keys, mode })
+      .filter((candidate) => !candidate.modifiers?.buffer).pop();
+    return mapping ? this.container.resolve(ServiceTokens.MappingExpander).explain(mapping) : null;
+  }
+
+  /** Add a keymap export format to the Export keymap command */
+  registerExportTarget(target: ExportTarget): void {
+    this.keymapExporter.registerTarget(target);
+  }
+
+  /** Render the active vimrc mappings in a registered export format */
+  exportKeymapAs(targetId: string): string {
+    return this.keymapExporter.export(targetId, {
+      mappings: this.container.resolve(ServiceTokens.MappingStore).getAll(),
+      obmaps: this.container.resolve(ServiceTokens.ObmapProvider).getObmapDefinitions(),
+      exmaps: this.container.resolve(ServiceTokens.ExmapProvider).getExmapDefinitions(),
+      vimrcPath: this.container.resolve(ServiceTokens.VimrcLoader).getLastResult()?.path ?? undefined,
+    });
+  }
 }
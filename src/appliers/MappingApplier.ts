@@ -3,6 +3,9 @@
  *
  * Reads mappings from MappingStore and applies them via VimAdapter.
  * Handles conflict detection and reports them through EventBus.
+ * Recursive mappings that expand past 'maxmapdepth' (see MappingExpander)
+ * are not applied, so they cannot lock up the editor. In a batch, changes
+ * to global mappings reach Vim only as a diff when the batch is committed.
  *
  * @module appliers/MappingApplier
  *
@@ -14,12 +17,38 @@
 import type { IEventBus, IVimAdapter } from '../types/services';
 import type {
   IMappingApplier,
+  IMappingExpander,
   IMappingStore,
   KeyMapping,
-  VimMode,
+  MappingDiff,
+  MappingExpressionEvaluator,
 } from '../types/mappings';
-import { MappingStatus } from '../types/mappings';
+import { MappingStatus, VimMode, VIM_MODE_LETTERS } from '../types/mappings';
 import { EventType, MappingConflict } from '../types/events';
+import { normalizeKeys } from '../services/KeyNotation';
+import { MappingExpander } from '../services/MappingExpander';
+
+/**
+ * Right-hand side consisting of a single ex command, e.g. `:w<CR>`
+ */
+const SILENT_EX_PATTERN = /^:((?:(?!<CR>).)*)<CR>$/i;
+
+/**
+ * Check whether two mappings of the same keys are applied to Vim the same way
+ */
+function isSameMapping(mapping: KeyMapping, other: KeyMapping): boolean {
+  return mapping.target === other.target
+    && mapping.recursive === other.recursive
+    && JSON.stringify(mapping.modifiers ?? {}) === JSON.stringify(other.modifiers ?? {});
+}
+
+/**
+ * Count arguments passed by codemirror-vim to action callbacks
+ */
+interface ActionArgs {
+  repeat?: number;
+  repeatIsExplicit?: boolean;
+}
 
 /**
  * MappingApplier implementation
@@ -43,26 +72,55 @@ export class MappingApplier implements IMappingApplier {
    */
   private eventBus: IEventBus;
 
+  /**
+   * Expander checking recursive mappings for runaway recursion
+   */
+  private expander: IMappingExpander;
+
   /**
    * Track applied mappings by source+mode key for conflict detection
    */
   private appliedMappings = new Map<string, KeyMapping>();
 
+  /**
+   * <buffer> mappings by ID; only those of the active buffer are in Vim
+   */
+  private bufferMappings = new Map<string, KeyMapping>();
+
+  /**
+   * Path of the file currently being edited
+   */
+  private activeBuffer: string | null = null;
+
+  /**
+   * Evaluator for <expr> mappings
+   */
+  private expressionEvaluator: MappingExpressionEvaluator | null = null;
+
+  /**
+   * Open batch: the mapping each source+mode key ends up with, null when it
+   * is unmapped, in order of the last change
+   */
+  private batch: Map<string, KeyMapping | null> | null = null;
+
   /**
    * Create a new MappingApplier
    *
    * @param mappingStore - Store to read mappings from
    * @param vimAdapter - Adapter to apply mappings through
    * @param eventBus - EventBus for event emission
+   * @param expander - Expander for recursive mappings; one over the store by default
    */
   constructor(
     mappingStore: IMappingStore,
     vimAdapter: IVimAdapter,
-    eventBus: IEventBus
+    eventBus: IEventBus,
+    expander?: IMappingExpander
   ) {
     this.mappingStore = mappingStore;
     this.vimAdapter = vimAdapter;
     this.eventBus = eventBus;
+    this.expander = expander ?? new MappingExpander(mappingStore, vimAdapter);
   }
 
   /**
@@ -84,7 +142,7 @@ export class MappingApplier implements IMappingApplier {
    */
   private checkConflict(mapping: KeyMapping): KeyMapping | undefined {
     const key = this.getMappingKey(mapping.source, mapping.mode);
-    const existing = this.appliedMappings.get(key);
+    const existing = this.batch?.has(key) ? this.batch.get(key) : this.appliedMappings.get(key);
 
     if (existing && existing.id !== mapping.id) {
       // Emit conflict event
@@ -105,6 +163,8 @@ export class MappingApplier implements IMappingApplier {
    *
    * Reads all mappings from MappingStore and applies them via VimAdapter.
    * Detects and reports conflicts for mappings with the same source and mode.
+   * When applying one fails, the mappings applied before are rolled back
+   * and the error is rethrown.
    */
   async applyAll(): Promise<void> {
     const mappings = this.mappingStore.getAll();
@@ -112,30 +172,69 @@ export class MappingApplier implements IMappingApplier {
     // Sort by createdAt to ensure consistent application order
     const sortedMappings = [...mappings].sort((a, b) => a.createdAt - b.createdAt);
 
-    for (const mapping of sortedMappings) {
-      await this.apply(mapping);
+    const snapshot = new Map(this.appliedMappings);
+    const bufferSnapshot = new Set(this.bufferMappings.keys());
+    const touched: KeyMapping[] = [];
+    try {
+      for (const mapping of sortedMappings) {
+        touched.push(mapping);
+        await this.apply(mapping);
+      }
+    } catch (error) {
+      for (const mapping of touched) {
+        if (mapping.modifiers?.buffer && !bufferSnapshot.has(mapping.id)) {
+          await this.unapply(mapping);
+          mapping.status = MappingStatus.PENDING;
+        }
+      }
+      const keys = touched
+        .filter((mapping) => !mapping.modifiers?.buffer)
+        .map((mapping) => this.getMappingKey(mapping.source, mapping.mode));
+      this.restore(snapshot, keys);
+      touched[touched.length - 1].status = MappingStatus.FAILED;
+      throw error;
     }
   }
 
   /**
    * Apply a single mapping
    *
+   * A recursive mapping whose expansion exceeds 'maxmapdepth' is marked
+   * failed and reported with MAPPING_FAILED instead.
+   *
    * @param mapping - The mapping to apply
    */
   async apply(mapping: KeyMapping): Promise<void> {
+    // A runaway recursive mapping would hang the editor when typed
+    const error = mapping.recursive ? this.expander.explain(mapping).error : undefined;
+    if (error) {
+      mapping.status = MappingStatus.FAILED;
+      this.eventBus.emit(EventType.MAPPING_FAILED, { mapping, error: new Error(error) });
+      return;
+    }
+
+    if (mapping.modifiers?.buffer) {
+      this.applyBufferMapping(mapping);
+      return;
+    }
+
     // Check for conflicts
     this.checkConflict(mapping);
 
+    const key = this.getMappingKey(mapping.source, mapping.mode);
+    if (this.batch) {
+      this.setBatchMapping(key, mapping);
+      mapping.status = MappingStatus.APPLIED;
+      mapping.appliedAt = Date.now();
+      this.eventBus.emit(EventType.MAPPING_APPLIED, { mapping });
+      return;
+    }
+
     try {
       // Apply the mapping via VimAdapter
-      if (mapping.recursive) {
-        this.vimAdapter.map(mapping.source, mapping.target, mapping.mode);
-      } else {
-        this.vimAdapter.noremap(mapping.source, mapping.target, mapping.mode);
-      }
+      this.applyToVim(mapping);
 
       // Track the applied mapping for conflict detection
-      const key = this.getMappingKey(mapping.source, mapping.mode);
       this.appliedMappings.set(key, mapping);
 
       // Update mapping status
@@ -157,6 +256,21 @@ export class MappingApplier implements IMappingApplier {
    * @param mapping - The mapping to unapply
    */
   async unapply(mapping: KeyMapping): Promise<void> {
+    if (this.bufferMappings.has(mapping.id)) {
+      this.bufferMappings.delete(mapping.id);
+      if (this.isActiveBufferMapping(mapping)) {
+        this.deactivateBufferMapping(mapping);
+      }
+      mapping.status = MappingStatus.REMOVED;
+      return;
+    }
+
+    if (this.batch) {
+      this.setBatchMapping(this.getMappingKey(mapping.source, mapping.mode), null);
+      mapping.status = MappingStatus.REMOVED;
+      return;
+    }
+
     try {
       // Remove the mapping via VimAdapter
       this.vimAdapter.unmap(mapping.source, mapping.mode);
@@ -182,14 +296,287 @@ export class MappingApplier implements IMappingApplier {
    */
   async unapplyAll(): Promise<void> {
     // Get all applied mappings
-    const appliedMappings = Array.from(this.appliedMappings.values());
+    const appliedMappings = [...this.bufferMappings.values(), ...this.appliedMappings.values()];
+    for (const [key, mapping] of this.batch ?? []) {
+      if (mapping && !this.appliedMappings.has(key)) {
+        appliedMappings.push(mapping);
+      }
+    }
 
     for (const mapping of appliedMappings) {
       await this.unapply(mapping);
     }
 
-    // Clear the tracking map
-    this.appliedMappings.clear();
+    // Clear the tracking map; a batch still needs it to diff against
+    if (!this.batch) {
+      this.appliedMappings.clear();
+    }
+  }
+
+  /**
+   * Start a batch
+   *
+   * Until commitBatch(), global mappings applied and unapplied are only
+   * recorded, so Vim keeps the previous mappings while a new configuration
+   * is being loaded. <buffer> mappings are applied as usual.
+   */
+  beginBatch(): void {
+    this.batch ??= new Map();
+  }
+
+  /**
+   * Commit the open batch
+   *
+   * Compares the mappings recorded in the batch with those applied before,
+   * keyed by mode and left-hand side: keys no longer mapped are unmapped,
+   * then new and changed mappings are applied. Mappings applied the same
+   * way as before are not touched. When applying one fails, Vim is brought
+   * back to the mappings applied before and the error is rethrown.
+   *
+   * @returns The changes made to Vim
+   */
+  async commitBatch(): Promise<MappingDiff> {
+    const diff: MappingDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+    const batch = this.batch;
+    this.batch = null;
+    if (!batch) {
+      return diff;
+    }
+
+    // On failure, Vim goes back to the mappings applied before the batch
+    const snapshot = new Map(this.appliedMappings);
+    let failed: KeyMapping | null = null;
+    try {
+      for (const [key, mapping] of batch) {
+        const previous = this.appliedMappings.get(key);
+        if (mapping === null && previous) {
+          this.appliedMappings.delete(key);
+          if (!this.isShadowed(key)) {
+            this.vimAdapter.unmap(previous.source, previous.mode);
+          }
+          diff.removed.push(previous);
+        }
+      }
+
+      for (const [key, mapping] of batch) {
+        if (!mapping) {
+          continue;
+        }
+        const previous = this.appliedMappings.get(key);
+        this.appliedMappings.set(key, mapping);
+        if (previous && isSameMapping(previous, mapping)) {
+          diff.unchanged++;
+          continue;
+        }
+        if (!this.isShadowed(key)) {
+          failed = mapping;
+          this.applyToVim(mapping);
+          failed = null;
+        }
+        (previous ? diff.changed : diff.added).push(mapping);
+      }
+    } catch (error) {
+      this.restore(snapshot, batch.keys());
+      if (failed) {
+        failed.status = MappingStatus.FAILED;
+      }
+      throw error;
+    }
+
+    return diff;
+  }
+
+  /**
+   * Bring Vim and the tracking of global mappings back to a snapshot
+   *
+   * @param snapshot - Applied mappings to go back to
+   * @param keys - Source+mode keys that may have changed since
+   */
+  private restore(snapshot: Map<string, KeyMapping>, keys: Iterable<string>): void {
+    for (const key of new Set(keys)) {
+      const current = this.appliedMappings.get(key);
+      const previous = snapshot.get(key);
+      if (current === previous) {
+        continue;
+      }
+
+      if (current && current.status !== MappingStatus.FAILED) {
+        current.status = MappingStatus.PENDING;
+      }
+      if (previous) {
+        this.appliedMappings.set(key, previous);
+        previous.status = MappingStatus.APPLIED;
+      } else {
+        this.appliedMappings.delete(key);
+      }
+
+      if (this.isShadowed(key)) {
+        continue;
+      }
+      if (previous) {
+        this.applyToVim(previous);
+      } else if (current) {
+        this.vimAdapter.unmap(current.source, current.mode);
+      }
+    }
+  }
+
+  /**
+   * Record the mapping a key ends up with in the open batch
+   */
+  private setBatchMapping(key: string, mapping: KeyMapping | null): void {
+    // Re-insert so keys are committed in the order of their last change
+    this.batch!.delete(key);
+    this.batch!.set(key, mapping);
+  }
+
+  /**
+   * Switch the active buffer
+   *
+   * Removes the <buffer> mappings of the previous buffer (restoring any
+   * global mappings they shadowed) and applies those of the new one.
+   * <buffer> mappings applied while no buffer was active bind to this one.
+   *
+   * @param path - Path of the file now being edited, or null
+   */
+  setActiveBuffer(path: string | null): void {
+    if (path === this.activeBuffer) {
+      return;
+    }
+
+    for (const mapping of this.bufferMappings.values()) {
+      if (this.isActiveBufferMapping(mapping)) {
+        this.deactivateBufferMapping(mapping);
+      }
+    }
+
+    this.activeBuffer = path;
+
+    for (const mapping of this.bufferMappings.values()) {
+      mapping.buffer ??= path ?? undefined;
+      if (this.isActiveBufferMapping(mapping)) {
+        this.applyToVim(mapping);
+      }
+    }
+  }
+
+  /**
+   * Set the evaluator used by <expr> mappings
+   *
+   * @param evaluator - Evaluates an expression to the keys to execute
+   */
+  setExpressionEvaluator(evaluator: MappingExpressionEvaluator): void {
+    this.expressionEvaluator = evaluator;
+    this.expander.setExpressionEvaluator(evaluator);
+  }
+
+  /**
+   * Register a mapping with Vim according to its modifiers
+   *
+   * - <expr>: an action evaluates the expression and feeds the result
+   * - <silent> with a single `:cmd<CR>` target: the ex command runs directly
+   *   instead of being typed into the command line
+   * - otherwise a plain key-to-key map/noremap
+   *
+   * <nowait> needs no special handling: codemirror-vim runs a complete
+   * match immediately instead of waiting for longer mappings.
+   */
+  private applyToVim(mapping: KeyMapping): void {
+    const modifiers = mapping.modifiers ?? {};
+    const context = mapping.mode === VimMode.ALL ? undefined : mapping.mode;
+
+    if (modifiers.expr) {
+      const action = `vimrc_expr_${mapping.id}`;
+      this.vimAdapter.defineAction(action, (cm, actionArgs) =>
+        this.runExpressionMapping(mapping, cm, actionArgs as ActionArgs));
+      this.vimAdapter.mapCommand(mapping.source, 'action', action, undefined, { context });
+      return;
+    }
+
+    // The command line has no `:` to run an ex command from
+    const inCommandLine = VIM_MODE_LETTERS[mapping.mode].includes('c');
+    const silentEx = modifiers.silent && !inCommandLine ? mapping.target.match(SILENT_EX_PATTERN) : null;
+    if (silentEx) {
+      this.vimAdapter.mapCommand(mapping.source, 'keyToEx', mapping.source, undefined, {
+        context,
+        exArgs: { input: silentEx[1] },
+      });
+      return;
+    }
+
+    if (mapping.recursive) {
+      this.vimAdapter.map(mapping.source, mapping.target, mapping.mode);
+    } else {
+      this.vimAdapter.noremap(mapping.source, mapping.target, mapping.mode);
+    }
+  }
+
+  /**
+   * Evaluate an <expr> mapping and execute the resulting keys
+   */
+  private runExpressionMapping(mapping: KeyMapping, cm: unknown, actionArgs: ActionArgs): void {
+    try {
+      if (!this.expressionEvaluator) {
+        throw new Error('No expression evaluator available for <expr> mappings');
+      }
+      const count = actionArgs?.repeatIsExplicit ? actionArgs.repeat ?? 0 : 0;
+      const keys = normalizeKeys(this.expressionEvaluator(mapping.target, { count }));
+      if (keys) {
+        this.vimAdapter.feedKeys(cm, keys, mapping.recursive);
+      }
+    } catch (error) {
+      this.eventBus.emit(EventType.ERROR_OCCURRED, {
+        error: error instanceof Error ? error : new Error(String(error)),
+        context: `MappingApplier.expr: ${mapping.source}`,
+        severity: 'error',
+      });
+    }
+  }
+
+  /**
+   * Track a <buffer> mapping and apply it if its buffer is active
+   */
+  private applyBufferMapping(mapping: KeyMapping): void {
+    mapping.buffer ??= this.activeBuffer ?? undefined;
+    this.bufferMappings.set(mapping.id, mapping);
+
+    if (this.isActiveBufferMapping(mapping)) {
+      this.applyToVim(mapping);
+    }
+
+    mapping.status = MappingStatus.APPLIED;
+    mapping.appliedAt = Date.now();
+    this.eventBus.emit(EventType.MAPPING_APPLIED, { mapping });
+  }
+
+  /**
+   * Check whether a <buffer> mapping belongs to the active buffer
+   */
+  private isActiveBufferMapping(mapping: KeyMapping): boolean {
+    return this.activeBuffer !== null && mapping.buffer === this.activeBuffer;
+  }
+
+  /**
+   * Check whether a <buffer> mapping of the active buffer holds a source+mode key
+   */
+  private isShadowed(key: string): boolean {
+    for (const mapping of this.bufferMappings.values()) {
+      if (this.isActiveBufferMapping(mapping) && this.getMappingKey(mapping.source, mapping.mode) === key) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Remove a <buffer> mapping from Vim, restoring a shadowed global mapping
+   */
+  private deactivateBufferMapping(mapping: KeyMapping): void {
+    this.vimAdapter.unmap(mapping.source, mapping.mode);
+    const shadowed = this.appliedMappings.get(this.getMappingKey(mapping.source, mapping.mode));
+    if (shadowed) {
+      this.applyToVim(shadowed);
+    }
   }
 
   /**
@@ -218,5 +605,6 @@ export class MappingApplier implements IMappingApplier {
    */
   cleanup(): void {
     this.appliedMappings.clear();
+    this.bufferMappings.clear();
   }
 }
@@ -0,0 +1,273 @@
+/**
+ * AbbreviationHandler - Handles Abbreviation Commands
+ *
+ * Processes Vim abbreviation commands:
+ * - abbreviate, iabbrev, cabbrev (recursive abbreviations)
+ * - noreabbrev, inoreabbrev, cnoreabbrev (non-recursive abbreviations)
+ * - unabbreviate, iunabbrev, cunabbrev (remove abbreviations)
+ * - abclear, iabclear, cabclear (remove all abbreviations of a mode)
+ *
+ * Stores abbreviations in AbbreviationStore; AbbreviationExpander expands
+ * them while typing.
+ *
+ * @module handlers/AbbreviationHandler
+ */
+
+import { Notice } from 'obsidian';
+import { BaseHandler, HandlerDependencies } from './BaseHandler';
+import type { Abbreviation, IAbbreviationStore } from '../types/mappings';
+import { VimMode, VIM_MODE_LETTERS } from '../types/mappings';
+import type { ParsedCommand, CommandType } from '../types/commands';
+import { CommandType as CT, ABBREVIATION_COMMAND_TYPES } from '../types/commands';
+import { keyCharacter, normalizeKeys, tokenizeKeys } from '../services/KeyNotation';
+import { isValidAbbreviation } from '../services/AbbreviationExpander';
+
+/**
+ * Dependencies for AbbreviationHandler
+ */
+export interface AbbreviationHandlerDependencies extends HandlerDependencies {
+  abbreviationStore: IAbbreviationStore;
+}
+
+/**
+ * Mode column of the abbreviation listing, as shown by `:abbreviate`
+ */
+const MODE_COLUMN: Partial<Record<VimMode, string>> = {
+  [VimMode.INSERT]: 'i',
+  [VimMode.COMMAND_LINE]: 'c',
+  [VimMode.INSERT_COMMAND_LINE]: '!',
+};
+
+/**
+ * AbbreviationHandler implementation
+ */
+export class AbbreviationHandler extends BaseHandler {
+  readonly supportedTypes = ABBREVIATION_COMMAND_TYPES;
+
+  private abbreviationStore: IAbbreviationStore;
+  private abbreviationIdCounter: number = 0;
+
+  /**
+   * Create a new AbbreviationHandler
+   *
+   * @param deps - Handler dependencies including AbbreviationStore
+   */
+  constructor(deps: AbbreviationHandlerDependencies) {
+    super(deps, 'mapping');
+    this.abbreviationStore = deps.abbreviationStore;
+  }
+
+  /**
+   * Handle an abbreviation command
+   *
+   * @param command - The parsed abbreviation command
+   */
+  async handle(command: ParsedCommand): Promise<void> {
+    switch (command.type) {
+      case CT.UNABBREVIATE:
+      case CT.IUNABBREV:
+      case CT.CUNABBREV:
+        this.handleUnabbreviate(command);
+        return;
+      case CT.ABCLEAR:
+      case CT.IABCLEAR:
+      case CT.CABCLEAR:
+        this.handleAbclear(command);
+        return;
+      default:
+        this.handleAbbreviate(command);
+    }
+  }
+
+  /**
+   * Handle a definition (iabbrev, ...), or list abbreviations without a right-hand side
+   * Format: iabbrev [<buffer>] {lhs} {rhs}
+   */
+  private handleAbbreviate(command: ParsedCommand): void {
+    const args = this.skipArguments(command);
+    const [lhs, ...rest] = args;
+    const mode = this.getModeFromCommandType(command.type);
+
+    if (rest.length === 0) {
+      this.listAbbreviations(mode, lhs ?? '');
+      return;
+    }
+
+    const abbreviation: Abbreviation = {
+      id: this.generateAbbreviationId(),
+      lhs: this.parseLhs(lhs),
+      rhs: normalizeKeys(rest.join(' ')),
+      mode,
+      recursive: ![CT.NOREABBREV, CT.INOREABBREV, CT.CNOREABBREV].includes(command.type),
+      lineNumber: command.lineNumber,
+      createdAt: Date.now(),
+    };
+
+    if (mode !== VimMode.INSERT && tokenizeKeys(abbreviation.rhs).some((key) => keyCharacter(key) === null)) {
+      this.warn(`Abbreviation at line ${command.lineNumber}: special keys are not typed on the command line`);
+    }
+
+    // A new definition replaces the old one in the modes it covers
+    this.removeAbbreviation(abbreviation.lhs, mode);
+
+    this.debug(`Adding abbreviation: ${abbreviation.lhs} -> ${abbreviation.rhs} (${mode})`);
+    this.abbreviationStore.add(abbreviation);
+  }
+
+  /**
+   * Handle unabbreviate command
+   * Format: iunabbrev [<buffer>] {lhs}
+   *
+   * @throws Error when no abbreviation for the text exists in the mode
+   */
+  private handleUnabbreviate(command: ParsedCommand): void {
+    const lhs = this.skipArguments(command)[0];
+    if (!lhs) {
+      throw new Error('E471: Argument required');
+    }
+
+    const mode = this.getModeFromCommandType(command.type);
+    if (!this.removeAbbreviation(this.parseLhs(lhs), mode)) {
+      throw new Error(`E24: No such abbreviation: ${lhs}`);
+    }
+  }
+
+  /**
+   * Handle abclear command
+   * Format: iabclear [<buffer>]
+   */
+  private handleAbclear(command: ParsedCommand): void {
+    const mode = this.getModeFromCommandType(command.type);
+    this.skipArguments(command);
+
+    this.debug(`Clearing abbreviations (${mode})`);
+    for (const abbreviation of this.abbreviationStore.getAll()) {
+      this.narrow(abbreviation, mode);
+    }
+  }
+
+  /**
+   * Remove an abbreviation from the modes of a command
+   *
+   * An `abbreviate` abbreviation removed from one mode stays in the other.
+   *
+   * @returns true if an abbreviation was removed from at least one mode
+   */
+  private removeAbbreviation(lhs: string, mode: VimMode): boolean {
+    let removed = false;
+    for (const abbreviation of this.abbreviationStore.getAll()) {
+      if (abbreviation.lhs === lhs) {
+        removed = this.narrow(abbreviation, mode) || removed;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Remove the modes of a command from an abbreviation
+   *
+   * @returns true if the abbreviation was used in any of the modes
+   */
+  private narrow(abbreviation: Abbreviation, mode: VimMode): boolean {
+    const letters = VIM_MODE_LETTERS[mode];
+    const remaining = [...VIM_MODE_LETTERS[abbreviation.mode]].filter((letter) => !letters.includes(letter));
+    if (remaining.length === VIM_MODE_LETTERS[abbreviation.mode].length) {
+      return false;
+    }
+
+    this.abbreviationStore.remove(abbreviation.id);
+    if (remaining.length > 0) {
+      const narrowed = remaining[0] === 'i' ? VimMode.INSERT : VimMode.COMMAND_LINE;
+      this.abbreviationStore.add({ ...abbreviation, mode: narrowed });
+    }
+    return true;
+  }
+
+  /**
+   * Show the abbreviations of a mode starting with a prefix
+   */
+  private listAbbreviations(mode: VimMode, prefix: string): void {
+    const letters = VIM_MODE_LETTERS[mode];
+    const abbreviations = this.abbreviationStore
+      .getAll()
+      .filter((abbreviation) => abbreviation.lhs.startsWith(prefix))
+      .filter((abbreviation) => [...VIM_MODE_LETTERS[abbreviation.mode]].some((letter) => letters.includes(letter)));
+    if (abbreviations.length === 0) {
+      new Notice('No abbreviation found');
+      return;
+    }
+
+    const rows = abbreviations.map((abbreviation) => {
+      const flag = abbreviation.recursive ? ' ' : '*';
+      return `${MODE_COLUMN[abbreviation.mode]}  ${abbreviation.lhs.padEnd(12)} ${flag} ${abbreviation.rhs}`;
+    });
+    new Notice(rows.join('\n'));
+  }
+
+  /**
+   * Skip the arguments before the left-hand side
+   *
+   * `<buffer>` abbreviations are used in every file, `<expr>` ones are not supported.
+   */
+  private skipArguments(command: ParsedCommand): string[] {
+    const args = [...command.args];
+    while (args.length > 0 && /^<(buffer|silent|expr)>$/i.test(args[0])) {
+      const argument = args.shift()!.toLowerCase();
+      if (argument === '<expr>') {
+        throw new Error('E474: Invalid argument: <expr> abbreviations are not supported');
+      }
+      if (argument === '<buffer>') {
+        this.warn(`<buffer> abbreviation at line ${command.lineNumber} applies to all files`);
+      }
+    }
+    return args;
+  }
+
+  /**
+   * Get the characters of a left-hand side
+   *
+   * @throws Error when the text cannot be an abbreviation (see isValidAbbreviation)
+   */
+  private parseLhs(lhs: string): string {
+    const chars = tokenizeKeys(lhs).map(keyCharacter);
+    const text = chars.join('');
+    if (chars.some((char) => char === null) || !isValidAbbreviation(text)) {
+      throw new Error(`E474: Invalid argument: ${lhs}`);
+    }
+    return text;
+  }
+
+  /**
+   * Get VimMode from abbreviation command type
+   */
+  private getModeFromCommandType(type: CommandType): VimMode {
+    switch (type) {
+      case CT.IABBREV:
+      case CT.INOREABBREV:
+      case CT.IUNABBREV:
+      case CT.IABCLEAR:
+        return VimMode.INSERT;
+      case CT.CABBREV:
+      case CT.CNOREABBREV:
+      case CT.CUNABBREV:
+      case CT.CABCLEAR:
+        return VimMode.COMMAND_LINE;
+      default:
+        return VimMode.INSERT_COMMAND_LINE;
+    }
+  }
+
+  /**
+   * Generate a unique abbreviation ID
+   */
+  private generateAbbreviationId(): string {
+    return `abbreviation_${++this.abbreviationIdCounter}`;
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    this.abbreviationIdCounter = 0;
+  }
+}
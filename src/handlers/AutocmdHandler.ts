@@ -0,0 +1,551 @@
+/**
+ * AutocmdHandler - Handles Autocommands
+ *
+ * Processes autocmd and augroup commands:
+ * - autocmd [group] {event}[,{event}] {pattern}[,{pattern}] [++once] {command}
+ * - autocmd! [group] [{event}] [{pattern}] [{command}] - Remove (and optionally replace)
+ * - augroup {name} / augroup END - Group the autocommands in between
+ * - augroup! {name} - Delete a group and its autocommands
+ *
+ * Events come from Obsidian and CodeMirror Vim:
+ * - InsertEnter, InsertLeave, ModeChanged: the active editor's `vim-mode-change`
+ * - BufEnter, BufLeave, FileType: workspace `active-leaf-change`
+ * - BufWritePost: vault `modify`
+ * - VimrcLoaded: EventType.VIMRC_LOADED
+ *
+ * Hooks are only attached while autocommands exist and are detached by
+ * `clearAutocmds`, which VimrcLoader calls on reload.
+ *
+ * @module handlers/AutocmdHandler
+ */
+
+import type { App, EventRef } from 'obsidian';
+import { BaseHandler, HandlerDependencies } from './BaseHandler';
+import type { ParsedCommand, AutocmdDefinition, AutocmdEvent, IAutocmdProvider } from '../types/commands';
+import { CommandType as CT, AUTOCMD_COMMAND_TYPES, AUTOCMD_EVENTS } from '../types/commands';
+import type { Unsubscribe } from '../types/events';
+import { EventType } from '../types/events';
+
+/**
+ * Context passed to the executor when an autocommand fires
+ */
+export interface AutocmdContext {
+  event: AutocmdEvent;
+  /** The text the pattern matched: file path, file type or `old:new` modes */
+  match: string;
+  /** Vault-relative path of the file the event applies to, if any */
+  file: string | null;
+  /** The autocommand being executed */
+  autocmd: AutocmdDefinition;
+}
+
+/**
+ * Executes the command line of an autocommand
+ */
+export type AutocmdExecutor = (command: string, context: AutocmdContext) => Promise<void>;
+
+/**
+ * Dependencies for AutocmdHandler
+ */
+export interface AutocmdHandlerDependencies extends HandlerDependencies {
+  app: App;
+  execute: AutocmdExecutor;
+}
+
+/**
+ * CodeMirror editor interface (minimal typing for what we need)
+ */
+interface CodeMirrorEditor {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  on: (event: string, handler: (...args: any[]) => void) => void;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  off: (event: string, handler: (...args: any[]) => void) => void;
+  state?: { vim?: VimState };
+}
+
+/**
+ * Vim state from CodeMirror
+ */
+interface VimState {
+  mode?: string;
+  subMode?: string;
+}
+
+/**
+ * File types by extension, for FileType patterns
+ */
+const FILE_TYPES: Record<string, string> = {
+  md: 'markdown',
+  js: 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  vim: 'vim',
+  vimrc: 'vim',
+};
+
+/**
+ * Get the file type of a vault path
+ */
+export function getFileType(path: string): string {
+  const name = path.split('/').pop() ?? '';
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  return FILE_TYPES[extension] ?? extension;
+}
+
+/**
+ * Convert a single autocommand glob to a regular expression
+ *
+ * `*` matches any characters (including `/`), `?` one character, `[abc]` a
+ * character class and `{a,b}` alternatives.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += glob.slice(i, end + 1);
+        i = end;
+      }
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Split a pattern list at commas outside `{}`
+ */
+function splitPatterns(pattern: string): string[] {
+  const patterns: string[] = [];
+  let current = '';
+  let braces = 0;
+  for (const char of pattern) {
+    if (char === ',' && braces === 0) {
+      patterns.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '{') braces++;
+    if (char === '}' && braces > 0) braces--;
+    current += char;
+  }
+  patterns.push(current);
+  return patterns.filter((item) => item.length > 0);
+}
+
+/**
+ * Check whether an autocommand pattern matches a path, file type or mode change
+ *
+ * Like Vim, a pattern without `/` is matched against the last path component only.
+ *
+ * @param pattern - Comma-separated globs, e.g. `*.md,Journal/*`
+ * @param text - The text to match
+ */
+export function matchAutocmdPattern(pattern: string, text: string): boolean {
+  return splitPatterns(pattern).some((glob) => {
+    const target = glob.includes('/') ? text : text.split('/').pop() ?? text;
+    return globToRegExp(glob).test(target);
+  });
+}
+
+/**
+ * Find an event by name, case-insensitively
+ */
+function findEvent(name: string): AutocmdEvent | undefined {
+  return AUTOCMD_EVENTS.find((event) => event.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * AutocmdHandler implementation
+ * Implements IAutocmdProvider for decoupled access from VimrcLoader
+ */
+export class AutocmdHandler extends BaseHandler implements IAutocmdProvider {
+  readonly supportedTypes = AUTOCMD_COMMAND_TYPES;
+
+  private app: App;
+  private execute: AutocmdExecutor;
+  private autocmds: AutocmdDefinition[] = [];
+  private groups: Set<string> = new Set();
+  private currentGroup: string | null = null;
+
+  /** Hooks attached while autocommands exist */
+  private eventRefs: Array<{ source: 'workspace' | 'vault'; ref: EventRef }> = [];
+  private subscriptions: Unsubscribe[] = [];
+  private listening = false;
+
+  /** Editor and handler of the attached vim-mode-change listener */
+  private editor: CodeMirrorEditor | null = null;
+  private modeChangeHandler: ((state: VimState) => void) | null = null;
+  private currentFile: string | null = null;
+  private currentMode = 'n';
+
+  /**
+   * Event of the autocommands executing; they do not trigger it again, as
+   * Vim does not nest autocommands
+   */
+  private executing: { event: AutocmdEvent; match: string } | null = null;
+  /** Other events that occurred while autocommands were executing, triggered after them */
+  private queued: Array<{ event: AutocmdEvent; match: string; file: string | null }> = [];
+
+  /**
+   * Create a new AutocmdHandler
+   *
+   * @param deps - Handler dependencies
+   */
+  constructor(deps: AutocmdHandlerDependencies) {
+    super(deps, 'plugin');
+    this.app = deps.app;
+    this.execute = deps.execute;
+  }
+
+  async handle(command: ParsedCommand): Promise<void> {
+    if (command.type === CT.AUGROUP) {
+      this.handleAugroup(command);
+    } else {
+      this.handleAutocmd(command);
+    }
+  }
+
+  /**
+   * Handle augroup command
+   * Format: augroup <name> / augroup END / augroup! <name>
+   */
+  private handleAugroup(command: ParsedCommand): void {
+    const name = command.args[0];
+    if (!name) {
+      throw new Error('E471: Argument required');
+    }
+
+    if (command.bang) {
+      if (!this.groups.has(name)) {
+        throw new Error(`E367: No such group: "${name}"`);
+      }
+      this.groups.delete(name);
+      this.autocmds = this.autocmds.filter((autocmd) => autocmd.group !== name);
+      return;
+    }
+
+    if (name.toLowerCase() === 'end') {
+      this.currentGroup = null;
+      return;
+    }
+
+    this.groups.add(name);
+    this.currentGroup = name;
+  }
+
+  /**
+   * Handle autocmd command
+   * Format: autocmd[!] [group] <events> <pattern> [++once] <command>
+   */
+  private handleAutocmd(command: ParsedCommand): void {
+    const args = [...command.args];
+
+    let group = this.currentGroup;
+    if (args.length > 0 && this.groups.has(args[0]) && !findEvent(args[0].split(',')[0])) {
+      group = args.shift()!;
+    }
+
+    let events: AutocmdEvent[] | null = null;
+    if (args.length > 0 && args[0] !== '*') {
+      events = args.shift()!.split(',').map((name) => {
+        const event = findEvent(name);
+        if (!event) {
+          throw new Error(`E216: No such event: ${name}`);
+        }
+        return event;
+      });
+    } else if (args[0] === '*') {
+      args.shift();
+    }
+
+    const pattern = args.shift() ?? null;
+
+    let once = false;
+    while (args[0]?.startsWith('++')) {
+      const flag = args.shift()!;
+      if (flag === '++once') {
+        once = true;
+      } else if (flag !== '++nested') {
+        throw new Error(`E475: Invalid argument: ${flag}`);
+      }
+    }
+
+    if (command.bang) {
+      this.removeAutocmds(group, events, pattern);
+    }
+
+    if (args.length === 0) {
+      if (!command.bang) {
+        this.debug(`autocmd without a command at line ${command.lineNumber} ignored`);
+      }
+      return;
+    }
+
+    if (!events || !pattern) {
+      throw new Error('E471: Argument required');
+    }
+
+    const body = args.join(' ');
+    for (const event of events) {
+      this.autocmds.push({
+        group,
+        event,
+        pattern,
+        command: body,
+        once,
+        lineNumber: command.lineNumber,
+        filePath: command.filePath,
+      });
+    }
+    this.startListening();
+  }
+
+  /**
+   * Remove autocommands of a group, optionally limited to events and a pattern
+   */
+  private removeAutocmds(group: string | null, events: AutocmdEvent[] | null, pattern: string | null): void {
+    this.autocmds = this.autocmds.filter((autocmd) =>
+      autocmd.group !== group
+      || (events !== null && !events.includes(autocmd.event))
+      || (pattern !== null && autocmd.pattern !== pattern));
+  }
+
+  /**
+   * Run the autocommands registered for an event whose pattern matches
+   *
+   * Execution awaits, so events occurring meanwhile, e.g. entering another
+   * file, are queued and triggered once the running autocommands are done.
+   *
+   * @param event - The event that occurred
+   * @param match - Text matched against the patterns
+   * @param file - File the event applies to
+   */
+  async trigger(event: AutocmdEvent, match: string, file: string | null = null): Promise<void> {
+    if (this.executing) {
+      if (this.executing.event !== event || this.executing.match !== match) {
+        this.queued.push({ event, match, file });
+      }
+      return;
+    }
+
+    const matching = this.autocmds.filter((autocmd) =>
+      autocmd.event === event && matchAutocmdPattern(autocmd.pattern, match));
+    if (matching.length === 0) {
+      return;
+    }
+
+    this.executing = { event, match };
+    try {
+      for (const autocmd of matching) {
+        if (autocmd.once) {
+          this.autocmds = this.autocmds.filter((item) => item !== autocmd);
+        }
+        this.debug(`${event} ${match}: ${autocmd.command}`);
+        try {
+          await this.execute(autocmd.command, { event, match, file, autocmd });
+        } catch (error) {
+          this.error(`Autocommand ${event} ${autocmd.pattern} failed`, error as Error);
+        }
+      }
+    } finally {
+      this.executing = null;
+    }
+
+    for (let next = this.queued.shift(); next; next = this.queued.shift()) {
+      await this.trigger(next.event, next.match, next.file);
+    }
+  }
+
+  /**
+   * Attach the Obsidian, Vim and plugin event hooks
+   */
+  private startListening(): void {
+    if (this.listening) {
+      return;
+    }
+    this.listening = true;
+
+    this.currentFile = this.app.workspace.getActiveFile()?.path ?? null;
+
+    this.eventRefs.push(
+      {
+        source: 'workspace',
+        ref: this.app.workspace.on('active-leaf-change', () => {
+          void this.onActiveFileChange();
+        }),
+      },
+      {
+        source: 'vault',
+        ref: this.app.vault.on('modify', (file) => {
+          void this.trigger('BufWritePost', file.path, file.path);
+        }),
+      }
+    );
+
+    this.subscriptions.push(
+      this.eventBus.on(EventType.VIMRC_LOADED, (result) => {
+        void this.trigger('VimrcLoaded', result.path ?? '', result.path);
+      })
+    );
+
+    this.modeChangeHandler = (state: VimState) => {
+      void this.onModeChange(state);
+    };
+    this.attachToActiveEditor();
+  }
+
+  /**
+   * Detach every hook
+   */
+  private stopListening(): void {
+    for (const { source, ref } of this.eventRefs) {
+      if (source === 'workspace') {
+        this.app.workspace.offref(ref);
+      } else {
+        this.app.vault.offref(ref);
+      }
+    }
+    this.eventRefs = [];
+    this.subscriptions.forEach((unsubscribe) => unsubscribe());
+    this.subscriptions = [];
+    this.detachFromEditor();
+    this.modeChangeHandler = null;
+    this.listening = false;
+  }
+
+  /**
+   * Fire BufLeave / BufEnter / FileType when the active file changes
+   */
+  private async onActiveFileChange(): Promise<void> {
+    this.attachToActiveEditor();
+
+    const file = this.app.workspace.getActiveFile()?.path ?? null;
+    if (file === this.currentFile) {
+      return;
+    }
+
+    const previous = this.currentFile;
+    this.currentFile = file;
+
+    if (previous !== null) {
+      await this.trigger('BufLeave', previous, previous);
+    }
+    if (file !== null) {
+      await this.trigger('BufEnter', file, file);
+      await this.trigger('FileType', getFileType(file), file);
+    }
+  }
+
+  /**
+   * Fire InsertEnter / InsertLeave / ModeChanged for a vim-mode-change event
+   */
+  private async onModeChange(state: VimState): Promise<void> {
+    const mode = this.toModeName(state);
+    const previous = this.currentMode;
+    if (mode === previous) {
+      return;
+    }
+    this.currentMode = mode;
+
+    if (mode === 'i') {
+      await this.trigger('InsertEnter', this.currentFile ?? '', this.currentFile);
+    } else if (previous === 'i') {
+      await this.trigger('InsertLeave', this.currentFile ?? '', this.currentFile);
+    }
+    await this.trigger('ModeChanged', `${previous}:${mode}`, this.currentFile);
+  }
+
+  /**
+   * Convert a CodeMirror Vim mode to Vim's mode() letter
+   */
+  private toModeName(state: VimState): string {
+    switch (state?.mode) {
+      case 'insert':
+        return 'i';
+      case 'replace':
+        return 'R';
+      case 'visual':
+        if (state.subMode === 'linewise') return 'V';
+        if (state.subMode === 'blockwise') return '\x16';
+        return 'v';
+      default:
+        return 'n';
+    }
+  }
+
+  /**
+   * Attach the vim-mode-change listener to the active editor
+   */
+  private attachToActiveEditor(): void {
+    this.detachFromEditor();
+
+    const view = this.app.workspace.activeLeaf?.view;
+    if (!view || !this.modeChangeHandler) return;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const editor = (view as any).editor?.cm?.cm || (view as any).editor?.cm;
+    if (!editor || typeof editor.on !== 'function') return;
+
+    this.editor = editor as CodeMirrorEditor;
+    this.editor.on('vim-mode-change', this.modeChangeHandler);
+    this.currentMode = this.toModeName(this.editor.state?.vim ?? {});
+  }
+
+  /**
+   * Detach from the current editor
+   */
+  private detachFromEditor(): void {
+    if (this.editor && this.modeChangeHandler) {
+      try {
+        this.editor.off('vim-mode-change', this.modeChangeHandler);
+      } catch {
+        // Ignore errors when detaching
+      }
+    }
+    this.editor = null;
+  }
+
+  /** Get all registered autocommands */
+  getAutocmds(): AutocmdDefinition[] {
+    return [...this.autocmds];
+  }
+
+  /** Get all defined groups */
+  getGroups(): string[] {
+    return Array.from(this.groups);
+  }
+
+  /** Remove all autocommands and groups and detach every hook */
+  clearAutocmds(): void {
+    this.autocmds = [];
+    this.queued = [];
+    this.groups.clear();
+    this.currentGroup = null;
+    this.stopListening();
+  }
+
+  cleanup(): void {
+    this.clearAutocmds();
+  }
+}
@@ -81,7 +81,7 @@ export class ExmapHandler extends BaseHandler implements IExmapProvider {
     }
 
     // Store exmap definition
-    this.exmapDefinitions.set(name, { name, commandId, lineNumber: command.lineNumber });
+    this.exmapDefinitions.set(name, { name, commandId, lineNumber: command.lineNumber, filePath: command.filePath });
   }
 
   /**
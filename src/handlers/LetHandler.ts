@@ -4,6 +4,7 @@
  * Processes let commands for variable assignment:
  * - let mapleader = "<Space>" - Set the leader key
  * - let g:variable = value - Set global variables
+ * - unlet g:variable - Remove variables
  *
  * @module handlers/LetHandler
  *
@@ -12,15 +13,18 @@
  */
 
 import { BaseHandler, HandlerDependencies } from './BaseHandler';
-import type { ParsedCommand, CommandType } from '../types/commands';
+import type { ParsedCommand } from '../types/commands';
 import { CommandType as CT, LET_COMMAND_TYPES } from '../types/commands';
+import { ExpressionEvaluator, toStringValue } from '../services/ExpressionEvaluator';
+import type { VimValue } from '../services/ExpressionEvaluator';
+import { VariableStore, executeLet, executeUnlet } from '../services/VariableStore';
 
 /**
  * Variable definition
  */
 export interface VariableDefinition {
   name: string;
-  value: string;
+  value: VimValue;
   lineNumber: number;
 }
 
@@ -34,17 +38,23 @@ export type LeaderKeyChangeCallback = (newLeader: string) => void;
  */
 export interface LetHandlerDependencies extends HandlerDependencies {
   onLeaderKeyChange?: LeaderKeyChangeCallback;
+  /** Variables to update; defaults to a store owned by the handler */
+  variables?: VariableStore;
 }
 
 /**
  * LetHandler implementation
  *
- * Handles let commands for variable assignment, particularly the mapleader variable.
+ * Handles let/unlet commands for variable assignment, particularly the
+ * mapleader variable. Statements are evaluated with the same expression
+ * language as the parser.
  */
 export class LetHandler extends BaseHandler {
   readonly supportedTypes = LET_COMMAND_TYPES;
 
   private variables: Map<string, VariableDefinition> = new Map();
+  private store: VariableStore;
+  private evaluator: ExpressionEvaluator;
   private leaderKey: string = '\\';
   private onLeaderKeyChange?: LeaderKeyChangeCallback;
 
@@ -56,111 +66,47 @@ export class LetHandler extends BaseHandler {
   constructor(deps: LetHandlerDependencies) {
     super(deps, 'mapping');
     this.onLeaderKeyChange = deps.onLeaderKeyChange;
+    this.store = deps.variables ?? new VariableStore();
+    this.evaluator = new ExpressionEvaluator({
+      getVariable: (name) => this.store.get(name),
+    });
   }
 
   /**
-   * Handle a let command
-   * Format: let <variable> = <value>
+   * Handle a let or unlet command
+   * Format: let <variable> <op> <expression> / unlet[!] <variable>...
    *
-   * @param command - The parsed let command
+   * @param command - The parsed let/unlet command
    */
   async handle(command: ParsedCommand): Promise<void> {
-    // Parse the let command
-    // Format: let mapleader = "<Space>"
-    // args might be: ["mapleader", "=", "\"<Space>\""] or ["mapleader=<Space>"]
-
-    const args = command.args;
-    if (args.length === 0) {
-      this.warn(`let requires variable assignment at line ${command.lineNumber}`);
+    const statement = command.args.join(' ');
+    if (statement.length === 0) {
+      this.warn(`${command.type} requires a variable at line ${command.lineNumber}`);
       return;
     }
 
-    // Try to parse different formats
-    let varName: string;
-    let value: string;
-
-    if (args.length >= 3 && args[1] === '=') {
-      // Format: let varName = value
-      varName = args[0];
-      value = args.slice(2).join(' ');
-    } else if (args.length === 1 && args[0].includes('=')) {
-      // Format: let varName=value
-      const parts = args[0].split('=');
-      varName = parts[0];
-      value = parts.slice(1).join('=');
-    } else if (args.length >= 2 && args[0].endsWith('=')) {
-      // Format: let varName= value
-      varName = args[0].slice(0, -1);
-      value = args.slice(1).join(' ');
-    } else if (args.length >= 2 && args[1].startsWith('=')) {
-      // Format: let varName =value
-      varName = args[0];
-      value = args[1].slice(1) + (args.length > 2 ? ' ' + args.slice(2).join(' ') : '');
-    } else {
-      this.warn(`Invalid let syntax at line ${command.lineNumber}: ${command.raw}`);
+    if (command.type === CT.UNLET) {
+      executeUnlet(statement, this.store, command.bang === true);
+      for (const name of statement.split(/\s+/)) {
+        this.variables.delete(name);
+      }
       return;
     }
 
-    // Clean up the value (remove quotes)
-    value = this.parseValue(value);
+    const { name, value } = executeLet(statement, this.store, this.evaluator);
 
     // Store the variable
     const definition: VariableDefinition = {
-      name: varName,
+      name,
       value,
       lineNumber: command.lineNumber,
     };
-    this.variables.set(varName, definition);
+    this.variables.set(name, definition);
 
     // Handle special variables
-    if (varName === 'mapleader' || varName === 'g:mapleader') {
-      this.setLeaderKey(value);
-    }
-  }
-
-  /**
-   * Parse a value, removing quotes and handling special keys
-   */
-  private parseValue(value: string): string {
-    // Remove surrounding quotes
-    let result = value.trim();
-    if (
-      (result.startsWith('"') && result.endsWith('"')) ||
-      (result.startsWith("'") && result.endsWith("'"))
-    ) {
-      result = result.slice(1, -1);
-    }
-
-    // Handle special key notations
-    result = this.parseSpecialKeys(result);
-
-    return result;
-  }
-
-  /**
-   * Parse special key notations like <Space>, <CR>, etc.
-   */
-  private parseSpecialKeys(value: string): string {
-    // Map of special key notations to their actual values
-    const specialKeys: Record<string, string> = {
-      '<Space>': ' ',
-      '<space>': ' ',
-      '<CR>': '\n',
-      '<cr>': '\n',
-      '<Tab>': '\t',
-      '<tab>': '\t',
-      '<Esc>': '\x1b',
-      '<esc>': '\x1b',
-      '<BS>': '\b',
-      '<bs>': '\b',
-    };
-
-    let result = value;
-    for (const [key, replacement] of Object.entries(specialKeys)) {
-      result = result.replace(new RegExp(key, 'gi'), replacement);
+    if ((name === 'mapleader' || name === 'g:mapleader') && typeof value !== 'object') {
+      this.setLeaderKey(toStringValue(value));
     }
-
-    return result;
   }
 
   /**
@@ -183,7 +129,7 @@ export class LetHandler extends BaseHandler {
   /**
    * Get a variable value by name
    */
-  getVariable(name: string): string | undefined {
+  getVariable(name: string): VimValue | undefined {
     return this.variables.get(name)?.value;
   }
 
@@ -213,6 +159,7 @@ export class LetHandler extends BaseHandler {
    */
   cleanup(): void {
     this.variables.clear();
+    this.store.clear();
     this.leaderKey = '\\';
   }
 }
@@ -2,9 +2,13 @@
  * MappingHandler - Handles Key Mapping Commands
  *
  * Processes standard Vim mapping commands:
- * - map, nmap, imap, vmap (recursive mappings)
- * - noremap, nnoremap, inoremap, vnoremap (non-recursive mappings)
- * - unmap, nunmap, iunmap, vunmap (remove mappings)
+ * - map, nmap, vmap, xmap, smap, omap, imap, cmap, lmap, map! (recursive mappings)
+ * - noremap, nnoremap, vnoremap, ... noremap! (non-recursive mappings)
+ * - unmap, nunmap, vunmap, ... unmap! (remove mappings)
+ * - mapclear, nmapclear, vmapclear, ... mapclear! (remove all mappings of a mode)
+ *
+ * Map commands typed on the Vim command line without a right-hand side list
+ * mappings through the onList callback.
  *
  * Stores mappings in MappingStore for later application via MappingApplier.
  *
@@ -16,16 +20,19 @@
  */
 
 import { BaseHandler, HandlerDependencies } from './BaseHandler';
-import type { IMappingStore, KeyMapping } from '../types/mappings';
-import { VimMode, MappingStatus } from '../types/mappings';
+import type { IMappingStore, KeyMapping, MapModifiers } from '../types/mappings';
+import { VimMode, MappingStatus, MAP_MODIFIER_NAMES, VIM_MODE_LETTERS } from '../types/mappings';
 import type { ParsedCommand, CommandType } from '../types/commands';
 import {
   CommandType as CT,
+  MAPCLEAR_COMMAND_TYPES,
   MAPPING_COMMAND_TYPES,
   NON_RECURSIVE_COMMAND_TYPES,
   UNMAP_COMMAND_TYPES,
 } from '../types/commands';
 import { getLogger } from '../services/Logger';
+import { normalizeKeys } from '../services/KeyNotation';
+import type { MappingListCallback } from '../services/MappingList';
 
 const log = getLogger('mapping');
 
@@ -34,6 +41,173 @@ const log = getLogger('mapping');
  */
 export interface MappingHandlerDependencies extends HandlerDependencies {
   mappingStore: IMappingStore;
+  /** Show the mappings a map command without right-hand side lists */
+  onList?: MappingListCallback;
+}
+
+/**
+ * Split leading map arguments (<silent>, <buffer>, ...) from the arguments
+ *
+ * Map arguments may be separate or written together, e.g. `<silent><buffer>`.
+ */
+export function parseMapArguments(args: string[]): { modifiers: MapModifiers; args: string[] } {
+  const modifiers: MapModifiers = {};
+  const remaining = [...args];
+
+  while (remaining.length > 0) {
+    const match = remaining[0].match(/^<([a-z]+)>/i);
+    const name = match?.[1].toLowerCase() as keyof MapModifiers | undefined;
+    if (!match || !name || !MAP_MODIFIER_NAMES.includes(name)) {
+      break;
+    }
+    modifiers[name] = true;
+    remaining[0] = remaining[0].slice(match[0].length);
+    if (remaining[0].length === 0) {
+      remaining.shift();
+    }
+  }
+
+  return { modifiers, args: remaining };
+}
+
+/**
+ * Modes a mapping is split into, widest first
+ */
+const SPLIT_MODES: VimMode[] = [
+  VimMode.ALL,
+  VimMode.INSERT_COMMAND_LINE,
+  VimMode.VISUAL,
+  VimMode.NORMAL,
+  VimMode.VISUAL_ONLY,
+  VimMode.SELECT,
+  VimMode.OPERATOR_PENDING,
+  VimMode.INSERT,
+  VimMode.COMMAND_LINE,
+  VimMode.LANG_ARG,
+];
+
+/**
+ * Get the modes a mapping keeps after an unmap or mapclear of a mode
+ *
+ * Like Vim, only the modes of the unmap are removed: `map x y` then
+ * `nunmap x` leaves x mapped in Visual, Select and Operator-pending mode.
+ *
+ * @param mode - Mode of the unmap or mapclear
+ * @param mappingMode - Mode of the mapping
+ * @returns The modes left, empty when the mapping is removed in every mode
+ */
+export function remainingModes(mode: VimMode, mappingMode: VimMode): VimMode[] {
+  const removed = VIM_MODE_LETTERS[mode];
+  let letters = [...VIM_MODE_LETTERS[mappingMode]].filter((letter) => !removed.includes(letter)).join('');
+  if (letters === VIM_MODE_LETTERS[mappingMode]) {
+    return [mappingMode];
+  }
+  const modes: VimMode[] = [];
+  for (const candidate of SPLIT_MODES) {
+    const candidateLetters = VIM_MODE_LETTERS[candidate];
+    if ([...candidateLetters].every((letter) => letters.includes(letter))) {
+      modes.push(candidate);
+      letters = [...letters].filter((letter) => !candidateLetters.includes(letter)).join('');
+    }
+  }
+  return modes;
+}
+
+/**
+ * Get VimMode from map command type
+ */
+export function getMapMode(type: CommandType): VimMode {
+  switch (type) {
+    case CT.NMAP:
+    case CT.NNOREMAP:
+      return VimMode.NORMAL;
+    case CT.IMAP:
+    case CT.INOREMAP:
+      return VimMode.INSERT;
+    case CT.VMAP:
+    case CT.VNOREMAP:
+      return VimMode.VISUAL;
+    case CT.XMAP:
+    case CT.XNOREMAP:
+      return VimMode.VISUAL_ONLY;
+    case CT.SMAP:
+    case CT.SNOREMAP:
+      return VimMode.SELECT;
+    case CT.OMAP:
+    case CT.ONOREMAP:
+      return VimMode.OPERATOR_PENDING;
+    case CT.CMAP:
+    case CT.CNOREMAP:
+      return VimMode.COMMAND_LINE;
+    case CT.LMAP:
+    case CT.LNOREMAP:
+      return VimMode.LANG_ARG;
+    case CT.MAP_BANG:
+    case CT.NOREMAP_BANG:
+      return VimMode.INSERT_COMMAND_LINE;
+    case CT.MAP:
+    case CT.NOREMAP:
+    default:
+      return VimMode.ALL;
+  }
+}
+
+/**
+ * Get VimMode from unmap command type
+ */
+export function getUnmapMode(type: CommandType): VimMode {
+  switch (type) {
+    case CT.NUNMAP:
+      return VimMode.NORMAL;
+    case CT.IUNMAP:
+      return VimMode.INSERT;
+    case CT.VUNMAP:
+      return VimMode.VISUAL;
+    case CT.XUNMAP:
+      return VimMode.VISUAL_ONLY;
+    case CT.SUNMAP:
+      return VimMode.SELECT;
+    case CT.OUNMAP:
+      return VimMode.OPERATOR_PENDING;
+    case CT.CUNMAP:
+      return VimMode.COMMAND_LINE;
+    case CT.LUNMAP:
+      return VimMode.LANG_ARG;
+    case CT.UNMAP_BANG:
+      return VimMode.INSERT_COMMAND_LINE;
+    case CT.UNMAP:
+    default:
+      return VimMode.ALL;
+  }
+}
+
+/**
+ * Get VimMode from mapclear command type
+ */
+export function getMapclearMode(type: CommandType): VimMode {
+  switch (type) {
+    case CT.NMAPCLEAR:
+      return VimMode.NORMAL;
+    case CT.IMAPCLEAR:
+      return VimMode.INSERT;
+    case CT.VMAPCLEAR:
+      return VimMode.VISUAL;
+    case CT.XMAPCLEAR:
+      return VimMode.VISUAL_ONLY;
+    case CT.SMAPCLEAR:
+      return VimMode.SELECT;
+    case CT.OMAPCLEAR:
+      return VimMode.OPERATOR_PENDING;
+    case CT.CMAPCLEAR:
+      return VimMode.COMMAND_LINE;
+    case CT.LMAPCLEAR:
+      return VimMode.LANG_ARG;
+    case CT.MAPCLEAR_BANG:
+      return VimMode.INSERT_COMMAND_LINE;
+    case CT.MAPCLEAR:
+    default:
+      return VimMode.ALL;
+  }
 }
 
 /**
@@ -45,6 +219,7 @@ export class MappingHandler extends BaseHandler {
   readonly supportedTypes = MAPPING_COMMAND_TYPES;
 
   private mappingStore: IMappingStore;
+  private onList?: MappingListCallback;
   private leaderKey: string = '\\';
   private mappingIdCounter: number = 0;
 
@@ -56,6 +231,7 @@ export class MappingHandler extends BaseHandler {
   constructor(deps: MappingHandlerDependencies) {
     super(deps, 'mapping');
     this.mappingStore = deps.mappingStore;
+    this.onList = deps.onList;
   }
 
   /**
@@ -70,36 +246,71 @@ export class MappingHandler extends BaseHandler {
       return;
     }
 
+    if (MAPCLEAR_COMMAND_TYPES.includes(command.type)) {
+      this.handleMapclear(command);
+      return;
+    }
+
     // Handle regular mapping commands
     await this.handleMapping(command);
   }
 
   /**
    * Handle a regular mapping command (map, nmap, noremap, etc.)
+   *
+   * Typed without a right-hand side the command lists mappings instead, like
+   * `:nmap <leader>`; in a vimrc file it is skipped with a warning.
    */
   private async handleMapping(command: ParsedCommand): Promise<void> {
-    const [from, ...rest] = command.args;
+    const { modifiers, args } = parseMapArguments(command.args);
+    const [from, ...rest] = args;
     const to = rest.join(' ');
 
+    if (!to && this.onList && command.interactive) {
+      this.onList({
+        mode: getMapMode(command.type),
+        prefix: from ? this.parseKeySequence(from) : '',
+        verbose: command.verbose === true,
+      });
+      return;
+    }
+
     if (!from || !to) {
       this.warn(`Invalid mapping at line ${command.lineNumber}: expected at least 2 arguments`);
       return;
     }
 
-    const mode = this.getModeFromCommandType(command.type);
+    const mode = getMapMode(command.type);
     const recursive = this.isRecursiveMapping(command.type);
+    const source = this.parseKeySequence(from);
+
+    if (mode === VimMode.SELECT) {
+      this.warn(`Select mode mapping at line ${command.lineNumber} has no effect: CodeMirror Vim has no Select mode`);
+    }
+    if (modifiers.expr && VIM_MODE_LETTERS[mode].includes('c')) {
+      this.warn(`<expr> mapping at line ${command.lineNumber} does not apply in Command-line mode`);
+    }
+
+    if (modifiers.unique && this.hasMapping(source, mode, modifiers.buffer === true)) {
+      throw new Error(`E227: Mapping already exists for ${from}`);
+    }
 
     // Create mapping with metadata
     const mapping: KeyMapping = {
       id: this.generateMappingId(),
-      source: this.parseKeySequence(from),
-      target: this.parseKeySequence(to),
+      source,
+      // <expr> targets are expressions, not key sequences
+      target: modifiers.expr ? to : this.parseKeySequence(to),
       mode,
       recursive,
       lineNumber: command.lineNumber,
+      filePath: command.filePath,
       createdAt: Date.now(),
       status: MappingStatus.PENDING,
     };
+    if (Object.keys(modifiers).length > 0) {
+      mapping.modifiers = modifiers;
+    }
 
     log.debug(`Adding mapping: ${mapping.source} -> ${mapping.target} (${mode}, ${recursive ? 'recursive' : 'noremap'})`);
 
@@ -112,62 +323,68 @@ export class MappingHandler extends BaseHandler {
    * Format: nunmap <key>
    */
   private async handleUnmap(command: ParsedCommand): Promise<void> {
-    const key = command.args[0];
+    const key = parseMapArguments(command.args).args[0];
     if (!key) {
       this.warn(`unmap requires a key at line ${command.lineNumber}`);
       return;
     }
 
     const parsedKey = this.parseKeySequence(key);
-    const mode = this.getModeFromUnmapType(command.type);
+    const mode = getUnmapMode(command.type);
 
     log.debug(`Unmapping: ${parsedKey} (${mode})`);
 
-    // Remove matching mappings from store
-    this.mappingStore.removeBySource(parsedKey, mode === 'all' ? undefined : mode);
+    // Remove the mappings in the modes of the unmap, e.g. `unmap` removes nmap and vmap mappings
+    for (const mapping of this.mappingStore.query({ source: parsedKey })) {
+      this.removeModes(mapping, mode);
+    }
   }
 
   /**
-   * Get VimMode from command type
+   * Handle mapclear command
+   * Format: nmapclear [<buffer>]
+   *
+   * With <buffer> only <buffer> mappings are removed, otherwise only global ones.
    */
-  private getModeFromCommandType(type: CommandType): VimMode {
-    switch (type) {
-      case CT.NMAP:
-      case CT.NNOREMAP:
-        return VimMode.NORMAL;
-      case CT.IMAP:
-      case CT.INOREMAP:
-        return VimMode.INSERT;
-      case CT.VMAP:
-      case CT.VNOREMAP:
-        return VimMode.VISUAL;
-      case CT.OMAP:
-      case CT.ONOREMAP:
-        return VimMode.OPERATOR_PENDING;
-      case CT.MAP:
-      case CT.NOREMAP:
-      default:
-        return VimMode.ALL;
+  private handleMapclear(command: ParsedCommand): void {
+    const buffer = parseMapArguments(command.args).modifiers.buffer === true;
+    const mode = getMapclearMode(command.type);
+
+    log.debug(`Clearing mappings (${mode}${buffer ? ', <buffer>' : ''})`);
+
+    for (const mapping of this.mappingStore.getAll()) {
+      if ((mapping.modifiers?.buffer === true) === buffer) {
+        this.removeModes(mapping, mode);
+      }
     }
   }
 
   /**
-   * Get VimMode from unmap command type
+   * Remove a mapping in the modes of an unmap or mapclear, keeping it in its other modes
    */
-  private getModeFromUnmapType(type: CommandType): VimMode {
-    switch (type) {
-      case CT.NUNMAP:
-        return VimMode.NORMAL;
-      case CT.IUNMAP:
-        return VimMode.INSERT;
-      case CT.VUNMAP:
-        return VimMode.VISUAL;
-      case CT.UNMAP:
-      default:
-        return VimMode.ALL;
+  private removeModes(mapping: KeyMapping, mode: VimMode): void {
+    const modes = remainingModes(mode, mapping.mode);
+    if (modes.length === 1 && modes[0] === mapping.mode) {
+      return;
+    }
+    this.mappingStore.remove(mapping.id);
+    for (const remaining of modes) {
+      this.mappingStore.add({ ...mapping, id: this.generateMappingId(), mode: remaining, status: MappingStatus.PENDING });
     }
   }
 
+  /**
+   * Check whether a mapping for the keys already exists in an overlapping mode,
+   * among the <buffer> mappings for a <buffer> mapping and the global ones otherwise
+   */
+  private hasMapping(source: string, mode: VimMode, buffer: boolean): boolean {
+    const letters = VIM_MODE_LETTERS[mode];
+    return this.mappingStore
+      .query({ source })
+      .some((existing) => (existing.modifiers?.buffer === true) === buffer
+        && [...VIM_MODE_LETTERS[existing.mode]].some((letter) => letters.includes(letter)));
+  }
+
   /**
    * Check if a command type creates a recursive mapping
    */
@@ -176,14 +393,15 @@ export class MappingHandler extends BaseHandler {
   }
 
   /**
-   * Parse key sequence, replacing <leader> with actual leader key
+   * Normalize a key sequence, replacing <leader> with the actual leader key
+   *
+   * Note: Special keys like <C-u>, <CR>, etc. are kept in (canonical) Vim
+   * notation because CodeMirror Vim API expects them in that format.
    *
-   * Note: Special keys like <C-u>, <CR>, etc. are kept in Vim notation
-   * because CodeMirror Vim API expects them in that format.
+   * @throws Error for unknown key notation
    */
   private parseKeySequence(keys: string): string {
-    // Replace <leader> with actual leader key (case-insensitive)
-    return keys.replace(/<leader>/gi, this.leaderKey);
+    return normalizeKeys(keys, { leader: this.leaderKey });
   }
 
   /**
@@ -16,6 +16,7 @@ import { ObsidianCommandExecutor } from './ObsidianCommandExecutor';
 import type { ParsedCommand, CommandType, IObmapProvider, ObmapDefinition } from '../types/commands';
 import { CommandType as CT, OBMAP_COMMAND_TYPES } from '../types/commands';
 import { getLogger } from '../services/Logger';
+import { normalizeKeys } from '../services/KeyNotation';
 
 const log = getLogger('obmap');
 
@@ -52,7 +53,7 @@ export class ObmapHandler extends BaseHandler implements IObmapProvider {
       return;
     }
 
-    const key = args[0];
+    const key = normalizeKeys(args[0]);
     const commandId = args[1];
     const mode = this.getModeFromCommandType(command.type);
 
@@ -66,7 +67,7 @@ export class ObmapHandler extends BaseHandler implements IObmapProvider {
     }
 
     // Store obmap definition
-    this.obmapDefinitions.push({ key, commandId, mode, lineNumber: command.lineNumber });
+    this.obmapDefinitions.push({ key, commandId, mode, lineNumber: command.lineNumber, filePath: command.filePath });
   }
 
   private getModeFromCommandType(type: CommandType): 'normal' | 'insert' | 'visual' | 'all' {
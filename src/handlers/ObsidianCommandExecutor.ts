@@ -5,12 +5,14 @@
  * - Command validation
  * - Command execution
  * - Valid/invalid command tracking
+ * - Listing commands with their hotkeys
  *
  * @module handlers/ObsidianCommandExecutor
  */
 
 import { App, Notice } from 'obsidian';
 import { getLogger } from '../services/Logger';
+import type { ObsidianCommandInfo } from '../types/commands';
 
 const log = getLogger('obmap');
 
@@ -57,6 +59,31 @@ export class ObsidianCommandExecutor {
     return { valid: true };
   }
 
+  /**
+   * List the commands registered in Obsidian, sorted by ID
+   *
+   * Hotkeys are the user's custom hotkeys, or the command's defaults when the
+   * user has not changed them.
+   */
+  listCommands(): ObsidianCommandInfo[] {
+    // @ts-ignore - commands is available on app
+    const commands: Record<string, { id: string; name: string }> | undefined = this.app.commands?.commands;
+    // @ts-ignore - hotkeyManager is available on app
+    const hotkeyManager = this.app.hotkeyManager;
+
+    return Object.values(commands ?? {})
+      .map((command) => {
+        const hotkeys: Array<{ modifiers: string[]; key: string }> =
+          hotkeyManager?.getHotkeys(command.id) ?? hotkeyManager?.getDefaultHotkeys(command.id) ?? [];
+        return {
+          id: command.id,
+          name: command.name,
+          hotkeys: hotkeys.map((hotkey) => [...hotkey.modifiers, hotkey.key].join('+')),
+        };
+      })
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
   /**
    * Validate and track a command
    * Shows Notice if invalid
@@ -0,0 +1,244 @@
+/**
+ * SetHandler - Handles Vim Option Commands
+ *
+ * Processes set commands and forwards them to the Vim API:
+ * - set opt / set noopt / set invopt / set opt! - Boolean options
+ * - set opt=val / set opt:val - Number and string options
+ * - set opt+=val / set opt-=val / set opt^=val - Add, subtract or prepend
+ * - set opt& - Reset to the default value
+ * - set opt? - Show the current value
+ *
+ * Options set by the previous load that the next load no longer sets are
+ * reset to their defaults when the next load finishes.
+ *
+ * @module handlers/SetHandler
+ */
+
+import { Notice } from 'obsidian';
+import { BaseHandler, HandlerDependencies } from './BaseHandler';
+import type { ParsedCommand } from '../types/commands';
+import { SET_COMMAND_TYPES } from '../types/commands';
+import type { IVimAdapter } from '../types/services';
+import type { Unsubscribe } from '../types/events';
+import { EventType } from '../types/events';
+import type { VimOptionDefinition, VimOptionValue } from '../types/options';
+import { VIM_OPTIONS, findVimOption } from '../types/options';
+
+/**
+ * One option assignment within a set command, e.g. `ts=4` or `noic`
+ */
+const OPTION_ARGUMENT_PATTERN = /^(no|inv)?([a-z]+)(?:([?!&])|([-+^]?)[=:](.*))?$/;
+
+/**
+ * Dependencies for SetHandler
+ */
+export interface SetHandlerDependencies extends HandlerDependencies {
+  vimAdapter: IVimAdapter;
+}
+
+/**
+ * SetHandler implementation
+ */
+export class SetHandler extends BaseHandler {
+  readonly supportedTypes = SET_COMMAND_TYPES;
+
+  private vimAdapter: IVimAdapter;
+  /** Values set by the current load, keyed by full option name */
+  private values: Map<string, VimOptionValue> = new Map();
+  /** Options set by earlier loads, reset unless the current load sets them again */
+  private previous: Set<string> = new Set();
+  private subscriptions: Unsubscribe[] = [];
+
+  /**
+   * Create a new SetHandler
+   *
+   * @param deps - Handler dependencies
+   */
+  constructor(deps: SetHandlerDependencies) {
+    super(deps, 'vimAdapter');
+    this.vimAdapter = deps.vimAdapter;
+
+    for (const option of VIM_OPTIONS) {
+      this.vimAdapter.defineOption(option.name, option.defaultValue, option.type, option.aliases);
+    }
+
+    this.subscriptions.push(
+      this.eventBus.on(EventType.VIMRC_LOADING, () => {
+        this.values.forEach((_value, name) => this.previous.add(name));
+        this.values.clear();
+      }),
+      this.eventBus.on(EventType.VIMRC_LOADED, () => {
+        this.resetUnset();
+      })
+    );
+  }
+
+  /**
+   * Handle a set command
+   * Format: set <option>[=value] ...
+   *
+   * @param command - The parsed set command
+   * @throws Error for unknown options or invalid values
+   */
+  async handle(command: ParsedCommand): Promise<void> {
+    if (command.args.length === 0) {
+      this.showValues(VIM_OPTIONS.filter((option) => this.values.has(option.name)));
+      return;
+    }
+
+    for (const arg of command.args) {
+      this.applyArgument(arg);
+    }
+  }
+
+  /**
+   * Apply one option argument
+   */
+  private applyArgument(arg: string): void {
+    const match = arg.match(OPTION_ARGUMENT_PATTERN);
+    const option = match ? findVimOption(match[2]) : undefined;
+    if (!match || !option) {
+      throw new Error(`E518: Unknown option: ${arg}`);
+    }
+
+    const [, prefix, , suffix, operator, rawValue] = match;
+
+    if (suffix === '?' || (!prefix && suffix === undefined && rawValue === undefined && option.type !== 'boolean')) {
+      if (prefix) throw new Error(`E474: Invalid argument: ${arg}`);
+      this.showValues([option]);
+      return;
+    }
+
+    if (suffix === '&') {
+      if (prefix) throw new Error(`E474: Invalid argument: ${arg}`);
+      this.setValue(option, option.defaultValue);
+      return;
+    }
+
+    if (option.type === 'boolean') {
+      if (rawValue !== undefined) {
+        throw new Error(`E474: Invalid argument: ${arg}`);
+      }
+      const toggle = prefix === 'inv' || suffix === '!';
+      const value = toggle ? !this.getValue(option) : prefix !== 'no';
+      this.setValue(option, value);
+      return;
+    }
+
+    if (prefix || rawValue === undefined) {
+      throw new Error(`E474: Invalid argument: ${arg}`);
+    }
+
+    if (option.type === 'number') {
+      if (!/^-?\d+$/.test(rawValue)) {
+        throw new Error(`E521: Number required after =: ${arg}`);
+      }
+      const amount = Number(rawValue);
+      const current = this.getValue(option) as number;
+      const value = operator === '+' ? current + amount
+        : operator === '-' ? current - amount
+        : operator === '^' ? current * amount
+        : amount;
+      if (value < 0) {
+        throw new Error(`E487: Argument must be positive: ${arg}`);
+      }
+      this.setValue(option, value);
+      return;
+    }
+
+    this.setValue(option, this.combineStrings(option, operator, String(this.getValue(option)), rawValue));
+  }
+
+  /**
+   * Apply `+=`, `-=` and `^=` to a string option
+   */
+  private combineStrings(option: VimOptionDefinition, operator: string, current: string, value: string): string {
+    if (!option.list) {
+      if (operator === '+') return current + value;
+      if (operator === '^') return value + current;
+      if (operator === '-') return current.replace(value, '');
+      return value;
+    }
+
+    const items = current.split(',').filter((item) => item.length > 0);
+    switch (operator) {
+      case '+':
+        return items.includes(value) ? current : [...items, value].join(',');
+      case '^':
+        return items.includes(value) ? current : [value, ...items].join(',');
+      case '-':
+        return items.filter((item) => item !== value).join(',');
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Get the current value of an option
+   */
+  private getValue(option: VimOptionDefinition): VimOptionValue {
+    if (this.values.has(option.name)) {
+      return this.values.get(option.name)!;
+    }
+    const value = this.vimAdapter.getOption(option.name);
+    return typeof value === typeof option.defaultValue ? (value as VimOptionValue) : option.defaultValue;
+  }
+
+  /**
+   * Record an option value and forward it to the Vim API
+   */
+  private setValue(option: VimOptionDefinition, value: VimOptionValue): void {
+    this.debug(`set ${option.name}=${String(value)}`);
+    this.values.set(option.name, value);
+    this.vimAdapter.setOption(option.name, value);
+  }
+
+  /**
+   * Show option values the way Vim's `set opt?` does
+   */
+  private showValues(options: VimOptionDefinition[]): void {
+    const text = options
+      .map((option) => {
+        const value = this.getValue(option);
+        if (option.type === 'boolean') return value ? `  ${option.name}` : `no${option.name}`;
+        return `  ${option.name}=${String(value)}`;
+      })
+      .join('\n');
+    if (text) {
+      new Notice(text);
+    }
+  }
+
+  /**
+   * Reset options set by an earlier load that the latest load did not set
+   */
+  private resetUnset(): void {
+    for (const name of this.previous) {
+      if (this.values.has(name)) continue;
+      const option = findVimOption(name);
+      if (option) {
+        this.debug(`reset ${name} to default`);
+        this.vimAdapter.setOption(name, option.defaultValue);
+      }
+    }
+    this.previous.clear();
+  }
+
+  /**
+   * Get the options set by the current load
+   */
+  getValues(): Map<string, VimOptionValue> {
+    return new Map(this.values);
+  }
+
+  /**
+   * Reset every option set by this handler and stop listening for loads
+   */
+  cleanup(): void {
+    this.values.forEach((_value, name) => this.previous.add(name));
+    this.values.clear();
+    this.resetUnset();
+    this.subscriptions.forEach((unsubscribe) => unsubscribe());
+    this.subscriptions = [];
+  }
+}
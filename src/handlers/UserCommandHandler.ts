@@ -0,0 +1,201 @@
+/**
+ * UserCommandHandler - Handles User-Defined Ex Commands
+ *
+ * Processes command and delcommand commands:
+ * - command[!] [{attr}...] {Name} {replacement} - Define an ex command
+ * - command [{prefix}] - List user commands
+ * - delcommand {Name} - Delete a user command
+ *
+ * Supported attributes: -nargs={0,1,*,?,+}, -range, -range=%, -range=N,
+ * -count=N, -bang and -bar (-complete, -addr, -buffer, -register and
+ * -keepscript are accepted and ignored).
+ *
+ * VimrcLoader registers each command with VimAdapter.defineEx; placeholders
+ * in the replacement are expanded by UserCommandExpander when it runs.
+ *
+ * @module handlers/UserCommandHandler
+ */
+
+import { Notice } from 'obsidian';
+import { BaseHandler, HandlerDependencies } from './BaseHandler';
+import type {
+  ParsedCommand,
+  IUserCommandProvider,
+  UserCommandDefinition,
+  UserCommandNargs,
+} from '../types/commands';
+import { CommandType as CT, USER_COMMAND_TYPES } from '../types/commands';
+
+/**
+ * Attributes accepted for compatibility but without effect
+ */
+const IGNORED_ATTRIBUTES = new Set(['buffer', 'register', 'keepscript', 'complete', 'addr']);
+
+/**
+ * UserCommandHandler implementation
+ * Implements IUserCommandProvider for decoupled access from VimrcLoader
+ */
+export class UserCommandHandler extends BaseHandler implements IUserCommandProvider {
+  readonly supportedTypes = USER_COMMAND_TYPES;
+
+  private commands: Map<string, UserCommandDefinition> = new Map();
+
+  /**
+   * Create a new UserCommandHandler
+   *
+   * @param deps - Handler dependencies
+   */
+  constructor(deps: HandlerDependencies) {
+    super(deps, 'exmap');
+  }
+
+  async handle(command: ParsedCommand): Promise<void> {
+    if (command.type === CT.DELCOMMAND) {
+      this.handleDelcommand(command);
+    } else {
+      this.handleCommand(command);
+    }
+  }
+
+  /**
+   * Handle command
+   * Format: command[!] [attributes] <Name> <replacement>
+   */
+  private handleCommand(command: ParsedCommand): void {
+    const args = [...command.args];
+    const definition: UserCommandDefinition = {
+      name: '',
+      nargs: '0',
+      range: null,
+      count: null,
+      bang: false,
+      replacement: '',
+      lineNumber: command.lineNumber,
+      filePath: command.filePath,
+    };
+
+    while (args[0]?.startsWith('-')) {
+      this.applyAttribute(definition, args.shift()!);
+    }
+
+    const name = args.shift();
+    if (!name || args.length === 0) {
+      this.listCommands(name ?? '');
+      return;
+    }
+
+    if (!/^[A-Z]/.test(name)) {
+      throw new Error('E183: User defined commands must start with an uppercase letter');
+    }
+    if (!/^[A-Za-z0-9]+$/.test(name)) {
+      throw new Error(`E182: Invalid command name: ${name}`);
+    }
+    if (this.commands.has(name) && !command.bang) {
+      throw new Error(`E174: Command already exists: add ! to replace it: ${name}`);
+    }
+
+    definition.name = name;
+    definition.replacement = args.join(' ');
+    this.debug(`command ${name} -> ${definition.replacement}`);
+    this.commands.set(name, definition);
+  }
+
+  /**
+   * Apply one `-attribute` to a definition
+   */
+  private applyAttribute(definition: UserCommandDefinition, attribute: string): void {
+    const [name, value] = attribute.slice(1).split('=', 2);
+
+    switch (name) {
+      case 'nargs':
+        if (value === undefined || !['0', '1', '*', '?', '+'].includes(value)) {
+          throw new Error('E176: Invalid number of arguments');
+        }
+        definition.nargs = value as UserCommandNargs;
+        return;
+      case 'range':
+      case 'count': {
+        if (definition.range !== null || definition.count !== null) {
+          throw new Error('E177: Count cannot be specified twice');
+        }
+        if (name === 'range' && (value === undefined || value === '%')) {
+          definition.range = value === '%' ? '%' : '.';
+          return;
+        }
+        if (value !== undefined && !/^\d+$/.test(value)) {
+          throw new Error('E178: Invalid default value for count');
+        }
+        const count = Number(value ?? 0);
+        if (name === 'range') {
+          definition.range = count;
+        } else {
+          definition.count = count;
+        }
+        return;
+      }
+      case 'bang':
+        definition.bang = true;
+        return;
+      case 'bar':
+        // Handled by the parser, which splits `-bar` commands at `|`
+        return;
+      default:
+        if (!IGNORED_ATTRIBUTES.has(name)) {
+          throw new Error(`E181: Invalid attribute: ${attribute}`);
+        }
+    }
+  }
+
+  /**
+   * Handle delcommand
+   * Format: delcommand <Name>
+   */
+  private handleDelcommand(command: ParsedCommand): void {
+    const name = command.args[0];
+    if (!name) {
+      throw new Error('E471: Argument required');
+    }
+    if (!this.commands.delete(name)) {
+      throw new Error(`E184: No such user-defined command: ${name}`);
+    }
+  }
+
+  /**
+   * Show the user commands starting with a prefix, like Vim's `:command`
+   */
+  private listCommands(prefix: string): void {
+    const commands = this.getUserCommands().filter((definition) => definition.name.startsWith(prefix));
+    if (commands.length === 0) {
+      new Notice('No user-defined commands found');
+      return;
+    }
+
+    const rows = commands.map((definition) => {
+      const address = definition.range === null ? (definition.count === null ? '' : `${definition.count}c`)
+        : typeof definition.range === 'number' ? String(definition.range)
+        : definition.range;
+      const flag = definition.bang ? '!' : ' ';
+      return `${flag}   ${definition.name.padEnd(16)} ${definition.nargs.padEnd(4)} ${address.padEnd(7)} ${definition.replacement}`;
+    });
+    new Notice(['    Name             Args Address Definition', ...rows].join('\n'));
+  }
+
+  /** Get all user-defined commands */
+  getUserCommands(): UserCommandDefinition[] {
+    return Array.from(this.commands.values());
+  }
+
+  /** Get a user-defined command by name */
+  getUserCommand(name: string): UserCommandDefinition | undefined {
+    return this.commands.get(name);
+  }
+
+  /** Remove all user-defined commands */
+  clearUserCommands(): void {
+    this.commands.clear();
+  }
+
+  cleanup(): void {
+    this.clearUserCommands();
+  }
+}
@@ -15,7 +15,7 @@ export { ObsidianCommandExecutor } from './ObsidianCommandExecutor';
 export type { CommandValidationResult } from './ObsidianCommandExecutor';
 
 // Mapping handler
-export { MappingHandler } from './MappingHandler';
+export { MappingHandler, parseMapArguments, remainingModes, getMapMode, getUnmapMode, getMapclearMode } from './MappingHandler';
 export type { MappingHandlerDependencies } from './MappingHandler';
 
 // Obmap handler
@@ -33,3 +33,18 @@ export type {
   VariableDefinition,
   LeaderKeyChangeCallback,
 } from './LetHandler';
+
+// Set handler
+export { SetHandler } from './SetHandler';
+export type { SetHandlerDependencies } from './SetHandler';
+
+// Autocmd handler
+export { AutocmdHandler, matchAutocmdPattern, getFileType } from './AutocmdHandler';
+export type { AutocmdHandlerDependencies, AutocmdContext, AutocmdExecutor } from './AutocmdHandler';
+
+// User command handler
+export { UserCommandHandler } from './UserCommandHandler';
+
+// Abbreviation handler
+export { AbbreviationHandler } from './AbbreviationHandler';
+export type { AbbreviationHandlerDependencies } from './AbbreviationHandler';
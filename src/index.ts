@@ -17,15 +17,48 @@ export type { RecoveryResult, RecoveryStrategy, AggregatedError } from './infras
 
 // Services
 export { VimAdapter } from './services/VimAdapter';
-export { VimrcLoader, createFileAdapter } from './services/VimrcLoader';
+export { CommandLineMapper } from './services/CommandLineMapper';
+export { VimrcLoader, createFileAdapter, createVimrcEnvironment, findFolderVimrcPaths, findFreeFileName, isAbsolutePath, GLOBAL_VIMRC_FILE, FOLDER_VIMRC_FILE, IMPORTED_VIMRC_FILE, EMBEDDED_VIMRC_PATH } from './services/VimrcLoader';
 export type { IFileAdapter } from './services/VimrcLoader';
 export { PluginApi } from './services/PluginApi';
 export type { EditorPosition, MotionCallbackArgs, MotionCallback, AsyncMotionCallback, ActionCallback } from './services/PluginApi';
 export { Logger, ModuleLogger, getLogger } from './services/Logger';
 export type { LogLevel, LoggerConfig } from './services/Logger';
+export { tokenizeKeys, formatKey, formatKeys, normalizeKeys, readKeyNotation, keyCharacter, keyFromEvent, keyNotationNames } from './services/KeyNotation';
+export type { Key, KeyNotationOptions } from './services/KeyNotation';
+export { ExpressionEvaluator } from './services/ExpressionEvaluator';
+export type { VimValue, VimList, VimDict, ExpressionFunction, ExpressionContext } from './services/ExpressionEvaluator';
+export { VariableStore, executeLet, executeUnlet } from './services/VariableStore';
+export type { VariableScope } from './services/VariableStore';
+export { createUserCommandInvocation, expandUserCommand } from './services/UserCommandExpander';
+export type { UserCommandParams, UserCommandInvocation } from './services/UserCommandExpander';
+export { buildMappingList, formatMappingListEntry } from './services/MappingList';
+export type { MappingListRequest, MappingListEntry, MappingListLocation, MappingListSources, MappingListCallback } from './services/MappingList';
+export { lintVimrc, applyQuickFix } from './services/VimrcLinter';
+export type { LintOptions } from './services/VimrcLinter';
+export { MappingExpander, expandKeys, expandInModes } from './services/MappingExpander';
+export { tokenizeVimrcLine, describeMapping } from './services/VimrcSyntax';
+export type { VimrcToken, VimrcTokenType } from './services/VimrcSyntax';
+export { getVimrcCompletions, findLetVariables } from './services/VimrcCompletion';
+export { importVimrc, detectImportFormat } from './services/VimrcImporter';
+export { KeymapExporter, collectExportEntries, vscodeVimTarget, neovimTarget } from './services/KeymapExporter';
+export type { ExportSource, ExportEntry, ExportTarget } from './services/KeymapExporter';
+export type { ImportFormat, ImportOptions, ImportIssue, ImportResult } from './services/VimrcImporter';
+export type { VimrcCompletionOption, VimrcCompletionResult, VimrcCompletionSources, VimrcCompletionType } from './services/VimrcCompletion';
+export type { ExpandOptions } from './services/MappingExpander';
+export { AbbreviationExpander, findAbbreviation, isValidAbbreviation, isKeywordCharacter } from './services/AbbreviationExpander';
+export { LoadHistory, LOAD_HISTORY_KEY, summarizeMappingDiff, diffLines } from './services/LoadHistory';
+export type { LoadSnapshot, SnapshotDiff, LineChange } from './services/LoadHistory';
+export { FileWatcher, DEFAULT_WATCH_DEBOUNCE_DELAY } from './services/FileWatcher';
+export type { VaultEvents } from './services/FileWatcher';
+export { ReloadScheduler, DEFAULT_RELOAD_DELAY } from './services/ReloadScheduler';
+export type { ReloadSchedulerConfig } from './services/ReloadScheduler';
+export { FolderOverlayTracker } from './services/FolderOverlayTracker';
+export type { FolderOverlayTrackerConfig } from './services/FolderOverlayTracker';
 
 // Stores
 export { MappingStore } from './stores/MappingStore';
+export { AbbreviationStore } from './stores/AbbreviationStore';
 
 // Appliers
 export { MappingApplier } from './appliers/MappingApplier';
@@ -41,6 +74,22 @@ export { SettingsTab } from './ui/SettingsTab';
 export type { SettingsTabConfig, ReloadCallback } from './ui/SettingsTab';
 export { VimModeStatusBar } from './ui/VimModeStatusBar';
 export type { VimModeStatusBarConfig } from './ui/VimModeStatusBar';
+export { MappingListModal } from './ui/MappingListModal';
+export { VimrcCheckModal, openCheckResult } from './ui/VimrcCheckModal';
+export { VimrcView, VIEW_TYPE_VIMRC } from './ui/VimrcView';
+export type { VimrcViewConfig } from './ui/VimrcView';
+export { vimrcLanguage, vimrcEditorExtensions } from './ui/VimrcLanguage';
+export type { VimrcEditorOptions } from './ui/VimrcLanguage';
+export type { QuickFixCallback } from './ui/VimrcCheckModal';
+export { VimrcImportModal } from './ui/VimrcImportModal';
+export { KeymapExportModal } from './ui/KeymapExportModal';
+export { LoadHistoryModal } from './ui/LoadHistoryModal';
+export type { LoadHistoryCallbacks } from './ui/LoadHistoryModal';
+export type { VimrcImportCallbacks } from './ui/VimrcImportModal';
+export { LoadNotices } from './ui/LoadNotices';
+export type { LoadNoticesConfig } from './ui/LoadNotices';
+export { ProfileCommands } from './ui/ProfileCommands';
+export type { ProfileCommandsConfig } from './ui/ProfileCommands';
 
 // Registry
 export { 
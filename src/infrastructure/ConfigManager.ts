@@ -138,7 +138,7 @@ export class ConfigManager implements IConfigManager {
     this.settings = normalizeSettings(merged);
 
     // Persist to storage
-    await this.persistence.saveData(this.settings);
+    await this.save();
 
     // Emit settings changed event (Requirement 6.1)
     this.eventBus.emit(EventType.SETTINGS_CHANGED, {
@@ -161,7 +161,7 @@ export class ConfigManager implements IConfigManager {
     this.settings = { ...DEFAULT_SETTINGS };
 
     // Persist to storage
-    await this.persistence.saveData(this.settings);
+    await this.save();
 
     // Emit settings changed event
     this.eventBus.emit(EventType.SETTINGS_CHANGED, {
@@ -188,6 +188,14 @@ export class ConfigManager implements IConfigManager {
     };
   }
 
+  /**
+   * Save the settings, keeping other plugin data such as the load history
+   */
+  private async save(): Promise<void> {
+    const data = await this.persistence.loadData();
+    await this.persistence.saveData({ ...(data && typeof data === 'object' ? data : {}), ...this.settings });
+  }
+
   /**
    * Notify all manual change listeners
    */
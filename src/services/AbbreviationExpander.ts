@@ -0,0 +1,276 @@
+/**
+ * AbbreviationExpander - Expands Abbreviations While Typing
+ *
+ * Like Vim, an abbreviation expands when a non-keyword character is typed
+ * after it (or `<CR>`, `<Tab>` and `<Esc>` in Insert mode), and a character
+ * typed after `<C-v>` does not expand anything:
+ * - Insert mode: a CodeMirror extension checks text input and key presses
+ *   while CodeMirror Vim is in Insert mode
+ * - Command-line mode: a keydown listener on the `:` and `/` prompt input
+ *
+ * A right-hand side of plain characters replaces the abbreviation as text.
+ * One with special keys (`<CR>`, `<Left>`, ...) is fed to Vim in Insert mode,
+ * through mappings unless defined with noreabbrev; on the command line its
+ * special keys are left out.
+ *
+ * @module services/AbbreviationExpander
+ */
+
+import { Prec } from '@codemirror/state';
+import type { Extension } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import type { Abbreviation, IAbbreviationStore } from '../types/mappings';
+import { VimMode } from '../types/mappings';
+import type { IVimAdapter } from '../types/services';
+import { PROMPT_INPUT_SELECTOR } from './CommandLineMapper';
+import { formatKey, keyCharacter, keyFromEvent, tokenizeKeys } from './KeyNotation';
+import { getLogger } from './Logger';
+
+const log = getLogger('mapping');
+
+/**
+ * Keyword characters ('iskeyword'): letters, digits and underscore
+ */
+const KEYWORD_CHARACTER = /^[\p{L}\p{N}_]$/u;
+
+/**
+ * Keys that insert the next character literally
+ */
+const LITERAL_KEYS = ['<C-v>', '<C-q>'];
+
+/**
+ * Keys that expand an abbreviation in Insert mode without typing text
+ */
+const INSERT_TRIGGER_KEYS = ['<CR>', '<Tab>', '<Esc>'];
+
+/**
+ * Check whether a character is a keyword character
+ */
+export function isKeywordCharacter(char: string): boolean {
+  return KEYWORD_CHARACTER.test(char);
+}
+
+/**
+ * Check whether text can be the left-hand side of an abbreviation
+ *
+ * Vim knows three kinds of abbreviations:
+ * - full-id: only keyword characters (`foo`, `g3`)
+ * - end-id: ends in a keyword character, all others are not (`#i`, `..f`)
+ * - non-id: ends in a non-keyword character (`def#`, `->>`)
+ *
+ * None may contain white space.
+ */
+export function isValidAbbreviation(lhs: string): boolean {
+  const chars = [...lhs];
+  if (chars.length === 0 || chars.some((char) => /\s/.test(char))) {
+    return false;
+  }
+  const head = chars.slice(0, -1);
+  return !isKeywordCharacter(chars[chars.length - 1])
+    || head.every(isKeywordCharacter)
+    || !head.some(isKeywordCharacter);
+}
+
+/**
+ * Find the abbreviation the text before the cursor ends with
+ *
+ * A full-id abbreviation must follow a non-keyword character, the others
+ * white space; both also match at the start of the text.
+ *
+ * @param before - Text from the start of the line to the cursor
+ * @param abbreviations - Abbreviations of the current mode
+ * @returns The longest matching abbreviation, or null
+ */
+export function findAbbreviation(before: string, abbreviations: Abbreviation[]): Abbreviation | null {
+  let found: Abbreviation | null = null;
+  for (const abbreviation of abbreviations) {
+    if (!before.endsWith(abbreviation.lhs) || (found && found.lhs.length >= abbreviation.lhs.length)) {
+      continue;
+    }
+    const preceding = [...before.slice(0, before.length - abbreviation.lhs.length)].pop();
+    const fullId = [...abbreviation.lhs].every(isKeywordCharacter);
+    if (preceding === undefined || (fullId ? !isKeywordCharacter(preceding) : /\s/.test(preceding))) {
+      found = abbreviation;
+    }
+  }
+  return found;
+}
+
+/**
+ * Get the text a right-hand side types, or null when it has special keys
+ */
+function rhsText(rhs: string): string | null {
+  const chars = tokenizeKeys(rhs).map(keyCharacter);
+  return chars.some((char) => char === null) ? null : chars.join('');
+}
+
+/**
+ * AbbreviationExpander implementation
+ */
+export class AbbreviationExpander {
+  private store: IAbbreviationStore;
+  private vimAdapter: IVimAdapter;
+  /** The last key pressed inserts the next character literally */
+  private literalNext = false;
+  /** The text being typed follows `<C-v>` */
+  private skipInput = false;
+  /** The prompt's last key pressed was `<C-v>` */
+  private commandLineLiteralNext = false;
+
+  /**
+   * Create a new AbbreviationExpander and start listening to the command line
+   *
+   * @param store - Store with the abbreviations to expand
+   * @param vimAdapter - Adapter for feeding right-hand sides with special keys
+   */
+  constructor(store: IAbbreviationStore, vimAdapter: IVimAdapter) {
+    this.store = store;
+    this.vimAdapter = vimAdapter;
+    document.addEventListener('keydown', this.onCommandLineKeyDown, true);
+  }
+
+  /**
+   * Editor extension expanding Insert mode abbreviations
+   *
+   * Runs before CodeMirror Vim's key handling so `<Esc>` expands before
+   * leaving Insert mode.
+   */
+  extension(): Extension {
+    return Prec.highest([
+      EditorView.inputHandler.of((view, from, to, text) => this.handleInput(view, from, to, text)),
+      EditorView.domEventHandlers({
+        keydown: (event, view) => this.handleKeyDown(event, view),
+      }),
+    ]);
+  }
+
+  /**
+   * Expand an abbreviation before typed text
+   *
+   * @returns true if the abbreviation was expanded and the text inserted
+   */
+  handleInput(view: EditorView, from: number, to: number, text: string): boolean {
+    const first = [...text][0];
+    if (this.skipInput || from !== to || first === undefined || isKeywordCharacter(first) || !this.isInsertMode(view)) {
+      return false;
+    }
+
+    const abbreviation = this.findBefore(view, from);
+    if (!abbreviation) {
+      return false;
+    }
+    this.expand(view, abbreviation, from, text);
+    return true;
+  }
+
+  /**
+   * Track `<C-v>` and expand an abbreviation before `<CR>`, `<Tab>` and `<Esc>`
+   *
+   * @returns Always false, so the key is still handled
+   */
+  handleKeyDown(event: KeyboardEvent, view: EditorView): boolean {
+    const key = keyFromEvent(event);
+    if (!key) {
+      return false;
+    }
+
+    const keys = formatKey(key);
+    this.skipInput = this.literalNext;
+    this.literalNext = LITERAL_KEYS.includes(keys) && this.isInsertMode(view);
+    if (this.skipInput || !INSERT_TRIGGER_KEYS.includes(keys) || !this.isInsertMode(view)) {
+      return false;
+    }
+
+    const { from, to } = view.state.selection.main;
+    const abbreviation = from === to ? this.findBefore(view, from) : null;
+    if (abbreviation) {
+      this.expand(view, abbreviation, from, '');
+    }
+    return false;
+  }
+
+  /**
+   * Stop listening to the command line
+   */
+  dispose(): void {
+    document.removeEventListener('keydown', this.onCommandLineKeyDown, true);
+  }
+
+  /**
+   * Find the Insert mode abbreviation before a position
+   */
+  private findBefore(view: EditorView, pos: number): Abbreviation | null {
+    const line = view.state.doc.lineAt(pos);
+    return findAbbreviation(line.text.slice(0, pos - line.from), this.store.getByMode(VimMode.INSERT));
+  }
+
+  /**
+   * Replace an abbreviation before a position, then type text after it
+   */
+  private expand(view: EditorView, abbreviation: Abbreviation, pos: number, typed: string): void {
+    const start = pos - abbreviation.lhs.length;
+    const text = rhsText(abbreviation.rhs);
+    log.debug(`Expanding abbreviation: ${abbreviation.lhs} -> ${abbreviation.rhs}`);
+
+    if (text !== null) {
+      view.dispatch({
+        changes: { from: start, to: pos, insert: text + typed },
+        selection: { anchor: start + text.length + typed.length },
+        userEvent: 'input.type',
+      });
+      return;
+    }
+
+    view.dispatch({ changes: { from: start, to: pos }, selection: { anchor: start } });
+    this.vimAdapter.feedKeys((view as unknown as { cm?: unknown }).cm, abbreviation.rhs, abbreviation.recursive);
+    if (typed) {
+      view.dispatch(view.state.replaceSelection(typed));
+    }
+  }
+
+  /**
+   * Check whether CodeMirror Vim is in Insert mode in an editor
+   */
+  private isInsertMode(view: EditorView): boolean {
+    const cm = (view as unknown as { cm?: { state?: { vim?: { insertMode?: boolean } } } }).cm;
+    return cm?.state?.vim?.insertMode === true;
+  }
+
+  /**
+   * Expand a command-line abbreviation before a non-keyword character or `<CR>`
+   *
+   * Runs in the capture phase, before the prompt's own key handling, and
+   * leaves typing the key to the prompt.
+   */
+  private onCommandLineKeyDown = (event: KeyboardEvent): void => {
+    const input = event.target;
+    if (!(input instanceof HTMLInputElement) || !input.matches(PROMPT_INPUT_SELECTOR)) {
+      return;
+    }
+    const key = keyFromEvent(event);
+    if (!key) {
+      return;
+    }
+
+    const skip = this.commandLineLiteralNext;
+    this.commandLineLiteralNext = LITERAL_KEYS.includes(formatKey(key));
+    const char = keyCharacter(key);
+    if (skip || !(formatKey(key) === '<CR>' || (char !== null && !isKeywordCharacter(char)))) {
+      return;
+    }
+
+    const pos = input.selectionStart ?? input.value.length;
+    if (pos !== (input.selectionEnd ?? pos)) {
+      return;
+    }
+    const abbreviation = findAbbreviation(input.value.slice(0, pos), this.store.getByMode(VimMode.COMMAND_LINE));
+    if (!abbreviation) {
+      return;
+    }
+
+    const text = tokenizeKeys(abbreviation.rhs).map((rhsKey) => keyCharacter(rhsKey) ?? '').join('');
+    log.debug(`Expanding command-line abbreviation: ${abbreviation.lhs} -> ${text}`);
+    input.setRangeText(text, pos - abbreviation.lhs.length, pos, 'end');
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+  };
+}
@@ -0,0 +1,363 @@
+/**
+ * CommandLineMapper - Command-Line Mode Mappings
+ *
+ * CodeMirror Vim has no mappings for its `:` and `/` prompts, so cmap,
+ * cnoremap and map! mappings are applied here: a keydown listener on the
+ * prompt input matches typed keys against the mappings and edits the input
+ * the way Vim's command line would. Keys the input cannot handle itself
+ * (`<CR>`, `<Esc>`, `<Up>`, ...) are dispatched as key events to the prompt.
+ *
+ * @module services/CommandLineMapper
+ */
+
+import type { Key } from './KeyNotation';
+import { formatKey, keyCharacter, keyFromEvent, tokenizeKeys } from './KeyNotation';
+import { getLogger } from './Logger';
+import { DEFAULT_MAX_MAP_DEPTH } from '../types/mappings';
+
+const log = getLogger('vimAdapter');
+
+/**
+ * Input of the CodeMirror Vim `:` and `/` prompts
+ */
+export const PROMPT_INPUT_SELECTOR = '.cm-vim-panel input';
+
+/**
+ * Default time to wait for the next key of a longer mapping ('timeoutlen')
+ */
+const DEFAULT_MAPPING_TIMEOUT = 1000;
+
+/**
+ * KeyboardEvent key and keyCode for keys dispatched to the prompt
+ */
+const EVENT_KEYS: Record<string, { key: string; keyCode: number }> = {
+  CR: { key: 'Enter', keyCode: 13 },
+  Esc: { key: 'Escape', keyCode: 27 },
+  Tab: { key: 'Tab', keyCode: 9 },
+  BS: { key: 'Backspace', keyCode: 8 },
+  Up: { key: 'ArrowUp', keyCode: 38 },
+  Down: { key: 'ArrowDown', keyCode: 40 },
+};
+
+/**
+ * A command-line mapping
+ */
+interface CommandLineMapping {
+  /** Left-hand side, one canonical key per entry */
+  keys: string[];
+  /** Right-hand side in Vim notation */
+  rhs: string;
+  /** Whether mappings apply to the right-hand side */
+  remap: boolean;
+}
+
+/**
+ * CommandLineMapper implementation
+ */
+export class CommandLineMapper {
+  private getOption: (name: string) => unknown;
+  private mappings = new Map<string, CommandLineMapping>();
+  private pending: Key[] = [];
+  private pendingTimer: number | null = null;
+  private listening = false;
+  private dispatching = false;
+
+  /**
+   * Create a command-line mapper
+   *
+   * @param getOption - Reads 'timeoutlen' and 'maxmapdepth'; the defaults apply when unset
+   */
+  constructor(getOption: (name: string) => unknown = () => undefined) {
+    this.getOption = getOption;
+  }
+
+  /**
+   * Add or replace a command-line mapping
+   *
+   * @param lhs - Keys to map, in canonical notation
+   * @param rhs - Keys to type instead
+   * @param remap - Whether mappings apply to the right-hand side
+   */
+  map(lhs: string, rhs: string, remap: boolean): void {
+    this.mappings.set(lhs, { keys: tokenizeKeys(lhs).map(formatKey), rhs, remap });
+    this.listen();
+  }
+
+  /**
+   * Remove a command-line mapping
+   *
+   * @returns true if the mapping existed
+   */
+  unmap(lhs: string): boolean {
+    const removed = this.mappings.delete(lhs);
+    if (this.mappings.size === 0) {
+      this.stopListening();
+    }
+    return removed;
+  }
+
+  /**
+   * Remove all command-line mappings
+   */
+  clear(): void {
+    this.mappings.clear();
+    this.stopListening();
+  }
+
+  /**
+   * Remove all mappings and the key listener
+   */
+  dispose(): void {
+    this.clear();
+  }
+
+  private listen(): void {
+    if (!this.listening) {
+      document.addEventListener('keydown', this.onKeyDown, true);
+      this.listening = true;
+    }
+  }
+
+  private stopListening(): void {
+    this.clearPending();
+    if (this.listening) {
+      document.removeEventListener('keydown', this.onKeyDown, true);
+      this.listening = false;
+    }
+  }
+
+  /**
+   * Match a key typed in a prompt against the mappings
+   *
+   * Runs in the capture phase, before the prompt's own key handling.
+   */
+  private onKeyDown = (event: KeyboardEvent): void => {
+    const input = event.target;
+    if (this.dispatching || !(input instanceof HTMLInputElement) || !input.matches(PROMPT_INPUT_SELECTOR)) {
+      return;
+    }
+    const key = keyFromEvent(event);
+    if (!key) {
+      return;
+    }
+
+    const typed = [...this.pending, key];
+    const match = this.findMapping(typed.map(formatKey), true);
+    const longer = this.hasLongerMapping(typed.map(formatKey));
+
+    if (!match && !longer) {
+      if (this.pending.length === 0) {
+        return;
+      }
+      // The pending keys start no mapping after all: type them, then this key
+      event.preventDefault();
+      event.stopPropagation();
+      this.flushPending(input);
+      this.typeOrMap(input, key);
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+    this.clearPending();
+
+    if (longer) {
+      this.pending = typed;
+      this.pendingTimer = window.setTimeout(() => {
+        this.pendingTimer = null;
+        if (match) {
+          this.pending = [];
+          this.execute(input, match);
+        } else {
+          this.flushPending(input);
+        }
+      }, this.getNumberOption('timeoutlen', DEFAULT_MAPPING_TIMEOUT));
+      return;
+    }
+
+    this.execute(input, match!);
+  };
+
+  /**
+   * Type a key, or run the mapping it is the complete left-hand side of
+   */
+  private typeOrMap(input: HTMLInputElement, key: Key): void {
+    const match = this.findMapping([formatKey(key)], true);
+    if (match) {
+      this.execute(input, match);
+    } else {
+      this.typeKey(input, key);
+    }
+  }
+
+  /**
+   * Type the keys waiting for a longer mapping without mapping them
+   */
+  private flushPending(input: HTMLInputElement): void {
+    const keys = this.pending;
+    this.clearPending();
+    for (const key of keys) {
+      this.typeKey(input, key);
+    }
+  }
+
+  private clearPending(): void {
+    if (this.pendingTimer !== null) {
+      window.clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+    this.pending = [];
+  }
+
+  /**
+   * Find the mapping with exactly these keys, or the longest one they start with
+   */
+  private findMapping(keys: string[], exact: boolean): CommandLineMapping | undefined {
+    let found: CommandLineMapping | undefined;
+    for (const mapping of this.mappings.values()) {
+      const length = mapping.keys.length;
+      if ((exact ? length !== keys.length : length > keys.length) || (found && found.keys.length >= length)) {
+        continue;
+      }
+      if (mapping.keys.every((key, i) => key === keys[i])) {
+        found = mapping;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Check whether a mapping longer than the keys starts with them
+   */
+  private hasLongerMapping(keys: string[]): boolean {
+    return Array.from(this.mappings.values()).some(
+      (mapping) => mapping.keys.length > keys.length && keys.every((key, i) => key === mapping.keys[i])
+    );
+  }
+
+  /**
+   * Run a mapping typed by the user
+   */
+  private execute(input: HTMLInputElement, mapping: CommandLineMapping): void {
+    try {
+      this.run(input, mapping, 0);
+    } catch (error) {
+      log.error(`Failed to run command-line mapping ${mapping.keys.join('')}:`, error);
+    }
+  }
+
+  /**
+   * Type the right-hand side of a mapping, mapping it again if recursive
+   *
+   * @throws Error when recursive mappings nest deeper than 'maxmapdepth'
+   */
+  private run(input: HTMLInputElement, mapping: CommandLineMapping, depth: number): void {
+    if (depth >= this.getNumberOption('maxmapdepth', DEFAULT_MAX_MAP_DEPTH)) {
+      throw new Error('E223: recursive mapping');
+    }
+
+    const keys = tokenizeKeys(mapping.rhs);
+    let i = 0;
+    while (i < keys.length) {
+      const nested = mapping.remap ? this.findMapping(keys.slice(i).map(formatKey), false) : undefined;
+      if (nested) {
+        this.run(input, nested, depth + 1);
+        i += nested.keys.length;
+      } else {
+        this.typeKey(input, keys[i]);
+        i++;
+      }
+    }
+  }
+
+  /**
+   * Apply one key to the prompt input like Vim's command line
+   */
+  private typeKey(input: HTMLInputElement, key: Key): void {
+    const char = keyCharacter(key);
+    if (char !== null) {
+      this.edit(input, char, input.selectionStart ?? input.value.length, input.selectionEnd ?? input.value.length);
+      return;
+    }
+
+    const start = input.selectionStart ?? input.value.length;
+    const end = input.selectionEnd ?? start;
+    switch (formatKey(key)) {
+      case '<Home>':
+      case '<C-b>':
+        input.setSelectionRange(0, 0);
+        return;
+      case '<End>':
+      case '<C-e>':
+        input.setSelectionRange(input.value.length, input.value.length);
+        return;
+      case '<Left>':
+        input.setSelectionRange(Math.max(start - 1, 0), Math.max(start - 1, 0));
+        return;
+      case '<Right>':
+        input.setSelectionRange(end + 1, end + 1);
+        return;
+      case '<BS>':
+        if (input.value === '') {
+          // An empty command line is closed, which the prompt handles
+          break;
+        }
+        this.edit(input, '', start === end ? Math.max(start - 1, 0) : start, end);
+        return;
+      case '<Del>':
+        this.edit(input, '', start, start === end ? end + 1 : end);
+        return;
+      case '<C-u>':
+        this.edit(input, '', 0, start);
+        return;
+      case '<C-w>': {
+        const wordStart = input.value.slice(0, start).search(/\w*\s*$|\W\s*$/);
+        this.edit(input, '', wordStart, start);
+        return;
+      }
+    }
+    this.dispatchKey(input, key);
+  }
+
+  /**
+   * Replace a range of the input and notify the prompt
+   */
+  private edit(input: HTMLInputElement, text: string, start: number, end: number): void {
+    input.setRangeText(text, start, Math.min(end, input.value.length), 'end');
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+  }
+
+  /**
+   * Send a key the input cannot apply itself to the prompt as key events
+   */
+  private dispatchKey(input: HTMLInputElement, key: Key): void {
+    const eventKey = EVENT_KEYS[key.name] ?? { key: key.name, keyCode: 0 };
+    const init: KeyboardEventInit = {
+      key: eventKey.key,
+      keyCode: eventKey.keyCode,
+      ctrlKey: key.ctrl,
+      altKey: key.alt,
+      metaKey: key.meta,
+      shiftKey: key.shift,
+      bubbles: true,
+      cancelable: true,
+    };
+
+    log.debug(`Dispatching ${formatKey(key)} to the command line`);
+    this.dispatching = true;
+    try {
+      input.dispatchEvent(new KeyboardEvent('keydown', init));
+      input.dispatchEvent(new KeyboardEvent('keyup', init));
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  /**
+   * Get the current value of a positive number option
+   */
+  private getNumberOption(name: string, defaultValue: number): number {
+    const value = this.getOption(name);
+    return typeof value === 'number' && value > 0 ? value : defaultValue;
+  }
+}
@@ -0,0 +1,844 @@
+/**
+ * ExpressionEvaluator - Vim Script Expression Evaluation
+ *
+ * Evaluates the subset of Vim script expressions used by vimrc files:
+ * - Number, string ('single' and "double" quoted), List and Dictionary literals
+ * - Variables with optional scope prefix (g:, s:, b:, v:)
+ * - Indexing and slicing (list[0], dict['key'], text[1:3])
+ * - Arithmetic (+ - * / %), concatenation (. and ..) and the ternary operator
+ * - Logical operators (!, &&, ||) and parentheses
+ * - Comparisons (==, !=, >, >=, <, <=, =~, !~, is, isnot) with #/? case modifiers
+ * - Built-in functions (len, get, printf, toupper, ...) and host-provided functions
+ *
+ * A `"` where an operand is not expected starts a trailing comment.
+ *
+ * @module services/ExpressionEvaluator
+ */
+
+import { formatKey, keyCharacter, readKeyNotation } from './KeyNotation';
+
+/**
+ * Value produced by an expression
+ */
+export type VimValue = string | number | VimList | VimDict;
+
+/**
+ * Vim List value
+ */
+export type VimList = VimValue[];
+
+/**
+ * Vim Dictionary value
+ */
+export interface VimDict {
+  [key: string]: VimValue;
+}
+
+/**
+ * Built-in or host-provided function callable from expressions
+ */
+export type ExpressionFunction = (args: VimValue[]) => VimValue;
+
+/**
+ * Context used to resolve variables and functions during evaluation
+ */
+export interface ExpressionContext {
+  /** Look up a variable by name as written (including any scope prefix) */
+  getVariable(name: string): VimValue | undefined;
+  /** Functions callable by name, in addition to (and overriding) the built-ins */
+  functions?: Record<string, ExpressionFunction>;
+}
+
+/**
+ * Token kinds produced by the tokenizer
+ */
+type TokenKind = 'number' | 'string' | 'name' | 'op' | 'punct';
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  /** Whitespace precedes the token */
+  spaced: boolean;
+}
+
+/**
+ * Operators recognized by the tokenizer, longest first
+ */
+const OPERATORS = [
+  '..', '||', '&&', '==', '!=', '>=', '<=', '=~', '!~',
+  '>', '<', '!', '-', '+', '*', '/', '%', '.', '?', ':',
+];
+
+/**
+ * Punctuation tokens
+ */
+const PUNCTUATION = new Set(['(', ')', '[', ']', '{', '}', ',', '#']);
+
+/**
+ * Comparison operators (before any #/? modifier)
+ */
+const COMPARISON_OPERATORS = new Set(['==', '!=', '>', '>=', '<', '<=', '=~', '!~', 'is', 'isnot']);
+
+/**
+ * Dotted version string such as '1.5' or '1.4.16'
+ */
+const VERSION_PATTERN = /^\d+(\.\d+)+$|^\d+$/;
+
+/**
+ * Check whether a value is a List
+ */
+export function isList(value: VimValue): value is VimList {
+  return Array.isArray(value);
+}
+
+/**
+ * Check whether a value is a Dictionary
+ */
+export function isDict(value: VimValue): value is VimDict {
+  return typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Convert a value to a number using Vim's rules (leading digits, else 0)
+ *
+ * @throws Error for Lists and Dictionaries
+ */
+export function toNumber(value: VimValue): number {
+  if (typeof value === 'number') return value;
+  if (isList(value)) throw new Error('E745: Using a List as a Number');
+  if (isDict(value)) throw new Error('E728: Using a Dictionary as a Number');
+  const hex = value.match(/^\s*([-+]?)0x([0-9a-f]+)/i);
+  if (hex) return parseInt(hex[1] + hex[2], 16);
+  const match = value.match(/^\s*[-+]?\d+/);
+  return match ? parseInt(match[0], 10) : 0;
+}
+
+/**
+ * Convert a value to a string
+ *
+ * @throws Error for Lists and Dictionaries
+ */
+export function toStringValue(value: VimValue): string {
+  if (typeof value === 'number') return String(value);
+  if (isList(value)) throw new Error('E730: Using a List as a String');
+  if (isDict(value)) throw new Error('E731: Using a Dictionary as a String');
+  return value;
+}
+
+/**
+ * Format a value the way Vim's string() does
+ */
+export function formatValue(value: VimValue): string {
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`;
+  if (isList(value)) return `[${value.map(formatValue).join(', ')}]`;
+  return `{${Object.entries(value).map(([key, item]) => `${formatValue(key)}: ${formatValue(item)}`).join(', ')}}`;
+}
+
+/**
+ * Check whether a value counts as true in a condition
+ */
+export function isTruthy(value: VimValue): boolean {
+  return toNumber(value) !== 0;
+}
+
+/**
+ * Compare two dotted version strings segment by segment
+ */
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  const length = Math.max(left.length, right.length);
+  for (let i = 0; i < length; i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Check two values for equality (deep for Lists and Dictionaries)
+ */
+function valuesEqual(left: VimValue, right: VimValue, ignoreCase: boolean): boolean {
+  if (isList(left) && isList(right)) {
+    return left.length === right.length && left.every((item, i) => valuesEqual(item, right[i], ignoreCase));
+  }
+  if (isDict(left) && isDict(right)) {
+    const keys = Object.keys(left);
+    return keys.length === Object.keys(right).length
+      && keys.every((key) => key in right && valuesEqual(left[key], right[key], ignoreCase));
+  }
+  if (typeof left === 'object' || typeof right === 'object') {
+    throw new Error('E691: Can only compare List with List');
+  }
+  if (typeof left === 'number' || typeof right === 'number') {
+    return toNumber(left) === toNumber(right);
+  }
+  return ignoreCase ? left.toLowerCase() === right.toLowerCase() : left === right;
+}
+
+/**
+ * Split an expression into tokens
+ *
+ * @throws Error on unterminated strings or unexpected characters
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let spaced = false;
+
+  const expectsOperand = (): boolean => {
+    const last = tokens[tokens.length - 1];
+    if (!last) return true;
+    if (last.kind === 'op') return true;
+    return last.kind === 'punct' && !(last.value === ')' || last.value === ']' || last.value === '}');
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      spaced = true;
+      i++;
+      continue;
+    }
+
+    // A double quote after an operand starts a comment
+    if (char === '"' && !expectsOperand()) {
+      break;
+    }
+
+    const push = (kind: TokenKind, value: string, length = value.length) => {
+      tokens.push({ kind, value, spaced });
+      spaced = false;
+      i += length;
+    };
+
+    if (char === '"' || char === "'") {
+      const { value, end } = char === '"' ? readDoubleQuoted(input, i) : readSingleQuoted(input, i);
+      push('string', value, end - i);
+      continue;
+    }
+
+    const numberMatch = input.slice(i).match(/^(?:0x[0-9a-f]+|\d+\.\d+|\d+)/i);
+    if (numberMatch) {
+      push('number', numberMatch[0]);
+      continue;
+    }
+
+    const nameMatch = input.slice(i).match(/^(?:[gsbvwtl]:)?[A-Za-z_][\w]*/);
+    if (nameMatch) {
+      push('name', nameMatch[0]);
+      continue;
+    }
+
+    if (PUNCTUATION.has(char)) {
+      push('punct', char);
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => input.startsWith(candidate, i));
+    if (op) {
+      // Case modifiers on comparisons: ==# (match case), ==? (ignore case)
+      const modifier = COMPARISON_OPERATORS.has(op) && (input[i + op.length] === '#' || input[i + op.length] === '?')
+        ? input[i + op.length]
+        : '';
+      push('op', op + modifier);
+      continue;
+    }
+
+    throw new Error(`Invalid expression: unexpected '${char}' in "${input}"`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Read a single-quoted string literal ('' is an escaped quote)
+ */
+function readSingleQuoted(input: string, start: number): { value: string; end: number } {
+  let value = '';
+  let i = start + 1;
+  while (i < input.length) {
+    if (input[i] === "'") {
+      if (input[i + 1] === "'") {
+        value += "'";
+        i += 2;
+        continue;
+      }
+      return { value, end: i + 1 };
+    }
+    value += input[i];
+    i++;
+  }
+  throw new Error(`E115: Missing quote: ${input.slice(start)}`);
+}
+
+/**
+ * Read a `\<Key>` special key in a double-quoted string
+ *
+ * Keys that type a character produce it; other keys keep their canonical
+ * notation so the result can be used as a mapping right-hand side. Unknown
+ * key names are kept as written.
+ */
+function readStringKey(input: string): { text: string; length: number } | null {
+  let notation: ReturnType<typeof readKeyNotation>;
+  try {
+    notation = readKeyNotation(input);
+  } catch {
+    return null;
+  }
+  if (!notation) {
+    return null;
+  }
+  return { text: keyCharacter(notation.key) ?? formatKey(notation.key), length: notation.length };
+}
+
+/**
+ * Read a double-quoted string literal with backslash escapes
+ */
+function readDoubleQuoted(input: string, start: number): { value: string; end: number } {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', e: '\x1b', '\\': '\\', '"': '"' };
+  let value = '';
+  let i = start + 1;
+  while (i < input.length) {
+    const char = input[i];
+    if (char === '\\' && i + 1 < input.length) {
+      const notation = readStringKey(input.slice(i + 1));
+      if (notation) {
+        value += notation.text;
+        i += 1 + notation.length;
+        continue;
+      }
+      const next = input[i + 1];
+      value += escapes[next] ?? next;
+      i += 2;
+      continue;
+    }
+    if (char === '"') {
+      return { value, end: i + 1 };
+    }
+    value += char;
+    i++;
+  }
+  throw new Error(`E114: Missing quote: ${input.slice(start)}`);
+}
+
+/**
+ * Format arguments like Vim's printf()
+ */
+function printf(format: string, args: VimValue[]): string {
+  let index = 0;
+  return format.replace(/%([-0 +]*)(\d*)(?:\.(\d+))?([sdxXofc%])/g, (_match, flags: string, width: string, precision: string | undefined, type: string) => {
+    if (type === '%') return '%';
+    if (index >= args.length) {
+      throw new Error('E766: Insufficient arguments for printf()');
+    }
+    const arg = args[index++];
+    let text: string;
+    switch (type) {
+      case 's':
+        text = typeof arg === 'string' ? arg : formatValue(arg);
+        if (precision !== undefined) text = text.slice(0, Number(precision));
+        break;
+      case 'd':
+        text = String(Math.trunc(toNumber(arg)));
+        if (flags.includes('+') && !text.startsWith('-')) text = '+' + text;
+        break;
+      case 'x':
+        text = Math.trunc(toNumber(arg)).toString(16);
+        break;
+      case 'X':
+        text = Math.trunc(toNumber(arg)).toString(16).toUpperCase();
+        break;
+      case 'o':
+        text = Math.trunc(toNumber(arg)).toString(8);
+        break;
+      case 'f':
+        text = toNumber(arg).toFixed(precision !== undefined ? Number(precision) : 6);
+        break;
+      default:
+        text = String.fromCharCode(toNumber(arg));
+    }
+    const size = Number(width || 0);
+    if (text.length >= size) return text;
+    if (flags.includes('-')) return text.padEnd(size);
+    return flags.includes('0') && type !== 's' ? text.padStart(size, '0') : text.padStart(size);
+  });
+}
+
+/**
+ * Check the number of arguments passed to a built-in function
+ */
+function expectArgs(name: string, args: VimValue[], min: number, max = min): void {
+  if (args.length < min) throw new Error(`E119: Not enough arguments for function: ${name}`);
+  if (args.length > max) throw new Error(`E118: Too many arguments for function: ${name}`);
+}
+
+/**
+ * Built-in functions available in every expression
+ */
+const BUILTIN_FUNCTIONS: Record<string, ExpressionFunction> = {
+  len: (args) => {
+    expectArgs('len', args, 1);
+    const [value] = args;
+    if (isDict(value)) return Object.keys(value).length;
+    return isList(value) ? value.length : toStringValue(value).length;
+  },
+  empty: (args) => {
+    expectArgs('empty', args, 1);
+    const [value] = args;
+    if (isDict(value)) return Object.keys(value).length === 0 ? 1 : 0;
+    if (isList(value) || typeof value === 'string') return value.length === 0 ? 1 : 0;
+    return value === 0 ? 1 : 0;
+  },
+  get: (args) => {
+    expectArgs('get', args, 2, 3);
+    const [container, key, fallback = 0] = args;
+    if (isList(container)) {
+      const index = toNumber(key);
+      const item = container[index < 0 ? container.length + index : index];
+      return item ?? fallback;
+    }
+    if (isDict(container)) {
+      return container[toStringValue(key)] ?? fallback;
+    }
+    throw new Error('E896: Argument of get() must be a List or Dictionary');
+  },
+  has_key: (args) => {
+    expectArgs('has_key', args, 2);
+    const [dict, key] = args;
+    if (!isDict(dict)) throw new Error('E715: Dictionary required');
+    return toStringValue(key) in dict ? 1 : 0;
+  },
+  keys: (args) => {
+    expectArgs('keys', args, 1);
+    if (!isDict(args[0])) throw new Error('E715: Dictionary required');
+    return Object.keys(args[0]);
+  },
+  values: (args) => {
+    expectArgs('values', args, 1);
+    if (!isDict(args[0])) throw new Error('E715: Dictionary required');
+    return Object.values(args[0]);
+  },
+  join: (args) => {
+    expectArgs('join', args, 1, 2);
+    const [list, separator = ' '] = args;
+    if (!isList(list)) throw new Error('E714: List required');
+    return list.map((item) => (typeof item === 'string' ? item : formatValue(item))).join(toStringValue(separator));
+  },
+  split: (args) => {
+    expectArgs('split', args, 1, 2);
+    const text = toStringValue(args[0]);
+    const pattern = args.length > 1 ? new RegExp(toStringValue(args[1])) : /\s+/;
+    return text.split(pattern).filter((part) => part.length > 0);
+  },
+  string: (args) => {
+    expectArgs('string', args, 1);
+    return formatValue(args[0]);
+  },
+  toupper: (args) => {
+    expectArgs('toupper', args, 1);
+    return toStringValue(args[0]).toUpperCase();
+  },
+  tolower: (args) => {
+    expectArgs('tolower', args, 1);
+    return toStringValue(args[0]).toLowerCase();
+  },
+  trim: (args) => {
+    expectArgs('trim', args, 1);
+    return toStringValue(args[0]).trim();
+  },
+  printf: (args) => {
+    expectArgs('printf', args, 1, 20);
+    return printf(toStringValue(args[0]), args.slice(1));
+  },
+};
+
+/**
+ * ExpressionEvaluator implementation
+ *
+ * Recursive-descent evaluator following Vim's operator precedence.
+ */
+export class ExpressionEvaluator {
+  private context: ExpressionContext;
+  private tokens: Token[] = [];
+  private position = 0;
+
+  /**
+   * Create a new ExpressionEvaluator
+   *
+   * @param context - Variable and function resolution context
+   */
+  constructor(context: ExpressionContext) {
+    this.context = context;
+  }
+
+  /**
+   * Evaluate an expression
+   *
+   * @param input - Expression source text
+   * @returns The resulting value
+   * @throws Error on syntax errors, unknown variables or unknown functions
+   */
+  evaluate(input: string): VimValue {
+    const [value, ...rest] = this.evaluateAll(input);
+    if (rest.length > 0) {
+      throw new Error(`E488: Trailing characters: ${input}`);
+    }
+    return value;
+  }
+
+  /**
+   * Evaluate a sequence of whitespace-separated expressions, as taken by `execute`
+   *
+   * @param input - Expressions source text
+   * @returns The value of each expression
+   */
+  evaluateAll(input: string): VimValue[] {
+    this.tokens = tokenize(input);
+    this.position = 0;
+
+    if (this.tokens.length === 0) {
+      throw new Error('E15: Empty expression');
+    }
+
+    const values: VimValue[] = [];
+    while (this.position < this.tokens.length) {
+      values.push(this.parseTernary());
+    }
+    return values;
+  }
+
+  /**
+   * Evaluate an expression as a condition
+   *
+   * @param input - Expression source text
+   * @returns true if the expression is non-zero
+   */
+  evaluateCondition(input: string): boolean {
+    return isTruthy(this.evaluate(input));
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new Error('E15: Unexpected end of expression');
+    }
+    return token;
+  }
+
+  private matchOp(...ops: string[]): string | null {
+    const token = this.peek();
+    if (token?.kind === 'op' && ops.includes(token.value)) {
+      this.position++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private matchPunct(value: string): boolean {
+    const token = this.peek();
+    if (token?.kind === 'punct' && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunct(value: string, message: string): void {
+    if (!this.matchPunct(value)) {
+      throw new Error(message);
+    }
+  }
+
+  /** expr1: a ? b : c */
+  private parseTernary(): VimValue {
+    const condition = this.parseOr();
+    if (!this.matchOp('?')) return condition;
+
+    const whenTrue = this.parseTernary();
+    if (!this.matchOp(':')) {
+      throw new Error("E109: Missing ':' after '?'");
+    }
+    const whenFalse = this.parseTernary();
+    return isTruthy(condition) ? whenTrue : whenFalse;
+  }
+
+  /** expr2: a || b */
+  private parseOr(): VimValue {
+    let left = this.parseAnd();
+    while (this.matchOp('||')) {
+      const right = this.parseAnd();
+      left = isTruthy(left) || isTruthy(right) ? 1 : 0;
+    }
+    return left;
+  }
+
+  /** expr3: a && b */
+  private parseAnd(): VimValue {
+    let left = this.parseComparison();
+    while (this.matchOp('&&')) {
+      const right = this.parseComparison();
+      left = isTruthy(left) && isTruthy(right) ? 1 : 0;
+    }
+    return left;
+  }
+
+  /** expr4: a == b, a =~ b, a is b, ... */
+  private parseComparison(): VimValue {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (!token || (token.kind !== 'op' && token.kind !== 'name')) return left;
+
+    const base = token.value.replace(/[#?]$/, '');
+    if (!COMPARISON_OPERATORS.has(base)) return left;
+
+    this.position++;
+    let ignoreCase = token.value.endsWith('?');
+    // is/isnot take their modifier as a separate token
+    if (token.kind === 'name' && this.peek()?.kind === 'op' && this.peek()?.value === '?' && !this.peek()?.spaced) {
+      this.position++;
+      ignoreCase = true;
+    }
+    const right = this.parseAdditive();
+    return this.compare(base, left, right, ignoreCase) ? 1 : 0;
+  }
+
+  /** expr5: a + b, a - b, a . b, a .. b */
+  private parseAdditive(): VimValue {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      const op = this.matchOp('+', '-', '.', '..');
+      if (!op) return left;
+      const right = this.parseMultiplicative();
+      if (op === '.' || op === '..') {
+        left = toStringValue(left) + toStringValue(right);
+      } else if (op === '+' && isList(left) && isList(right)) {
+        left = [...left, ...right];
+      } else {
+        left = op === '+' ? toNumber(left) + toNumber(right) : toNumber(left) - toNumber(right);
+      }
+    }
+  }
+
+  /** expr6: a * b, a / b, a % b */
+  private parseMultiplicative(): VimValue {
+    let left = this.parseUnary();
+    for (;;) {
+      const op = this.matchOp('*', '/', '%');
+      if (!op) return left;
+      const a = toNumber(left);
+      const b = toNumber(this.parseUnary());
+      if (op === '*') {
+        left = a * b;
+        continue;
+      }
+      if (b === 0) {
+        throw new Error('E1154: Divide by zero');
+      }
+      const integral = Number.isInteger(a) && Number.isInteger(b);
+      left = op === '/' ? (integral ? Math.trunc(a / b) : a / b) : a % b;
+    }
+  }
+
+  /** expr7: !a, -a, +a */
+  private parseUnary(): VimValue {
+    const op = this.matchOp('!', '-', '+');
+    if (op === '!') return isTruthy(this.parseUnary()) ? 0 : 1;
+    if (op === '-') return -toNumber(this.parseUnary());
+    if (op === '+') return toNumber(this.parseUnary());
+    return this.parsePostfix();
+  }
+
+  /** expr8: a[i], a[i:j] */
+  private parsePostfix(): VimValue {
+    let value = this.parsePrimary();
+    while (this.peek()?.kind === 'punct' && this.peek()?.value === '[' && !this.peek()?.spaced) {
+      this.next();
+      value = this.parseIndex(value);
+    }
+    return value;
+  }
+
+  /**
+   * Parse an index or slice after `[` and apply it
+   */
+  private parseIndex(value: VimValue): VimValue {
+    const start = this.peek()?.kind === 'op' && this.peek()?.value === ':' ? undefined : this.parseTernary();
+
+    if (this.matchOp(':')) {
+      const end = this.peek()?.kind === 'punct' && this.peek()?.value === ']' ? undefined : this.parseTernary();
+      this.expectPunct(']', "E111: Missing ']'");
+      if (isDict(value)) throw new Error('E719: Cannot slice a Dictionary');
+      const items = typeof value === 'number' ? String(value) : value;
+      const length = items.length;
+      const from = start === undefined ? 0 : toNumber(start);
+      const to = end === undefined ? length - 1 : toNumber(end);
+      const normalize = (index: number) => (index < 0 ? length + index : index);
+      return items.slice(Math.max(normalize(from), 0), normalize(to) + 1);
+    }
+
+    this.expectPunct(']', "E111: Missing ']'");
+    if (start === undefined) throw new Error('E15: Invalid expression');
+
+    if (isDict(value)) {
+      const key = toStringValue(start);
+      if (!(key in value)) throw new Error(`E716: Key not present in Dictionary: "${key}"`);
+      return value[key];
+    }
+    if (isList(value)) {
+      const index = toNumber(start);
+      const item = value[index < 0 ? value.length + index : index];
+      if (item === undefined) throw new Error(`E684: List index out of range: ${index}`);
+      return item;
+    }
+    return toStringValue(value).charAt(toNumber(start));
+  }
+
+  /** expr9: literals, variables, function calls, (expr) */
+  private parsePrimary(): VimValue {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+        return /^0x/i.test(token.value) ? parseInt(token.value, 16) : Number(token.value);
+      case 'string':
+        return token.value;
+      case 'name':
+        if (this.peek()?.kind === 'punct' && this.peek()?.value === '(' && !this.peek()?.spaced) {
+          return this.parseCall(token.value);
+        }
+        return this.resolveVariable(token.value);
+      case 'punct':
+        if (token.value === '(') {
+          const value = this.parseTernary();
+          this.expectPunct(')', "E110: Missing ')'");
+          return value;
+        }
+        if (token.value === '[') return this.parseList();
+        if (token.value === '{') return this.parseDict(false);
+        if (token.value === '#' && this.matchPunct('{')) return this.parseDict(true);
+        break;
+    }
+    throw new Error(`E15: Invalid expression: unexpected '${token.value}'`);
+  }
+
+  /**
+   * Parse a List literal after `[`
+   */
+  private parseList(): VimList {
+    const items: VimList = [];
+    while (!this.matchPunct(']')) {
+      items.push(this.parseTernary());
+      if (!this.matchPunct(',')) {
+        this.expectPunct(']', "E697: Missing end of List ']'");
+        break;
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Parse a Dictionary literal after `{` (or `#{` when literal keys are used)
+   */
+  private parseDict(literalKeys: boolean): VimDict {
+    const dict: VimDict = {};
+    while (!this.matchPunct('}')) {
+      const key = literalKeys && this.peek()?.kind !== 'string'
+        ? this.next().value
+        : toStringValue(this.parseTernary());
+      if (!this.matchOp(':')) {
+        throw new Error("E720: Missing colon in Dictionary");
+      }
+      dict[key] = this.parseTernary();
+      if (!this.matchPunct(',')) {
+        this.expectPunct('}', "E723: Missing end of Dictionary '}'");
+        break;
+      }
+    }
+    return dict;
+  }
+
+  /**
+   * Parse a function call argument list and invoke the function
+   */
+  private parseCall(name: string): VimValue {
+    this.next(); // (
+    const args: VimValue[] = [];
+
+    if (!this.matchPunct(')')) {
+      args.push(this.parseTernary());
+      while (this.matchPunct(',')) {
+        args.push(this.parseTernary());
+      }
+      this.expectPunct(')', `E116: Invalid arguments for function ${name}`);
+    }
+
+    const fn = this.context.functions?.[name] ?? BUILTIN_FUNCTIONS[name];
+    if (!fn) {
+      throw new Error(`E117: Unknown function: ${name}`);
+    }
+    return fn(args);
+  }
+
+  /**
+   * Resolve a variable reference
+   */
+  private resolveVariable(name: string): VimValue {
+    if (name === 'v:true') return 1;
+    if (name === 'v:false') return 0;
+
+    const value = this.context.getVariable(name);
+    if (value === undefined) {
+      throw new Error(`E121: Undefined variable: ${name}`);
+    }
+    return value;
+  }
+
+  /**
+   * Compare two values with Vim semantics
+   *
+   * Numbers compare numerically when either side is a number. Two strings
+   * that both look like dotted versions (e.g. '1.10' and '1.5') compare
+   * segment by segment so version checks behave as expected. Lists and
+   * Dictionaries only support equality.
+   */
+  private compare(op: string, left: VimValue, right: VimValue, ignoreCase: boolean): boolean {
+    if (op === '=~' || op === '!~') {
+      const pattern = new RegExp(toStringValue(right), ignoreCase ? 'i' : '');
+      const matches = pattern.test(toStringValue(left));
+      return op === '=~' ? matches : !matches;
+    }
+
+    if (op === '==' || op === 'is') return valuesEqual(left, right, ignoreCase);
+    if (op === '!=' || op === 'isnot') return !valuesEqual(left, right, ignoreCase);
+
+    if (typeof left === 'object' || typeof right === 'object') {
+      throw new Error('E692: Invalid operation for List or Dictionary');
+    }
+
+    let diff: number;
+    if (typeof left === 'number' || typeof right === 'number') {
+      diff = toNumber(left) - toNumber(right);
+    } else if (VERSION_PATTERN.test(left) && VERSION_PATTERN.test(right)) {
+      diff = compareVersions(left, right);
+    } else {
+      const a = ignoreCase ? left.toLowerCase() : left;
+      const b = ignoreCase ? right.toLowerCase() : right;
+      diff = a === b ? 0 : a < b ? -1 : 1;
+    }
+
+    switch (op) {
+      case '>': return diff > 0;
+      case '>=': return diff >= 0;
+      case '<': return diff < 0;
+      case '<=': return diff <= 0;
+      default: return false;
+    }
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * FileWatcher - Vault Events for the Configuration Files
+ *
+ * Turns the vault's create, modify, delete and rename events for watched
+ * paths into FILE_CREATED, FILE_CHANGED and FILE_DELETED events. Events of
+ * one path are debounced, so a save emitting several vault events emits one
+ * event; a rename emits FILE_DELETED for the old path and FILE_CREATED for
+ * the new one, when watched. The vault is only listened to while a path is
+ * watched.
+ *
+ * @module services/FileWatcher
+ */
+
+import type { EventRef, TAbstractFile, Vault } from 'obsidian';
+import type { IEventBus, IFileWatcher } from '../types/services';
+import { EventType } from '../types/events';
+import { getLogger } from './Logger';
+
+const log = getLogger('loader');
+
+/**
+ * Default delay between the last vault event of a path and its event
+ */
+export const DEFAULT_WATCH_DEBOUNCE_DELAY = 100;
+
+/**
+ * Vault events the watcher listens to
+ */
+export type VaultEvents = Pick<Vault, 'on' | 'offref'>;
+
+type FileEventType = EventType.FILE_CREATED | EventType.FILE_CHANGED | EventType.FILE_DELETED;
+
+/**
+ * Event of a path waiting for its debounce delay
+ */
+interface PendingEvent {
+  type: FileEventType;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Watcher of vault paths
+ */
+export class FileWatcher implements IFileWatcher {
+  private eventBus: IEventBus;
+  private vault: VaultEvents;
+  private paths = new Set<string>();
+  private pending = new Map<string, PendingEvent>();
+  private eventRefs: EventRef[] = [];
+  private debounceDelay = DEFAULT_WATCH_DEBOUNCE_DELAY;
+
+  /**
+   * Create a file watcher
+   *
+   * @param eventBus - Event bus the file events are emitted on
+   * @param vault - Vault whose events are watched
+   */
+  constructor(eventBus: IEventBus, vault: VaultEvents) {
+    this.eventBus = eventBus;
+    this.vault = vault;
+  }
+
+  /**
+   * Start watching a vault-relative path, whether or not the file exists
+   */
+  watch(path: string): void {
+    this.paths.add(path);
+    if (this.eventRefs.length === 0) {
+      this.listen();
+    }
+  }
+
+  /**
+   * Stop watching a path, dropping its pending event
+   */
+  unwatch(path: string): void {
+    this.paths.delete(path);
+    this.cancel(path);
+    if (this.paths.size === 0) {
+      this.stopListening();
+    }
+  }
+
+  /**
+   * Stop watching every path
+   */
+  unwatchAll(): void {
+    this.paths.clear();
+    for (const path of [...this.pending.keys()]) {
+      this.cancel(path);
+    }
+    this.stopListening();
+  }
+
+  /**
+   * Set the delay between the last vault event of a path and its event
+   */
+  setDebounceDelay(ms: number): void {
+    this.debounceDelay = Math.max(0, ms);
+  }
+
+  /**
+   * Get the watched paths
+   */
+  getWatchedPaths(): string[] {
+    return [...this.paths];
+  }
+
+  /**
+   * Listen to the vault events
+   */
+  private listen(): void {
+    this.eventRefs = [
+      this.vault.on('create', (file: TAbstractFile) => this.queue(file.path, EventType.FILE_CREATED)),
+      this.vault.on('modify', (file: TAbstractFile) => this.queue(file.path, EventType.FILE_CHANGED)),
+      this.vault.on('delete', (file: TAbstractFile) => this.queue(file.path, EventType.FILE_DELETED)),
+      this.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+        this.queue(oldPath, EventType.FILE_DELETED);
+        this.queue(file.path, EventType.FILE_CREATED);
+      }),
+    ];
+  }
+
+  /**
+   * Stop listening to the vault events
+   */
+  private stopListening(): void {
+    for (const ref of this.eventRefs) {
+      this.vault.offref(ref);
+    }
+    this.eventRefs = [];
+  }
+
+  /**
+   * Emit the event of a watched path once its vault events settle
+   *
+   * A change right after a creation stays a creation, so the file is
+   * loaded as new.
+   */
+  private queue(path: string, type: FileEventType): void {
+    if (!this.paths.has(path)) {
+      return;
+    }
+
+    const previous = this.pending.get(path);
+    if (previous) {
+      clearTimeout(previous.timer);
+    }
+    const pendingType = previous?.type === EventType.FILE_CREATED && type === EventType.FILE_CHANGED
+      ? previous.type
+      : type;
+    const timer = setTimeout(() => {
+      this.pending.delete(path);
+      log.debug(`${pendingType}: ${path}`);
+      this.eventBus.emit(pendingType, { path });
+    }, this.debounceDelay);
+    this.pending.set(path, { type: pendingType, timer });
+  }
+
+  /**
+   * Drop the pending event of a path
+   */
+  private cancel(path: string): void {
+    const pending = this.pending.get(path);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending.delete(path);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * FolderOverlayTracker - Folder Vimrcs Following the Active Note
+ *
+ * Applies the .vimrc files of the active note's folders on top of the vimrc
+ * whenever the active leaf changes, reporting the errors of the overlays
+ * applied.
+ *
+ * @module services/FolderOverlayTracker
+ */
+
+import type { App, Plugin } from 'obsidian';
+import type { IVimrcLoader, LoadResult } from '../types/services';
+
+/**
+ * Configuration for FolderOverlayTracker
+ */
+export interface FolderOverlayTrackerConfig {
+  plugin: Plugin;
+  app: App;
+  loader: IVimrcLoader;
+  /** Report the errors of applying folder vimrcs */
+  onErrors: (errors: LoadResult['errors']) => void;
+  /** Called after every update, e.g. to watch the applied folder vimrcs */
+  onUpdate: () => void;
+}
+
+/**
+ * Tracker applying the folder vimrcs of the active note
+ */
+export class FolderOverlayTracker {
+  private plugin: Plugin;
+  private app: App;
+  private loader: IVimrcLoader;
+  private onErrors: (errors: LoadResult['errors']) => void;
+  private onUpdate: () => void;
+
+  constructor(config: FolderOverlayTrackerConfig) {
+    this.plugin = config.plugin;
+    this.app = config.app;
+    this.loader = config.loader;
+    this.onErrors = config.onErrors;
+    this.onUpdate = config.onUpdate;
+  }
+
+  /**
+   * Apply the folder vimrcs of the active note, and follow the active leaf
+   */
+  start(): void {
+    void this.update();
+    this.plugin.registerEvent(this.app.workspace.on('active-leaf-change', () => void this.update()));
+  }
+
+  /**
+   * Bring the applied folder vimrcs in line with the active note
+   */
+  async update(): Promise<void> {
+    this.onErrors(await this.loader.updateFolderOverlays(this.app.workspace.getActiveFile()?.path ?? null));
+    this.onUpdate();
+  }
+}
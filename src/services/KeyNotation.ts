@@ -0,0 +1,359 @@
+/**
+ * KeyNotation - Vim Key Notation Tokenizer and Normalizer
+ *
+ * Splits key sequences such as `<leader>w<c-w>v` into keys and formats them
+ * in the canonical notation CodeMirror Vim produces for key events:
+ * - Modifiers in the order `C-`, `A-`, `D-`, `S-`; `<M-x>` is Alt like `<A-x>`
+ *   and `D-` is Cmd (which CodeMirror Vim names `M-`)
+ * - Special keys by their CodeMirror Vim names: `<CR>`, `<BS>`, `<Space>`, ...
+ * - Ctrl letters in lowercase, shifted letters in uppercase (`<S-a>` is `A`)
+ * - `<lt>`, `<Bar>` and `<Bslash>` as the literal characters, with `<lt>`
+ *   kept only where a `<` would otherwise start a key name
+ *
+ * Formatting the keys of a canonical string gives the same string back.
+ *
+ * @module services/KeyNotation
+ */
+
+/**
+ * A single key with its modifiers
+ */
+export interface Key {
+  /** A single character, or a special key name such as 'CR', 'F1' or 'kEnter' */
+  name: string;
+  ctrl: boolean;
+  alt: boolean;
+  meta: boolean;
+  shift: boolean;
+}
+
+/**
+ * Options for tokenizing key sequences
+ */
+export interface KeyNotationOptions {
+  /** Keys `<Leader>` stands for (default `\`) */
+  leader?: string;
+  /** Keys `<LocalLeader>` stands for (default `\`) */
+  localLeader?: string;
+}
+
+/**
+ * Special key names by lowercase name or alias
+ */
+const SPECIAL_KEYS: Record<string, string> = {
+  cr: 'CR',
+  enter: 'CR',
+  return: 'CR',
+  esc: 'Esc',
+  space: 'Space',
+  tab: 'Tab',
+  bs: 'BS',
+  backspace: 'BS',
+  del: 'Del',
+  delete: 'Del',
+  ins: 'Ins',
+  insert: 'Ins',
+  up: 'Up',
+  down: 'Down',
+  left: 'Left',
+  right: 'Right',
+  home: 'Home',
+  end: 'End',
+  pageup: 'PageUp',
+  pagedown: 'PageDown',
+  nop: 'Nop',
+  plug: 'Plug',
+  sid: 'SID',
+  kenter: 'kEnter',
+  kplus: 'kPlus',
+  kminus: 'kMinus',
+  kmultiply: 'kMultiply',
+  kdivide: 'kDivide',
+  kpoint: 'kPoint',
+};
+for (let i = 1; i <= 12; i++) {
+  SPECIAL_KEYS[`f${i}`] = `F${i}`;
+}
+for (let i = 0; i <= 9; i++) {
+  SPECIAL_KEYS[`k${i}`] = `k${i}`;
+}
+
+/**
+ * Key names that stand for a single character
+ */
+const CHARACTER_KEYS: Record<string, string> = {
+  lt: '<',
+  bar: '|',
+  bslash: '\\',
+};
+
+/**
+ * Characters typed as a special key
+ */
+const CHARACTER_SPECIAL_KEYS: Record<string, string> = {
+  ' ': 'Space',
+  '\t': 'Tab',
+  '\n': 'CR',
+  '\r': 'CR',
+  '\x1b': 'Esc',
+  '\b': 'BS',
+  '\x7f': 'Del',
+};
+
+/**
+ * Characters special keys stand for in strings (`"\<Space>"`)
+ */
+const SPECIAL_KEY_CHARACTERS: Record<string, string> = {
+  Space: ' ',
+  Tab: '\t',
+};
+
+/**
+ * Special key names by KeyboardEvent.key where they differ from Vim's
+ */
+const EVENT_KEYS: Record<string, string> = {
+  Escape: 'Esc',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+};
+
+/**
+ * Key name with optional modifiers, e.g. `<C-S-Tab>` or `<F1>`
+ */
+const NAMED_KEY_PATTERN = /^<((?:[A-Za-z]-)*)([A-Za-z][A-Za-z0-9]*)>/;
+
+/**
+ * Punctuation key with modifiers, e.g. `<C-]>` or `<A-,>`
+ */
+const CHARACTER_KEY_PATTERN = /^<((?:[A-Za-z]-)+)([^\s<>]|>)>/;
+
+/**
+ * Match `<...>` key notation at the start of a string
+ */
+function matchNotation(text: string): RegExpMatchArray | null {
+  return text.match(NAMED_KEY_PATTERN) ?? text.match(CHARACTER_KEY_PATTERN);
+}
+
+/**
+ * Create a key for a typed character
+ */
+function characterKey(char: string): Key {
+  return { name: CHARACTER_SPECIAL_KEYS[char] ?? char, ctrl: false, alt: false, meta: false, shift: false };
+}
+
+/**
+ * Bring a key into canonical form
+ *
+ * Ctrl letters are case-insensitive; shifted letters are uppercase and only
+ * keep `S-` together with another modifier, like CodeMirror Vim key events.
+ */
+function canonicalKey(key: Key): Key {
+  const result = { ...key };
+  if (!/^[a-zA-Z]$/.test(result.name)) {
+    return result;
+  }
+
+  if (result.ctrl && !result.shift) {
+    result.name = result.name.toLowerCase();
+  } else if (result.shift || result.name !== result.name.toLowerCase()) {
+    result.name = result.name.toUpperCase();
+    result.shift = result.ctrl || result.alt || result.meta;
+  }
+  return result;
+}
+
+/**
+ * Parse one `<...>` notation into a key
+ *
+ * @throws Error for unknown modifiers or key names
+ */
+function parseNotation(notation: string, modifiers: string, name: string): Key {
+  const key: Key = { name: '', ctrl: false, alt: false, meta: false, shift: false };
+
+  for (const modifier of modifiers.split('-').filter((item) => item.length > 0)) {
+    switch (modifier.toUpperCase()) {
+      case 'C':
+        key.ctrl = true;
+        break;
+      case 'A':
+      case 'M':
+        key.alt = true;
+        break;
+      case 'D':
+        key.meta = true;
+        break;
+      case 'S':
+        key.shift = true;
+        break;
+      default:
+        throw new Error(`Unknown key modifier "${modifier}" in ${notation}`);
+    }
+  }
+
+  const lower = name.toLowerCase();
+  if (name.length === 1 && modifiers) {
+    key.name = name;
+  } else if (CHARACTER_KEYS[lower]) {
+    key.name = CHARACTER_KEYS[lower];
+  } else if (SPECIAL_KEYS[lower]) {
+    key.name = SPECIAL_KEYS[lower];
+  } else {
+    throw new Error(`Unknown key notation: ${notation} (use <lt> for a literal "<")`);
+  }
+
+  return canonicalKey(key);
+}
+
+/**
+ * Read one `<...>` key notation at the start of a string
+ *
+ * @param text - Text starting with `<`
+ * @returns The key and the length of its notation, or null when the text
+ *   does not start with key notation
+ * @throws Error for unknown key names or modifiers
+ */
+export function readKeyNotation(text: string): { key: Key; length: number } | null {
+  const match = matchNotation(text);
+  if (!match) {
+    return null;
+  }
+  const [notation, modifiers, name] = match;
+  return { key: parseNotation(notation, modifiers, name), length: notation.length };
+}
+
+/**
+ * Split a key sequence into keys
+ *
+ * `<Leader>` and `<LocalLeader>` are replaced with the keys they stand for.
+ * A `<` that does not start a key name is a literal `<`.
+ *
+ * @param keys - Keys in Vim notation, e.g. `<leader>w<C-w>v`
+ * @param options - Keys for `<Leader>` and `<LocalLeader>`
+ * @returns The keys in canonical form
+ * @throws Error for unknown `<...>` key names or modifiers
+ */
+export function tokenizeKeys(keys: string, options: KeyNotationOptions = {}): Key[] {
+  const result: Key[] = [];
+
+  let i = 0;
+  while (i < keys.length) {
+    const match = keys[i] === '<' ? matchNotation(keys.slice(i)) : null;
+    if (!match) {
+      result.push(characterKey(keys[i]));
+      i++;
+      continue;
+    }
+
+    const [notation, modifiers, name] = match;
+    i += notation.length;
+
+    const leader = !modifiers && ['leader', 'localleader'].includes(name.toLowerCase());
+    if (leader) {
+      const value = name.toLowerCase() === 'leader' ? options.leader : options.localLeader;
+      result.push(...tokenizeKeys(value ?? '\\'));
+      continue;
+    }
+
+    result.push(parseNotation(notation, modifiers, name));
+  }
+
+  return result;
+}
+
+/**
+ * Format a single key in canonical notation
+ *
+ * A plain `<` is returned as-is; formatKeys decides where it needs `<lt>`.
+ */
+export function formatKey(key: Key): string {
+  const modifiers = (key.ctrl ? 'C-' : '') + (key.alt ? 'A-' : '') + (key.meta ? 'D-' : '') + (key.shift ? 'S-' : '');
+  if (!modifiers && key.name.length === 1) {
+    return key.name;
+  }
+  const name = key.name === '<' ? 'lt' : key.name;
+  return `<${modifiers}${name}>`;
+}
+
+/**
+ * Format keys as a canonical key sequence
+ *
+ * @param keys - Keys to format
+ * @returns Key sequence that tokenizes back into the same keys
+ */
+export function formatKeys(keys: Key[]): string {
+  let result = '';
+  for (let i = keys.length - 1; i >= 0; i--) {
+    const text = formatKey(keys[i]);
+    result = (text === '<' && matchNotation(text + result) ? '<lt>' : text) + result;
+  }
+  return result;
+}
+
+/**
+ * Normalize a key sequence to canonical notation
+ *
+ * @param keys - Keys in Vim notation, in any case (`<c-w>`, `<CR>`, `<cr>`)
+ * @param options - Keys for `<Leader>` and `<LocalLeader>`
+ * @returns The canonical key sequence
+ * @throws Error for unknown `<...>` key names or modifiers
+ */
+export function normalizeKeys(keys: string, options: KeyNotationOptions = {}): string {
+  return formatKeys(tokenizeKeys(keys, options));
+}
+
+/**
+ * Get the key of a keyboard event
+ *
+ * @param event - Key event, e.g. from a keydown listener
+ * @returns The key in canonical form, or null for modifier keys and keys
+ *   without a Vim name
+ */
+export function keyFromEvent(
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'metaKey' | 'shiftKey'>
+): Key | null {
+  let name = event.key;
+  if (name.length > 1) {
+    name = SPECIAL_KEYS[(EVENT_KEYS[name] ?? name).toLowerCase()];
+    if (!name) {
+      return null;
+    }
+  } else {
+    name = CHARACTER_SPECIAL_KEYS[name] ?? name;
+  }
+
+  const modified = event.ctrlKey || event.altKey || event.metaKey;
+  return canonicalKey({
+    name,
+    ctrl: event.ctrlKey,
+    alt: event.altKey,
+    meta: event.metaKey,
+    // The character of a plain key already includes Shift
+    shift: event.shiftKey && (modified || name.length > 1),
+  });
+}
+
+/**
+ * Get the character a key types in a string (`"\<Space>"` is a space)
+ *
+ * @returns The character, or null for keys without one (e.g. `<C-w>`, `<CR>`)
+ */
+export function keyCharacter(key: Key): string | null {
+  if (key.ctrl || key.alt || key.meta || key.shift) {
+    return null;
+  }
+  if (key.name.length === 1) {
+    return key.name;
+  }
+  return SPECIAL_KEY_CHARACTERS[key.name] ?? null;
+}
+
+/**
+ * Get the names of the special keys in their canonical spelling
+ *
+ * @returns Names such as 'CR', 'Space' and 'F1', plus 'lt', 'Bar' and 'Bslash'
+ */
+export function keyNotationNames(): string[] {
+  return [...new Set(Object.values(SPECIAL_KEYS)), 'lt', 'Bar', 'Bslash'];
+}
@@ -0,0 +1,344 @@
+/**
+ * KeymapExporter - Export of the Active Mappings to Other Vim Emulations
+ *
+ * Turns the resolved mappings, obmaps and exmaps into a keymap file for
+ * another editor. Each output format is an ExportTarget; VSCodeVim
+ * (settings.json key bindings) and Neovim (Lua `vim.keymap.set`) are built
+ * in, and more can be registered.
+ *
+ * Before rendering, definitions are reduced to what is active: a mapping
+ * replaced by a later mapping of the same keys keeps only the modes the later
+ * one does not cover. Definitions only Obsidian can run — obmaps, exmaps,
+ * mappings running an exmap and `<buffer>` mappings — are marked so targets
+ * can write them as commented TODOs.
+ *
+ * @module services/KeymapExporter
+ */
+
+import type { KeyMapping, MapModifiers } from '../types/mappings';
+import { VIM_MODE_LETTERS } from '../types/mappings';
+import type { ExmapDefinition, ObmapDefinition } from '../types/commands';
+import { formatKey, tokenizeKeys } from './KeyNotation';
+
+/**
+ * Definitions an export is built from
+ */
+export interface ExportSource {
+  /** Stored mappings, in definition order */
+  mappings: KeyMapping[];
+  obmaps: ObmapDefinition[];
+  exmaps: ExmapDefinition[];
+  /** Vault-relative path of the exported vimrc, for the file header */
+  vimrcPath?: string;
+}
+
+/**
+ * An active definition to export
+ */
+export interface ExportEntry {
+  /** Mode letters the definition is active in, e.g. 'n', 'xs', 'nxso'; ':' for exmaps */
+  modes: string;
+  /** Left-hand side in canonical key notation; `:name` for exmaps */
+  lhs: string;
+  /** Right-hand side; the Obsidian command ID for obmaps and exmaps */
+  rhs: string;
+  /** Command that defined the entry */
+  kind: 'map' | 'obmap' | 'exmap';
+  recursive: boolean;
+  modifiers: MapModifiers;
+  /** Why only Obsidian can run the entry, if it cannot be exported */
+  obsidianOnly?: string;
+  /** Vault-relative path of the file the entry was defined in */
+  filePath?: string;
+  lineNumber: number;
+}
+
+/**
+ * An output format of the exporter
+ */
+export interface ExportTarget {
+  /** Identifier, e.g. 'vscodevim' */
+  id: string;
+  /** Name shown when choosing the format */
+  name: string;
+  /** Name of the written file, e.g. 'vimrc.nvim.lua' */
+  fileName: string;
+  /**
+   * Render the entries as the content of the file
+   *
+   * @param entries - Active definitions in definition order
+   * @param source - What the entries were built from
+   */
+  render(entries: ExportEntry[], source: ExportSource): string;
+}
+
+/**
+ * Mode letters of each obmap mode
+ */
+const OBMAP_MODE_LETTERS: Record<ObmapDefinition['mode'], string> = {
+  normal: 'n',
+  visual: 'xs',
+  insert: 'i',
+  all: 'nxsi',
+};
+
+/**
+ * Describe where an entry was defined
+ */
+function describeLocation(entry: ExportEntry): string {
+  return entry.filePath ? `${entry.filePath}:${entry.lineNumber}` : `line ${entry.lineNumber}`;
+}
+
+/**
+ * Describe an entry that cannot be exported, for a TODO comment
+ */
+function describeTodo(entry: ExportEntry): string {
+  const modes = entry.kind === 'exmap' ? '' : ` (${entry.modes})`;
+  return `TODO: ${entry.lhs}${modes} ${entry.obsidianOnly} [${describeLocation(entry)}]`;
+}
+
+/**
+ * Reduce definitions to the active entries to export
+ *
+ * @param source - Stored mappings, obmaps and exmaps
+ * @returns Entries with the modes each is still active in, in definition order
+ */
+export function collectExportEntries(source: ExportSource): ExportEntry[] {
+  const exmapCommands = new Map(source.exmaps.map((exmap) => [exmap.name, exmap.commandId]));
+
+  const entries: ExportEntry[] = [
+    ...source.mappings.map((mapping): ExportEntry => {
+      const modifiers = mapping.modifiers ?? {};
+      const exmap = [...mapping.target.matchAll(/:(\w+)<CR>/g)].find((match) => exmapCommands.has(match[1]));
+      let obsidianOnly: string | undefined;
+      if (modifiers.buffer) {
+        obsidianOnly = `is only active in ${mapping.buffer ?? 'one file'} (<buffer>)`;
+      } else if (exmap && !modifiers.expr) {
+        obsidianOnly = `runs :${exmap[1]}, Obsidian command ${exmapCommands.get(exmap[1])}`;
+      }
+      return {
+        modes: VIM_MODE_LETTERS[mapping.mode],
+        lhs: mapping.source,
+        rhs: mapping.target,
+        kind: 'map',
+        recursive: mapping.recursive,
+        modifiers,
+        obsidianOnly,
+        filePath: mapping.filePath,
+        lineNumber: mapping.lineNumber,
+      };
+    }),
+    ...source.obmaps.map((obmap): ExportEntry => ({
+      modes: OBMAP_MODE_LETTERS[obmap.mode],
+      lhs: obmap.key,
+      rhs: obmap.commandId,
+      kind: 'obmap',
+      recursive: false,
+      modifiers: {},
+      obsidianOnly: `runs Obsidian command ${obmap.commandId}`,
+      filePath: obmap.filePath,
+      lineNumber: obmap.lineNumber,
+    })),
+    ...source.exmaps.map((exmap): ExportEntry => ({
+      modes: ':',
+      lhs: `:${exmap.name}`,
+      rhs: exmap.commandId,
+      kind: 'exmap',
+      recursive: false,
+      modifiers: {},
+      obsidianOnly: `runs Obsidian command ${exmap.commandId}`,
+      filePath: exmap.filePath,
+      lineNumber: exmap.lineNumber,
+    })),
+  ];
+
+  // A later definition of the same keys takes over the modes it covers
+  const owners = new Map<string, ExportEntry>();
+  for (const entry of entries) {
+    const scope = entry.kind === 'exmap' ? 'exmap' : `${entry.modifiers.buffer === true}`;
+    for (const letter of entry.modes) {
+      owners.set(`${scope}\0${letter}\0${entry.lhs}`, entry);
+    }
+  }
+  // Keep files in the order they were read, and each file in line order
+  const files = [...new Set(entries.map((entry) => entry.filePath))];
+  return entries
+    .map((entry) => {
+      const scope = entry.kind === 'exmap' ? 'exmap' : `${entry.modifiers.buffer === true}`;
+      const modes = [...entry.modes].filter((letter) => owners.get(`${scope}\0${letter}\0${entry.lhs}`) === entry).join('');
+      return { ...entry, modes };
+    })
+    .filter((entry) => entry.modes.length > 0)
+    .sort((a, b) => files.indexOf(a.filePath) - files.indexOf(b.filePath) || a.lineNumber - b.lineNumber);
+}
+
+/**
+ * VSCodeVim key binding settings of each mode letter
+ */
+const VSCODEVIM_MODES: Record<string, string> = {
+  n: 'normalModeKeyBindings',
+  x: 'visualModeKeyBindings',
+  s: 'visualModeKeyBindings',
+  o: 'operatorPendingModeKeyBindings',
+  i: 'insertModeKeyBindings',
+};
+
+/**
+ * Split keys into the VSCodeVim key list, e.g. `<C-w>v` into ["<C-w>", "v"]
+ */
+function vscodeKeys(keys: string): string[] {
+  return tokenizeKeys(keys).map((key) => formatKey(key));
+}
+
+/**
+ * VSCodeVim: key bindings for settings.json (JSON with comments)
+ *
+ * `:cmd<CR>` right-hand sides become `commands`, other ones `after` keys.
+ * Command-line mode mappings and `<expr>` mappings have no VSCodeVim
+ * equivalent and are written as TODOs.
+ */
+export const vscodeVimTarget: ExportTarget = {
+  id: 'vscodevim',
+  name: 'VSCodeVim (settings.json)',
+  fileName: 'vimrc.vscodevim.json',
+  render(entries, source) {
+    const settings = new Map<string, string[]>();
+    const todos: string[] = [];
+
+    for (const entry of entries) {
+      if (entry.obsidianOnly) {
+        todos.push(describeTodo(entry));
+        continue;
+      }
+      if (entry.modifiers.expr) {
+        todos.push(describeTodo({ ...entry, obsidianOnly: 'is an <expr> mapping' }));
+        continue;
+      }
+      const keys = new Set([...entry.modes].map((letter) => VSCODEVIM_MODES[letter]).filter(Boolean));
+      const unsupported = [...entry.modes].filter((letter) => !VSCODEVIM_MODES[letter]);
+      if (unsupported.length > 0) {
+        todos.push(describeTodo({ ...entry, modes: unsupported.join(''), obsidianOnly: 'has no VSCodeVim mode' }));
+      }
+
+      let binding: Record<string, unknown>;
+      try {
+        binding = { before: vscodeKeys(entry.lhs) };
+        const command = entry.rhs.match(/^:([^<]*)<CR>$/);
+        if (command) {
+          binding.commands = [`:${command[1]}`];
+        } else {
+          binding.after = vscodeKeys(entry.rhs);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        todos.push(describeTodo({ ...entry, obsidianOnly: `could not be converted: ${message}` }));
+        continue;
+      }
+      if (entry.modifiers.silent) {
+        binding.silent = true;
+      }
+      for (const key of keys) {
+        const setting = `vim.${key}${entry.recursive ? '' : 'NonRecursive'}`;
+        const list = settings.get(setting) ?? [];
+        list.push(`    ${JSON.stringify(binding)}`);
+        settings.set(setting, list);
+      }
+    }
+
+    const lines = ['{', `  // Exported from ${source.vimrcPath ?? 'vimrc'}`];
+    const blocks = [...settings].map(([setting, bindings]) => `  "${setting}": [\n${bindings.join(',\n')}\n  ]`);
+    if (blocks.length > 0) {
+      lines.push(blocks.join(',\n'));
+    }
+    lines.push(...todos.map((todo) => `  // ${todo}`), '}');
+    return `${lines.join('\n')}\n`;
+  },
+};
+
+/**
+ * Quote a string as a Lua string literal
+ */
+function luaString(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * Neovim: `vim.keymap.set` calls for init.lua
+ *
+ * Visual and Select mode together are written as 'v'. `<buffer>` mappings
+ * are tied to an Obsidian file and are written as TODOs.
+ */
+export const neovimTarget: ExportTarget = {
+  id: 'neovim',
+  name: 'Neovim (Lua vim.keymap.set)',
+  fileName: 'vimrc.nvim.lua',
+  render(entries, source) {
+    const lines = [`-- Exported from ${source.vimrcPath ?? 'vimrc'}`, ''];
+    for (const entry of entries) {
+      if (entry.obsidianOnly) {
+        lines.push(`-- ${describeTodo(entry)}`);
+        continue;
+      }
+      const modes = entry.modes.replace('xs', 'v').split('').map(luaString);
+      const options = [
+        entry.recursive ? 'remap = true' : null,
+        ...(['silent', 'nowait', 'unique', 'expr'] as const).map((name) => (entry.modifiers[name] ? `${name} = true` : null)),
+      ].filter((option): option is string => option !== null);
+      const mode = modes.length === 1 ? modes[0] : `{ ${modes.join(', ')} }`;
+      const optionTable = options.length > 0 ? `, { ${options.join(', ')} }` : '';
+      lines.push(`vim.keymap.set(${mode}, ${luaString(entry.lhs)}, ${luaString(entry.rhs)}${optionTable})`);
+    }
+    return `${lines.join('\n')}\n`;
+  },
+};
+
+/**
+ * Export of the active mappings in registered formats
+ */
+export class KeymapExporter {
+  private targets: Map<string, ExportTarget> = new Map();
+
+  /**
+   * Create an exporter with the built-in VSCodeVim and Neovim targets
+   */
+  constructor() {
+    this.registerTarget(vscodeVimTarget);
+    this.registerTarget(neovimTarget);
+  }
+
+  /**
+   * Add an output format, replacing one with the same ID
+   */
+  registerTarget(target: ExportTarget): void {
+    this.targets.set(target.id, target);
+  }
+
+  /**
+   * Remove an output format
+   *
+   * @returns Whether a target with the ID was registered
+   */
+  unregisterTarget(id: string): boolean {
+    return this.targets.delete(id);
+  }
+
+  /**
+   * Get the registered output formats
+   */
+  getTargets(): ExportTarget[] {
+    return Array.from(this.targets.values());
+  }
+
+  /**
+   * Render the active definitions in an output format
+   *
+   * @throws Error if no target with the ID is registered
+   */
+  export(targetId: string, source: ExportSource): string {
+    const target = this.targets.get(targetId);
+    if (!target) {
+      throw new Error(`Unknown export target: ${targetId}`);
+    }
+    return target.render(collectExportEntries(source), source);
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * LoadHistory - Versions of the Vimrc That Loaded Without Errors
+ *
+ * Keeps the content of the vault vimrc each time it loads without errors,
+ * with the time, the number of mappings and the mapping changes of the
+ * reload, so a broken change can be compared with a working version and
+ * reverted. Snapshots are kept in plugin data next to the settings, newest
+ * first, up to the 'loadHistorySize' setting; loading the same content again
+ * adds none.
+ *
+ * @module services/LoadHistory
+ */
+
+import type { ISettingsPersistence } from '../infrastructure/ConfigManager';
+import type { IConfigManager } from '../types/settings';
+import type { KeyMapping, MappingDiff } from '../types/mappings';
+import { VIM_MODE_LETTERS } from '../types/mappings';
+import { getLogger } from './Logger';
+
+const log = getLogger('loader');
+
+/**
+ * Key of the snapshots in plugin data
+ */
+export const LOAD_HISTORY_KEY = 'loadHistory';
+
+/**
+ * Mapping changes of a reload, as `mode lhs` entries such as `n <Space>w`
+ */
+export interface SnapshotDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+/**
+ * A version of the vimrc that loaded without errors
+ */
+export interface LoadSnapshot {
+  /** Time of the load, in milliseconds since the epoch */
+  timestamp: number;
+  /** Vault-relative path of the vimrc */
+  path: string;
+  content: string;
+  /** Number of mappings after the load */
+  mappingCount: number;
+  /** Mapping changes of the reload; absent for the first load */
+  diff?: SnapshotDiff;
+}
+
+/**
+ * A line of a comparison between two snapshots
+ */
+export interface LineChange {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Persistent history of successfully loaded vimrc versions
+ */
+export class LoadHistory {
+  private persistence: ISettingsPersistence;
+  private configManager: IConfigManager;
+  private snapshots: LoadSnapshot[] = [];
+
+  /**
+   * Create a load history
+   *
+   * @param persistence - Plugin data the snapshots are kept in
+   * @param configManager - Settings with the number of snapshots to keep
+   */
+  constructor(persistence: ISettingsPersistence, configManager: IConfigManager) {
+    this.persistence = persistence;
+    this.configManager = configManager;
+  }
+
+  /**
+   * Read the snapshots from plugin data, dropping malformed ones
+   */
+  async initialize(): Promise<void> {
+    const data = await this.persistence.loadData();
+    const saved = data && typeof data === 'object' ? (data as Record<string, unknown>)[LOAD_HISTORY_KEY] : undefined;
+    this.snapshots = Array.isArray(saved) ? saved.filter(isSnapshot) : [];
+  }
+
+  /**
+   * Get the snapshots, newest first
+   */
+  getSnapshots(): LoadSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  /**
+   * Add a snapshot and drop those past the history size
+   *
+   * @param snapshot - Loaded version of the vimrc
+   * @returns false when the history is off or the newest snapshot has the same content
+   */
+  async record(snapshot: LoadSnapshot): Promise<boolean> {
+    const size = this.configManager.getSettings().loadHistorySize;
+    const newest = this.snapshots[0];
+    if (size === 0 || (newest?.path === snapshot.path && newest.content === snapshot.content)) {
+      return false;
+    }
+
+    this.snapshots = [snapshot, ...this.snapshots].slice(0, size);
+    log.debug(`Recorded vimrc snapshot of ${snapshot.path} (${this.snapshots.length} kept)`);
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Remove every snapshot
+   */
+  async clear(): Promise<void> {
+    this.snapshots = [];
+    await this.save();
+  }
+
+  /**
+   * Write the snapshots into plugin data, keeping the settings
+   */
+  private async save(): Promise<void> {
+    const data = await this.persistence.loadData();
+    await this.persistence.saveData({
+      ...(data && typeof data === 'object' ? data : {}),
+      [LOAD_HISTORY_KEY]: this.snapshots,
+    });
+  }
+}
+
+/**
+ * Check the shape of a snapshot read from plugin data
+ */
+function isSnapshot(value: unknown): value is LoadSnapshot {
+  const snapshot = value as Partial<LoadSnapshot> | null;
+  return typeof snapshot === 'object' && snapshot !== null
+    && typeof snapshot.timestamp === 'number'
+    && typeof snapshot.path === 'string'
+    && typeof snapshot.content === 'string'
+    && typeof snapshot.mappingCount === 'number';
+}
+
+/**
+ * Describe the mapping changes of a reload for a snapshot
+ *
+ * @param diff - Changes made to Vim by the reload
+ * @returns The changed mappings as `mode lhs` entries
+ */
+export function summarizeMappingDiff(diff: MappingDiff): SnapshotDiff {
+  const describe = (mapping: KeyMapping) => `${VIM_MODE_LETTERS[mapping.mode]} ${mapping.source}`;
+  return {
+    added: diff.added.map(describe),
+    removed: diff.removed.map(describe),
+    changed: diff.changed.map(describe),
+  };
+}
+
+/**
+ * Compare two versions of a file line by line
+ *
+ * @param from - Older content
+ * @param to - Newer content
+ * @returns Every line of both, marked as kept, added in `to` or removed from `from`
+ */
+export function diffLines(from: string, to: string): LineChange[] {
+  const a = from.split('\n');
+  const b = to.split('\n');
+
+  // Length of the longest common subsequence of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      changes.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || common[i + 1][j] >= common[i][j + 1])) {
+      changes.push({ type: 'removed', text: a[i] });
+      i++;
+    } else {
+      changes.push({ type: 'added', text: b[j] });
+      j++;
+    }
+  }
+  return changes;
+}
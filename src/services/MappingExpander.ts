@@ -0,0 +1,316 @@
+/**
+ * MappingExpander - Resolves Keys Through Recursive Mappings
+ *
+ * Works out what typed keys finally run, the way Vim applies mappings to
+ * typeahead:
+ * - the longest mapping whose keys start the pending keys replaces them
+ * - keys from a noremap mapping are not mapped again, nor is the first key
+ *   of a right-hand side that starts with its own keys (`nmap j jzz`)
+ * - the key after a command that reads a literal argument (`g`, `f`, `r`,
+ *   `<C-w>`, ...) is not mapped, so `nmap j gj` does not recurse
+ *
+ * Expansion stops with E223 after 'maxmapdepth' mappings. Every mapping
+ * applied counts, so mappings that keep typing keys forever (`nmap a xa`)
+ * stop as well as cycles like `nmap j k` plus `nmap k j`.
+ *
+ * @module services/MappingExpander
+ */
+
+import type {
+  ExpandableMapping,
+  ExpansionStep,
+  IMappingExpander,
+  IMappingStore,
+  KeyMapping,
+  MappingExpansion,
+  MappingExpressionEvaluator,
+} from '../types/mappings';
+import { DEFAULT_MAX_MAP_DEPTH, VimMode, VIM_MODE_LETTERS } from '../types/mappings';
+import type { IVimAdapter } from '../types/services';
+import { formatKey, formatKeys, normalizeKeys, tokenizeKeys } from './KeyNotation';
+import type { Key } from './KeyNotation';
+
+/**
+ * Options for expanding keys
+ */
+export interface ExpandOptions {
+  /** Maximum number of mappings to apply ('maxmapdepth') */
+  maxDepth?: number;
+  /** Evaluator for <expr> mappings; without one they are not expanded */
+  evaluate?: MappingExpressionEvaluator | null;
+}
+
+/**
+ * The single mode each mode letter stands for
+ */
+const LETTER_MODES: Record<string, VimMode> = {
+  n: VimMode.NORMAL,
+  x: VimMode.VISUAL_ONLY,
+  s: VimMode.SELECT,
+  o: VimMode.OPERATOR_PENDING,
+  i: VimMode.INSERT,
+  c: VimMode.COMMAND_LINE,
+  l: VimMode.LANG_ARG,
+};
+
+/**
+ * Commands whose next key is read without mapping it
+ */
+const LITERAL_ARGUMENT_KEYS = ['g', 'z', 'Z', 'f', 'F', 't', 'T', 'r', 'm', "'", '`', '"', '@', 'q', '[', ']', '<C-w>'];
+
+/**
+ * Modes in which keys are commands rather than text
+ */
+const COMMAND_MODE_LETTERS = 'nxso';
+
+/**
+ * A key waiting to be mapped or used
+ */
+interface PendingKey {
+  /** Canonical notation of the key */
+  key: string;
+  value: Key;
+  remap: boolean;
+}
+
+/**
+ * Split keys into canonical key names
+ */
+function splitKeys(keys: string): string[] {
+  return tokenizeKeys(keys).map(formatKey);
+}
+
+/**
+ * Make pending keys of a key sequence
+ */
+function pendingKeys(keys: string, remap: boolean): PendingKey[] {
+  return tokenizeKeys(keys).map((value) => ({ key: formatKey(value), value, remap }));
+}
+
+/**
+ * Find the longest mapping whose keys start the pending keys
+ *
+ * Of mappings with the same keys the one defined last wins.
+ */
+function findMapping<T extends ExpandableMapping>(
+  candidates: Array<{ mapping: T; keys: string[] }>,
+  pending: PendingKey[]
+): { mapping: T; keys: string[] } | null {
+  let found: { mapping: T; keys: string[] } | null = null;
+  for (const candidate of candidates) {
+    const { keys } = candidate;
+    if (keys.length > pending.length || (found && found.keys.length > keys.length)) {
+      continue;
+    }
+    if (keys.every((key, i) => pending[i].key === key && pending[i].remap)) {
+      found = candidate;
+    }
+  }
+  return found;
+}
+
+/**
+ * Get the ex commands typed by keys, e.g. `w` for `:w<CR>`
+ */
+function findCommands(keys: string[]): string[] {
+  const commands: string[] = [];
+  let start = keys.indexOf(':');
+  while (start !== -1) {
+    const end = keys.indexOf('<CR>', start + 1);
+    if (end === -1) {
+      break;
+    }
+    commands.push(keys.slice(start + 1, end).join(''));
+    start = keys.indexOf(':', end + 1);
+  }
+  return commands;
+}
+
+/**
+ * Describe the mappings of a runaway expansion up to the first repeated one
+ */
+function describeRecursion(steps: ExpansionStep<ExpandableMapping>[]): string {
+  const seen = new Set<ExpandableMapping>();
+  const keys: string[] = [];
+  for (const step of steps) {
+    keys.push(step.keys);
+    if (seen.has(step.mapping)) {
+      break;
+    }
+    seen.add(step.mapping);
+  }
+  return keys.join(' -> ');
+}
+
+/**
+ * Expand keys typed in a mode through mappings
+ *
+ * For modes with several letters (`map`, `vmap`) the keys are typed in the
+ * first one, e.g. Normal mode for ALL.
+ *
+ * @param keys - Keys in Vim notation
+ * @param mode - Mode the keys are typed in
+ * @param mappings - Mappings to apply, in definition order
+ * @param options - 'maxmapdepth' and the <expr> evaluator
+ * @returns The final keys, their ex commands and the mappings applied
+ * @throws Error for unknown `<...>` key names in the keys
+ */
+export function expandKeys<T extends ExpandableMapping>(
+  keys: string,
+  mode: VimMode,
+  mappings: T[],
+  options: ExpandOptions = {}
+): MappingExpansion<T> {
+  const letter = VIM_MODE_LETTERS[mode][0];
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_MAP_DEPTH;
+  const candidates = mappings
+    .filter((mapping) => VIM_MODE_LETTERS[mapping.mode].includes(letter))
+    .map((mapping) => ({ mapping, keys: splitKeys(mapping.source) }));
+
+  const pending = pendingKeys(keys, true);
+  const output: Key[] = [];
+  const steps: ExpansionStep<T>[] = [];
+  let literalNext = false;
+  let error: string | undefined;
+
+  while (pending.length > 0) {
+    const match = literalNext ? null : findMapping(candidates, pending);
+    if (!match) {
+      const { key, value } = pending.shift()!;
+      output.push(value);
+      literalNext = !literalNext && COMMAND_MODE_LETTERS.includes(letter) && LITERAL_ARGUMENT_KEYS.includes(key);
+      continue;
+    }
+
+    if (steps.length >= maxDepth) {
+      error = `E223: recursive mapping: ${describeRecursion(steps)}`;
+      break;
+    }
+
+    const target = resolveTarget(match.mapping, options.evaluate ?? null);
+    steps.push({ mapping: match.mapping, keys: match.keys.join(''), target, depth: steps.length });
+
+    const targetKeys = pendingKeys(target ?? '', match.mapping.recursive);
+    if (targetKeys.length > 0 && match.keys.every((key, i) => targetKeys[i]?.key === key)) {
+      targetKeys[0].remap = false;
+    }
+    pending.splice(0, match.keys.length, ...targetKeys);
+  }
+
+  const result: MappingExpansion<T> = { keys: formatKeys(output), commands: [], steps };
+  if (COMMAND_MODE_LETTERS.includes(letter)) {
+    result.commands = findCommands(output.map(formatKey));
+  }
+  if (error) {
+    result.error = error;
+  }
+  return result;
+}
+
+/**
+ * Expand keys in each mode of a mapping mode
+ *
+ * @returns The first expansion that fails, otherwise the first one
+ */
+export function expandInModes<T extends ExpandableMapping>(
+  keys: string,
+  mode: VimMode,
+  mappings: T[],
+  options: ExpandOptions = {}
+): MappingExpansion<T> {
+  const expansions = [...VIM_MODE_LETTERS[mode]].map((letter) => expandKeys(keys, LETTER_MODES[letter], mappings, options));
+  return expansions.find((expansion) => expansion.error) ?? expansions[0];
+}
+
+/**
+ * Get the keys a mapping types, evaluating <expr> mappings
+ *
+ * @returns The keys, or null for an <expr> mapping that cannot be evaluated
+ */
+function resolveTarget(mapping: ExpandableMapping, evaluate: MappingExpressionEvaluator | null): string | null {
+  if (!mapping.modifiers?.expr) {
+    return mapping.target;
+  }
+  if (!evaluate) {
+    return null;
+  }
+  try {
+    return normalizeKeys(evaluate(mapping.target, { count: 0 }));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * MappingExpander implementation
+ *
+ * Expands keys through the mappings in MappingStore, with 'maxmapdepth'
+ * read from the Vim options.
+ */
+export class MappingExpander implements IMappingExpander {
+  private mappingStore: IMappingStore;
+  private vimAdapter: IVimAdapter;
+  private expressionEvaluator: MappingExpressionEvaluator | null = null;
+
+  /**
+   * Create a new MappingExpander
+   *
+   * @param mappingStore - Store with the mappings to expand through
+   * @param vimAdapter - Adapter to read 'maxmapdepth' from
+   */
+  constructor(mappingStore: IMappingStore, vimAdapter: IVimAdapter) {
+    this.mappingStore = mappingStore;
+    this.vimAdapter = vimAdapter;
+  }
+
+  /**
+   * Expand keys typed in a mode through the stored mappings
+   *
+   * @param keys - Keys in Vim notation
+   * @param mode - Mode the keys are typed in
+   * @param buffer - File whose <buffer> mappings apply; none if omitted
+   */
+  expand(keys: string, mode: VimMode, buffer: string | null = null): MappingExpansion {
+    return expandKeys(keys, mode, this.getMappings(buffer), this.getOptions());
+  }
+
+  /**
+   * Expand the keys of a mapping in each of its modes
+   *
+   * A <buffer> mapping expands with the mappings of its buffer.
+   */
+  explain(mapping: KeyMapping): MappingExpansion {
+    const buffer = mapping.modifiers?.buffer ? mapping.buffer ?? null : null;
+    const mappings = this.getMappings(buffer).filter((other) => other !== mapping);
+    return expandInModes(mapping.source, mapping.mode, [...mappings, mapping], this.getOptions());
+  }
+
+  /**
+   * Set the evaluator used to expand <expr> mappings
+   */
+  setExpressionEvaluator(evaluator: MappingExpressionEvaluator): void {
+    this.expressionEvaluator = evaluator;
+  }
+
+  /**
+   * Get the global mappings, then the <buffer> mappings of a buffer so they win
+   */
+  private getMappings(buffer: string | null): KeyMapping[] {
+    const mappings = this.mappingStore.getAll();
+    return [
+      ...mappings.filter((mapping) => !mapping.modifiers?.buffer),
+      ...mappings.filter((mapping) => mapping.modifiers?.buffer && buffer !== null && mapping.buffer === buffer),
+    ];
+  }
+
+  /**
+   * Get the current 'maxmapdepth' and <expr> evaluator
+   */
+  private getOptions(): ExpandOptions {
+    const maxDepth = this.vimAdapter.getOption('maxmapdepth');
+    return {
+      maxDepth: typeof maxDepth === 'number' && maxDepth > 0 ? maxDepth : DEFAULT_MAX_MAP_DEPTH,
+      evaluate: this.expressionEvaluator,
+    };
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * MappingList - Listing of Defined Mappings
+ *
+ * Builds the entries `:map`, `:nmap`, ... show from the stored mappings,
+ * obmaps and exmaps, and formats them like Vim:
+ *
+ *     n  <Space>w    * :w<CR>
+ *             Last set from .obsidian.vimrc line 3
+ *
+ * A mapping is overridden by a later mapping of the same keys in the same
+ * modes. Overridden mappings only appear in verbose listings (`:verbose map`),
+ * which also show what the keys of a recursive mapping expand to.
+ *
+ * @module services/MappingList
+ */
+
+import type { KeyMapping, MappingExpansion } from '../types/mappings';
+import { VimMode, VIM_MODE_LETTERS } from '../types/mappings';
+import type { ExmapDefinition, ObmapDefinition } from '../types/commands';
+
+/**
+ * What a listing command asks for
+ */
+export interface MappingListRequest {
+  /** Mode of the listing command, e.g. NORMAL for `:nmap` */
+  mode: VimMode;
+  /** Only list mappings whose left-hand side starts with these keys */
+  prefix: string;
+  /** Show where each mapping was defined (`:verbose map`) */
+  verbose: boolean;
+}
+
+/**
+ * Where a mapping was defined
+ */
+export interface MappingListLocation {
+  /** Vault-relative path of the vimrc file, if known */
+  filePath?: string;
+  lineNumber: number;
+}
+
+/**
+ * One entry of a mapping listing
+ */
+export interface MappingListEntry {
+  /** Mode column as shown by `:map`: ' ' for map, '!' for map!, 'n', 'v', 'i', ... */
+  mode: string;
+  /** Left-hand side; `:name` for exmaps */
+  lhs: string;
+  /** Right-hand side; `obcommand {id}` for obmaps and exmaps */
+  rhs: string;
+  /** Whether mappings apply to the right-hand side */
+  noremap: boolean;
+  /** Only active in one file (`<buffer>`) */
+  buffer: boolean;
+  /** Command that defined the entry */
+  kind: 'map' | 'obmap' | 'exmap';
+  location: MappingListLocation;
+  /** Later definitions of the same keys that replace this one */
+  overriddenBy: MappingListLocation[];
+  /** What the keys of a recursive mapping expand to; only in verbose listings */
+  expansion?: MappingExpansion;
+}
+
+/**
+ * Definitions a listing is built from
+ */
+export interface MappingListSources {
+  mappings: KeyMapping[];
+  obmaps: ObmapDefinition[];
+  exmaps: ExmapDefinition[];
+  /** Expands the keys of a mapping through the other mappings */
+  explain?: (mapping: KeyMapping) => MappingExpansion;
+}
+
+/**
+ * Called by listing commands to show the matching mappings
+ */
+export type MappingListCallback = (request: MappingListRequest) => void;
+
+/**
+ * Mode letters of each obmap mode
+ */
+const OBMAP_MODE_LETTERS: Record<ObmapDefinition['mode'], string> = {
+  normal: 'n',
+  visual: 'xs',
+  insert: 'i',
+  all: 'nxsi',
+};
+
+/**
+ * A definition before it becomes an entry
+ */
+interface Candidate {
+  letters: string;
+  entry: MappingListEntry;
+  mapping?: KeyMapping;
+}
+
+/**
+ * Get the `:map` mode column for mode letters
+ */
+function modeColumn(letters: string): string {
+  const column = letters.replace('xs', 'v');
+  if (column === 'nvo') {
+    return ' ';
+  }
+  return column === 'ic' ? '!' : column;
+}
+
+/**
+ * Check whether two sets of mode letters share a mode
+ */
+function overlaps(letters: string, other: string): boolean {
+  return [...letters].some((letter) => other.includes(letter));
+}
+
+/**
+ * Mark candidates replaced by a later candidate of the same kind and keys
+ *
+ * @returns The candidates that are still active in at least one mode
+ */
+function markOverridden(candidates: Candidate[]): Candidate[] {
+  return candidates.filter((candidate, i) => {
+    let remaining = candidate.letters;
+    for (const later of candidates.slice(i + 1)) {
+      const { entry } = later;
+      if (entry.kind === candidate.entry.kind && entry.lhs === candidate.entry.lhs
+        && entry.buffer === candidate.entry.buffer && overlaps(later.letters, candidate.letters)) {
+        candidate.entry.overriddenBy.push(entry.location);
+        remaining = [...remaining].filter((letter) => !later.letters.includes(letter)).join('');
+      }
+    }
+    return remaining.length > 0;
+  });
+}
+
+/**
+ * Build the entries of a mapping listing
+ *
+ * @param sources - Stored mappings, obmaps and exmaps, in definition order
+ * @param request - Mode, key prefix and verbosity of the listing
+ * @returns Entries for the mode whose left-hand side starts with the prefix;
+ *   overridden entries only when verbose
+ */
+export function buildMappingList(sources: MappingListSources, request: MappingListRequest): MappingListEntry[] {
+  const letters = VIM_MODE_LETTERS[request.mode];
+
+  const candidates: Candidate[] = [
+    ...sources.mappings.map((mapping) => ({
+      letters: VIM_MODE_LETTERS[mapping.mode],
+      mapping,
+      entry: {
+        mode: modeColumn(VIM_MODE_LETTERS[mapping.mode]),
+        lhs: mapping.source,
+        rhs: mapping.target,
+        noremap: !mapping.recursive,
+        buffer: mapping.modifiers?.buffer === true,
+        kind: 'map' as const,
+        location: { filePath: mapping.filePath, lineNumber: mapping.lineNumber },
+        overriddenBy: [],
+      },
+    })),
+    ...sources.obmaps.map((obmap) => ({
+      letters: OBMAP_MODE_LETTERS[obmap.mode],
+      entry: {
+        mode: modeColumn(OBMAP_MODE_LETTERS[obmap.mode]),
+        lhs: obmap.key,
+        rhs: `obcommand ${obmap.commandId}`,
+        noremap: true,
+        buffer: false,
+        kind: 'obmap' as const,
+        location: { filePath: obmap.filePath, lineNumber: obmap.lineNumber },
+        overriddenBy: [],
+      },
+    })),
+    // Ex commands are typed from Normal mode
+    ...sources.exmaps.map((exmap) => ({
+      letters: 'n',
+      entry: {
+        mode: ':',
+        lhs: `:${exmap.name}`,
+        rhs: `obcommand ${exmap.commandId}`,
+        noremap: true,
+        buffer: false,
+        kind: 'exmap' as const,
+        location: { filePath: exmap.filePath, lineNumber: exmap.lineNumber },
+        overriddenBy: [],
+      },
+    })),
+  ].filter((candidate) => overlaps(candidate.letters, letters) && candidate.entry.lhs.startsWith(request.prefix));
+
+  const active = markOverridden(candidates);
+  if (!request.verbose) {
+    return active.map((candidate) => candidate.entry);
+  }
+  for (const { entry, mapping } of candidates) {
+    if (mapping?.recursive && sources.explain) {
+      entry.expansion = sources.explain(mapping);
+    }
+  }
+  return candidates.map((candidate) => candidate.entry);
+}
+
+/**
+ * Format a location like Vim's `:verbose` output
+ */
+function formatLocation(location: MappingListLocation): string {
+  return location.filePath ? `${location.filePath} line ${location.lineNumber}` : `line ${location.lineNumber}`;
+}
+
+/**
+ * Format an entry like a line of `:map` output
+ *
+ * @param entry - Entry to format
+ * @param verbose - Add where the entry was defined, what overrides it and
+ *   what its keys expand to
+ * @returns The entry line, followed by location lines when verbose
+ */
+export function formatMappingListEntry(entry: MappingListEntry, verbose: boolean): string {
+  const flags = (entry.noremap ? '*' : ' ') + (entry.buffer ? '@' : ' ');
+  const lines = [`${entry.mode.padEnd(3)}${entry.lhs.padEnd(12)} ${flags}${entry.rhs}`];
+  if (verbose) {
+    lines.push(`\tLast set from ${formatLocation(entry.location)}`);
+    for (const location of entry.overriddenBy) {
+      lines.push(`\tOverridden by ${formatLocation(location)}`);
+    }
+    if (entry.expansion) {
+      lines.push(entry.expansion.error ? `\t${entry.expansion.error}` : `\tExpands to ${entry.expansion.keys}`);
+    }
+  }
+  return lines.join('\n');
+}
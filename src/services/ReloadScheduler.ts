@@ -0,0 +1,136 @@
+/**
+ * ReloadScheduler - Reloads Following the Configuration Files
+ *
+ * Reloads the vimrc when a watched configuration file is created, changed or
+ * deleted, or when a setting naming those files changes. Requests within the
+ * reload delay make one reload, forced when any of them was. After every
+ * load the file watcher follows the files the configuration depends on.
+ *
+ * @module services/ReloadScheduler
+ */
+
+import type { IEventBus, IFileWatcher, IVimrcLoader } from '../types/services';
+import { EventType } from '../types/events';
+import type { LoadResult } from '../types/events';
+
+/**
+ * Default delay between the last reload request and the reload
+ */
+export const DEFAULT_RELOAD_DELAY = 500;
+
+/**
+ * Configuration for ReloadScheduler
+ */
+export interface ReloadSchedulerConfig {
+  eventBus: IEventBus;
+  loader: IVimrcLoader;
+  watcher: IFileWatcher;
+  /** Called with the result of every reload */
+  onReload: (result: LoadResult) => void;
+  /** Delay between the last reload request and the reload */
+  delay?: number;
+}
+
+/**
+ * Scheduler of vimrc reloads
+ */
+export class ReloadScheduler {
+  private eventBus: IEventBus;
+  private loader: IVimrcLoader;
+  private watcher: IFileWatcher;
+  private onReload: (result: LoadResult) => void;
+  private delay: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private force = false;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(config: ReloadSchedulerConfig) {
+    this.eventBus = config.eventBus;
+    this.loader = config.loader;
+    this.watcher = config.watcher;
+    this.onReload = config.onReload;
+    this.delay = config.delay ?? DEFAULT_RELOAD_DELAY;
+  }
+
+  /**
+   * Watch the configuration files and reload when they or the settings
+   * naming them change
+   */
+  start(): void {
+    this.unsubscribers = [
+      this.eventBus.on(EventType.FILE_CREATED, () => this.schedule()),
+      this.eventBus.on(EventType.FILE_CHANGED, () => this.schedule()),
+      // Forced, so the mappings of a deleted file go even when the files sourcing it now fail
+      this.eventBus.on(EventType.FILE_DELETED, () => this.schedule(true)),
+      // The embedded vimrc is saved while typing, so it is reloaded when its
+      // editor loses focus or it is written, not on every change
+      this.eventBus.on(EventType.SETTINGS_CHANGED, ({ settings, previous }) => {
+        this.syncWatchedFiles();
+        if (settings.vimrcPath !== previous.vimrcPath || settings.globalVimrcPath !== previous.globalVimrcPath
+          || settings.profileFiles.join('\n') !== previous.profileFiles.join('\n')
+          || settings.vimrcSource !== previous.vimrcSource) {
+          this.schedule();
+        }
+      }),
+      this.eventBus.on(EventType.VIMRC_LOADED, () => this.syncWatchedFiles()),
+      this.eventBus.on(EventType.VIMRC_ERROR, () => this.syncWatchedFiles()),
+    ];
+    this.syncWatchedFiles();
+  }
+
+  /**
+   * Stop reloading and watching
+   */
+  stop(): void {
+    this.cancel();
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+    this.watcher.unwatchAll();
+  }
+
+  /**
+   * Reload once no other request follows within the reload delay
+   *
+   * @param force - Apply the configuration whatever its errors
+   */
+  schedule(force = false): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.force ||= force;
+    this.timer = setTimeout(() => {
+      const forced = this.force;
+      this.cancel();
+      void this.reload(forced);
+    }, this.delay);
+  }
+
+  /**
+   * Reload now, dropping a scheduled reload
+   *
+   * @param force - Apply the configuration whatever its errors
+   */
+  async reload(force = false): Promise<void> {
+    this.cancel();
+    const result = await this.loader.reload({ force });
+    this.syncWatchedFiles();
+    this.onReload(result);
+  }
+
+  /**
+   * Watch the files the configuration currently depends on, and only those
+   */
+  syncWatchedFiles(): void {
+    const paths = new Set(this.loader.getWatchedFiles());
+    for (const path of this.watcher.getWatchedPaths()) {
+      if (!paths.has(path)) this.watcher.unwatch(path);
+    }
+    for (const path of paths) this.watcher.watch(path);
+  }
+
+  private cancel(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.force = false;
+  }
+}
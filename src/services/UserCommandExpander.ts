@@ -0,0 +1,126 @@
+/**
+ * UserCommandExpander - Argument Handling for User-Defined Ex Commands
+ *
+ * Validates the arguments and range of a `command!` call and substitutes
+ * them into the command's replacement.
+ *
+ * @module services/UserCommandExpander
+ */
+
+import type { UserCommandDefinition } from '../types/commands';
+
+/**
+ * Placeholders substituted in the replacement, e.g. `<q-args>`
+ */
+const PLACEHOLDER_PATTERN = /<(args|q-args|f-args|line1|line2|count|bang|lt)>/gi;
+
+/**
+ * Ex command parameters passed by CodeMirror Vim to a defineEx callback
+ */
+export interface UserCommandParams {
+  /** Text after the command name, including a leading `!` */
+  argString?: string;
+  /** First line of the range (0-based), when a range was given */
+  line?: number;
+  /** Last line of the range (0-based) */
+  lineEnd?: number;
+}
+
+/**
+ * Values substituted into a user command's replacement
+ */
+export interface UserCommandInvocation {
+  args: string;
+  bang: boolean;
+  /** First and last line of the range (1-based) */
+  line1: number;
+  line2: number;
+  count: number;
+}
+
+/**
+ * Resolve the values of a user command call, validating arguments and range
+ *
+ * @param definition - The command being called
+ * @param params - Parameters of the ex command line
+ * @param editor - Cursor line and last line of the editor (0-based)
+ * @throws Error when the arguments or range do not fit the definition
+ */
+export function createUserCommandInvocation(
+  definition: UserCommandDefinition,
+  params: UserCommandParams,
+  editor: { cursorLine: number; lastLine: number }
+): UserCommandInvocation {
+  let argString = params.argString ?? '';
+  const bang = argString.startsWith('!');
+  if (bang) {
+    if (!definition.bang) {
+      throw new Error('E477: No ! allowed');
+    }
+    argString = argString.slice(1);
+  }
+
+  const args = argString.trim();
+  if (definition.nargs === '0' && args) {
+    throw new Error(`E488: Trailing characters: ${args}`);
+  }
+  if ((definition.nargs === '1' || definition.nargs === '+') && !args) {
+    throw new Error('E471: Argument required');
+  }
+
+  const hasRange = params.line !== undefined;
+  if (hasRange && definition.range === null && definition.count === null) {
+    throw new Error('E481: No range allowed');
+  }
+
+  let line1 = editor.cursorLine + 1;
+  let line2 = line1;
+  if (hasRange) {
+    line1 = params.line! + 1;
+    line2 = (params.lineEnd ?? params.line!) + 1;
+  } else if (definition.range === '%') {
+    line1 = 1;
+    line2 = editor.lastLine + 1;
+  }
+
+  const defaultCount = typeof definition.range === 'number' ? definition.range : definition.count ?? 0;
+  return { args, bang, line1, line2, count: hasRange ? line2 : defaultCount };
+}
+
+/**
+ * Quote a string for use as a Vim expression string
+ */
+function quoteArgument(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Substitute `<args>`, `<q-args>`, `<f-args>`, `<line1>`, `<line2>`,
+ * `<count>`, `<bang>` and `<lt>` in a user command's replacement
+ *
+ * @param definition - The command being called
+ * @param invocation - Values of the call
+ * @returns The command line to execute
+ */
+export function expandUserCommand(definition: UserCommandDefinition, invocation: UserCommandInvocation): string {
+  return definition.replacement.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    switch (name.toLowerCase()) {
+      case 'args':
+        return invocation.args;
+      case 'q-args':
+        return quoteArgument(invocation.args);
+      case 'f-args':
+        return invocation.args ? invocation.args.split(/\s+/).map(quoteArgument).join(',') : '';
+      case 'line1':
+        return String(invocation.line1);
+      case 'line2':
+        return String(invocation.line2);
+      case 'count':
+        return String(invocation.count);
+      case 'bang':
+        return invocation.bang ? '!' : '';
+      default:
+        return '<';
+    }
+  });
+}
@@ -0,0 +1,256 @@
+/**
+ * VariableStore - Scoped Vim Script Variables
+ *
+ * Holds the variables defined by `let` and removed by `unlet`:
+ * - g: global variables (also used for unscoped names)
+ * - s: script-local variables, kept separately for each sourced file
+ * - b: buffer variables
+ * - v: read-only Vim variables
+ *
+ * `executeLet` and `executeUnlet` implement the statements themselves so the
+ * parser and LetHandler share one implementation.
+ *
+ * @module services/VariableStore
+ */
+
+import { ExpressionEvaluator, isDict, isList, toNumber, toStringValue } from './ExpressionEvaluator';
+import type { VimValue } from './ExpressionEvaluator';
+
+/**
+ * Variable scope prefix
+ */
+export type VariableScope = 'g' | 's' | 'b' | 'v';
+
+/**
+ * A `let` statement: target name, optional [index], assignment operator and expression
+ */
+const LET_PATTERN = /^((?:[gsbv]:)?[A-Za-z_]\w*)\s*(\[.*?\])?\s*(\.\.=|[-+*/%.]?=)(?!=)(.*)$/s;
+
+/**
+ * Split a variable name into scope and bare name; unscoped names are global
+ */
+function splitName(name: string): { scope: VariableScope; key: string } {
+  const match = name.match(/^([gsbv]):(.+)$/);
+  if (match) {
+    return { scope: match[1] as VariableScope, key: match[2] };
+  }
+  return { scope: 'g', key: name };
+}
+
+/**
+ * VariableStore implementation
+ */
+export class VariableStore {
+  private globals: Map<string, VimValue> = new Map();
+  private buffer: Map<string, VimValue> = new Map();
+  private builtins: Map<string, VimValue> = new Map();
+  private scripts: Map<string, Map<string, VimValue>> = new Map();
+  private script = '';
+
+  /**
+   * Select the file whose script-local (s:) variables are in use
+   *
+   * @param path - Vault-relative path of the script, or undefined for inline content
+   */
+  setScript(path: string | undefined): void {
+    this.script = path ?? '';
+  }
+
+  /**
+   * Get a variable by name as written (e.g. `g:name`, `s:name`, `name`)
+   */
+  get(name: string): VimValue | undefined {
+    const { scope, key } = splitName(name);
+    return this.scope(scope).get(key);
+  }
+
+  /**
+   * Check whether a variable is defined
+   */
+  has(name: string): boolean {
+    return this.get(name) !== undefined;
+  }
+
+  /**
+   * Set a variable
+   *
+   * @throws Error when assigning to a read-only v: variable
+   */
+  set(name: string, value: VimValue): void {
+    const { scope, key } = splitName(name);
+    if (scope === 'v') {
+      throw new Error(`E46: Cannot change read-only variable "${name}"`);
+    }
+    this.scope(scope).set(key, value);
+  }
+
+  /**
+   * Remove a variable
+   *
+   * @returns true if the variable existed
+   */
+  unset(name: string): boolean {
+    const { scope, key } = splitName(name);
+    if (scope === 'v') {
+      throw new Error(`E795: Cannot delete variable ${name}`);
+    }
+    return this.scope(scope).delete(key);
+  }
+
+  /**
+   * Define a read-only v: variable
+   */
+  setBuiltin(name: string, value: VimValue): void {
+    this.builtins.set(name.replace(/^v:/, ''), value);
+  }
+
+  /**
+   * Get all variables of a scope, keyed by their bare name
+   */
+  getAll(scope: VariableScope = 'g'): Map<string, VimValue> {
+    return new Map(this.scope(scope));
+  }
+
+  /**
+   * Remove all variables except the read-only v: variables
+   */
+  clear(): void {
+    this.globals.clear();
+    this.buffer.clear();
+    this.scripts.clear();
+    this.script = '';
+  }
+
+  private scope(scope: VariableScope): Map<string, VimValue> {
+    switch (scope) {
+      case 'g':
+        return this.globals;
+      case 'b':
+        return this.buffer;
+      case 'v':
+        return this.builtins;
+      case 's': {
+        let variables = this.scripts.get(this.script);
+        if (!variables) {
+          variables = new Map();
+          this.scripts.set(this.script, variables);
+        }
+        return variables;
+      }
+    }
+  }
+}
+
+/**
+ * Combine the current value with the right-hand side of a compound assignment
+ */
+function applyAssignment(op: string, current: VimValue, value: VimValue): VimValue {
+  switch (op) {
+    case '.=':
+    case '..=':
+      return toStringValue(current) + toStringValue(value);
+    case '+=':
+      if (isList(current)) {
+        if (!isList(value)) throw new Error('E714: List required');
+        return [...current, ...value];
+      }
+      return toNumber(current) + toNumber(value);
+    case '-=':
+      return toNumber(current) - toNumber(value);
+    case '*=':
+      return toNumber(current) * toNumber(value);
+    case '/=':
+    case '%=': {
+      const divisor = toNumber(value);
+      if (divisor === 0) throw new Error('E1154: Divide by zero');
+      const dividend = toNumber(current);
+      return op === '/=' ? Math.trunc(dividend / divisor) : dividend % divisor;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Execute a `let` statement
+ *
+ * Supports `=`, `+=`, `-=`, `*=`, `/=`, `%=`, `.=` and `..=`, and
+ * assignment to a List item or Dictionary entry (`let g:map['key'] = 1`).
+ *
+ * @param statement - Text after `let`, e.g. `g:count += 1`
+ * @param store - Variables to read and update
+ * @param evaluator - Evaluator resolving variables from the same store
+ * @returns The assigned variable name and its new value
+ * @throws Error on invalid syntax or invalid values
+ */
+export function executeLet(
+  statement: string,
+  store: VariableStore,
+  evaluator: ExpressionEvaluator
+): { name: string; value: VimValue } {
+  const match = statement.trim().match(LET_PATTERN);
+  if (!match) {
+    throw new Error(`E15: Invalid expression: "${statement.trim()}"`);
+  }
+
+  const [, name, index, op, expression] = match;
+  const value = evaluator.evaluate(expression);
+
+  if (index) {
+    const container = store.get(name);
+    if (container === undefined) {
+      throw new Error(`E121: Undefined variable: ${name}`);
+    }
+    const key = evaluator.evaluate(index.slice(1, -1));
+    if (isList(container)) {
+      let position = toNumber(key);
+      if (position < 0) position += container.length;
+      if (position < 0 || position >= container.length) {
+        throw new Error(`E684: List index out of range: ${toNumber(key)}`);
+      }
+      container[position] = applyAssignment(op, container[position], value);
+    } else if (isDict(container)) {
+      const dictKey = toStringValue(key);
+      if (op !== '=' && !(dictKey in container)) {
+        throw new Error(`E716: Key not present in Dictionary: "${dictKey}"`);
+      }
+      container[dictKey] = applyAssignment(op, container[dictKey], value);
+    } else {
+      throw new Error('E689: Can only index a List or Dictionary');
+    }
+    return { name, value: container };
+  }
+
+  let result = value;
+  if (op !== '=') {
+    const current = store.get(name);
+    if (current === undefined) {
+      throw new Error(`E121: Undefined variable: ${name}`);
+    }
+    result = applyAssignment(op, current, value);
+  }
+
+  store.set(name, result);
+  return { name, value: result };
+}
+
+/**
+ * Execute an `unlet` statement
+ *
+ * @param names - Text after `unlet`, one or more variable names and an optional comment
+ * @param store - Variables to update
+ * @param force - `unlet!`: ignore variables that do not exist
+ * @throws Error when a variable does not exist and `force` is not set
+ */
+export function executeUnlet(names: string, store: VariableStore, force: boolean): void {
+  const list = names.replace(/(^|\s)".*$/, '').trim().split(/\s+/).filter(name => name.length > 0);
+  if (list.length === 0) {
+    throw new Error('E471: Argument required');
+  }
+
+  for (const name of list) {
+    if (!store.unset(name) && !force) {
+      throw new Error(`E108: No such variable: "${name}"`);
+    }
+  }
+}
@@ -24,8 +24,9 @@ import type {
   OperatorCallback,
   ExCallback,
 } from '../types/services';
-import type { VimMode } from '../types/mappings';
+import { VimMode } from '../types/mappings';
 import { EventType } from '../types/events';
+import { CommandLineMapper } from './CommandLineMapper';
 import { getLogger } from './Logger';
 
 const log = getLogger('vimAdapter');
@@ -49,6 +50,12 @@ interface VimApi {
   noremap: (lhs: string, rhs: string, mode?: string) => void;
   unmap: (lhs: string, mode?: string) => void;
   mapclear: (mode?: string) => void;
+  handleKey: (cm: unknown, key: string, origin?: string) => boolean | undefined;
+  handleEx: (cm: unknown, input: string) => void;
+  defineOption: (name: string, defaultValue: unknown, type: string, aliases?: string[]) => void;
+  setOption: (name: string, value: unknown) => Error | undefined;
+  getOption: (name: string) => unknown;
+  _mapCommand: (command: Record<string, unknown>) => void;
 }
 
 /**
@@ -63,7 +70,9 @@ type OperationType =
   | 'defineAction'
   | 'defineOperator'
   | 'defineEx'
-  | 'mapCommand';
+  | 'mapCommand'
+  | 'defineOption'
+  | 'setOption';
 
 /**
  * Queued operation structure
@@ -74,6 +83,82 @@ interface QueuedOperation {
   timestamp: number;
 }
 
+/**
+ * Key used to inject a one-off key-to-key command in feedKeys
+ */
+const FEED_KEY = '<VimrcFeedKeys>';
+
+/**
+ * Modes whose mappings also apply in the command line
+ */
+const COMMAND_LINE_MODES: ReadonlyArray<VimMode> = [
+  VimMode.COMMAND_LINE,
+  VimMode.INSERT_COMMAND_LINE,
+  VimMode.LANG_ARG,
+];
+
+/**
+ * CodeMirror Vim's own map commands, with the context they map in and
+ * whether they are non-recursive
+ */
+const BUILTIN_MAP_EX_COMMANDS: Record<string, [context: string | undefined, noremap: boolean]> = {
+  map: [undefined, false],
+  nmap: ['normal', false],
+  vmap: ['visual', false],
+  omap: ['operatorPending', false],
+  imap: ['insert', false],
+  noremap: [undefined, true],
+  nnoremap: ['normal', true],
+  vnoremap: ['visual', true],
+  onoremap: ['operatorPending', true],
+  inoremap: ['insert', true],
+};
+
+/**
+ * Get the CodeMirror Vim API from the global window object
+ */
+function findVimApi(): VimApi | null {
+  // Try to get Vim API from window.CodeMirrorAdapter.Vim
+  const vimApi = (window as unknown as { CodeMirrorAdapter?: { Vim?: VimApi } })
+    ?.CodeMirrorAdapter?.Vim;
+  return vimApi ?? null;
+}
+
+/**
+ * Create an ex command that does what CodeMirror Vim's own command of the
+ * name does, using nothing but the Vim API
+ *
+ * Names CodeMirror Vim has no command for report that they are not editor
+ * commands, as they did before being defined.
+ */
+function createBuiltinEx(name: string): ExCallback {
+  return (_cm, params) => {
+    const { args = [], input = name } = params as { args?: string[]; input?: string };
+    const builtin = BUILTIN_MAP_EX_COMMANDS[name];
+    if (!builtin) {
+      throw new Error(`Not an editor command ":${input}"`);
+    }
+    if (args.length < 2) {
+      throw new Error(`Invalid mapping: ${input}`);
+    }
+    const [context, noremap] = builtin;
+    const vimApi = findVimApi();
+    if (noremap) {
+      vimApi?.noremap(args[0], args[1], context);
+    } else {
+      vimApi?.map(args[0], args[1], context);
+    }
+  };
+}
+
+/**
+ * Convert keys in canonical notation to the names of CodeMirror Vim, which
+ * writes the Cmd modifier `D-` as `M-` (see KeyNotation)
+ */
+function toVimKeys(keys: string): string {
+  return keys.replace(/<((?:[CADS]-)+)/g, (_notation, modifiers: string) => `<${modifiers.replace('D-', 'M-')}`);
+}
+
 /**
  * Default retry configuration
  */
@@ -99,6 +184,7 @@ export class VimAdapter implements IVimAdapter {
   private retryInterval: number;
   private maxRetries: number;
   private readyTimeout: number;
+  private commandLineMapper = new CommandLineMapper((name) => this.getOption(name));
 
   /**
    * Create a new VimAdapter
@@ -124,10 +210,7 @@ export class VimAdapter implements IVimAdapter {
    * Get the CodeMirror Vim API from the global window object
    */
   private getVimApi(): VimApi | null {
-    // Try to get Vim API from window.CodeMirrorAdapter.Vim
-    const vimApi = (window as unknown as { CodeMirrorAdapter?: { Vim?: VimApi } })
-      ?.CodeMirrorAdapter?.Vim;
-    return vimApi ?? null;
+    return findVimApi();
   }
 
   /**
@@ -333,6 +416,18 @@ export class VimAdapter implements IVimAdapter {
             operation.args[4] as { context?: string } | undefined
           );
           break;
+        case 'defineOption':
+          this.defineVimOption(
+            vimApi,
+            operation.args[0] as string,
+            operation.args[1],
+            operation.args[2] as string,
+            operation.args[3] as string[] | undefined
+          );
+          break;
+        case 'setOption':
+          this.setVimOption(vimApi, operation.args[0] as string, operation.args[1]);
+          break;
       }
     } catch (error) {
       log.error(`Failed to execute ${operation.type}:`, error);
@@ -347,27 +442,45 @@ export class VimAdapter implements IVimAdapter {
   }
 
   /**
-   * Convert VimMode to string for CodeMirror API
+   * Convert VimMode to the CodeMirror Vim context its mappings go to
+   *
+   * CodeMirror Vim has no Select mode and no Command-line mode mappings, so
+   * those modes have no context (null); Command-line mappings are applied by
+   * the CommandLineMapper instead. Visual mode covers xmap and vmap, and
+   * Insert mode covers map! and lmap.
    */
-  private modeToString(mode?: VimMode): string | undefined {
+  private modeToString(mode?: VimMode): string | undefined | null {
     if (!mode) return undefined;
 
     switch (mode) {
-      case 'normal':
+      case VimMode.NORMAL:
         return 'normal';
-      case 'insert':
+      case VimMode.INSERT:
+      case VimMode.INSERT_COMMAND_LINE:
+      case VimMode.LANG_ARG:
         return 'insert';
-      case 'visual':
+      case VimMode.VISUAL:
+      case VimMode.VISUAL_ONLY:
         return 'visual';
-      case 'operatorPending':
+      case VimMode.OPERATOR_PENDING:
         return 'operatorPending';
-      case 'all':
+      case VimMode.SELECT:
+      case VimMode.COMMAND_LINE:
+        return null;
+      case VimMode.ALL:
         return undefined; // undefined means all modes in CodeMirror
       default:
-        return undefined;
+        return mode;
     }
   }
 
+  /**
+   * Check whether mappings of a mode apply in the command line
+   */
+  private isCommandLineMode(mode?: VimMode): boolean {
+    return mode !== undefined && COMMAND_LINE_MODES.includes(mode);
+  }
+
   // ==========================================
   // Mapping Methods (Requirements 2.1, 2.6)
   // ==========================================
@@ -383,18 +496,27 @@ export class VimAdapter implements IVimAdapter {
     const modeStr = this.modeToString(mode);
     const vimApi = this.getVimApi();
 
-    log.debug(`map: ${lhs} -> ${rhs} (${modeStr ?? 'all'})`);
+    log.debug(`map: ${lhs} -> ${rhs} (${mode ?? 'all'})`);
 
+    if (this.isCommandLineMode(mode)) {
+      this.commandLineMapper.map(lhs, rhs, true);
+    }
+    if (modeStr === null) {
+      return;
+    }
+
+    const vimLhs = toVimKeys(lhs);
+    const vimRhs = toVimKeys(rhs);
     if (vimApi) {
       try {
-        vimApi.map(lhs, rhs, modeStr);
+        vimApi.map(vimLhs, vimRhs, modeStr);
       } catch (error) {
         log.error(`Failed to map ${lhs}:`, error);
       }
     } else {
       log.debug(`Queuing map operation: ${lhs}`);
       // Queue for later execution (Requirement 2.5)
-      this.queueOperation('map', [lhs, rhs, modeStr]);
+      this.queueOperation('map', [vimLhs, vimRhs, modeStr]);
     }
   }
 
@@ -409,17 +531,26 @@ export class VimAdapter implements IVimAdapter {
     const modeStr = this.modeToString(mode);
     const vimApi = this.getVimApi();
 
-    log.debug(`noremap: ${lhs} -> ${rhs} (${modeStr ?? 'all'})`);
+    log.debug(`noremap: ${lhs} -> ${rhs} (${mode ?? 'all'})`);
+
+    if (this.isCommandLineMode(mode)) {
+      this.commandLineMapper.map(lhs, rhs, false);
+    }
+    if (modeStr === null) {
+      return;
+    }
 
+    const vimLhs = toVimKeys(lhs);
+    const vimRhs = toVimKeys(rhs);
     if (vimApi) {
       try {
-        vimApi.noremap(lhs, rhs, modeStr);
+        vimApi.noremap(vimLhs, vimRhs, modeStr);
       } catch (error) {
         log.error(`Failed to noremap ${lhs}:`, error);
       }
     } else {
       log.debug(`Queuing noremap operation: ${lhs}`);
-      this.queueOperation('noremap', [lhs, rhs, modeStr]);
+      this.queueOperation('noremap', [vimLhs, vimRhs, modeStr]);
     }
   }
 
@@ -433,29 +564,47 @@ export class VimAdapter implements IVimAdapter {
     const modeStr = this.modeToString(mode);
     const vimApi = this.getVimApi();
 
-    log.debug(`unmap: ${lhs} (${modeStr ?? 'all'})`);
+    log.debug(`unmap: ${lhs} (${mode ?? 'all'})`);
+
+    if (this.isCommandLineMode(mode)) {
+      this.commandLineMapper.unmap(lhs);
+    }
+    if (modeStr === null) {
+      return;
+    }
 
+    const vimLhs = toVimKeys(lhs);
     if (vimApi) {
       try {
-        vimApi.unmap(lhs, modeStr);
+        vimApi.unmap(vimLhs, modeStr);
       } catch (error) {
         log.error(`Failed to unmap ${lhs}:`, error);
       }
     } else {
-      this.queueOperation('unmap', [lhs, modeStr]);
+      this.queueOperation('unmap', [vimLhs, modeStr]);
     }
   }
 
   /**
    * Clear all mappings for a mode
    *
-   * @param mode - Optional Vim mode (clears all modes if not specified)
+   * Command-line mappings are only cleared for a command-line mode, like
+   * `cmapclear` and `mapclear!`; a plain `mapclear` keeps them.
+   *
+   * @param mode - Optional Vim mode (clears all CodeMirror Vim modes if not specified)
    */
   mapclear(mode?: VimMode): void {
     const modeStr = this.modeToString(mode);
     const vimApi = this.getVimApi();
 
-    log.debug(`mapclear (${modeStr ?? 'all'})`);
+    log.debug(`mapclear (${mode ?? 'all'})`);
+
+    if (this.isCommandLineMode(mode)) {
+      this.commandLineMapper.clear();
+    }
+    if (modeStr === null) {
+      return;
+    }
 
     if (vimApi) {
       try {
@@ -571,6 +720,20 @@ export class VimAdapter implements IVimAdapter {
     }
   }
 
+  /**
+   * Give an ex command defined over one of CodeMirror Vim back to it
+   *
+   * The built-in handlers cannot be read from the Vim API, so the command is
+   * defined again with one that does what the built-in does and holds no
+   * reference to this adapter, e.g. when the plugin unloads.
+   *
+   * @param name - Full name of the ex command
+   * @param prefix - Short prefix the command was defined with
+   */
+  restoreBuiltinEx(name: string, prefix: string): void {
+    this.defineEx(name, prefix, createBuiltinEx(name));
+  }
+
   /**
    * Map keys to a command
    *
@@ -581,7 +744,8 @@ export class VimAdapter implements IVimAdapter {
    * @param type - Command type ('motion', 'action', 'operator')
    * @param name - Name of the command to execute
    * @param args - Optional arguments to pass to the command
-   * @param extra - Optional extra configuration (e.g., context for mode)
+   * @param extra - Optional extra configuration (e.g., context for mode);
+   *   a VimMode context is routed like mappings of that mode
    */
   mapCommand(
     keys: string,
@@ -594,17 +758,172 @@ export class VimAdapter implements IVimAdapter {
 
     log.debug(`mapCommand: ${keys} -> ${type}:${name} (${extra?.context ?? 'all'})`);
 
+    if (extra?.context) {
+      const context = this.modeToString(extra.context as VimMode);
+      if (context === null) {
+        log.debug(`mapCommand: CodeMirror Vim has no ${extra.context} mode, skipping ${keys}`);
+        return;
+      }
+      extra = { ...extra, context };
+    }
+
+    const vimKeys = toVimKeys(keys);
     if (vimApi) {
       try {
-        vimApi.mapCommand(keys, type, name, args, extra);
+        vimApi.mapCommand(vimKeys, type, name, args, extra);
       } catch (error) {
         log.error(`Failed to map command ${keys}:`, error);
       }
     } else {
-      this.queueOperation('mapCommand', [keys, type, name, args, extra]);
+      this.queueOperation('mapCommand', [vimKeys, type, name, args, extra]);
+    }
+  }
+
+  // ==========================================
+  // Option Methods
+  // ==========================================
+
+  /**
+   * Define a Vim option unless the Vim API already knows it
+   *
+   * @param name - Full option name
+   * @param defaultValue - Value used until the option is set
+   * @param type - Option type ('boolean', 'number', 'string')
+   * @param aliases - Short names for the option
+   */
+  defineOption(name: string, defaultValue: unknown, type: string, aliases?: string[]): void {
+    const vimApi = this.getVimApi();
+
+    if (vimApi) {
+      try {
+        this.defineVimOption(vimApi, name, defaultValue, type, aliases);
+      } catch (error) {
+        log.error(`Failed to define option ${name}:`, error);
+      }
+    } else {
+      this.queueOperation('defineOption', [name, defaultValue, type, aliases]);
+    }
+  }
+
+  /**
+   * Set a global Vim option
+   *
+   * @param name - Option name
+   * @param value - New value
+   */
+  setOption(name: string, value: unknown): void {
+    const vimApi = this.getVimApi();
+
+    log.debug(`setOption: ${name}=${String(value)}`);
+
+    if (vimApi) {
+      try {
+        this.setVimOption(vimApi, name, value);
+      } catch (error) {
+        log.error(`Failed to set option ${name}:`, error);
+      }
+    } else {
+      this.queueOperation('setOption', [name, value]);
+    }
+  }
+
+  /**
+   * Get the global value of a Vim option
+   *
+   * @param name - Option name
+   * @returns The value, or undefined if the option or the Vim API is unavailable
+   */
+  getOption(name: string): unknown {
+    const vimApi = this.getVimApi();
+    if (!vimApi) {
+      return undefined;
+    }
+
+    try {
+      const value = vimApi.getOption(name);
+      return value instanceof Error ? undefined : value;
+    } catch (error) {
+      log.error(`Failed to get option ${name}:`, error);
+      return undefined;
     }
   }
 
+  /**
+   * Define an option on the Vim API if it is not defined yet
+   */
+  private defineVimOption(vimApi: VimApi, name: string, defaultValue: unknown, type: string, aliases?: string[]): void {
+    if (!(vimApi.getOption(name) instanceof Error)) {
+      return;
+    }
+    log.debug(`defineOption: ${name} (${type})`);
+    vimApi.defineOption(name, defaultValue, type, aliases);
+  }
+
+  /**
+   * Set an option on the Vim API, which reports failures as a returned Error
+   */
+  private setVimOption(vimApi: VimApi, name: string, value: unknown): void {
+    const result = vimApi.setOption(name, value);
+    if (result instanceof Error) {
+      throw result;
+    }
+  }
+
+  /**
+   * Execute keys in an editor as if typed
+   *
+   * Registers a temporary key-to-key command and triggers it, so the keys go
+   * through the same path as a regular mapping: `remap` decides whether user
+   * mappings apply, and insert mode inserts unmapped characters.
+   *
+   * @param cm - CodeMirror editor instance (as passed to action callbacks)
+   * @param keys - Keys in Vim notation
+   * @param remap - Whether user mappings apply to the keys
+   */
+  feedKeys(cm: unknown, keys: string, remap: boolean): void {
+    const vimApi = this.getVimApi();
+
+    log.debug(`feedKeys: ${keys} (${remap ? 'remap' : 'noremap'})`);
+
+    if (!vimApi) {
+      log.warn(`Cannot feed keys ${keys}: Vim API unavailable`);
+      return;
+    }
+
+    const vimState = (cm as { state?: { vim?: { insertMode?: boolean } } }).state?.vim;
+    const context = vimState?.insertMode ? 'insert' : undefined;
+
+    try {
+      vimApi._mapCommand({ keys: FEED_KEY, type: 'keyToKey', toKeys: toVimKeys(keys), noremap: !remap, context });
+      vimApi.handleKey(cm, FEED_KEY, 'mapping');
+    } catch (error) {
+      log.error(`Failed to feed keys ${keys}:`, error);
+    } finally {
+      vimApi.unmap(FEED_KEY, context);
+    }
+  }
+
+  /**
+   * Execute an ex command line in an editor
+   *
+   * Errors propagate so the ex command that triggered this can report them.
+   *
+   * @param cm - CodeMirror editor instance
+   * @param input - Ex command line without the leading `:`
+   */
+  handleEx(cm: unknown, input: string): void {
+    const vimApi = this.getVimApi();
+
+    log.debug(`handleEx: :${input}`);
+
+    if (!vimApi) {
+      log.warn(`Cannot execute :${input}: Vim API unavailable`);
+      return;
+    }
+
+    vimApi.handleEx(cm, input);
+  }
+
   // ==========================================
   // Queue Management
   // ==========================================
@@ -635,7 +954,15 @@ export class VimAdapter implements IVimAdapter {
    */
   cleanup(): void {
     this.clearQueue();
+    this.commandLineMapper.dispose();
     this.readyPromise = null;
     this.readyResolve = null;
   }
+
+  /**
+   * Dispose the adapter when its service container is disposed
+   */
+  dispose(): void {
+    this.cleanup();
+  }
 }
@@ -0,0 +1,231 @@
+/**
+ * VimrcCompletion - Completion of Vimrc Lines for Editing
+ *
+ * Suggests what can be typed at the end of a vimrc line, for the vimrc
+ * editor view:
+ * - command names at the start of a statement
+ * - Obsidian command IDs after `obmap {lhs}`, `exmap {name} obcommand` and
+ *   `obcommand`, with their display names and hotkeys
+ * - map arguments (`<silent>`, ...) and `<...>` key notation
+ * - variable names after `let` and `unlet`
+ * - option names after `set`, with `no` / `inv` for boolean options
+ *
+ * @module services/VimrcCompletion
+ */
+
+import type { ObsidianCommandInfo } from '../types/commands';
+import {
+  CommandType as CT,
+  MAPPING_COMMAND_TYPES,
+  OBMAP_COMMAND_TYPES,
+} from '../types/commands';
+import { MAP_MODIFIER_NAMES } from '../types/mappings';
+import { VIM_OPTIONS } from '../types/options';
+import { keyNotationNames } from './KeyNotation';
+import { getCommandType } from './VimrcParser';
+
+/**
+ * Kind of a completion, used for its icon
+ */
+export type VimrcCompletionType = 'command' | 'keyword' | 'function' | 'modifier' | 'key' | 'variable' | 'option';
+
+/**
+ * A suggested completion
+ */
+export interface VimrcCompletionOption {
+  /** Text inserted for the completion */
+  label: string;
+  type: VimrcCompletionType;
+  /** Short text shown after the label */
+  detail?: string;
+  /** Longer text shown for the selected completion */
+  info?: string;
+}
+
+/**
+ * Completions for the end of a line
+ */
+export interface VimrcCompletionResult {
+  /** Offset in the line where the completed text starts */
+  from: number;
+  options: VimrcCompletionOption[];
+}
+
+/**
+ * What completions are made from besides the vimrc syntax
+ */
+export interface VimrcCompletionSources {
+  /** Commands registered in Obsidian */
+  getCommands?: () => ObsidianCommandInfo[];
+  /** Variables defined elsewhere in the document (see findLetVariables) */
+  variables?: string[];
+}
+
+/**
+ * Keywords of conditionals, profile blocks and command modifiers
+ */
+const KEYWORDS = ['if', 'elseif', 'else', 'endif', 'profile', 'endprofile', 'verbose'];
+
+/**
+ * Variables with a meaning to the plugin
+ */
+const KNOWN_VARIABLES: Record<string, string> = {
+  'g:mapleader': 'Keys <leader> stands for',
+  'g:maplocalleader': 'Keys <localleader> stands for',
+};
+
+/**
+ * Keys standing for the leader settings
+ */
+const LEADER_KEYS = ['leader', 'localleader'];
+
+/**
+ * Commands the parser understands, by their full names
+ */
+const COMMAND_NAMES = Object.values(CT).filter((name) => getCommandType(name) !== CT.UNKNOWN);
+
+/**
+ * Find the variables a document assigns with `let`
+ *
+ * @param text - Vimrc content
+ * @returns Variable names as written, in order of first assignment
+ */
+export function findLetVariables(text: string): string[] {
+  const names = [...text.matchAll(/^\s*let\s+((?:[gsbv]:)?[A-Za-z_][\w#]*)/gm)].map((match) => match[1]);
+  return [...new Set(names)];
+}
+
+/**
+ * Get the completions for the text before the cursor on a line
+ *
+ * Only the statement after the last `|` is completed, and continuation
+ * lines are not.
+ *
+ * @param lineBefore - Text of the line before the cursor
+ * @param sources - Obsidian commands and document variables
+ * @returns The completions, or null when nothing can be completed here
+ */
+export function getVimrcCompletions(lineBefore: string, sources: VimrcCompletionSources = {}): VimrcCompletionResult | null {
+  const start = lineBefore.lastIndexOf('|') + 1;
+  const statement = lineBefore.slice(start);
+  if (/^\s*["\\]/.test(statement)) {
+    return null;
+  }
+
+  const word = statement.match(/\S*$/)![0];
+  const from = lineBefore.length - word.length;
+  const words = statement.slice(0, statement.length - word.length).trim().split(/\s+/).filter(Boolean);
+  if (words[0] && /^verb(o(se?)?)?$/i.test(words[0])) {
+    words.shift();
+  }
+
+  if (words.length === 0) {
+    return { from, options: commandOptions() };
+  }
+
+  const type = getCommandType(words[0]);
+  const args = words.slice(1);
+  const keyStart = word.search(/<[\w-]*$/);
+
+  if (MAPPING_COMMAND_TYPES.includes(type)) {
+    if (keyStart < 0) {
+      return null;
+    }
+    const beforeLhs = args.every((arg) => isMapModifier(arg)) && keyStart === 0;
+    return { from: from + keyStart, options: keyOptions(beforeLhs) };
+  }
+
+  if (OBMAP_COMMAND_TYPES.includes(type)) {
+    if (args.length === 0) {
+      return keyStart < 0 ? null : { from: from + keyStart, options: keyOptions(false) };
+    }
+    return args.length === 1 ? { from, options: obsidianCommandOptions(sources) } : null;
+  }
+
+  switch (type) {
+    case CT.OBCOMMAND:
+      return args.length === 0 ? { from, options: obsidianCommandOptions(sources) } : null;
+    case CT.EXMAP:
+      if (args.length === 1) {
+        return { from, options: [{ label: 'obcommand', type: 'command', detail: 'Run an Obsidian command' }] };
+      }
+      if (args.length === 2 && args[1].toLowerCase() === 'obcommand') {
+        return { from, options: obsidianCommandOptions(sources) };
+      }
+      return null;
+    case CT.LET:
+    case CT.UNLET:
+      return args.length === 0 ? { from, options: variableOptions(sources) } : null;
+    case CT.SET:
+      return /[=^+\-:]/.test(word) ? null : { from, options: optionOptions() };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check whether a word is a map argument such as `<silent>`
+ */
+function isMapModifier(word: string): boolean {
+  const match = word.match(/^<(\w+)>$/);
+  return match !== null && (MAP_MODIFIER_NAMES as readonly string[]).includes(match[1].toLowerCase());
+}
+
+/**
+ * Command names and keywords at the start of a statement
+ */
+function commandOptions(): VimrcCompletionOption[] {
+  return [
+    ...COMMAND_NAMES.map((name) => ({ label: name, type: 'command' as const })),
+    ...KEYWORDS.map((name) => ({ label: name, type: 'keyword' as const })),
+  ];
+}
+
+/**
+ * Key notation, and map arguments where the left-hand side has not started
+ */
+function keyOptions(withModifiers: boolean): VimrcCompletionOption[] {
+  const modifiers = withModifiers
+    ? MAP_MODIFIER_NAMES.map((name) => ({ label: `<${name}>`, type: 'modifier' as const, detail: 'map argument' }))
+    : [];
+  return [
+    ...modifiers,
+    ...LEADER_KEYS.map((name) => ({ label: `<${name}>`, type: 'key' as const })),
+    ...keyNotationNames().map((name) => ({ label: `<${name}>`, type: 'key' as const })),
+  ];
+}
+
+/**
+ * Obsidian command IDs with their names and hotkeys
+ */
+function obsidianCommandOptions(sources: VimrcCompletionSources): VimrcCompletionOption[] {
+  return (sources.getCommands?.() ?? []).map((command) => ({
+    label: command.id,
+    type: 'function' as const,
+    detail: command.hotkeys.length > 0 ? `${command.name} (${command.hotkeys.join(', ')})` : command.name,
+    info: command.hotkeys.length > 0 ? `Hotkey: ${command.hotkeys.join(', ')}` : 'No hotkey',
+  }));
+}
+
+/**
+ * Known variables and the variables of the document
+ */
+function variableOptions(sources: VimrcCompletionSources): VimrcCompletionOption[] {
+  const names = [...new Set([...Object.keys(KNOWN_VARIABLES), ...(sources.variables ?? [])])];
+  return names.map((name) => ({ label: name, type: 'variable' as const, detail: KNOWN_VARIABLES[name] }));
+}
+
+/**
+ * Option names and short names; boolean options also with `no` and `inv`
+ */
+function optionOptions(): VimrcCompletionOption[] {
+  return VIM_OPTIONS.flatMap((option) => {
+    const names = [option.name, ...option.aliases];
+    const prefixes = option.type === 'boolean' ? ['', 'no', 'inv'] : [''];
+    return prefixes.flatMap((prefix) => names.map((name) => ({
+      label: `${prefix}${name}`,
+      type: 'option' as const,
+      detail: name === option.name ? option.type : option.name,
+    })));
+  });
+}
@@ -0,0 +1,618 @@
+/**
+ * VimrcImporter - Conversion of Other Vim Plugin Configurations
+ *
+ * Converts configurations of other Vim emulations into this plugin's vimrc
+ * dialect:
+ * - obsidian-vimrc-support: `exmap {name} obcommand` is kept; `jscommand`,
+ *   `jsfile` and the exmaps using them are commented out and reported
+ * - IdeaVim (`.ideavimrc`): `<Action>(...)` and `:action ...<CR>` become
+ *   obmaps or exmaps of the matching Obsidian commands; `Plug` lines and
+ *   IDE-only options are commented out
+ * - VSCodeVim (`settings.json`): `vim.*ModeKeyBindings[NonRecursive]`,
+ *   `vim.leader` and the options this plugin supports become vimrc lines
+ *
+ * Lines that cannot be translated are kept as comments and listed in the
+ * report. The converted vimrc is parsed with VimrcParser, and its errors
+ * and warnings are reported at the lines they came from.
+ *
+ * @module services/VimrcImporter
+ */
+
+import { CommandType as CT, MAPPING_COMMAND_TYPES, UNMAP_COMMAND_TYPES, MAPCLEAR_COMMAND_TYPES } from '../types/commands';
+import { findVimOption } from '../types/options';
+import type { CommandValidationResult } from '../handlers/ObsidianCommandExecutor';
+import { getCommandType, VimrcParser } from './VimrcParser';
+
+/**
+ * Configuration formats the importer understands
+ */
+export type ImportFormat = 'obsidian-vimrc-support' | 'ideavim' | 'vscodevim';
+
+/**
+ * Options of an import
+ */
+export interface ImportOptions {
+  /** Format of the content; detected from the content and file name when missing */
+  format?: ImportFormat;
+  /** Name of the imported file, e.g. `.ideavimrc` or `settings.json` */
+  fileName?: string;
+  /** Check that an Obsidian command exists; IDs are not checked without it */
+  validateCommand?: (commandId: string) => CommandValidationResult;
+}
+
+/**
+ * A line that could not be translated, or was translated with a caveat
+ */
+export interface ImportIssue {
+  /** Line of the imported content (1-based) */
+  lineNumber: number;
+  /** The line as written in the imported content */
+  raw: string;
+  message: string;
+  /** 'error': the line was not imported; 'warning': it was, but may not work the same */
+  severity: 'error' | 'warning';
+}
+
+/**
+ * Result of an import
+ */
+export interface ImportResult {
+  format: ImportFormat;
+  /** The converted vimrc */
+  content: string;
+  issues: ImportIssue[];
+}
+
+/**
+ * Obsidian commands for IdeaVim actions
+ */
+const IDEAVIM_ACTIONS: Record<string, string> = {
+  Back: 'app:go-back',
+  Forward: 'app:go-forward',
+  GotoFile: 'switcher:open',
+  RecentFiles: 'switcher:open',
+  SearchEverywhere: 'switcher:open',
+  GotoAction: 'command-palette:open',
+  FindInPath: 'global-search:open',
+  Find: 'editor:open-search',
+  Replace: 'editor:open-search-replace',
+  NextTab: 'workspace:next-tab',
+  PreviousTab: 'workspace:previous-tab',
+  CloseContent: 'workspace:close',
+  CloseEditor: 'workspace:close',
+  ReopenClosedTab: 'workspace:undo-close-pane',
+  SplitVertically: 'workspace:split-vertical',
+  SplitHorizontally: 'workspace:split-horizontal',
+  MoveEditorToOppositeTabGroup: 'workspace:move-to-new-window',
+  ActivateProjectToolWindow: 'file-explorer:reveal-active-file',
+  SelectInProjectView: 'file-explorer:reveal-active-file',
+  FileStructurePopup: 'outline:open',
+  ActivateStructureToolWindow: 'outline:open',
+  GotoDeclaration: 'editor:follow-link',
+  RenameElement: 'workspace:edit-file-title',
+  RenameFile: 'workspace:edit-file-title',
+  CommentByLineComment: 'editor:toggle-comments',
+  CommentByBlockComment: 'editor:toggle-comments',
+  ToggleBookmark: 'bookmarks:bookmark-current-view',
+  ShowBookmarks: 'bookmarks:open',
+  ShowSettings: 'app:open-settings',
+  NewFile: 'file-explorer:new-file',
+  SaveAll: 'editor:save-file',
+  HideAllWindows: 'app:toggle-left-sidebar',
+  CollapseRegion: 'editor:fold-less',
+  ExpandRegion: 'editor:fold-more',
+  CollapseAllRegions: 'editor:fold-all',
+  ExpandAllRegions: 'editor:unfold-all',
+};
+
+/**
+ * Obsidian commands for VS Code commands
+ */
+const VSCODE_COMMANDS: Record<string, string> = {
+  'workbench.action.files.save': 'editor:save-file',
+  'workbench.action.files.saveAll': 'editor:save-file',
+  'workbench.action.files.newUntitledFile': 'file-explorer:new-file',
+  'workbench.action.quickOpen': 'switcher:open',
+  'workbench.action.showCommands': 'command-palette:open',
+  'workbench.action.findInFiles': 'global-search:open',
+  'actions.find': 'editor:open-search',
+  'editor.action.startFindReplaceAction': 'editor:open-search-replace',
+  'workbench.action.nextEditor': 'workspace:next-tab',
+  'workbench.action.previousEditor': 'workspace:previous-tab',
+  'workbench.action.closeActiveEditor': 'workspace:close',
+  'workbench.action.reopenClosedEditor': 'workspace:undo-close-pane',
+  'workbench.action.splitEditor': 'workspace:split-vertical',
+  'workbench.action.splitEditorRight': 'workspace:split-vertical',
+  'workbench.action.splitEditorDown': 'workspace:split-horizontal',
+  'workbench.action.navigateBack': 'app:go-back',
+  'workbench.action.navigateForward': 'app:go-forward',
+  'workbench.action.toggleSidebarVisibility': 'app:toggle-left-sidebar',
+  'workbench.action.toggleAuxiliaryBar': 'app:toggle-right-sidebar',
+  'workbench.view.explorer': 'file-explorer:open',
+  'workbench.files.action.showActiveFileInExplorer': 'file-explorer:reveal-active-file',
+  'workbench.action.gotoSymbol': 'outline:open',
+  'workbench.action.openSettings': 'app:open-settings',
+  'editor.action.commentLine': 'editor:toggle-comments',
+  'editor.action.revealDefinition': 'editor:follow-link',
+  'editor.fold': 'editor:fold-less',
+  'editor.unfold': 'editor:fold-more',
+  'editor.foldAll': 'editor:fold-all',
+  'editor.unfoldAll': 'editor:unfold-all',
+};
+
+/**
+ * Notes for IdeaVim extensions this plugin has its own version of
+ */
+const IDEAVIM_EXTENSION_NOTES: Record<string, string> = {
+  surround: 'Surround is built in as sa, sd and sr',
+};
+
+/**
+ * VSCodeVim key binding settings, by the map command prefix of their mode
+ */
+const VSCODE_BINDING_SETTINGS: Record<string, { prefix: string; recursive: boolean }> = {
+  'vim.normalModeKeyBindings': { prefix: 'n', recursive: true },
+  'vim.normalModeKeyBindingsNonRecursive': { prefix: 'n', recursive: false },
+  'vim.insertModeKeyBindings': { prefix: 'i', recursive: true },
+  'vim.insertModeKeyBindingsNonRecursive': { prefix: 'i', recursive: false },
+  'vim.visualModeKeyBindings': { prefix: 'v', recursive: true },
+  'vim.visualModeKeyBindingsNonRecursive': { prefix: 'v', recursive: false },
+  'vim.operatorPendingModeKeyBindings': { prefix: 'o', recursive: true },
+  'vim.operatorPendingModeKeyBindingsNonRecursive': { prefix: 'o', recursive: false },
+};
+
+/**
+ * Obmap command of a map command prefix; modes without one use exmaps
+ */
+const OBMAP_COMMANDS: Record<string, string> = {
+  '': 'obmap',
+  n: 'nobmap',
+  i: 'iobmap',
+  v: 'vobmap',
+  x: 'vobmap',
+};
+
+/**
+ * A map command: indentation, command name, map arguments, left- and right-hand side
+ */
+const MAP_LINE_PATTERN = /^(\s*)(\S+)((?:\s+<(?:silent|nowait|unique|buffer|expr|special|script)>)*)\s+(\S+)\s+(.+)$/i;
+
+/**
+ * IdeaVim actions in a right-hand side: `<Action>(Id)` or `:action Id<CR>`
+ */
+const ACTION_PATTERN = /<Action>\(([\w.$-]+)\)|:action\s+([\w.$-]+)<CR>/gi;
+
+/**
+ * A VSCodeVim key binding
+ */
+interface VSCodeBinding {
+  before?: unknown;
+  after?: unknown;
+  commands?: unknown;
+  silent?: unknown;
+}
+
+/**
+ * Detect the format of a configuration
+ *
+ * @param content - Configuration content
+ * @param fileName - Name of the file, e.g. `.ideavimrc` or `settings.json`
+ */
+export function detectImportFormat(content: string, fileName?: string): ImportFormat {
+  const name = fileName?.split(/[\\/]/).pop()?.toLowerCase() ?? '';
+  if (name.endsWith('.json') || (/^\s*[{/]/.test(content) && /"vim\.[\w.]+"\s*:/.test(content))) {
+    return 'vscodevim';
+  }
+  if (name.includes('ideavimrc') || /<Action>\(|^\s*(set\s+idea|Plug\s|sethandler\b)|:action\s+\w/im.test(content)) {
+    return 'ideavim';
+  }
+  return 'obsidian-vimrc-support';
+}
+
+/**
+ * Convert a configuration of another Vim plugin into this plugin's vimrc dialect
+ *
+ * @param content - Configuration content
+ * @param options - Format, file name and command validation
+ * @returns The converted vimrc and the issues of each imported line
+ */
+export function importVimrc(content: string, options: ImportOptions = {}): ImportResult {
+  const format = options.format ?? detectImportFormat(content, options.fileName);
+  const importer = new Importer(content, format, options);
+  if (format === 'vscodevim') {
+    importer.importSettings();
+  } else {
+    importer.importLines();
+  }
+  return importer.finish();
+}
+
+/**
+ * Strip comments and trailing commas from JSON with comments (settings.json)
+ */
+function stripJsonComments(text: string): string {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      const end = text.slice(i).match(/^"(?:[^"\\]|\\.)*"?/)![0];
+      result += end;
+      i += end.length - 1;
+    } else if (text.startsWith('//', i)) {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      const comment = text.slice(i, end < 0 ? text.length : end + 2);
+      result += comment.replace(/[^\n]/g, ' ');
+      i += comment.length - 1;
+    } else {
+      result += char;
+    }
+  }
+  return result.replace(/,(\s*[}\]])/g, '$1');
+}
+
+/**
+ * Name of the exmap running an Obsidian command, e.g. `switcherOpen`
+ */
+function exmapName(commandId: string): string {
+  const [first, ...rest] = commandId.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return [first.toLowerCase(), ...rest.map((part) => part[0].toUpperCase() + part.slice(1))].join('');
+}
+
+/**
+ * Write a VSCodeVim key as vimrc key notation
+ */
+function vscodeKey(key: string): string {
+  switch (key) {
+    case ' ':
+      return '<Space>';
+    case '|':
+      return '<Bar>';
+    case '<':
+      return '<lt>';
+    default:
+      return key;
+  }
+}
+
+/**
+ * Builds the converted vimrc and the report
+ */
+class Importer {
+  private sourceLines: string[];
+  private format: ImportFormat;
+  private options: ImportOptions;
+  /** Converted lines with the line of the content each came from */
+  private output: Array<{ text: string; lineNumber: number }> = [];
+  private issues: ImportIssue[] = [];
+  /** Exmaps defined for Obsidian commands, by command ID */
+  private exmaps: Map<string, string> = new Map();
+  /** Exmaps that were not imported (jscommand, jsfile) */
+  private droppedExmaps: Set<string> = new Set();
+
+  constructor(content: string, format: ImportFormat, options: ImportOptions) {
+    this.sourceLines = content.split(/\r?\n/);
+    this.format = format;
+    this.options = options;
+  }
+
+  /**
+   * Convert a vimrc-like configuration line by line
+   */
+  importLines(): void {
+    this.sourceLines.forEach((line, index) => this.importLine(line, index + 1));
+  }
+
+  /**
+   * Convert the vim.* settings of a VSCodeVim settings.json
+   */
+  importSettings(): void {
+    const text = this.sourceLines.join('\n');
+    let settings: Record<string, unknown>;
+    try {
+      settings = JSON.parse(stripJsonComments(text));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.report(1, `Invalid settings.json: ${message}`, 'error');
+      return;
+    }
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+      this.report(1, 'settings.json does not contain an object', 'error');
+      return;
+    }
+
+    // The leader has to be set before the mappings using it
+    const keys = Object.keys(settings).sort((a, b) => Number(b === 'vim.leader') - Number(a === 'vim.leader'));
+    for (const key of keys) {
+      if (!key.startsWith('vim.')) {
+        continue;
+      }
+      const lineNumber = this.findSettingLine(key);
+      const value = settings[key];
+      const binding = VSCODE_BINDING_SETTINGS[key];
+      if (binding) {
+        if (!Array.isArray(value)) {
+          this.report(lineNumber, `${key} is not a list of key bindings`, 'error');
+          continue;
+        }
+        for (const entry of value) {
+          this.importBinding(entry as VSCodeBinding, binding.prefix, binding.recursive, lineNumber);
+        }
+      } else if (key === 'vim.leader' && typeof value === 'string') {
+        const leader = value.startsWith('<') ? `"\\${value}"` : JSON.stringify(value);
+        this.write(`let mapleader = ${leader}`, lineNumber);
+      } else if (key === 'vim.useSystemClipboard') {
+        this.write(value ? 'set clipboard=unnamed' : 'set clipboard=', lineNumber);
+      } else {
+        this.importSetting(key, value, lineNumber);
+      }
+    }
+  }
+
+  /**
+   * Get the converted vimrc and the report, with the parser's problems in it
+   */
+  finish(): ImportResult {
+    const header = `" Imported from ${this.format}`;
+    const lines = [header, ...this.output.map((line) => line.text)];
+    const content = `${lines.join('\n')}\n`;
+
+    const result = new VimrcParser().parse(content);
+    const problems = [
+      ...result.errors.map((problem) => ({ problem, severity: 'error' as const })),
+      ...result.warnings.map((problem) => ({ problem, severity: 'warning' as const })),
+    ];
+    for (const { problem, severity } of problems) {
+      const line = this.output[problem.lineNumber - 2];
+      if (line) {
+        this.report(line.lineNumber, problem.message, severity);
+      }
+    }
+
+    this.issues.sort((a, b) => a.lineNumber - b.lineNumber);
+    return { format: this.format, content, issues: this.issues };
+  }
+
+  private importLine(line: string, lineNumber: number): void {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('"') || trimmed.startsWith('\\')) {
+      this.write(line, lineNumber);
+      return;
+    }
+
+    const [name, ...args] = trimmed.split(/\s+/);
+    const lowerName = name.toLowerCase();
+    if (lowerName === 'jscommand' || lowerName === 'jsfile') {
+      this.skip(line, lineNumber, `${lowerName} runs JavaScript, which is not supported; use obcommand or the plugin API`);
+      return;
+    }
+    if (this.format === 'ideavim' && (lowerName === 'plug' || lowerName === 'packadd')) {
+      const plugin = args.join(' ').replace(/^['"]|['"]$/g, '').split('/').pop()?.replace(/^vim-/, '') ?? '';
+      this.skip(line, lineNumber, IDEAVIM_EXTENSION_NOTES[plugin] ?? 'IdeaVim plugins are not supported');
+      return;
+    }
+    if (this.format === 'ideavim' && lowerName === 'sethandler') {
+      this.skip(line, lineNumber, 'sethandler is IdeaVim-only; key handlers are not supported');
+      return;
+    }
+
+    const type = getCommandType(name);
+    switch (type) {
+      case CT.EXMAP:
+        this.importExmap(line, lineNumber, args);
+        return;
+      case CT.OBCOMMAND:
+        this.checkCommand(args[0], lineNumber);
+        this.write(line, lineNumber);
+        return;
+      case CT.SET:
+        this.importSet(line, lineNumber, name, args);
+        return;
+    }
+    if (MAPPING_COMMAND_TYPES.includes(type) && !UNMAP_COMMAND_TYPES.includes(type) && !MAPCLEAR_COMMAND_TYPES.includes(type)) {
+      this.importMap(line, lineNumber);
+      return;
+    }
+    this.write(line, lineNumber);
+  }
+
+  private importExmap(line: string, lineNumber: number, args: string[]): void {
+    const [name, kind] = args;
+    if (kind === 'jscommand' || kind === 'jsfile') {
+      this.droppedExmaps.add(name);
+      this.skip(line, lineNumber, `exmap ${name} uses ${kind}, which runs JavaScript and is not supported`);
+      return;
+    }
+    if (kind === 'obcommand') {
+      this.checkCommand(args[2], lineNumber);
+    }
+    this.write(line, lineNumber);
+  }
+
+  /**
+   * Keep the options this plugin supports; comment out the others
+   */
+  private importSet(line: string, lineNumber: number, name: string, args: string[]): void {
+    const supported = args.filter((arg) => {
+      const option = arg.match(/^[a-z]+/)?.[0] ?? '';
+      const negated = option.match(/^(no|inv)(.+)$/);
+      if (findVimOption(option) || (negated && findVimOption(negated[2])?.type === 'boolean')) {
+        return true;
+      }
+      const note = IDEAVIM_EXTENSION_NOTES[option];
+      this.report(lineNumber, note ?? `Option '${option || arg}' is not supported`, note ? 'warning' : 'error', line);
+      return false;
+    });
+    if (supported.length === 0) {
+      this.write(`" Not imported: ${line.trim()}`, lineNumber);
+      return;
+    }
+    const indent = line.match(/^\s*/)![0];
+    this.write(supported.length === args.length ? line : `${indent}${name} ${supported.join(' ')}`, lineNumber);
+  }
+
+  /**
+   * Translate the IdeaVim actions of a mapping, and flag mappings running
+   * exmaps that were not imported
+   */
+  private importMap(line: string, lineNumber: number): void {
+    const match = line.match(MAP_LINE_PATTERN);
+    if (!match) {
+      this.write(line, lineNumber);
+      return;
+    }
+    const [, indent, command, modifiers, lhs, rhs] = match;
+
+    const dropped = [...this.droppedExmaps].find((name) => rhs.includes(`:${name}<CR>`));
+    if (dropped) {
+      this.report(lineNumber, `Runs :${dropped}, which was not imported`, 'warning', line);
+    }
+
+    const actions = [...rhs.matchAll(ACTION_PATTERN)].map((action) => action[1] ?? action[2]);
+    if (actions.length === 0) {
+      this.write(line, lineNumber);
+      return;
+    }
+    const unknown = actions.find((action) => !IDEAVIM_ACTIONS[action]);
+    if (unknown) {
+      this.skip(line, lineNumber, `No Obsidian command for IdeaVim action ${unknown}`);
+      return;
+    }
+    actions.forEach((action) => this.checkCommand(IDEAVIM_ACTIONS[action], lineNumber));
+
+    const prefix = command.toLowerCase().match(/^([nvxsoicl]?)(nore)?map$/)?.[1];
+    const single = rhs.trim().replace(ACTION_PATTERN, '') === '' && actions.length === 1;
+    const obmap = prefix !== undefined ? OBMAP_COMMANDS[prefix] : undefined;
+    if (single && obmap) {
+      this.write(`${indent}${obmap} ${lhs} ${IDEAVIM_ACTIONS[actions[0]]}`, lineNumber);
+      return;
+    }
+    const target = rhs.replace(ACTION_PATTERN, (_, id: string, actionId: string) => {
+      return `:${this.exmapFor(IDEAVIM_ACTIONS[id ?? actionId], lineNumber)}<CR>`;
+    });
+    this.write(`${indent}${command}${modifiers} ${lhs} ${target}`, lineNumber);
+  }
+
+  /**
+   * Convert one VSCodeVim key binding into a mapping
+   */
+  private importBinding(binding: VSCodeBinding, prefix: string, recursive: boolean, lineNumber: number): void {
+    const raw = JSON.stringify(binding);
+    if (!Array.isArray(binding?.before) || binding.before.length === 0) {
+      this.skip(raw, lineNumber, 'Key binding without "before" keys');
+      return;
+    }
+    const lhs = binding.before.map((key) => vscodeKey(String(key))).join('');
+    const after = Array.isArray(binding.after) ? binding.after.map((key) => vscodeKey(String(key))).join('') : '';
+    const commands: unknown[] = Array.isArray(binding.commands) ? binding.commands : [];
+
+    const targets: Array<{ ex: string } | { commandId: string }> = [];
+    for (const entry of commands) {
+      const name = typeof entry === 'string' ? entry : (entry as { command?: unknown } | null)?.command;
+      if (typeof name !== 'string') {
+        this.skip(raw, lineNumber, 'Key binding command without a name');
+        return;
+      }
+      if (name.startsWith(':')) {
+        targets.push({ ex: name });
+        continue;
+      }
+      const commandId = VSCODE_COMMANDS[name];
+      if (!commandId) {
+        this.skip(raw, lineNumber, `No Obsidian command for VS Code command ${name}`);
+        return;
+      }
+      if (typeof entry === 'object' && (entry as { args?: unknown }).args !== undefined) {
+        this.report(lineNumber, `Arguments of ${name} are not passed to ${commandId}`, 'warning', raw);
+      }
+      this.checkCommand(commandId, lineNumber);
+      targets.push({ commandId });
+    }
+    if (!after && targets.length === 0) {
+      this.skip(raw, lineNumber, 'Key binding without "after" keys or commands');
+      return;
+    }
+
+    const obmap = OBMAP_COMMANDS[prefix];
+    const only = targets[0];
+    if (!after && targets.length === 1 && 'commandId' in only && obmap) {
+      this.write(`${obmap} ${lhs} ${only.commandId}`, lineNumber);
+      return;
+    }
+    const rhs = after + targets
+      .map((target) => ('ex' in target ? `${target.ex}<CR>` : `:${this.exmapFor(target.commandId, lineNumber)}<CR>`))
+      .join('');
+    const silent = binding.silent === true ? ' <silent>' : '';
+    this.write(`${prefix}${recursive ? 'map' : 'noremap'}${silent} ${lhs} ${rhs}`, lineNumber);
+  }
+
+  /**
+   * Convert a VSCodeVim option setting such as `vim.hlsearch`
+   */
+  private importSetting(key: string, value: unknown, lineNumber: number): void {
+    const name = key.slice('vim.'.length);
+    const option = findVimOption(name);
+    const raw = `"${key}": ${JSON.stringify(value)}`;
+    if (!option || typeof value !== option.type) {
+      this.report(lineNumber, `Setting ${key} is not supported`, 'warning', raw);
+      return;
+    }
+    if (option.type === 'boolean') {
+      this.write(`set ${value ? '' : 'no'}${option.name}`, lineNumber);
+    } else {
+      this.write(`set ${option.name}=${String(value).replace(/([ \\|"])/g, '\\$1')}`, lineNumber);
+    }
+  }
+
+  /**
+   * Get the exmap running an Obsidian command, defining it on first use
+   */
+  private exmapFor(commandId: string, lineNumber: number): string {
+    let name = this.exmaps.get(commandId);
+    if (!name) {
+      name = exmapName(commandId);
+      this.exmaps.set(commandId, name);
+      this.write(`exmap ${name} obcommand ${commandId}`, lineNumber);
+    }
+    return name;
+  }
+
+  /**
+   * Report an Obsidian command ID that does not exist
+   */
+  private checkCommand(commandId: string | undefined, lineNumber: number): void {
+    if (!commandId || !this.options.validateCommand) {
+      return;
+    }
+    const result = this.options.validateCommand(commandId);
+    if (!result.valid) {
+      this.report(lineNumber, result.errorMessage ?? `Obsidian command not found: '${commandId}'`, 'warning');
+    }
+  }
+
+  /**
+   * Find the line of a setting in settings.json
+   */
+  private findSettingLine(key: string): number {
+    const index = this.sourceLines.findIndex((line) => line.includes(`"${key}"`));
+    return index + 1 || 1;
+  }
+
+  private write(text: string, lineNumber: number): void {
+    this.output.push({ text, lineNumber });
+  }
+
+  /**
+   * Keep a line that was not imported as a comment, and report it
+   */
+  private skip(raw: string, lineNumber: number, message: string): void {
+    this.write(`" Not imported: ${raw.trim()}`, lineNumber);
+    this.report(lineNumber, message, 'error', raw);
+  }
+
+  private report(lineNumber: number, message: string, severity: ImportIssue['severity'], raw?: string): void {
+    this.issues.push({ lineNumber, raw: (raw ?? this.sourceLines[lineNumber - 1] ?? '').trim(), message, severity });
+  }
+}
@@ -0,0 +1,621 @@
+/**
+ * VimrcLinter - Static Checks for Vimrc Files
+ *
+ * Finds problems in parsed vimrc commands without executing them:
+ * - parse-error, parse-warning: problems the parser reported
+ * - unknown-key: `<...>` key names that do not exist
+ * - unknown-obsidian-command: obmap, exmap and obcommand IDs Obsidian does not know
+ * - shadowed-mapping: mappings replaced by a later mapping of the same keys
+ * - unmap-unmapped: unmap of keys no mapping uses
+ * - prefix-conflict: a mapping whose keys start a longer mapping; it waits
+ *   for 'timeoutlen', or makes the longer one unreachable when `<nowait>`
+ * - recursive-mapping: recursive mappings whose expansion runs past
+ *   'maxmapdepth', found with the MappingExpander engine
+ * - leader-before-mapleader: `<leader>` used before `let mapleader`
+ *
+ * Locations come from the file contents, so ranges point at the exact
+ * argument when it can be found on the command's lines.
+ *
+ * @module services/VimrcLinter
+ */
+
+import type { ParsedCommand, ParseResult } from '../types/commands';
+import {
+  CommandType as CT,
+  MAPCLEAR_COMMAND_TYPES,
+  MAPPING_COMMAND_TYPES,
+  NON_RECURSIVE_COMMAND_TYPES,
+  OBMAP_COMMAND_TYPES,
+  UNMAP_COMMAND_TYPES,
+} from '../types/commands';
+import type { DiagnosticRange, QuickFix, VimrcDiagnostic } from '../types/services';
+import type { ExpandableMapping, VimMode } from '../types/mappings';
+import { VIM_MODE_LETTERS } from '../types/mappings';
+import type { CommandValidationResult } from '../handlers/ObsidianCommandExecutor';
+import { getMapclearMode, getMapMode, getUnmapMode, parseMapArguments } from '../handlers/MappingHandler';
+import { formatKey, normalizeKeys, readKeyNotation, tokenizeKeys } from './KeyNotation';
+import { expandInModes } from './MappingExpander';
+
+/**
+ * Inputs of a check besides the parsed commands
+ */
+export interface LintOptions {
+  /** Content of every parsed file by vault-relative path */
+  files: Map<string, string>;
+  /** Check that an Obsidian command exists; IDs are not checked without it */
+  validateCommand?: (commandId: string) => CommandValidationResult;
+  /** 'maxmapdepth' used to find runaway recursive mappings */
+  maxMapDepth?: number;
+}
+
+/**
+ * A word of a command as written in the file
+ */
+interface Token {
+  line: number;
+  column: number;
+  text: string;
+}
+
+/**
+ * A mapping definition and the modes it is still active in
+ */
+interface Definition {
+  command: ParsedCommand;
+  /** Left-hand side as written */
+  lhs: string;
+  /** Canonical keys of the left-hand side */
+  keys: string[];
+  /** Canonical keys of the right-hand side; null for `<expr>` mappings */
+  target: string[] | null;
+  /** Right-hand side as written */
+  rhs: string;
+  expr: boolean;
+  mode: VimMode;
+  letters: string;
+  recursive: boolean;
+  buffer: boolean;
+  nowait: boolean;
+}
+
+/**
+ * Check whether two sets of mode letters share a mode
+ */
+function overlaps(letters: string, other: string): boolean {
+  return [...letters].some((letter) => other.includes(letter));
+}
+
+/**
+ * Remove mode letters from a set of mode letters
+ */
+function withoutLetters(letters: string, removed: string): string {
+  return [...letters].filter((letter) => !removed.includes(letter)).join('');
+}
+
+/**
+ * Check whether two definitions can be active at the same time: they are
+ * not in two different keymap profiles
+ */
+function activeTogether(definition: Definition, other: Definition): boolean {
+  const { profile } = definition.command;
+  return !profile || !other.command.profile || profile === other.command.profile;
+}
+
+/**
+ * Check whether two key sequences are the same
+ */
+function sameKeys(keys: string[], other: string[]): boolean {
+  return keys.length === other.length && startsWithKeys(keys, other);
+}
+
+/**
+ * Check whether keys start with a prefix of keys
+ */
+function startsWithKeys(keys: string[], prefix: string[]): boolean {
+  return prefix.length <= keys.length && prefix.every((key, i) => keys[i] === key);
+}
+
+/**
+ * Split keys into canonical key names
+ *
+ * @throws Error for unknown `<...>` key names or modifiers
+ */
+function splitKeys(keys: string): string[] {
+  return tokenizeKeys(keys).map(formatKey);
+}
+
+/**
+ * Find the first `<...>` notation in text that is not a key name
+ *
+ * @returns Offset, length and error of the notation, or null if all are known
+ */
+function findUnknownKey(text: string): { offset: number; length: number; message: string } | null {
+  for (let offset = text.indexOf('<'); offset !== -1; offset = text.indexOf('<', offset + 1)) {
+    const notation = text.slice(offset).match(/^<[^<>\s]+>/);
+    if (!notation || /^<(local)?leader>$/i.test(notation[0])) {
+      continue;
+    }
+    try {
+      readKeyNotation(notation[0]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { offset, length: notation[0].length, message };
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply a quick-fix to file content
+ *
+ * @param content - Content of the file the diagnostic belongs to
+ * @param fix - Quick-fix of the diagnostic
+ * @returns The content with the range replaced
+ */
+export function applyQuickFix(content: string, fix: QuickFix): string {
+  const lines = content.split('\n');
+  const offset = (line: number, column: number) =>
+    lines.slice(0, line - 1).reduce((sum, text) => sum + text.length + 1, 0) + column;
+  const { range } = fix;
+  return content.slice(0, offset(range.startLine, range.startColumn))
+    + fix.replacement
+    + content.slice(offset(range.endLine, range.endColumn));
+}
+
+/**
+ * Check parsed vimrc commands for problems
+ *
+ * @param parseResult - Commands of the vimrc and the files it sources, in order
+ * @param options - File contents for locations, and the command ID check
+ * @returns Diagnostics ordered by file, line and column
+ */
+export function lintVimrc(parseResult: ParseResult, options: LintOptions): VimrcDiagnostic[] {
+  return new Linter(options).run(parseResult);
+}
+
+/**
+ * State of one check
+ */
+class Linter {
+  private files: Map<string, string>;
+  private validateCommand?: LintOptions['validateCommand'];
+  private maxMapDepth?: number;
+  private lines = new Map<string, string[]>();
+  private diagnostics: VimrcDiagnostic[] = [];
+  private definitions: Definition[] = [];
+  /** Number of commands on each file line, to know when a line can be removed */
+  private statementCounts = new Map<string, number>();
+
+  constructor(options: LintOptions) {
+    this.files = options.files;
+    this.validateCommand = options.validateCommand;
+    this.maxMapDepth = options.maxMapDepth;
+  }
+
+  run(parseResult: ParseResult): VimrcDiagnostic[] {
+    for (const error of parseResult.errors) {
+      this.report('error', 'parse-error', error.message, error.filePath, this.statementRange(error));
+    }
+    for (const warning of parseResult.warnings) {
+      this.report('warning', 'parse-warning', warning.message, warning.filePath, this.statementRange(warning));
+    }
+
+    const { commands } = parseResult;
+    for (const command of commands) {
+      const key = `${command.filePath ?? ''}:${command.lineNumber}`;
+      this.statementCounts.set(key, (this.statementCounts.get(key) ?? 0) + 1);
+    }
+
+    const lastLeaderLet = commands.reduce(
+      (last, command, i) => (command.type === CT.LET && /^(g:)?mapleader\b/.test(command.args.join(' ')) ? i : last),
+      -1
+    );
+
+    commands.forEach((command, i) => {
+      if (i < lastLeaderLet && command.type !== CT.LET) {
+        this.checkLeader(command, commands[lastLeaderLet]);
+      }
+      if (UNMAP_COMMAND_TYPES.includes(command.type)) {
+        this.checkUnmap(command);
+      } else if (MAPCLEAR_COMMAND_TYPES.includes(command.type)) {
+        this.checkMapclear(command);
+      } else if (MAPPING_COMMAND_TYPES.includes(command.type)) {
+        this.checkMapping(command);
+      } else if (OBMAP_COMMAND_TYPES.includes(command.type)) {
+        this.checkKeys(command, 0);
+        this.checkCommandId(command, 1);
+      } else if (command.type === CT.EXMAP && command.args[1]?.toLowerCase() === 'obcommand') {
+        this.checkCommandId(command, 2);
+      } else if (command.type === CT.OBCOMMAND) {
+        this.checkCommandId(command, 0);
+      }
+    });
+
+    const active = this.definitions.filter((definition) => definition.letters.length > 0);
+    this.checkPrefixes(active);
+    this.checkRecursion(active);
+
+    const fileOrder = [...this.files.keys()];
+    return this.diagnostics.sort((a, b) =>
+      fileOrder.indexOf(a.filePath ?? '') - fileOrder.indexOf(b.filePath ?? '')
+      || a.range.startLine - b.range.startLine
+      || a.range.startColumn - b.range.startColumn
+    );
+  }
+
+  /**
+   * Record a definition; earlier definitions of the same keys lose the modes it covers
+   */
+  private checkMapping(command: ParsedCommand): void {
+    const { modifiers, args } = parseMapArguments(command.args);
+    const index = command.args.length - args.length;
+    const [lhs, ...rest] = args;
+    if (!lhs || rest.length === 0) {
+      return;
+    }
+
+    const lhsValid = this.checkKeys(command, index);
+    const rhsValid = modifiers.expr || rest.every((_, j) => this.checkKeys(command, index + 1 + j));
+    if (!lhsValid) {
+      return;
+    }
+
+    const mode = getMapMode(command.type);
+    const definition: Definition = {
+      command,
+      lhs,
+      keys: splitKeys(lhs),
+      target: modifiers.expr || !rhsValid ? null : splitKeys(rest.join(' ')),
+      rhs: rest.join(' '),
+      expr: modifiers.expr === true,
+      mode,
+      letters: VIM_MODE_LETTERS[mode],
+      recursive: !NON_RECURSIVE_COMMAND_TYPES.includes(command.type),
+      buffer: modifiers.buffer === true,
+      nowait: modifiers.nowait === true,
+    };
+
+    for (const earlier of this.definitions) {
+      // A profile overrides vimrc mappings only while it is active
+      if (earlier.command.profile !== command.profile
+        || earlier.buffer !== definition.buffer || !overlaps(earlier.letters, definition.letters)
+        || !sameKeys(earlier.keys, definition.keys)) {
+        continue;
+      }
+      earlier.letters = withoutLetters(earlier.letters, definition.letters);
+      this.report(
+        'warning',
+        'shadowed-mapping',
+        `Mapping of ${earlier.lhs} is overridden by ${this.describe(command, earlier.command)}`,
+        earlier.command.filePath,
+        this.lhsRange(earlier),
+        earlier.letters.length === 0 ? this.removeFix(earlier.command, 'Remove the overridden mapping') : undefined
+      );
+    }
+
+    this.definitions.push(definition);
+  }
+
+  /**
+   * Check that an unmap removes a mapping, like Vim's E31
+   */
+  private checkUnmap(command: ParsedCommand): void {
+    const { args } = parseMapArguments(command.args);
+    const index = command.args.length - args.length;
+    if (!args[0] || !this.checkKeys(command, index)) {
+      return;
+    }
+
+    const keys = splitKeys(args[0]);
+    const mode = getUnmapMode(command.type);
+    const removed = this.definitions.filter((definition) =>
+      overlaps(definition.letters, VIM_MODE_LETTERS[mode]) && sameKeys(definition.keys, keys)
+      && (!definition.command.profile || definition.command.profile === command.profile)
+    );
+    if (removed.length === 0) {
+      this.report(
+        'warning',
+        'unmap-unmapped',
+        `E31: No such mapping: ${args[0]}`,
+        command.filePath,
+        this.argumentRange(command, index),
+        this.removeFix(command, 'Remove the unmap')
+      );
+    }
+    for (const definition of removed) {
+      if (definition.command.profile === command.profile) {
+        definition.letters = withoutLetters(definition.letters, VIM_MODE_LETTERS[mode]);
+      }
+    }
+  }
+
+  /**
+   * Forget the definitions a mapclear removes
+   */
+  private checkMapclear(command: ParsedCommand): void {
+    const buffer = parseMapArguments(command.args).modifiers.buffer === true;
+    const mode = getMapclearMode(command.type);
+    for (const definition of this.definitions) {
+      if (definition.buffer === buffer && definition.command.profile === command.profile) {
+        definition.letters = withoutLetters(definition.letters, VIM_MODE_LETTERS[mode]);
+      }
+    }
+  }
+
+  /**
+   * Check that an argument has only known `<...>` key names
+   *
+   * @returns true if the argument is valid key notation
+   */
+  private checkKeys(command: ParsedCommand, index: number): boolean {
+    const arg = command.args[index];
+    const unknown = arg === undefined ? null : findUnknownKey(arg);
+    if (!unknown) {
+      return true;
+    }
+
+    const range = this.argumentRange(command, index, unknown.offset, unknown.length);
+    const exact = range.endColumn - range.startColumn === unknown.length;
+    this.report(
+      'error',
+      'unknown-key',
+      unknown.message,
+      command.filePath,
+      range,
+      exact ? { title: 'Use <lt> for a literal "<"', range: { ...range, endColumn: range.startColumn + 1 }, replacement: '<lt>' } : undefined
+    );
+    return false;
+  }
+
+  /**
+   * Check that an Obsidian command ID argument exists
+   */
+  private checkCommandId(command: ParsedCommand, index: number): void {
+    const commandId = command.args[index];
+    if (!commandId || !this.validateCommand) {
+      return;
+    }
+
+    const result = this.validateCommand(commandId);
+    if (!result.valid) {
+      this.report(
+        'warning',
+        'unknown-obsidian-command',
+        result.errorMessage ?? `Obsidian command not found: '${commandId}'`,
+        command.filePath,
+        this.argumentRange(command, index)
+      );
+    }
+  }
+
+  /**
+   * Report `<leader>` in a command before the last `let mapleader`
+   *
+   * The parser replaces `<leader>` once mapleader is set, so any `<leader>`
+   * left in the arguments still means the default `\`.
+   */
+  private checkLeader(command: ParsedCommand, leaderLet: ParsedCommand): void {
+    command.args.forEach((arg, index) => {
+      const offset = arg.search(/<leader>/i);
+      if (offset === -1) {
+        return;
+      }
+      this.report(
+        'warning',
+        'leader-before-mapleader',
+        `<leader> is still "\\" here; mapleader is set later, at ${this.describe(leaderLet, command)}`,
+        command.filePath,
+        this.argumentRange(command, index, offset, '<leader>'.length)
+      );
+    });
+  }
+
+  /**
+   * Report mappings whose keys start a longer mapping in the same modes
+   */
+  private checkPrefixes(active: Definition[]): void {
+    for (const short of active) {
+      for (const long of active) {
+        if (long.keys.length <= short.keys.length || !startsWithKeys(long.keys, short.keys)
+          || !overlaps(short.letters, long.letters) || !activeTogether(short, long)) {
+          continue;
+        }
+        if (short.nowait) {
+          this.report(
+            'warning',
+            'prefix-conflict',
+            `Mapping of ${long.lhs} is unreachable: <nowait> mapping of ${short.lhs} at ${this.describe(short.command, long.command)} runs first`,
+            long.command.filePath,
+            this.lhsRange(long)
+          );
+        } else {
+          this.report(
+            'info',
+            'prefix-conflict',
+            `Mapping of ${short.lhs} waits for 'timeoutlen': ${long.lhs} at ${this.describe(long.command, short.command)} starts with the same keys`,
+            short.command.filePath,
+            this.lhsRange(short)
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Report recursive mappings whose keys never stop expanding
+   *
+   * Each mapping is expanded through the active mappings as if its keys were
+   * typed; <expr> mappings are not evaluated.
+   */
+  private checkRecursion(active: Definition[]): void {
+    const mappings = new Map<Definition, ExpandableMapping>();
+    for (const definition of active) {
+      if (definition.target !== null || definition.expr) {
+        mappings.set(definition, {
+          source: definition.keys.join(''),
+          target: definition.expr ? definition.rhs : normalizeKeys(definition.rhs),
+          mode: definition.mode,
+          recursive: definition.recursive,
+          modifiers: { expr: definition.expr },
+        });
+      }
+    }
+
+    for (const [definition, mapping] of mappings) {
+      if (!definition.recursive || definition.target === null) {
+        continue;
+      }
+      const others = [...mappings].filter(([other]) => other !== definition && activeTogether(definition, other))
+        .map(([, other]) => other);
+      const { error } = expandInModes(mapping.source, mapping.mode, [...others, mapping], { maxDepth: this.maxMapDepth });
+      if (error) {
+        this.report(
+          'error',
+          'recursive-mapping',
+          error,
+          definition.command.filePath,
+          this.lhsRange(definition),
+          this.noremapFix(definition)
+        );
+      }
+    }
+  }
+
+  /**
+   * Quick-fix replacing a recursive map command with its noremap form
+   */
+  private noremapFix(definition: Definition): QuickFix | undefined {
+    const name = this.findArguments(definition.command)?.name;
+    if (!name || !/^[a-z]?map!?$/i.test(name.text)) {
+      return undefined;
+    }
+    const replacement = name.text.replace(/map(!?)$/i, 'noremap$1');
+    return {
+      title: `Use ${replacement}`,
+      range: { startLine: name.line, startColumn: name.column, endLine: name.line, endColumn: name.column + name.text.length },
+      replacement,
+    };
+  }
+
+  /**
+   * Quick-fix removing the lines of a command, if nothing else is on them
+   */
+  private removeFix(command: ParsedCommand, title: string): QuickFix | undefined {
+    if (this.statementCounts.get(`${command.filePath ?? ''}:${command.lineNumber}`) !== 1) {
+      return undefined;
+    }
+    const lines = this.linesOf(command.filePath);
+    const endLine = command.endLineNumber ?? command.lineNumber;
+    const range = endLine < lines.length
+      ? { startLine: command.lineNumber, startColumn: 0, endLine: endLine + 1, endColumn: 0 }
+      : { startLine: command.lineNumber, startColumn: 0, endLine, endColumn: lines[endLine - 1]?.length ?? 0 };
+    return { title, range, replacement: '' };
+  }
+
+  /**
+   * Range of the left-hand side of a definition
+   */
+  private lhsRange(definition: Definition): DiagnosticRange {
+    return this.argumentRange(definition.command, definition.command.args.indexOf(definition.lhs));
+  }
+
+  /**
+   * Range of an argument, or of part of it
+   *
+   * Falls back to the whole command when the argument is not found as
+   * written, e.g. after `<leader>` was replaced.
+   */
+  private argumentRange(command: ParsedCommand, index: number, offset = 0, length?: number): DiagnosticRange {
+    const token = this.findArguments(command)?.args[index];
+    if (!token) {
+      return this.statementRange(command);
+    }
+    const startColumn = token.column + offset;
+    return {
+      startLine: token.line,
+      startColumn,
+      endLine: token.line,
+      endColumn: startColumn + (length ?? token.text.length - offset),
+    };
+  }
+
+  /**
+   * Range of the lines of a command, without leading and trailing white space
+   */
+  private statementRange(location: { lineNumber: number; endLineNumber?: number; filePath?: string }): DiagnosticRange {
+    const lines = this.linesOf(location.filePath);
+    const endLine = location.endLineNumber ?? location.lineNumber;
+    const first = lines[location.lineNumber - 1] ?? '';
+    const last = lines[endLine - 1] ?? '';
+    return {
+      startLine: location.lineNumber,
+      startColumn: first.length - first.trimStart().length,
+      endLine,
+      endColumn: last.trimEnd().length,
+    };
+  }
+
+  /**
+   * Find the words of a command's arguments, and the word before them, on its lines
+   */
+  private findArguments(command: ParsedCommand): { name?: Token; args: Token[] } | null {
+    const lines = this.linesOf(command.filePath);
+    const tokens: Token[] = [];
+    for (let line = command.lineNumber; line <= (command.endLineNumber ?? command.lineNumber); line++) {
+      for (const match of (lines[line - 1] ?? '').matchAll(/\S+/g)) {
+        tokens.push({ line, column: match.index ?? 0, text: match[0] });
+      }
+    }
+
+    const { args } = command;
+    for (let i = 0; i + args.length <= tokens.length; i++) {
+      if (args.every((arg, j) => tokens[i + j].text === arg)) {
+        return { name: tokens[i - 1], args: tokens.slice(i, i + args.length) };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Lines of a parsed file
+   */
+  private linesOf(filePath: string | undefined): string[] {
+    const path = filePath ?? '';
+    let lines = this.lines.get(path);
+    if (!lines) {
+      lines = (this.files.get(path) ?? '').split('\n').map((line) => line.replace(/\r$/, ''));
+      this.lines.set(path, lines);
+    }
+    return lines;
+  }
+
+  /**
+   * Describe where a command is, relative to the file of another command
+   */
+  private describe(command: ParsedCommand, from: ParsedCommand): string {
+    return command.filePath && command.filePath !== from.filePath
+      ? `${command.filePath} line ${command.lineNumber}`
+      : `line ${command.lineNumber}`;
+  }
+
+  /**
+   * Add a diagnostic
+   */
+  private report(
+    severity: VimrcDiagnostic['severity'],
+    code: string,
+    message: string,
+    filePath: string | undefined,
+    range: DiagnosticRange,
+    quickFix?: QuickFix
+  ): void {
+    const diagnostic: VimrcDiagnostic = { severity, code, message, range };
+    if (filePath !== undefined) {
+      diagnostic.filePath = filePath;
+    }
+    if (quickFix) {
+      diagnostic.quickFix = quickFix;
+    }
+    this.diagnostics.push(diagnostic);
+  }
+}
@@ -11,6 +11,7 @@
  * - 1.3: Delegate file watching to FileWatcher service
  */
 
+import { Platform, apiVersion } from 'obsidian';
 import type { App } from 'obsidian';
 import type {
   IEventBus,
@@ -19,24 +20,145 @@ import type {
   IVimAdapter,
   LoadResult,
   IErrorHandler,
+  CheckResult,
+  ReloadOptions,
+  VimrcDiagnostic,
 } from '../types/services';
 import type { IConfigManager } from '../types/settings';
-import type { ICommandRegistry, ParseResult, IObmapProvider, IExmapProvider, ObmapDefinition, ExmapDefinition } from '../types/commands';
-import type { IMappingApplier, IMappingStore } from '../types/mappings';
-import { VimMode } from '../types/mappings';
+import type {
+  ICommandRegistry,
+  ParsedCommand,
+  ParseResult,
+  IObmapProvider,
+  IExmapProvider,
+  IAutocmdProvider,
+  IUserCommandProvider,
+  ObmapDefinition,
+  ExmapDefinition,
+  UserCommandDefinition,
+  VimrcEnvironment,
+} from '../types/commands';
+import type { IAbbreviationStore, IMappingApplier, IMappingStore, KeyMapping, MappingDiff } from '../types/mappings';
+import { MappingStatus, VimMode } from '../types/mappings';
 import { EventType } from '../types/events';
-import { CommandType } from '../types/commands';
+import type { LoadDiagnostic } from '../types/events';
+import { CommandType, LET_COMMAND_TYPES, MAPPING_COMMAND_TYPES } from '../types/commands';
 import { getLogger } from './Logger';
+import { VimrcParser, findSourcedPaths } from './VimrcParser';
+import { createUserCommandInvocation, expandUserCommand } from './UserCommandExpander';
+import type { UserCommandParams } from './UserCommandExpander';
+import { applyQuickFix, lintVimrc } from './VimrcLinter';
+import { summarizeMappingDiff } from './LoadHistory';
+import type { LoadHistory } from './LoadHistory';
+import type { LintOptions } from './VimrcLinter';
 
 /**
- * File adapter interface for reading files
+ * File adapter interface for reading and writing files
  * Abstracts Obsidian's vault adapter for testability
  */
 export interface IFileAdapter {
   exists(path: string): Promise<boolean>;
   read(path: string): Promise<string>;
+  write(path: string, content: string): Promise<void>;
+}
+
+/**
+ * File name of the global vimrc in the plugin's data folder
+ */
+export const GLOBAL_VIMRC_FILE = 'global.vimrc';
+
+/**
+ * File name of a folder vimrc
+ */
+export const FOLDER_VIMRC_FILE = '.vimrc';
+
+/**
+ * File name of an imported vimrc saved next to the vimrc
+ */
+export const IMPORTED_VIMRC_FILE = 'imported.vimrc';
+
+/**
+ * Path reported for the vimrc embedded in the settings, in load results,
+ * diagnostics and checks
+ */
+export const EMBEDDED_VIMRC_PATH = '[embedded vimrc]';
+
+/**
+ * Mappings a keymap profile or folder vimrc applies on top of the vimrc
+ */
+interface MappingLayer {
+  /** Name of the profile, or path of the folder vimrc */
+  name: string;
+  /** Mappings the layer defined */
+  added: KeyMapping[];
+  /** Mappings of lower layers the layer unmapped */
+  removed: KeyMapping[];
+}
+
+/**
+ * A file loaded as part of the configuration
+ */
+interface ConfigFile {
+  path: string;
+  /** Profile every command of the file belongs to, for profile files */
+  profile?: string;
+  /** Whether the file is the vault vimrc */
+  vault?: boolean;
+  /** Whether the content is the vimrc embedded in the settings */
+  embedded?: boolean;
+}
+
+/**
+ * Get the name of the profile a profile file defines
+ *
+ * @param path - Path of the profile file
+ * @returns The file name without leading dot and extension, e.g. `writing` for `vim/writing.vim`
+ */
+function getProfileName(path: string): string {
+  return path.split('/').pop()!.replace(/^\./, '').replace(/\.[^.]*$/, '');
+}
+
+/**
+ * Get the path reported for a configuration: the vault vimrc, else the
+ * last of the global and embedded ones
+ */
+function getMainPath(files: ConfigFile[]): string | null {
+  return (files.find((file) => file.vault) ?? files.filter((file) => !file.profile).pop())?.path ?? null;
+}
+
+/**
+ * Identify a mapping by what it does, so equal definitions in two profiles match
+ */
+function getMappingSignature(mapping: KeyMapping): string {
+  return JSON.stringify([mapping.mode, mapping.source, mapping.target, mapping.recursive, mapping.modifiers ?? {}]);
 }
 
+/**
+ * Map commands defined as ex commands with their shortest abbreviation, so
+ * `:nmap` lists mappings and `:nmap a b` maps like a vimrc line
+ */
+const MAP_EX_COMMANDS: ReadonlyArray<[name: string, prefix: string]> = [
+  ['map', 'map'],
+  ['nmap', 'nm'],
+  ['vmap', 'vm'],
+  ['xmap', 'xm'],
+  ['smap', 'smap'],
+  ['omap', 'om'],
+  ['imap', 'im'],
+  ['cmap', 'cm'],
+  ['lmap', 'lm'],
+  ['noremap', 'no'],
+  ['nnoremap', 'nn'],
+  ['vnoremap', 'vn'],
+  ['xnoremap', 'xn'],
+  ['snoremap', 'snor'],
+  ['onoremap', 'ono'],
+  ['inoremap', 'ino'],
+  ['cnoremap', 'cno'],
+  ['lnoremap', 'ln'],
+  ['verbose', 'verb'],
+];
+
 /**
  * VimrcLoader implementation
  *
@@ -102,16 +224,103 @@ export class VimrcLoader implements IVimrcLoader {
   private exmapProvider: IExmapProvider | null = null;
 
   /**
-   * Track applied Obmap/Exmap definitions for cleanup
+   * Autocmd provider for clearing autocommands on reload (decoupled from AutocmdHandler)
+   */
+  private autocmdProvider: IAutocmdProvider | null = null;
+
+  /**
+   * User command provider for getting `command!` definitions (decoupled from UserCommandHandler)
+   */
+  private userCommandProvider: IUserCommandProvider | null = null;
+
+  /**
+   * Abbreviation store, cleared on reload
+   */
+  private abbreviationStore: IAbbreviationStore | null = null;
+
+  /**
+   * Parser of check() and of reload validation, so parsing a configuration
+   * without loading it leaves the variables of the loaded one alone
+   */
+  private checkParser: IVimrcParser = new VimrcParser();
+
+  /**
+   * Obsidian command check used by check()
+   */
+  private commandValidator: LintOptions['validateCommand'] | null = null;
+
+  /**
+   * Track applied Obmap/Exmap definitions for cleanup; obmaps by mode and key
    */
-  private appliedObmaps: Array<{ key: string; mode: VimMode }> = [];
+  private appliedObmaps = new Map<string, { key: string; mode: VimMode }>();
   private appliedExmaps: string[] = [];
 
+  /**
+   * Obmaps/exmaps applied before a reload that it has not defined again yet
+   */
+  private previousObmaps = new Map<string, { key: string; mode: VimMode }>();
+  private previousExmaps: string[] = [];
+
+  /**
+   * History the vault vimrc is recorded in after loading without errors
+   */
+  private loadHistory: LoadHistory | null = null;
+
+  /**
+   * Vault vimrc of the last load
+   */
+  private loadedVimrc: { path: string; content: string } | null = null;
+
+  /**
+   * Content applied instead of the vault vimrc file by applyInMemory()
+   */
+  private vimrcOverride: string | null = null;
+
   /**
    * Last load result
    */
   private lastResult: LoadResult | null = null;
 
+  /**
+   * Files read during the last load (main vimrc first, then sourced files)
+   */
+  private sourcedFiles: string[] = [];
+
+  /**
+   * Plugin data folder, where the global vimrc is looked up by default
+   */
+  private dataFolder: string | null = null;
+
+  /**
+   * Active file folder vimrc files are applied for
+   */
+  private activeFilePath: string | null = null;
+
+  /**
+   * Applied folder vimrc files, outermost first
+   */
+  private folderOverlays: MappingLayer[] = [];
+
+  /**
+   * Mapping commands of each keymap profile of the last load
+   */
+  private profiles = new Map<string, ParsedCommand[]>();
+
+  /**
+   * Active keymap profile
+   */
+  private activeProfile: MappingLayer | null = null;
+
+  /**
+   * Profile name last announced with PROFILE_CHANGED
+   */
+  private announcedProfile: string | null = null;
+
+  /**
+   * Pending profile or folder overlay update, so updates are applied one at a time
+   */
+  private layerUpdate: Promise<void> = Promise.resolve();
+
   /**
    * Create a new VimrcLoader
    *
@@ -151,23 +360,81 @@ export class VimrcLoader implements IVimrcLoader {
     this.vimAdapter = vimAdapter;
   }
 
+  /**
+   * Set the store abbreviations are cleared from on reload
+   */
+  setAbbreviationStore(abbreviationStore: IAbbreviationStore): void {
+    this.abbreviationStore = abbreviationStore;
+  }
+
+  /**
+   * Set the history loaded vimrc versions are recorded in
+   */
+  setLoadHistory(loadHistory: LoadHistory): void {
+    this.loadHistory = loadHistory;
+  }
+
+  /**
+   * Set the parser check() and reload validation use, with the environment
+   * of the loading parser
+   */
+  setCheckParser(parser: IVimrcParser): void {
+    this.checkParser = parser;
+  }
+
+  /**
+   * Set how check() finds out whether an Obsidian command ID exists
+   */
+  setCommandValidator(validateCommand: NonNullable<LintOptions['validateCommand']>): void {
+    this.commandValidator = validateCommand;
+  }
+
+  /**
+   * Set the plugin's data folder, where the global vimrc is looked up unless
+   * a path is configured
+   */
+  setDataFolder(path: string): void {
+    this.dataFolder = path;
+  }
+
   /**
    * Set provider references for getting definitions
    * Uses interfaces for decoupling from concrete handler implementations
    */
-  setProviders(obmapProvider: IObmapProvider, exmapProvider: IExmapProvider): void {
+  setProviders(
+    obmapProvider: IObmapProvider,
+    exmapProvider: IExmapProvider,
+    autocmdProvider?: IAutocmdProvider,
+    userCommandProvider?: IUserCommandProvider
+  ): void {
     this.obmapProvider = obmapProvider;
     this.exmapProvider = exmapProvider;
+    this.autocmdProvider = autocmdProvider ?? null;
+    this.userCommandProvider = userCommandProvider ?? null;
   }
 
   /**
    * Load and process the vimrc file
    *
-   * Detects the vimrc file, parses it, executes commands, and applies mappings.
+   * Loads the global vimrc, then the vault vimrc, as layers of one
+   * configuration: variables of the global vimrc stay visible in the vault
+   * vimrc and its mappings can be overridden there. The mappings of the
+   * active keymap profile, then the folder vimrc files of the active file
+   * are applied on top. A vault vimrc that loads without errors is recorded
+   * in the load history.
    *
    * @returns Promise resolving to the load result
    */
   async load(): Promise<LoadResult> {
+    const result = await this.loadConfiguration();
+    await this.recordSnapshot(result);
+    return result;
+  }
+
+  /**
+   * Load the configuration without recording it in the load history
+   */
+  private async loadConfiguration(): Promise<LoadResult> {
     const endTimer = log.time('load');
     const result: LoadResult = {
       success: false,
@@ -178,62 +445,107 @@ export class VimrcLoader implements IVimrcLoader {
     };
 
     try {
-      // Detect vimrc file path
-      const vimrcPath = await this.detectVimrcFile();
+      // Detect the vimrc layers, global first
+      const files = await this.detectConfigFiles();
+      this.sourcedFiles = [];
+      this.profiles.clear();
+      this.loadedVimrc = null;
 
-      if (!vimrcPath) {
+      if (files.length === 0) {
         // No vimrc file found - this is not an error
         log.debug('No vimrc file found');
+        await this.applyFolderOverlays(result);
+        this.emitProfileChange();
+        result.mappingCount = this.mappingStore.count();
         result.success = true;
         this.lastResult = result;
         endTimer();
         return result;
       }
 
-      result.path = vimrcPath;
-      log.info(`Loading vimrc from: ${vimrcPath}`);
+      result.path = getMainPath(files);
+      log.info(`Loading vimrc from: ${files.map((file) => file.path).join(', ')}`);
 
       // Emit loading event
-      this.eventBus.emit(EventType.VIMRC_LOADING, { path: vimrcPath });
-
-      // Read file content
-      const content = await this.readVimrcFile(vimrcPath);
-
-      if (content === null) {
-        log.error(`Failed to read file: ${vimrcPath}`);
-        result.errors.push({
-          lineNumber: 0,
-          message: `Failed to read file: ${vimrcPath}`,
-          raw: '',
-        });
-        this.lastResult = result;
-        endTimer();
-        return result;
+      this.eventBus.emit(EventType.VIMRC_LOADING, { path: result.path ?? files[0].path });
+
+      // Read every file before executing any of them; missing profile files are skipped
+      const contents: string[] = [];
+      const readFiles: ConfigFile[] = [];
+      for (const file of files) {
+        const { path } = file;
+        const content = await this.readConfigFile(file);
+        if (content === null && file.profile) {
+          log.warn(`Profile file not found: ${path}`);
+          result.warnings.push({ lineNumber: 0, message: `Profile file not found: ${path}`, raw: '', filePath: path });
+          continue;
+        }
+        if (content === null) {
+          log.error(`Failed to read file: ${path}`);
+          result.errors.push({
+            lineNumber: 0,
+            message: `Failed to read file: ${path}`,
+            raw: '',
+            filePath: path,
+          });
+          this.lastResult = result;
+          endTimer();
+          return result;
+        }
+        contents.push(content);
+        readFiles.push(file);
+        if (file.vault) {
+          this.loadedVimrc = { path, content };
+        }
       }
 
-      log.debug(`File content length: ${content.length} chars`);
+      for (let i = 0; i < readFiles.length; i++) {
+        const { path, profile } = readFiles[i];
+        log.debug(`File content length of ${path}: ${contents[i].length} chars`);
 
-      // Parse vimrc content
-      const parseResult = this.parser.parse(content);
-      log.debug(`Parsed ${parseResult.commands.length} commands`);
+        // Read sourced files up front so the parser can expand them in order
+        const sources = await this.readSourcedFiles(path, contents[i]);
+        this.sourcedFiles.push(path, ...sources.keys());
 
-      // Copy errors and warnings
-      result.errors = [...parseResult.errors];
-      result.warnings = [...parseResult.warnings];
-
-      if (parseResult.errors.length > 0) {
-        log.warn(`Parse errors: ${parseResult.errors.length}`);
+        // Parse the file; later files see the variables of earlier ones
+        const parseResult = this.parser.parse(contents[i], {
+          filePath: path,
+          readSource: (sourcePath) => sources.get(sourcePath) ?? null,
+          keepVariables: i > 0,
+        });
+        log.debug(`Parsed ${parseResult.commands.length} commands from ${path} and ${sources.size} sourced file(s)`);
+
+        // Copy errors and warnings
+        result.errors.push(...parseResult.errors);
+        result.warnings.push(...parseResult.warnings);
+
+        if (parseResult.errors.length > 0) {
+          log.warn(`Parse errors in ${path}: ${parseResult.errors.length}`);
+        }
+
+        // Set profile mappings aside, execute the rest through registry
+        const commands: ParsedCommand[] = [];
+        for (const command of parseResult.commands) {
+          command.profile ??= profile;
+          if (command.profile) {
+            this.addProfileCommand(command, result);
+          } else {
+            commands.push(command);
+          }
+        }
+        await this.executeCommands({ ...parseResult, commands }, result);
       }
 
-      // Execute commands through registry
-      await this.executeCommands(parseResult);
-
       // Apply mappings to Vim
-      await this.mappingApplier.applyAll();
+      await this.recordMappingFailures(result, () => this.mappingApplier.applyAll());
 
       // Apply obmap, exmap, and amap to Vim
       await this.applyAllToVim();
 
+      // Stack the active profile, then the folder vimrc files of the active file on top
+      await this.applyStoredProfile(result);
+      await this.applyFolderOverlays(result);
+
       // Get mapping count from store
       result.mappingCount = this.mappingStore.count();
       result.success = true;
@@ -269,146 +581,740 @@ export class VimrcLoader implements IVimrcLoader {
   /**
    * Reload the vimrc file
    *
-   * Clears existing mappings and reloads the configuration.
+   * Clears existing mappings and reloads the configuration. Vim keeps the
+   * previous mappings while the files load; then only the mappings added,
+   * removed or changed (by mode and left-hand side) are updated, and a
+   * summary is emitted with MAPPINGS_DIFFED.
    *
-   * @returns Promise resolving to the load result
+   * With 'transactionalReload', the new configuration is parsed first and,
+   * if it has more errors than 'reloadErrorThreshold', the applied one is
+   * kept unless forced. When applying the new mappings fails, Vim, the
+   * mapping store and the abbreviations go back to the previous ones; the
+   * other commands of the new configuration (obmaps, exmaps, user commands,
+   * autocommands, options, variables) stay applied.
+   *
+   * @param options - Reload options
+   * @returns Promise resolving to the load result, with the diff
    */
-  async reload(): Promise<LoadResult> {
+  async reload(options: ReloadOptions = {}): Promise<LoadResult> {
     log.info('Reloading vimrc...');
 
-    // Unapply all existing mappings
-    await this.mappingApplier.unapplyAll();
-    this.mappingStore.clear();
+    const settings = this.configManager.getSettings();
+    if (settings.transactionalReload && !options.force) {
+      const files = await this.detectConfigFiles();
+      const errors = await this.validate(files);
+      if (errors.length > settings.reloadErrorThreshold) {
+        log.warn(`Keeping the applied configuration: ${errors.length} error(s) in the new one`);
+        return {
+          success: false,
+          path: getMainPath(files),
+          mappingCount: this.mappingStore.count(),
+          errors,
+          warnings: [],
+          keptPrevious: true,
+        };
+      }
+    }
 
-    // Clear obmap/exmap registrations before reloading
-    this.clearAppliedObmaps();
-    this.clearAppliedExmaps();
-    this.resetProviders();
+    // Key mappings and abbreviations go back to these if applying the new mappings fails
+    const previousMappings = this.mappingStore.getAll();
+    const previousAbbreviations = this.abbreviationStore?.getAll() ?? [];
+
+    this.mappingApplier.beginBatch();
+    let result: LoadResult;
+    let diff: MappingDiff;
+    try {
+      // Unapply all existing mappings
+      await this.mappingApplier.unapplyAll();
+      this.mappingStore.clear();
+      this.abbreviationStore?.clear();
+
+      // Obmaps/exmaps not defined again are removed after loading
+      this.previousObmaps = this.appliedObmaps;
+      this.previousExmaps = this.appliedExmaps;
+      this.appliedObmaps = new Map();
+      this.appliedExmaps = [];
+      this.resetProviders();
+      this.folderOverlays = [];
+      this.activeProfile = null;
+
+      // Load fresh configuration
+      result = await this.loadConfiguration();
+    } finally {
+      this.clearPreviousObmaps();
+      this.clearPreviousExmaps();
+    }
+
+    try {
+      diff = await this.mappingApplier.commitBatch();
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      log.error('Applying mappings failed, keeping the previous ones:', err.message);
+      this.mappingStore.clear();
+      previousMappings.forEach((mapping) => this.mappingStore.add(mapping));
+      this.abbreviationStore?.clear();
+      previousAbbreviations.forEach((abbreviation) => this.abbreviationStore?.add(abbreviation));
+      result.errors.push({
+        lineNumber: 0,
+        message: `Kept the previous mappings and abbreviations: ${err.message}`,
+        raw: '',
+      });
+      result.success = false;
+      this.errorHandler.handle(err, 'VimrcLoader.reload');
+      return result;
+    }
+
+    const { added, removed, changed, unchanged } = diff;
+    log.info(`Reloaded: +${added.length} -${removed.length} ~${changed.length} (${unchanged} unchanged)`);
+    this.eventBus.emit(EventType.MAPPINGS_DIFFED, diff);
+    result.diff = diff;
+    await this.recordSnapshot(result);
+    return result;
+  }
+
+  /**
+   * Reload with the vault vimrc replaced by the given content
+   *
+   * The file is not written: the content applies until the next reload. It
+   * is applied whatever its errors.
+   *
+   * @param content - Vimrc content, e.g. of a load history snapshot
+   * @returns Promise resolving to the load result
+   */
+  async applyInMemory(content: string): Promise<LoadResult> {
+    this.vimrcOverride = content;
+    try {
+      return await this.reload({ force: true });
+    } finally {
+      this.vimrcOverride = null;
+    }
+  }
+
+  /**
+   * Record the loaded vault vimrc in the load history if it loaded without errors
+   */
+  private async recordSnapshot(result: LoadResult): Promise<void> {
+    if (!this.loadHistory || !this.loadedVimrc || !result.success || result.errors.length > 0) {
+      return;
+    }
 
-    // Load fresh configuration
-    return this.load();
+    try {
+      await this.loadHistory.record({
+        timestamp: Date.now(),
+        ...this.loadedVimrc,
+        mappingCount: result.mappingCount,
+        diff: result.diff && summarizeMappingDiff(result.diff),
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.errorHandler.handle(err, 'VimrcLoader.recordSnapshot');
+    }
   }
 
   async cleanup(): Promise<void> {
     await this.mappingApplier.unapplyAll();
     this.mappingStore.clear();
+    this.abbreviationStore?.clear();
     this.clearAppliedObmaps();
     this.clearAppliedExmaps();
+    this.restoreBuiltinExmaps();
     this.resetProviders();
+    this.folderOverlays = [];
+    this.activeProfile = null;
+    this.profiles.clear();
+    this.emitProfileChange();
   }
 
   /**
-   * Apply obmap and exmap definitions to Vim
+   * Apply the folder vimrc files of the active file's folders
+   *
+   * Overlays of folders the file is no longer in are removed and those of
+   * its new folders added, without reloading the rest of the configuration.
+   * Only mapping commands apply in a folder vimrc.
+   *
+   * @param filePath - Path of the active file, or null
+   * @returns Errors raised by the added overlays
    */
-  private async applyAllToVim(): Promise<void> {
-    if (!this.vimAdapter) {
-      log.warn('VimAdapter not set, cannot apply obmap/exmap');
-      return;
-    }
+  async updateFolderOverlays(filePath: string | null): Promise<LoadResult['errors']> {
+    this.activeFilePath = filePath;
+    const result: LoadResult = {
+      success: true,
+      path: null,
+      mappingCount: 0,
+      errors: [],
+      warnings: [],
+    };
+    await this.applyFolderOverlays(result);
+    return result.errors;
+  }
 
-    // Apply obmaps
-    if (this.obmapProvider) {
-      const obmaps = this.obmapProvider.getObmapDefinitions();
-      log.debug(`Applying ${obmaps.length} obmaps`);
-      for (let i = 0; i < obmaps.length; i++) {
-        const obmap = obmaps[i];
-        this.applyObmapToVim(obmap, i);
+  /**
+   * Get the folder vimrc files currently applied
+   *
+   * @returns Vault-relative paths, outermost folder first
+   */
+  getFolderOverlays(): string[] {
+    return this.folderOverlays.map((overlay) => overlay.name);
+  }
+
+  /**
+   * Get the vault files whose creation, change or deletion affects the
+   * configuration: every vimrc load() looks for, the global vimrc, the
+   * profile files, the files read during the last load and the applied
+   * folder overlays
+   *
+   * @returns Vault-relative paths, whether or not the files exist
+   */
+  getWatchedFiles(): string[] {
+    const settings = this.configManager.getSettings();
+    const globalPath = settings.globalVimrcPath
+      || (this.dataFolder ? `${this.dataFolder}/${GLOBAL_VIMRC_FILE}` : '');
+    const paths = [
+      globalPath, settings.vimrcPath, '.obsidian.vimrc', '.vimrc',
+      ...settings.profileFiles, ...this.sourcedFiles, ...this.getFolderOverlays(),
+    ];
+    return [...new Set(paths.filter((path) => path && path !== EMBEDDED_VIMRC_PATH && !isAbsolutePath(path)))];
+  }
+
+  /**
+   * Bring the applied folder overlays in line with the active file
+   *
+   * Overlays shared with the previous file stay applied; the rest are
+   * removed innermost first, then the new ones added outermost first.
+   *
+   * @param result - Load result to record overlay errors and warnings in
+   */
+  private applyFolderOverlays(result: LoadResult): Promise<void> {
+    return this.queueLayerUpdate(async () => {
+      const paths = await this.findFolderOverlays(this.activeFilePath);
+      let kept = 0;
+      while (kept < this.folderOverlays.length && this.folderOverlays[kept].name === paths[kept]) {
+        kept++;
       }
-    }
 
-    // Apply exmaps
-    if (this.exmapProvider) {
-      const exmaps = this.exmapProvider.getExmapDefinitions();
-      log.debug(`Applying ${exmaps.length} exmaps`);
-      for (const exmap of exmaps) {
-        this.applyExmapToVim(exmap);
+      for (const overlay of this.folderOverlays.splice(kept).reverse()) {
+        await this.removeFolderOverlay(overlay);
       }
-    }
+      for (const path of paths.slice(kept)) {
+        const overlay = await this.addFolderOverlay(path, result);
+        if (overlay) {
+          this.folderOverlays.push(overlay);
+        }
+      }
+    });
   }
 
   /**
-   * Apply a single obmap to Vim
+   * Run a profile or folder overlay update after the pending ones
+   *
+   * @param update - Changes the applied layers
    */
-  private applyObmapToVim(obmap: ObmapDefinition, index: number): void {
-    if (!this.vimAdapter || !this.obmapProvider) return;
-
-    try {
-      const actionName = `obmap_${index}`;
-      const provider = this.obmapProvider;
-      log.debug(`Applying obmap: ${obmap.key} -> ${obmap.commandId} (${obmap.mode})`);
+  private queueLayerUpdate(update: () => Promise<void>): Promise<void> {
+    const run = this.layerUpdate.then(update);
+    this.layerUpdate = run.catch(() => {});
+    return run;
+  }
 
-      // Define action that executes the Obsidian command
-      this.vimAdapter.defineAction(actionName, () => {
-        provider.executeObsidianCommand(obmap.commandId);
-      });
+  /**
+   * Find the folder vimrc files that apply to a file
+   *
+   * @param filePath - Path of the active file, or null
+   * @returns Existing folder vimrc files that are not part of the vimrc, outermost first
+   */
+  private async findFolderOverlays(filePath: string | null): Promise<string[]> {
+    if (!filePath || !this.configManager.getSettings().folderVimrc) {
+      return [];
+    }
 
-      // Map key to action based on mode
-      if (obmap.mode === 'insert') {
-        this.vimAdapter.mapCommand(obmap.key, 'action', actionName, undefined, { context: 'insert' });
-        this.appliedObmaps.push({ key: obmap.key, mode: VimMode.INSERT });
-      } else if (obmap.mode === 'all') {
-        this.vimAdapter.mapCommand(obmap.key, 'action', actionName, undefined, { context: 'normal' });
-        this.vimAdapter.mapCommand(obmap.key, 'action', actionName, undefined, { context: 'visual' });
-        this.vimAdapter.mapCommand(obmap.key, 'action', actionName, undefined, { context: 'insert' });
-        this.appliedObmaps.push({ key: obmap.key, mode: VimMode.NORMAL });
-        this.appliedObmaps.push({ key: obmap.key, mode: VimMode.VISUAL });
-        this.appliedObmaps.push({ key: obmap.key, mode: VimMode.INSERT });
-      } else {
-        this.vimAdapter.mapCommand(obmap.key, 'action', actionName, undefined, { context: obmap.mode });
-        const mode = obmap.mode === 'normal' ? VimMode.NORMAL : VimMode.VISUAL;
-        this.appliedObmaps.push({ key: obmap.key, mode });
+    const paths: string[] = [];
+    for (const path of findFolderVimrcPaths(filePath)) {
+      if (!this.sourcedFiles.includes(path) && (await this.fileAdapter.exists(path))) {
+        paths.push(path);
       }
-    } catch (error) {
-      log.error(`Failed to apply obmap ${obmap.key}:`, error);
     }
+    return paths;
   }
 
   /**
-   * Apply a single exmap to Vim
+   * Execute the mapping commands of a folder vimrc and apply their mappings
+   *
+   * @param path - Path of the folder vimrc
+   * @param result - Load result to record errors and warnings in
+   * @returns The applied overlay, or null if the file could not be read
    */
-  private applyExmapToVim(exmap: ExmapDefinition): void {
-    if (!this.vimAdapter || !this.exmapProvider) return;
+  private async addFolderOverlay(path: string, result: LoadResult): Promise<MappingLayer | null> {
+    const content = await this.readVimrcFile(path);
+    if (content === null) {
+      return null;
+    }
 
-    try {
-      const provider = this.exmapProvider;
-      log.debug(`Applying exmap: :${exmap.name} -> ${exmap.commandId}`);
+    log.debug(`Applying folder vimrc: ${path}`);
+    const parseResult = this.parser.parse(content, { filePath: path, keepVariables: true });
+    result.errors.push(...parseResult.errors);
+    result.warnings.push(...parseResult.warnings);
 
-      // Define ex command
-      this.vimAdapter.defineEx(exmap.name, exmap.name, () => {
-        provider.executeObsidianCommand(exmap.commandId);
-      });
-      this.appliedExmaps.push(exmap.name);
-    } catch (error) {
-      log.error(`Failed to apply exmap ${exmap.name}:`, error);
-    }
+    const commands = parseResult.commands.filter((command) => this.isLayerCommand(command, 'a folder vimrc', result));
+    const overlay = await this.executeLayer(path, commands, result);
+    await this.updateAppliedMappings(overlay.added, overlay.removed, result);
+    return overlay;
   }
 
-  private clearAppliedObmaps(): void {
-    if (!this.vimAdapter || this.appliedObmaps.length === 0) {
-      this.appliedObmaps = [];
-      return;
+  /**
+   * Check whether a command can be part of a profile or folder vimrc
+   *
+   * Only mapping commands can; others except let are reported as warnings.
+   *
+   * @param command - The command
+   * @param where - Description of the layer for the warning
+   * @param result - Load result to record the warning in
+   * @returns true for mapping commands
+   */
+  private isLayerCommand(command: ParsedCommand, where: string, result: LoadResult): boolean {
+    if (MAPPING_COMMAND_TYPES.includes(command.type)) {
+      return true;
     }
-
-    for (const obmap of this.appliedObmaps) {
-      this.vimAdapter.unmap(obmap.key, obmap.mode);
+    if (command.type !== CommandType.UNKNOWN && command.type !== CommandType.COMMENT
+      && !LET_COMMAND_TYPES.includes(command.type)) {
+      result.warnings.push({
+        lineNumber: command.lineNumber,
+        message: `Only mapping commands apply in ${where}: ${command.type}`,
+        raw: command.raw,
+        filePath: command.filePath,
+      });
     }
-
-    this.appliedObmaps = [];
+    return false;
   }
 
-  private clearAppliedExmaps(): void {
-    if (!this.vimAdapter || this.appliedExmaps.length === 0) {
-      this.appliedExmaps = [];
+  /**
+   * Execute the mapping commands of a layer without applying them
+   *
+   * @param name - Name of the layer
+   * @param commands - Mapping commands of the layer
+   * @param result - Load result to record errors in
+   * @returns The mappings the layer added to and removed from the store
+   */
+  private async executeLayer(name: string, commands: ParsedCommand[], result: LoadResult): Promise<MappingLayer> {
+    const { added, removed } = await this.trackMappingChanges(
+      () => this.executeCommands({ commands, errors: [], warnings: [] }, result)
+    );
+    return {
+      name,
+      added: added.filter((mapping) => !removed.includes(mapping)),
+      removed: removed.filter((mapping) => !added.includes(mapping)),
+    };
+  }
+
+  /**
+   * Remove the mappings of a folder vimrc, restoring the ones it shadowed or unmapped
+   *
+   * @param overlay - The overlay to remove
+   */
+  private async removeFolderOverlay(overlay: MappingLayer): Promise<void> {
+    log.debug(`Removing folder vimrc: ${overlay.name}`);
+    const sources = new Set<string>();
+    for (const mapping of overlay.added) {
+      if (mapping.status === MappingStatus.APPLIED) {
+        await this.mappingApplier.unapply(mapping);
+      }
+      this.mappingStore.remove(mapping.id);
+      sources.add(mapping.source);
+    }
+    for (const mapping of overlay.removed) {
+      this.mappingStore.add(mapping);
+      sources.add(mapping.source);
+    }
+
+    await this.reapplyMappings(sources);
+  }
+
+  /**
+   * Re-apply the stored mappings of some keys so the topmost layer wins
+   *
+   * Vimrc mappings come first in definition order, then those of the
+   * active profile, then those of the folder vimrc files, outermost first.
+   *
+   * @param sources - Keys whose mappings changed
+   */
+  private async reapplyMappings(sources: Set<string>): Promise<void> {
+    const layered = [this.activeProfile, ...this.folderOverlays].flatMap((layer) => layer?.added ?? []);
+    const layeredSet = new Set(layered);
+    const base = this.mappingStore.getAll()
+      .filter((mapping) => !layeredSet.has(mapping))
+      .sort((a, b) => a.createdAt - b.createdAt);
+    for (const mapping of [...base, ...layered]) {
+      if (sources.has(mapping.source) && this.mappingStore.get(mapping.id)) {
+        await this.mappingApplier.apply(mapping);
+      }
+    }
+  }
+
+  /**
+   * Get the keymap profiles of the last load
+   *
+   * @returns Profile names in definition order
+   */
+  getProfiles(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  /**
+   * Get the active keymap profile
+   *
+   * @returns The profile name, or null when no profile is active
+   */
+  getActiveProfile(): string | null {
+    return this.activeProfile?.name ?? null;
+  }
+
+  /**
+   * Switch to another keymap profile
+   *
+   * Only mappings that differ between the two profiles are removed from
+   * and applied to Vim. The choice is saved in the settings.
+   *
+   * @param name - Profile to switch to, or null for none
+   * @returns Errors raised while applying the profile
+   * @throws Error if the profile does not exist
+   */
+  async switchProfile(name: string | null): Promise<LoadResult['errors']> {
+    if (name !== null && !this.profiles.has(name)) {
+      throw new Error(`Unknown profile: ${name}`);
+    }
+
+    const result: LoadResult = {
+      success: true,
+      path: null,
+      mappingCount: 0,
+      errors: [],
+      warnings: [],
+    };
+    await this.queueLayerUpdate(() => this.replaceProfile(name, result));
+    this.emitProfileChange();
+    await this.configManager.updateSettings({ activeProfile: name ?? '' });
+    return result.errors;
+  }
+
+  /**
+   * Record a command of a profile block or profile file
+   */
+  private addProfileCommand(command: ParsedCommand, result: LoadResult): void {
+    const name = command.profile!;
+    const commands = this.profiles.get(name) ?? [];
+    this.profiles.set(name, commands);
+    if (this.isLayerCommand(command, `profile ${name}`, result)) {
+      commands.push(command);
+    }
+  }
+
+  /**
+   * Apply the profile saved in the settings after a load
+   *
+   * @param result - Load result to record errors in
+   */
+  private async applyStoredProfile(result: LoadResult): Promise<void> {
+    const name = this.configManager.getSettings().activeProfile;
+    if (name && !this.profiles.has(name)) {
+      result.warnings.push({ lineNumber: 0, message: `Unknown profile: ${name}`, raw: '' });
+    } else if (name) {
+      await this.queueLayerUpdate(() => this.replaceProfile(name, result));
+    }
+    this.emitProfileChange();
+  }
+
+  /**
+   * Replace the active profile's mappings with those of another profile
+   *
+   * Mappings the two profiles define the same way stay applied; for the
+   * keys of the others, the mappings of every layer are re-applied.
+   *
+   * @param name - Profile to activate, or null for none
+   * @param result - Load result to record errors in
+   */
+  private async replaceProfile(name: string | null, result: LoadResult): Promise<void> {
+    const previous = this.activeProfile;
+    this.activeProfile = null;
+
+    // Take the previous profile out of the store; Vim is updated below
+    for (const mapping of previous?.added ?? []) {
+      this.mappingStore.remove(mapping.id);
+    }
+    for (const mapping of previous?.removed ?? []) {
+      this.mappingStore.add(mapping);
+    }
+
+    const next = name === null ? null : await this.executeLayer(name, this.profiles.get(name) ?? [], result);
+    this.activeProfile = next;
+    log.debug(`Switching profile: ${previous?.name ?? 'none'} -> ${name ?? 'none'}`);
+
+    // Carry over the applied state of mappings both profiles define
+    const applied = new Map<string, KeyMapping>();
+    for (const mapping of previous?.added ?? []) {
+      if (mapping.status === MappingStatus.APPLIED && !mapping.modifiers?.buffer) {
+        applied.set(getMappingSignature(mapping), mapping);
+      }
+    }
+    const unchanged = new Set<KeyMapping>();
+    for (const mapping of next?.added ?? []) {
+      const same = applied.get(getMappingSignature(mapping));
+      if (same && !unchanged.has(same)) {
+        mapping.status = MappingStatus.APPLIED;
+        mapping.appliedAt = same.appliedAt;
+        unchanged.add(same);
+      }
+    }
+
+    const sources = new Set<string>();
+    for (const mapping of [...(previous?.added ?? []), ...(next?.removed ?? [])]) {
+      if (unchanged.has(mapping)) continue;
+      if (mapping.status === MappingStatus.APPLIED) {
+        await this.mappingApplier.unapply(mapping);
+      }
+      sources.add(mapping.source);
+    }
+    for (const mapping of previous?.removed ?? []) {
+      sources.add(mapping.source);
+    }
+    for (const mapping of next?.added ?? []) {
+      if (mapping.status !== MappingStatus.APPLIED) {
+        sources.add(mapping.source);
+      }
+    }
+    await this.recordMappingFailures(result, () => this.reapplyMappings(sources));
+  }
+
+  /**
+   * Emit PROFILE_CHANGED when the active profile differs from the last one announced
+   */
+  private emitProfileChange(): void {
+    const name = this.activeProfile?.name ?? null;
+    if (name === this.announcedProfile) {
       return;
     }
+    this.eventBus.emit(EventType.PROFILE_CHANGED, { name, previous: this.announcedProfile });
+    this.announcedProfile = name;
+  }
 
-    for (const exmapName of this.appliedExmaps) {
-      this.vimAdapter.defineEx(exmapName, exmapName, () => {});
+  /**
+   * Apply obmap and exmap definitions to Vim
+   */
+  private async applyAllToVim(): Promise<void> {
+    if (!this.vimAdapter) {
+      log.warn('VimAdapter not set, cannot apply obmap/exmap');
+      return;
+    }
+
+    // Apply obmaps
+    if (this.obmapProvider) {
+      const obmaps = this.obmapProvider.getObmapDefinitions();
+      log.debug(`Applying ${obmaps.length} obmaps`);
+      for (const obmap of obmaps) {
+        this.applyObmapToVim(obmap);
+      }
+    }
+
+    // Apply exmaps
+    if (this.exmapProvider) {
+      const exmaps = this.exmapProvider.getExmapDefinitions();
+      log.debug(`Applying ${exmaps.length} exmaps`);
+      for (const exmap of exmaps) {
+        this.applyExmapToVim(exmap);
+      }
+    }
+
+    // Apply user commands, and `:command` to list them
+    if (this.userCommandProvider) {
+      const commands = this.userCommandProvider.getUserCommands();
+      log.debug(`Applying ${commands.length} user commands`);
+      for (const definition of commands) {
+        this.applyUserCommandToVim(definition);
+      }
+      this.vimAdapter.defineEx('command', 'com', (_cm, params) => {
+        const prefix = (params as UserCommandParams).argString?.trim() ?? '';
+        void this.executeCommandLine(`command ${/^\w+$/.test(prefix) ? prefix : ''}`);
+      });
+    }
+
+    // `:profile name` switches keymap profiles, `:profile` switches them off
+    this.vimAdapter.defineEx('profile', 'prof', (_cm, params) => {
+      const name = (params as UserCommandParams).argString?.trim() || null;
+      if (name !== null && !this.profiles.has(name)) {
+        throw new Error(`Unknown profile: ${name}`);
+      }
+      void this.switchProfile(name).then((errors) => {
+        for (const error of errors) {
+          this.errorHandler.handle(new Error(error.message), `VimrcLoader.profile: ${name}`);
+        }
+      });
+    });
+    this.appliedExmaps.push('profile');
+
+    // Map commands typed in the editor go through the vimrc handlers
+    for (const [name, prefix] of MAP_EX_COMMANDS) {
+      this.vimAdapter.defineEx(name, prefix, (cm, params) => {
+        this.runExCommandLine(`${name}${(params as UserCommandParams).argString ?? ''}`, cm);
+      });
+    }
+  }
+
+  /**
+   * Apply a single obmap to Vim
+   */
+  private applyObmapToVim(obmap: ObmapDefinition): void {
+    if (!this.vimAdapter || !this.obmapProvider) return;
+
+    try {
+      const provider = this.obmapProvider;
+      log.debug(`Applying obmap: ${obmap.key} -> ${obmap.commandId} (${obmap.mode})`);
+
+      // Map key to an action executing the Obsidian command, based on mode
+      const modes = obmap.mode === 'all'
+        ? [VimMode.NORMAL, VimMode.VISUAL, VimMode.INSERT]
+        : [obmap.mode as VimMode];
+      for (const mode of modes) {
+        // One action per mode and key, so a reload only redefines it
+        const id = `${mode}:${obmap.key}`;
+        const actionName = `obmap_${id}`;
+        this.vimAdapter.defineAction(actionName, () => {
+          provider.executeObsidianCommand(obmap.commandId);
+        });
+        if (!this.previousObmaps.delete(id)) {
+          this.vimAdapter.mapCommand(obmap.key, 'action', actionName, undefined, { context: mode });
+        }
+        this.appliedObmaps.set(id, { key: obmap.key, mode });
+      }
+    } catch (error) {
+      log.error(`Failed to apply obmap ${obmap.key}:`, error);
     }
+  }
+
+  /**
+   * Apply a single exmap to Vim
+   */
+  private applyExmapToVim(exmap: ExmapDefinition): void {
+    if (!this.vimAdapter || !this.exmapProvider) return;
 
+    try {
+      const provider = this.exmapProvider;
+      log.debug(`Applying exmap: :${exmap.name} -> ${exmap.commandId}`);
+
+      // Define ex command
+      this.vimAdapter.defineEx(exmap.name, exmap.name, () => {
+        provider.executeObsidianCommand(exmap.commandId);
+      });
+      this.appliedExmaps.push(exmap.name);
+    } catch (error) {
+      log.error(`Failed to apply exmap ${exmap.name}:`, error);
+    }
+  }
+
+  /**
+   * Apply a single user command to Vim
+   */
+  private applyUserCommandToVim(definition: UserCommandDefinition): void {
+    if (!this.vimAdapter) return;
+
+    try {
+      log.debug(`Applying user command: :${definition.name} -> ${definition.replacement}`);
+      this.vimAdapter.defineEx(definition.name, definition.name, (cm, params) => {
+        this.runUserCommand(definition, cm, params as UserCommandParams);
+      });
+      this.appliedExmaps.push(definition.name);
+    } catch (error) {
+      log.error(`Failed to apply user command ${definition.name}:`, error);
+    }
+  }
+
+  /**
+   * Expand a user command's placeholders and execute the resulting line
+   *
+   * Argument and range errors are thrown for Vim to show; errors of the
+   * executed line are reported through the error handler.
+   */
+  private runUserCommand(definition: UserCommandDefinition, cm: unknown, params: UserCommandParams): void {
+    const editor = cm as { getCursor?: () => { line: number }; lastLine?: () => number };
+    const invocation = createUserCommandInvocation(definition, params, {
+      cursorLine: editor.getCursor?.().line ?? 0,
+      lastLine: editor.lastLine?.() ?? 0,
+    });
+    const line = expandUserCommand(definition, invocation);
+    log.debug(`:${definition.name} -> ${line}`);
+
+    void this.executeCommandLine(line, { filePath: definition.filePath, cm }).then((errors) => {
+      for (const error of errors) {
+        this.errorHandler.handle(new Error(error.message), `VimrcLoader.userCommand: ${definition.name}`);
+      }
+    });
+  }
+
+  /**
+   * Execute a vimrc command line typed as an ex command
+   *
+   * `:map!` arrives as `map` with the `!` at the start of the arguments.
+   */
+  private runExCommandLine(line: string, cm: unknown): void {
+    log.debug(`:${line}`);
+    void this.executeCommandLine(line, { cm }).then((errors) => {
+      for (const error of errors) {
+        this.errorHandler.handle(new Error(error.message), `VimrcLoader.exCommand: ${line}`);
+      }
+    });
+  }
+
+  private clearAppliedObmaps(): void {
+    this.clearObmaps(this.appliedObmaps);
+    this.appliedObmaps = new Map();
+  }
+
+  private clearAppliedExmaps(): void {
+    this.clearExmaps(this.appliedExmaps);
     this.appliedExmaps = [];
   }
 
+  /**
+   * Remove the obmaps a reload did not define again
+   */
+  private clearPreviousObmaps(): void {
+    this.clearObmaps(this.previousObmaps);
+    this.previousObmaps = new Map();
+  }
+
+  /**
+   * Disable the exmaps and user commands a reload did not define again
+   */
+  private clearPreviousExmaps(): void {
+    this.clearExmaps(this.previousExmaps.filter((name) => !this.appliedExmaps.includes(name)));
+    this.previousExmaps = [];
+  }
+
+  /**
+   * Give `:command` and the map commands back to CodeMirror Vim, whose own
+   * commands they replace until the plugin unloads
+   */
+  private restoreBuiltinExmaps(): void {
+    if (!this.vimAdapter) return;
+
+    this.vimAdapter.restoreBuiltinEx('command', 'com');
+    for (const [name, prefix] of MAP_EX_COMMANDS) {
+      this.vimAdapter.restoreBuiltinEx(name, prefix);
+    }
+  }
+
+  private clearObmaps(obmaps: Map<string, { key: string; mode: VimMode }>): void {
+    if (!this.vimAdapter) return;
+
+    for (const obmap of obmaps.values()) {
+      this.vimAdapter.unmap(obmap.key, obmap.mode);
+    }
+  }
+
+  private clearExmaps(names: string[]): void {
+    if (!this.vimAdapter) return;
+
+    for (const exmapName of names) {
+      this.vimAdapter.defineEx(exmapName, exmapName, () => {});
+    }
+  }
+
   private resetProviders(): void {
     const obmapProvider = this.obmapProvider as unknown as { cleanup?: () => void } | null;
     if (obmapProvider?.cleanup) {
@@ -419,6 +1325,163 @@ export class VimrcLoader implements IVimrcLoader {
     if (exmapProvider?.cleanup) {
       exmapProvider.cleanup();
     }
+
+    this.autocmdProvider?.clearAutocmds();
+    this.userCommandProvider?.clearUserCommands();
+  }
+
+  /**
+   * Execute a vimrc command line outside a load, e.g. the body of an autocmd
+   *
+   * Variables from the last load stay visible. Mappings defined by the line
+   * are applied immediately, `<buffer>` mappings to the given buffer, and
+   * mappings it unmaps are removed from Vim. obcommand runs the Obsidian
+   * command. With an editor the line was typed on the Vim command line:
+   * commands the vimrc does not know (e.g. `normal! gg`) run as Vim ex
+   * commands in it, and map commands without a right-hand side list mappings.
+   *
+   * @param line - Command line to execute (may contain `|`-separated commands)
+   * @param options - File the line was defined in, buffer it applies to and editor to run ex commands in
+   * @returns Errors raised while parsing or executing the line
+   */
+  async executeCommandLine(
+    line: string,
+    options: { filePath?: string; buffer?: string; cm?: unknown } = {}
+  ): Promise<LoadResult['errors']> {
+    const parseResult = this.parser.parse(line, { filePath: options.filePath, keepVariables: true });
+    const result: LoadResult = {
+      success: true,
+      path: options.filePath ?? null,
+      mappingCount: 0,
+      errors: [...parseResult.errors],
+      warnings: [],
+    };
+
+    const { added, removed } = await this.trackMappingChanges(async () => {
+      for (const command of parseResult.commands) {
+        if (command.type === CommandType.OBCOMMAND && this.exmapProvider) {
+          await this.exmapProvider.executeObsidianCommand(command.args[0]);
+          continue;
+        }
+        if (command.type === CommandType.UNKNOWN && options.cm && this.vimAdapter) {
+          // `verbose` only changes listings, so Vim runs the command without it
+          const exLine = command.verbose ? command.raw.trim().replace(/^verb\w*\s+/i, '') : command.raw;
+          try {
+            this.vimAdapter.handleEx(options.cm, exLine);
+          } catch (error) {
+            result.errors.push({
+              lineNumber: command.lineNumber,
+              message: error instanceof Error ? error.message : String(error),
+              raw: command.raw,
+              filePath: command.filePath,
+            });
+          }
+          continue;
+        }
+        const commands = [options.cm ? { ...command, interactive: true } : command];
+        await this.executeCommands({ ...parseResult, commands }, result);
+      }
+    });
+    await this.updateAppliedMappings(added, removed, result, options.buffer);
+
+    return result.errors;
+  }
+
+  /**
+   * Collect the mappings added to and removed from the store while running commands
+   *
+   * @param run - Executes the commands
+   * @returns Mappings added and removed, in order
+   */
+  private async trackMappingChanges(run: () => Promise<void>): Promise<{ added: KeyMapping[]; removed: KeyMapping[] }> {
+    const added: KeyMapping[] = [];
+    const removed: KeyMapping[] = [];
+    const unsubscribeAdded = this.eventBus.on(EventType.MAPPING_ADDED, ({ mapping }) => {
+      added.push(mapping);
+    });
+    const unsubscribeRemoved = this.eventBus.on(EventType.MAPPING_REMOVED, ({ mapping }) => {
+      removed.push(mapping);
+    });
+    try {
+      await run();
+    } finally {
+      unsubscribeAdded();
+      unsubscribeRemoved();
+    }
+    return { added, removed };
+  }
+
+  /**
+   * Bring Vim in line with mappings added and removed after the load
+   *
+   * @param added - Mappings added to the store
+   * @param removed - Mappings removed from the store
+   * @param result - Load result to record failures in
+   * @param buffer - Buffer new <buffer> mappings apply to
+   */
+  private async updateAppliedMappings(
+    added: KeyMapping[],
+    removed: KeyMapping[],
+    result: LoadResult,
+    buffer?: string
+  ): Promise<void> {
+    // unmap and mapclear remove mappings that are already applied
+    for (const mapping of removed) {
+      if (mapping.status === MappingStatus.APPLIED) {
+        await this.mappingApplier.unapply(mapping);
+      }
+    }
+
+    await this.recordMappingFailures(result, async () => {
+      for (const mapping of added.filter((mapping) => !removed.includes(mapping))) {
+        if (mapping.modifiers?.buffer) {
+          mapping.buffer ??= buffer;
+          await this.replaceBufferMappings(mapping);
+        }
+        await this.mappingApplier.apply(mapping);
+      }
+    });
+  }
+
+  /**
+   * Drop the <buffer> mappings a new one replaces: same mode, lhs and
+   * buffer, as when an autocommand maps the key again on every BufEnter
+   *
+   * @param mapping - New <buffer> mapping
+   */
+  private async replaceBufferMappings(mapping: KeyMapping): Promise<void> {
+    const replaced = this.mappingStore
+      .query({ mode: mapping.mode, source: mapping.source })
+      .filter((other) => other.id !== mapping.id && other.modifiers?.buffer && other.buffer === mapping.buffer);
+    for (const other of replaced) {
+      if (other.status === MappingStatus.APPLIED) {
+        await this.mappingApplier.unapply(other);
+      }
+      this.mappingStore.remove(other.id);
+    }
+  }
+
+  /**
+   * Apply mappings, recording the ones the applier refuses (e.g. runaway
+   * recursive mappings) as errors at their definition
+   *
+   * @param result - Load result to record failures in
+   * @param apply - Applies the mappings
+   */
+  private async recordMappingFailures(result: LoadResult, apply: () => Promise<void>): Promise<void> {
+    const unsubscribe = this.eventBus.on(EventType.MAPPING_FAILED, ({ mapping, error }) => {
+      result.errors.push({
+        lineNumber: mapping.lineNumber,
+        message: error.message,
+        raw: '',
+        filePath: mapping.filePath,
+      });
+    });
+    try {
+      await apply();
+    } finally {
+      unsubscribe();
+    }
   }
 
   /**
@@ -430,6 +1493,206 @@ export class VimrcLoader implements IVimrcLoader {
     return this.lastResult;
   }
 
+  /**
+   * Check a vimrc file without applying it
+   *
+   * Parses the file and the files it sources like load() does, then reports
+   * problems found in the commands instead of executing them.
+   *
+   * @param path - File to check; defaults to the vimrc file load() would use
+   * @returns Diagnostics of the file and the files it sources
+   */
+  async check(path?: string): Promise<CheckResult> {
+    const settings = this.configManager.getSettings();
+    const vimrcPath = path ?? (settings.vimrcSource === 'embedded' ? null : await this.detectVimrcFile())
+      ?? (settings.vimrcSource !== 'file' ? EMBEDDED_VIMRC_PATH : null);
+    if (!vimrcPath) {
+      return { path: null, diagnostics: [] };
+    }
+
+    const content = vimrcPath === EMBEDDED_VIMRC_PATH ? settings.embeddedVimrc : await this.readVimrcFile(vimrcPath);
+    if (content === null) {
+      return {
+        path: vimrcPath,
+        diagnostics: [{
+          severity: 'error',
+          code: 'unreadable-file',
+          message: `Failed to read file: ${vimrcPath}`,
+          filePath: vimrcPath,
+          range: { startLine: 1, startColumn: 0, endLine: 1, endColumn: 0 },
+        }],
+      };
+    }
+
+    // Start from the variables of the global vimrc, as load() does
+    const globalPath = await this.detectGlobalVimrcFile();
+    const globalContent = globalPath && globalPath !== vimrcPath ? await this.readVimrcFile(globalPath) : null;
+    if (globalPath && globalContent !== null) {
+      const globalSources = await this.readSourcedFiles(globalPath, globalContent);
+      this.checkParser.parse(globalContent, {
+        filePath: globalPath,
+        readSource: (sourcePath) => globalSources.get(sourcePath) ?? null,
+      });
+    }
+
+    const sources = await this.readSourcedFiles(vimrcPath, content);
+    const parseResult = this.checkParser.parse(content, {
+      filePath: vimrcPath,
+      readSource: (sourcePath) => sources.get(sourcePath) ?? null,
+      keepVariables: globalContent !== null,
+    });
+    const diagnostics = lintVimrc(parseResult, {
+      files: new Map([[vimrcPath, content], ...sources]),
+      validateCommand: this.commandValidator ?? undefined,
+      maxMapDepth: this.getMaxMapDepth(),
+    });
+    log.debug(`Checked ${vimrcPath}: ${diagnostics.length} diagnostic(s)`);
+    return { path: vimrcPath, diagnostics };
+  }
+
+  /**
+   * Write a vimrc file, or the embedded vimrc into the settings
+   *
+   * The file watcher reports changes of vault files; for the embedded vimrc
+   * FILE_CHANGED is emitted here, as its settings change does not reload.
+   *
+   * @param path - Vimrc file, or EMBEDDED_VIMRC_PATH
+   * @param content - New content
+   */
+  async writeVimrc(path: string, content: string): Promise<void> {
+    if (path === EMBEDDED_VIMRC_PATH) {
+      await this.configManager.updateSettings({ embeddedVimrc: content });
+      this.eventBus.emit(EventType.FILE_CHANGED, { path });
+    } else {
+      await this.fileAdapter.write(path, content);
+    }
+  }
+
+  /**
+   * Save an imported vimrc as the vimrc when there is none yet, otherwise
+   * next to it for review under the first free imported.vimrc name
+   *
+   * FILE_CREATED is emitted for a new vimrc, as the vault does not report
+   * hidden files such as .obsidian.vimrc.
+   *
+   * @param content - Converted vimrc
+   * @returns The written file, and whether it is the vimrc
+   */
+  async saveImportedVimrc(content: string): Promise<{ path: string; isVimrc: boolean }> {
+    const { vimrcPath } = this.configManager.getSettings();
+    const isVimrc = !this.lastResult?.path && !(await this.fileAdapter.exists(vimrcPath));
+    const path = isVimrc ? vimrcPath : await findFreeFileName(IMPORTED_VIMRC_FILE, (file) => this.fileAdapter.exists(file));
+    await this.fileAdapter.write(path, content);
+    if (isVimrc) this.eventBus.emit(EventType.FILE_CREATED, { path });
+    return { path, isVimrc };
+  }
+
+  /**
+   * Apply the quick-fix of a check diagnostic to its file, then check again
+   *
+   * @param diagnostic - Diagnostic from check()
+   * @returns Check of the embedded vimrc when it was fixed, otherwise of the vimrc
+   */
+  async applyQuickFix(diagnostic: VimrcDiagnostic): Promise<CheckResult> {
+    const { filePath, quickFix } = diagnostic;
+    if (filePath && quickFix) {
+      const content = filePath === EMBEDDED_VIMRC_PATH
+        ? this.configManager.getSettings().embeddedVimrc
+        : await this.fileAdapter.read(filePath);
+      await this.writeVimrc(filePath, applyQuickFix(content, quickFix));
+    }
+    return this.check(filePath === EMBEDDED_VIMRC_PATH ? filePath : undefined);
+  }
+
+  /**
+   * Get the current 'maxmapdepth', if set
+   */
+  private getMaxMapDepth(): number | undefined {
+    const value = this.vimAdapter?.getOption('maxmapdepth');
+    return typeof value === 'number' && value > 0 ? value : undefined;
+  }
+
+  /**
+   * Get every file read during the last load
+   *
+   * @returns Vault-relative paths, main vimrc first
+   */
+  getSourcedFiles(): string[] {
+    return [...this.sourcedFiles];
+  }
+
+  /**
+   * Detect the files of the configuration, global vimrc first, then the
+   * vault vimrc, the embedded vimrc and the profile files
+   *
+   * With the 'embedded' source, the embedded vimrc takes the place of the
+   * vault vimrc; with 'both', it is applied after the vault vimrc.
+   */
+  private async detectConfigFiles(): Promise<ConfigFile[]> {
+    const settings = this.configManager.getSettings();
+    const globalPath = await this.detectGlobalVimrcFile();
+    const vimrcPath = settings.vimrcSource === 'embedded'
+      ? null
+      : (await this.detectVimrcFile()) ?? (this.vimrcOverride !== null ? settings.vimrcPath : null);
+    const files: ConfigFile[] = [];
+    if (globalPath) {
+      files.push({ path: globalPath });
+    }
+    if (vimrcPath) {
+      files.push({ path: vimrcPath, vault: true });
+    }
+    if (settings.vimrcSource !== 'file') {
+      files.push({ path: EMBEDDED_VIMRC_PATH, embedded: true, vault: settings.vimrcSource === 'embedded' });
+    }
+    files.push(...settings.profileFiles.map((path) => ({ path, profile: getProfileName(path) })));
+    return files;
+  }
+
+  /**
+   * Read a file of the configuration, or the content applied in its place
+   *
+   * @returns File content, or null if read failed
+   */
+  private async readConfigFile(file: ConfigFile): Promise<string | null> {
+    if (file.vault && this.vimrcOverride !== null) {
+      return this.vimrcOverride;
+    }
+    if (file.embedded) {
+      return this.configManager.getSettings().embeddedVimrc;
+    }
+    return this.readVimrcFile(file.path);
+  }
+
+  /**
+   * Parse configuration files without executing them
+   *
+   * @param files - Files of the configuration, in load order
+   * @returns Errors of the files and those they source
+   */
+  private async validate(files: ConfigFile[]): Promise<LoadDiagnostic[]> {
+    const errors: LoadDiagnostic[] = [];
+    for (let i = 0; i < files.length; i++) {
+      const { path } = files[i];
+      const content = await this.readConfigFile(files[i]);
+      if (content === null && files[i].profile) {
+        continue;
+      }
+      if (content === null) {
+        errors.push({ lineNumber: 0, message: `Failed to read file: ${path}`, raw: '', filePath: path });
+        continue;
+      }
+
+      const sources = await this.readSourcedFiles(path, content);
+      const parseResult = this.checkParser.parse(content, {
+        filePath: path,
+        readSource: (sourcePath) => sources.get(sourcePath) ?? null,
+        keepVariables: i > 0,
+      });
+      errors.push(...parseResult.errors);
+    }
+    return errors;
+  }
+
   /**
    * Detect which vimrc file to load
    *
@@ -463,6 +1726,25 @@ export class VimrcLoader implements IVimrcLoader {
     return null;
   }
 
+  /**
+   * Detect the global vimrc, loaded before the vault vimrc
+   *
+   * The configured path may be vault-relative or, on desktop, absolute;
+   * without one, global.vimrc in the plugin's data folder is used.
+   *
+   * @returns The path to the global vimrc, or null if there is none
+   */
+  private async detectGlobalVimrcFile(): Promise<string | null> {
+    const settings = this.configManager.getSettings();
+    const path = settings.globalVimrcPath
+      || (this.dataFolder ? `${this.dataFolder}/${GLOBAL_VIMRC_FILE}` : null);
+    if (!path) {
+      return null;
+    }
+
+    return (await this.fileAdapter.exists(path)) ? path : null;
+  }
+
   /**
    * Read vimrc file content
    *
@@ -484,20 +1766,55 @@ export class VimrcLoader implements IVimrcLoader {
     }
   }
 
+  /**
+   * Recursively read every file referenced by `source` / `runtime`
+   *
+   * Each file is read once; cycles are left for the parser to report.
+   *
+   * @param rootPath - Path of the main vimrc file
+   * @param rootContent - Content of the main vimrc file
+   * @returns Map of vault-relative path to content for every readable sourced file
+   */
+  async readSourcedFiles(rootPath: string, rootContent: string): Promise<Map<string, string>> {
+    const sources = new Map<string, string>();
+    const visited = new Set<string>([rootPath]);
+    const pending = findSourcedPaths(rootContent, rootPath);
+
+    while (pending.length > 0) {
+      const path = pending.shift()!;
+      if (visited.has(path)) continue;
+      visited.add(path);
+
+      const content = await this.readVimrcFile(path);
+      if (content === null) {
+        log.debug(`Sourced file not readable: ${path}`);
+        continue;
+      }
+
+      sources.set(path, content);
+      pending.push(...findSourcedPaths(content, path));
+    }
+
+    return sources;
+  }
+
   /**
    * Execute parsed commands through the command registry
    *
+   * Errors raised by handlers are recorded against the command's location.
+   *
    * @param parseResult - The parse result containing commands
+   * @param result - Load result to record handler errors in
    */
-  private async executeCommands(parseResult: ParseResult): Promise<void> {
+  private async executeCommands(parseResult: ParseResult, result: LoadResult): Promise<void> {
     for (const command of parseResult.commands) {
       // Skip unknown commands (they generate warnings but shouldn't be executed)
       if (command.type === CommandType.UNKNOWN) {
         continue;
       }
 
-      // Skip let commands (already processed by parser for variable substitution)
-      if (command.type === CommandType.LET) {
+      // Skip let/unlet commands (already evaluated by the parser)
+      if (LET_COMMAND_TYPES.includes(command.type)) {
         continue;
       }
 
@@ -506,25 +1823,121 @@ export class VimrcLoader implements IVimrcLoader {
         continue;
       }
 
+      const failures: Error[] = [];
+      const unsubscribe = this.eventBus.on(EventType.ERROR_OCCURRED, ({ error }) => {
+        failures.push(error);
+      });
       try {
         await this.commandRegistry.route(command);
       } catch (error) {
         const err = error instanceof Error ? error : new Error(String(error));
         this.errorHandler.handle(err, `VimrcLoader.executeCommands: ${command.type}`);
+      } finally {
+        unsubscribe();
+      }
+
+      for (const failure of failures) {
+        result.errors.push({
+          lineNumber: command.lineNumber,
+          message: failure.message,
+          raw: command.raw,
+          filePath: command.filePath,
+        });
       }
     }
   }
 }
 
+/**
+ * Get the folder vimrc files that could apply to a file
+ *
+ * @param filePath - Vault-relative path of a file
+ * @returns `.vimrc` paths of the file's folders below the vault root, outermost first
+ */
+export function findFolderVimrcPaths(filePath: string): string[] {
+  const folders = filePath.split('/').slice(0, -1);
+  return folders.map((_, i) => `${folders.slice(0, i + 1).join('/')}/${FOLDER_VIMRC_FILE}`);
+}
+
+/**
+ * Check whether a path is an absolute file system path rather than a vault path
+ *
+ * @param path - Path to check
+ * @returns true for `/...`, `C:\...` and `\\server\...` paths
+ */
+export function isAbsolutePath(path: string): boolean {
+  return /^(\/|[a-zA-Z]:[\\/]|\\\\)/.test(path);
+}
+
+/**
+ * Find a file name not in use, numbering the name before its extension from 2
+ *
+ * @param fileName - Preferred file name
+ * @param exists - Whether a file exists
+ * @returns fileName, or e.g. `name-2.ext` when it exists
+ */
+export async function findFreeFileName(fileName: string, exists: (path: string) => Promise<boolean>): Promise<string> {
+  const dot = fileName.lastIndexOf('.');
+  const [base, extension] = dot > 0 ? [fileName.slice(0, dot), fileName.slice(dot)] : [fileName, ''];
+  let file = fileName;
+  for (let i = 2; await exists(file); i++) {
+    file = `${base}-${i}${extension}`;
+  }
+  return file;
+}
+
 /**
  * Create a file adapter from Obsidian's App
  *
+ * Absolute paths are read from and written to the file system on desktop
+ * and do not exist on mobile.
+ *
  * @param app - Obsidian App instance
  * @returns File adapter implementation
  */
 export function createFileAdapter(app: App): IFileAdapter {
+  // Node modules are only available on desktop
+  const fs: typeof import('fs') | null = Platform.isDesktopApp ? require('fs') : null;
+  return {
+    exists: async (path: string) => {
+      if (!isAbsolutePath(path)) return app.vault.adapter.exists(path);
+      return fs?.existsSync(path) ?? false;
+    },
+    read: async (path: string) => {
+      if (!isAbsolutePath(path)) return app.vault.adapter.read(path);
+      if (!fs) throw new Error(`Absolute paths are only supported on desktop: ${path}`);
+      return fs.promises.readFile(path, 'utf8');
+    },
+    write: async (path: string, content: string) => {
+      if (!isAbsolutePath(path)) return app.vault.adapter.write(path, content);
+      if (!fs) throw new Error(`Absolute paths are only supported on desktop: ${path}`);
+      return fs.promises.writeFile(path, content, 'utf8');
+    },
+  };
+}
+
+/**
+ * Create the environment used by vimrc conditions from Obsidian's App
+ *
+ * @param app - Obsidian App instance
+ * @returns Environment exposing platform features, version, vault and plugins
+ */
+export function createVimrcEnvironment(app: App): VimrcEnvironment {
+  const features: string[] = [Platform.isMobile ? 'mobile' : 'desktop'];
+  if (Platform.isMacOS) features.push('mac');
+  if (Platform.isWin) features.push('win');
+  if (Platform.isLinux) features.push('linux');
+  if (Platform.isIosApp) features.push('ios');
+  if (Platform.isAndroidApp) features.push('android');
+
   return {
-    exists: (path: string) => app.vault.adapter.exists(path),
-    read: (path: string) => app.vault.adapter.read(path),
+    features,
+    obsidianVersion: apiVersion,
+    vaultName: app.vault.getName(),
+    isPluginEnabled: (id: string) => {
+      // @ts-ignore - plugins is not part of the public API
+      const enabled: Set<string> | undefined = app.plugins?.enabledPlugins;
+      return enabled?.has(id) ?? false;
+    },
   };
 }
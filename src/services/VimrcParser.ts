@@ -1,71 +1,909 @@
-import { CommandType, ParsedCommand, ParseResult, ParseError, ParseWarning } from '../types';
+import { CommandType, LET_COMMAND_TYPES, SOURCE_COMMAND_TYPES } from '../types/commands';
+import type {
+    ParsedCommand,
+    ParseResult,
+    ParseError,
+    ParseWarning,
+    ParseOptions,
+    VimrcEnvironment,
+} from '../types/commands';
+import { ExpressionEvaluator, isDict, isList, toStringValue } from './ExpressionEvaluator';
+import type { ExpressionFunction, VimValue } from './ExpressionEvaluator';
+import { VariableStore, executeLet, executeUnlet } from './VariableStore';
+
+/**
+ * Environment used when the host does not provide one
+ */
+const DEFAULT_ENVIRONMENT: VimrcEnvironment = {
+    features: ['desktop'],
+    obsidianVersion: '0.0.0',
+    vaultName: '',
+    isPluginEnabled: () => false,
+};
+
+/**
+ * Conditional keywords with their accepted abbreviations
+ */
+const CONDITIONAL_KEYWORDS: Record<string, ConditionalKeyword> = {
+    if: 'if',
+    elsei: 'elseif',
+    elseif: 'elseif',
+    el: 'else',
+    els: 'else',
+    else: 'else',
+    en: 'endif',
+    end: 'endif',
+    endi: 'endif',
+    endif: 'endif',
+};
+
+type ConditionalKeyword = 'if' | 'elseif' | 'else' | 'endif';
+
+/**
+ * One open `if` block
+ */
+interface ConditionalFrame {
+    /** Line of the opening `if` */
+    lineNumber: number;
+    raw: string;
+    /** Whether lines in the current branch are executed */
+    active: boolean;
+    /** Whether a branch of this block has already been taken (or the block is skipped) */
+    taken: boolean;
+    /** Whether `else` has been seen */
+    elseSeen: boolean;
+}
+
+/**
+ * Commands whose arguments are expressions that may contain quoted strings
+ */
+const EXPRESSION_COMMANDS = new Set(['let', 'if', 'elsei', 'elseif', 'exe', 'exec', 'execute']);
+
+/**
+ * Mapping whose right-hand side is an expression, e.g. `nnoremap <expr> j ...`
+ */
+const EXPRESSION_MAPPING_PATTERN = /^\s*\S*map!?\s+(?:<[a-z]+>\s*)*<expr>/i;
+
+/**
+ * Commands that take `|` and `"` as part of their argument instead of as a
+ * command separator or comment
+ */
+const BAR_ARGUMENT_COMMANDS = new Set([
+    'au', 'au!', 'autocmd', 'autocmd!',
+    'com', 'com!', 'comm', 'comm!', 'comma', 'comma!', 'comman', 'comman!', 'command', 'command!',
+]);
+
+/**
+ * Check whether the command at the start of a line takes the rest of the line,
+ * including `|`, as its argument (`command -bar` does not)
+ */
+function takesBarArgument(line: string): boolean {
+    const [name, ...args] = line.trim().split(/\s+/);
+    if (!BAR_ARGUMENT_COMMANDS.has(name.toLowerCase())) {
+        return false;
+    }
+    const end = args.findIndex((arg) => !arg.startsWith('-'));
+    const attributes = end === -1 ? args : args.slice(0, end);
+    return !attributes.includes('-bar');
+}
+
+/**
+ * Matches a `source` / `runtime` line, capturing the command and its path argument.
+ * Used to discover sourced files before parsing.
+ */
+const SOURCE_LINE_PATTERN = /^\s*:?\s*(so|source|ru|runtime)!?\s+(.+?)\s*$/i;
+
+/**
+ * Resolve the path argument of a `source` / `runtime` command to a vault-relative path
+ *
+ * - `~/path` and `/path` are relative to the vault root
+ * - `./path` and `../path` are relative to the directory of the including file
+ * - any other path is relative to the vault root
+ *
+ * @param target - Path as written in the vimrc
+ * @param fromFile - Vault-relative path of the including file
+ */
+export function resolveSourcePath(target: string, fromFile?: string): string {
+    let path = target.trim().replace(/\\/g, '/');
+    let baseSegments: string[] = [];
+
+    if (path.startsWith('~/')) {
+        path = path.slice(2);
+    } else if (path.startsWith('/')) {
+        path = path.slice(1);
+    } else if ((path.startsWith('./') || path.startsWith('../')) && fromFile) {
+        baseSegments = fromFile.split('/').slice(0, -1);
+    }
+
+    const segments = [...baseSegments];
+    for (const segment of path.split('/')) {
+        if (segment === '' || segment === '.') continue;
+        if (segment === '..') {
+            segments.pop();
+        } else {
+            segments.push(segment);
+        }
+    }
+    return segments.join('/');
+}
+
+/**
+ * Find the `source` / `runtime` targets referenced by vimrc content
+ *
+ * @param content - Vimrc content to scan
+ * @param fromFile - Vault-relative path of the content, for relative targets
+ * @returns Resolved vault-relative paths in order of appearance
+ */
+export function findSourcedPaths(content: string, fromFile?: string): string[] {
+    const paths: string[] = [];
+    for (const line of joinContinuationLines(content)) {
+        for (const segment of splitBarCommands(line.text)) {
+            const match = segment.match(SOURCE_LINE_PATTERN);
+            if (match) {
+                const target = match[2].replace(/\s+".*$/, '');
+                paths.push(resolveSourcePath(target, fromFile));
+            }
+        }
+    }
+    return paths;
+}
+
+/**
+ * A logical vimrc line, possibly joined from several physical lines
+ */
+interface LogicalLine {
+    /** Joined, trimmed text */
+    text: string;
+    /** First physical line (1-based) */
+    lineNumber: number;
+    /** Last physical line (1-based) */
+    endLineNumber: number;
+    /** Original physical lines, joined with newlines */
+    raw: string;
+}
+
+/**
+ * Get the command type of a command name, accepting Vim's short forms
+ *
+ * @param name - Command name as written, e.g. `nnoremap`, `ab` or `au!`
+ * @returns UNKNOWN for names the parser does not handle
+ */
+export function getCommandType(name: string): CommandType {
+    const commandUpper = name.toUpperCase();
+    switch (commandUpper) {
+        case 'MAP':
+            return CommandType.MAP;
+        case 'NMAP':
+            return CommandType.NMAP;
+        case 'IMAP':
+            return CommandType.IMAP;
+        case 'VMAP':
+            return CommandType.VMAP;
+        case 'XMAP':
+            return CommandType.XMAP;
+        case 'SMAP':
+            return CommandType.SMAP;
+        case 'OMAP':
+            return CommandType.OMAP;
+        case 'CMAP':
+            return CommandType.CMAP;
+        case 'LMAP':
+            return CommandType.LMAP;
+        case 'MAP!':
+            return CommandType.MAP_BANG;
+        case 'NOREMAP':
+            return CommandType.NOREMAP;
+        case 'NNOREMAP':
+            return CommandType.NNOREMAP;
+        case 'INOREMAP':
+            return CommandType.INOREMAP;
+        case 'VNOREMAP':
+            return CommandType.VNOREMAP;
+        case 'XNOREMAP':
+            return CommandType.XNOREMAP;
+        case 'SNOREMAP':
+            return CommandType.SNOREMAP;
+        case 'ONOREMAP':
+            return CommandType.ONOREMAP;
+        case 'CNOREMAP':
+            return CommandType.CNOREMAP;
+        case 'LNOREMAP':
+            return CommandType.LNOREMAP;
+        case 'NOREMAP!':
+            return CommandType.NOREMAP_BANG;
+        case 'OBCOMMAND':
+            return CommandType.OBCOMMAND;
+        case 'EXMAP':
+            return CommandType.EXMAP;
+        // obmap commands - direct mapping to Obsidian commands
+        case 'OBMAP':
+            return CommandType.OBMAP;
+        case 'NOBMAP':
+            return CommandType.NOBMAP;
+        case 'IOBMAP':
+            return CommandType.IOBMAP;
+        case 'VOBMAP':
+            return CommandType.VOBMAP;
+        // unmap commands
+        case 'UNMAP':
+            return CommandType.UNMAP;
+        case 'NUNMAP':
+            return CommandType.NUNMAP;
+        case 'IUNMAP':
+            return CommandType.IUNMAP;
+        case 'VUNMAP':
+            return CommandType.VUNMAP;
+        case 'XUNMAP':
+            return CommandType.XUNMAP;
+        case 'SUNMAP':
+            return CommandType.SUNMAP;
+        case 'OUNMAP':
+            return CommandType.OUNMAP;
+        case 'CUNMAP':
+            return CommandType.CUNMAP;
+        case 'LUNMAP':
+            return CommandType.LUNMAP;
+        case 'UNMAP!':
+            return CommandType.UNMAP_BANG;
+        // mapclear commands
+        case 'MAPCLEAR':
+            return CommandType.MAPCLEAR;
+        case 'NMAPCLEAR':
+            return CommandType.NMAPCLEAR;
+        case 'IMAPCLEAR':
+            return CommandType.IMAPCLEAR;
+        case 'VMAPCLEAR':
+            return CommandType.VMAPCLEAR;
+        case 'XMAPCLEAR':
+            return CommandType.XMAPCLEAR;
+        case 'SMAPCLEAR':
+            return CommandType.SMAPCLEAR;
+        case 'OMAPCLEAR':
+            return CommandType.OMAPCLEAR;
+        case 'CMAPCLEAR':
+            return CommandType.CMAPCLEAR;
+        case 'LMAPCLEAR':
+            return CommandType.LMAPCLEAR;
+        case 'MAPCLEAR!':
+            return CommandType.MAPCLEAR_BANG;
+        // abbreviations, with Vim's short forms
+        case 'AB':
+        case 'ABB':
+        case 'ABBR':
+        case 'ABBRE':
+        case 'ABBREV':
+        case 'ABBREVI':
+        case 'ABBREVIA':
+        case 'ABBREVIAT':
+        case 'ABBREVIATE':
+            return CommandType.ABBREVIATE;
+        case 'IA':
+        case 'IAB':
+        case 'IABB':
+        case 'IABBR':
+        case 'IABBRE':
+        case 'IABBREV':
+            return CommandType.IABBREV;
+        case 'CA':
+        case 'CAB':
+        case 'CABB':
+        case 'CABBR':
+        case 'CABBRE':
+        case 'CABBREV':
+            return CommandType.CABBREV;
+        case 'NOREA':
+        case 'NOREAB':
+        case 'NOREABB':
+        case 'NOREABBR':
+        case 'NOREABBRE':
+        case 'NOREABBREV':
+            return CommandType.NOREABBREV;
+        case 'INOREA':
+        case 'INOREAB':
+        case 'INOREABB':
+        case 'INOREABBR':
+        case 'INOREABBRE':
+        case 'INOREABBREV':
+            return CommandType.INOREABBREV;
+        case 'CNOREA':
+        case 'CNOREAB':
+        case 'CNOREABB':
+        case 'CNOREABBR':
+        case 'CNOREABBRE':
+        case 'CNOREABBREV':
+            return CommandType.CNOREABBREV;
+        case 'UNA':
+        case 'UNAB':
+        case 'UNABB':
+        case 'UNABBR':
+        case 'UNABBRE':
+        case 'UNABBREV':
+        case 'UNABBREVI':
+        case 'UNABBREVIA':
+        case 'UNABBREVIAT':
+        case 'UNABBREVIATE':
+            return CommandType.UNABBREVIATE;
+        case 'IUNA':
+        case 'IUNAB':
+        case 'IUNABB':
+        case 'IUNABBR':
+        case 'IUNABBRE':
+        case 'IUNABBREV':
+            return CommandType.IUNABBREV;
+        case 'CUNA':
+        case 'CUNAB':
+        case 'CUNABB':
+        case 'CUNABBR':
+        case 'CUNABBRE':
+        case 'CUNABBREV':
+            return CommandType.CUNABBREV;
+        case 'ABC':
+        case 'ABCL':
+        case 'ABCLE':
+        case 'ABCLEA':
+        case 'ABCLEAR':
+            return CommandType.ABCLEAR;
+        case 'IABC':
+        case 'IABCL':
+        case 'IABCLE':
+        case 'IABCLEA':
+        case 'IABCLEAR':
+            return CommandType.IABCLEAR;
+        case 'CABC':
+        case 'CABCL':
+        case 'CABCLE':
+        case 'CABCLEA':
+        case 'CABCLEAR':
+            return CommandType.CABCLEAR;
+        case 'LET':
+            return CommandType.LET;
+        case 'UNL':
+        case 'UNL!':
+        case 'UNLET':
+        case 'UNLET!':
+            return CommandType.UNLET;
+        case 'AU':
+        case 'AU!':
+        case 'AUTOCMD':
+        case 'AUTOCMD!':
+            return CommandType.AUTOCMD;
+        case 'AUG':
+        case 'AUG!':
+        case 'AUGROUP':
+        case 'AUGROUP!':
+            return CommandType.AUGROUP;
+        case 'COM':
+        case 'COM!':
+        case 'COMM':
+        case 'COMM!':
+        case 'COMMA':
+        case 'COMMA!':
+        case 'COMMAN':
+        case 'COMMAN!':
+        case 'COMMAND':
+        case 'COMMAND!':
+            return CommandType.COMMAND;
+        case 'DELC':
+        case 'DELCOMMAND':
+            return CommandType.DELCOMMAND;
+        case 'SE':
+        case 'SET':
+        case 'SETL':
+        case 'SETLOCAL':
+        case 'SETG':
+        case 'SETGLOBAL':
+            return CommandType.SET;
+        case 'EXE':
+        case 'EXEC':
+        case 'EXECUTE':
+            return CommandType.EXECUTE;
+        // file inclusion
+        case 'SO':
+        case 'SO!':
+        case 'SOURCE':
+        case 'SOURCE!':
+            return CommandType.SOURCE;
+        case 'RU':
+        case 'RU!':
+        case 'RUNTIME':
+        case 'RUNTIME!':
+            return CommandType.RUNTIME;
+        default:
+            return CommandType.UNKNOWN;
+    }
+}
+
+/**
+ * Join lines starting with `\` onto the preceding line
+ *
+ * Lines starting with `"\ ` inside a continuation are comments and are dropped.
+ */
+function joinContinuationLines(content: string): LogicalLine[] {
+    const lines = content.split('\n');
+    const result: LogicalLine[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const trimmed = lines[i].trim();
+        const previous = result[result.length - 1];
+        const continues = previous && previous.endLineNumber === i;
+
+        if (continues && trimmed.startsWith('\\')) {
+            previous.text += trimmed.slice(1);
+            previous.endLineNumber = i + 1;
+            previous.raw += '\n' + trimmed;
+            continue;
+        }
+        if (continues && trimmed.startsWith('"\\ ')) {
+            previous.endLineNumber = i + 1;
+            previous.raw += '\n' + trimmed;
+            continue;
+        }
+
+        result.push({ text: trimmed, lineNumber: i + 1, endLineNumber: i + 1, raw: trimmed });
+    }
+
+    return result;
+}
+
+/**
+ * Split a line into `|`-separated commands
+ *
+ * `\|` and `<Bar>` are literal pipes and do not separate commands; `\|` is
+ * unescaped. A `|` inside a quoted expression string or after an inline
+ * comment does not separate commands either, nor does a `|` in the argument
+ * of `autocmd` or `command`, which belongs to the command being defined.
+ */
+function splitBarCommands(line: string): string[] {
+    const segments: string[] = [];
+    let current = '';
+    let quote = '';
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+
+        if (quote) {
+            current += char;
+            if (char === '\\' && quote === '"' && i + 1 < line.length) {
+                current += line[++i];
+            } else if (char === quote) {
+                quote = '';
+            }
+            continue;
+        }
+
+        if (char === '\\' && line[i + 1] === '|') {
+            current += '|';
+            i++;
+            continue;
+        }
+
+        if (char === '|') {
+            if (takesBarArgument(current)) {
+                current += line.slice(i);
+                break;
+            }
+            segments.push(current.trim());
+            current = '';
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            // In expressions a quote after an operator starts a string; a " after whitespace starts a comment
+            const commandName = current.trimStart().split(/\s/)[0].toLowerCase();
+            const before = current.trimEnd();
+            const startsOperand = before.toLowerCase() === commandName || /[=(,!<>~&+\-*/.:?[{]$/.test(before);
+            if ((EXPRESSION_COMMANDS.has(commandName) && startsOperand) || EXPRESSION_MAPPING_PATTERN.test(current)) {
+                quote = char;
+            } else if (char === '"' && (current.length === 0 || /\s$/.test(current))) {
+                current += line.slice(i);
+                break;
+            }
+        }
+
+        current += char;
+    }
+
+    segments.push(current.trim());
+    return segments.filter(segment => segment.length > 0);
+}
+
+/**
+ * Source location of a statement, attached to its commands and diagnostics
+ */
+interface StatementLocation {
+    lineNumber: number;
+    endLineNumber: number;
+    raw: string;
+    filePath?: string;
+}
+
+/**
+ * The open `profile` block
+ */
+interface ProfileFrame {
+    name: string;
+    /** Line of the opening `profile` */
+    lineNumber: number;
+    raw: string;
+    /** File the block was opened in */
+    filePath?: string;
+}
+
+/**
+ * Mutable state shared across nested `source` parses
+ */
+interface ParseState {
+    commands: ParsedCommand[];
+    errors: ParseError[];
+    warnings: ParseWarning[];
+    readSource?: (path: string) => string | null;
+    /** Files currently being parsed, outermost first, for cycle detection */
+    includeStack: string[];
+    /** Open profile block; files sourced inside it belong to the profile too */
+    profile?: ProfileFrame;
+}
 
 /**
  * Parser for vimrc configuration files
  */
 export class VimrcParser {
-    private variables: Map<string, string>;
+    private variables: VariableStore;
+    private environment: VimrcEnvironment;
+    private evaluator: ExpressionEvaluator;
 
-    constructor() {
-        this.variables = new Map();
+    /**
+     * @param environment - Host environment for condition predicates
+     */
+    constructor(environment?: Partial<VimrcEnvironment>) {
+        this.variables = new VariableStore();
+        this.environment = { ...DEFAULT_ENVIRONMENT, ...environment };
+        this.evaluator = new ExpressionEvaluator({
+            getVariable: (name) => this.variables.get(name),
+            functions: this.createConditionFunctions(),
+        });
+    }
+
+    /**
+     * Replace the host environment used by condition predicates
+     */
+    setEnvironment(environment: Partial<VimrcEnvironment>): void {
+        this.environment = { ...DEFAULT_ENVIRONMENT, ...environment };
     }
 
     /**
      * Parse vimrc file content
+     *
+     * `source` and `runtime` commands are expanded in place when a
+     * `readSource` callback is provided; commands, errors and warnings from
+     * sourced files carry the sourced file's path.
+     *
+     * Variables from a previous parse are cleared first, so each load starts
+     * from a clean state, unless `keepVariables` is set.
      */
-    parse(content: string): ParseResult {
-        const commands: ParsedCommand[] = [];
-        const errors: ParseError[] = [];
-        const warnings: ParseWarning[] = [];
+    parse(content: string, options: ParseOptions = {}): ParseResult {
+        if (!options.keepVariables) {
+            this.variables.clear();
+        }
 
-        const lines = content.split('\n');
+        const state: ParseState = {
+            commands: [],
+            errors: [],
+            warnings: [],
+            readSource: options.readSource,
+            includeStack: options.filePath ? [options.filePath] : [],
+        };
+
+        this.parseContent(content, options.filePath, state);
+
+        return { commands: state.commands, errors: state.errors, warnings: state.warnings };
+    }
+
+    /**
+     * Evaluate an expression against the variables defined by the last parse
+     *
+     * @param expression - Expression source text
+     * @param variables - Extra variables such as `v:count`
+     * @returns The result as a string
+     * @throws Error on invalid expressions
+     */
+    evaluate(expression: string, variables: Record<string, string | number> = {}): string {
+        const evaluator = new ExpressionEvaluator({
+            getVariable: (name) => variables[name] ?? this.variables.get(name),
+            functions: this.createConditionFunctions(),
+        });
+        return toStringValue(evaluator.evaluate(expression));
+    }
 
-        for (let i = 0; i < lines.length; i++) {
-            const lineNumber = i + 1;
-            const line = lines[i].trim();
+    /**
+     * Parse content into the shared state
+     */
+    private parseContent(content: string, filePath: string | undefined, state: ParseState): void {
+        const { errors } = state;
+        const conditionals: ConditionalFrame[] = [];
+        this.variables.setScript(filePath);
+
+        for (const logicalLine of joinContinuationLines(content)) {
+            const { lineNumber, endLineNumber, raw } = logicalLine;
+            const location = { lineNumber, endLineNumber, raw, filePath };
 
             // Skip empty lines
-            if (line.length === 0) {
+            if (logicalLine.text.length === 0) {
                 continue;
             }
 
             // Skip comment lines
-            if (line.startsWith('"')) {
+            if (logicalLine.text.startsWith('"')) {
                 continue;
             }
 
-            try {
-                const command = this.parseLine(line, lineNumber);
-                if (command.type !== CommandType.COMMENT) {
-                    // Generate warning for unknown commands
-                    if (command.type === CommandType.UNKNOWN) {
-                        const cmdName = line.split(/\s+/)[0];
-                        warnings.push({
-                            lineNumber,
-                            message: `Unknown command: ${cmdName}`,
-                            raw: line
-                        });
-                        // Still add the command so it can be tracked
-                        commands.push(command);
-                        continue;
-                    }
-                    
-                    // Process let commands to store variables
-                    if (command.type === CommandType.LET) {
-                        this.processLetCommand(command);
-                    }
-                    commands.push(command);
-                }
-            } catch (error) {
-                errors.push({
-                    lineNumber,
-                    message: error instanceof Error ? error.message : String(error),
-                    raw: line
+            for (const line of splitBarCommands(logicalLine.text)) {
+                this.processStatement(line, location, conditionals, state);
+            }
+        }
+
+        // Every if must be closed within the same file
+        for (const frame of conditionals) {
+            errors.push({
+                lineNumber: frame.lineNumber,
+                message: 'Missing :endif',
+                raw: frame.raw,
+                filePath
+            });
+        }
+
+        // So must a profile block
+        if (state.profile && state.profile.filePath === filePath) {
+            errors.push({
+                lineNumber: state.profile.lineNumber,
+                message: 'Missing :endprofile',
+                raw: state.profile.raw,
+                filePath
+            });
+            state.profile = undefined;
+        }
+    }
+
+    /**
+     * Parse one `|`-separated statement into the shared state
+     */
+    private processStatement(
+        line: string,
+        location: StatementLocation,
+        conditionals: ConditionalFrame[],
+        state: ParseState
+    ): void {
+        const { commands, errors, warnings } = state;
+        const { lineNumber, endLineNumber, raw, filePath } = location;
+
+        // Track if/elseif/else/endif blocks; skip commands in inactive branches
+        try {
+            if (this.processConditional(line, lineNumber, raw, conditionals)) {
+                return;
+            }
+        } catch (error) {
+            errors.push({
+                ...location,
+                message: error instanceof Error ? error.message : String(error)
+            });
+            return;
+        }
+        if (conditionals.some(frame => !frame.active)) {
+            return;
+        }
+
+        try {
+            if (this.processProfile(line, location, state)) {
+                return;
+            }
+
+            const command = this.parseLine(line, lineNumber);
+            command.endLineNumber = endLineNumber;
+            command.raw = raw;
+            command.filePath = filePath;
+            if (state.profile) {
+                command.profile = state.profile.name;
+            }
+            if (command.type === CommandType.COMMENT) {
+                return;
+            }
+
+            // Generate warning for unknown commands
+            if (command.type === CommandType.UNKNOWN) {
+                const cmdName = line.split(/\s+/)[0];
+                warnings.push({
+                    ...location,
+                    message: `Unknown command: ${cmdName}`
                 });
+                // Still add the command so it can be tracked
+                commands.push(command);
+                return;
+            }
+
+            // Expand sourced files in place
+            if (SOURCE_COMMAND_TYPES.includes(command.type)) {
+                this.processSourceCommand(command, state);
+                this.variables.setScript(filePath);
+                return;
+            }
+
+            // Run the commands built by execute in place
+            if (command.type === CommandType.EXECUTE) {
+                for (const statement of this.processExecuteCommand(line)) {
+                    this.processStatement(statement, location, conditionals, state);
+                }
+                return;
+            }
+
+            // Evaluate let/unlet so later lines can use the variables
+            if (LET_COMMAND_TYPES.includes(command.type)) {
+                this.processLetCommand(command, line);
+            }
+            commands.push(command);
+        } catch (error) {
+            errors.push({
+                ...location,
+                message: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+
+    /**
+     * Handle a `profile name` / `endprofile` line
+     *
+     * Commands between them belong to the named keymap profile.
+     *
+     * @returns true if the line opened or closed a profile block
+     * @throws Error for nested or unbalanced blocks and invalid names
+     */
+    private processProfile(line: string, location: StatementLocation, state: ParseState): boolean {
+        const match = line.match(/^(profile|endprofile)(?![\w:])\s*(.*)$/i);
+        if (!match) {
+            return false;
+        }
+
+        const name = match[2].trim();
+        if (match[1].toLowerCase() === 'endprofile') {
+            if (!state.profile || state.profile.filePath !== location.filePath) {
+                throw new Error(':endprofile without :profile');
+            }
+            state.profile = undefined;
+            return true;
+        }
+
+        if (state.profile) {
+            throw new Error(`Nested :profile in profile ${state.profile.name}`);
+        }
+        if (!name) {
+            throw new Error('Missing profile name');
+        }
+        if (!/^[\w-]+$/.test(name)) {
+            throw new Error(`Invalid profile name: ${name}`);
+        }
+        state.profile = { name, lineNumber: location.lineNumber, raw: location.raw, filePath: location.filePath };
+        return true;
+    }
+
+    /**
+     * Handle a conditional line (if / elseif / else / endif)
+     *
+     * Conditions are only evaluated when the enclosing branch is active.
+     * A condition that fails to evaluate is reported and treated as false.
+     *
+     * @returns true if the line was a conditional keyword
+     * @throws Error for unbalanced blocks or invalid conditions
+     */
+    private processConditional(
+        line: string,
+        lineNumber: number,
+        raw: string,
+        conditionals: ConditionalFrame[]
+    ): boolean {
+        const match = line.match(/^([a-z]+)(?![\w:])(.*)$/i);
+        const keyword = match ? CONDITIONAL_KEYWORDS[match[1].toLowerCase()] : undefined;
+        if (!match || !keyword) {
+            return false;
+        }
+
+        const expression = match[2].trim();
+        const top = conditionals[conditionals.length - 1];
+        const enclosingActive = (frames: ConditionalFrame[]) => frames.every(frame => frame.active);
+
+        switch (keyword) {
+            case 'if': {
+                const parentActive = enclosingActive(conditionals);
+                const frame: ConditionalFrame = { lineNumber, raw, active: false, taken: true, elseSeen: false };
+                conditionals.push(frame);
+                if (parentActive) {
+                    frame.active = this.evaluateCondition(expression);
+                    frame.taken = frame.active;
+                }
+                return true;
+            }
+            case 'elseif': {
+                if (!top) throw new Error(':elseif without :if');
+                if (top.elseSeen) throw new Error(':elseif after :else');
+                top.active = false;
+                if (!top.taken && enclosingActive(conditionals.slice(0, -1))) {
+                    top.active = this.evaluateCondition(expression);
+                    top.taken = top.active;
+                }
+                return true;
             }
+            case 'else':
+                if (!top) throw new Error(':else without :if');
+                if (top.elseSeen) throw new Error('Multiple :else');
+                top.elseSeen = true;
+                top.active = !top.taken;
+                top.taken = true;
+                return true;
+            case 'endif':
+                if (!top) throw new Error(':endif without :if');
+                conditionals.pop();
+                return true;
         }
+    }
 
-        return { commands, errors, warnings };
+    /**
+     * Evaluate an if/elseif condition
+     *
+     * @throws Error when the condition is missing or invalid
+     */
+    private evaluateCondition(expression: string): boolean {
+        if (!expression) {
+            throw new Error('Missing condition');
+        }
+        return this.evaluator.evaluateCondition(expression);
+    }
+
+    /**
+     * Built-in predicates available in conditions
+     */
+    private createConditionFunctions(): Record<string, ExpressionFunction> {
+        const bool = (value: boolean): VimValue => (value ? 1 : 0);
+        return {
+            has: ([feature]) => bool(this.environment.features.includes(toStringValue(feature ?? '').toLowerCase())),
+            exists: ([name]) => bool(this.variables.has(toStringValue(name ?? ''))),
+            plugin_enabled: ([id]) => bool(this.environment.isPluginEnabled(toStringValue(id ?? ''))),
+            obsidian_version: () => this.environment.obsidianVersion,
+            vault_name: () => this.environment.vaultName,
+        };
+    }
+
+    /**
+     * Parse the file referenced by a source/runtime command into the shared state
+     *
+     * `source` reports missing files as errors; `runtime` silently skips them,
+     * matching Vim. Include cycles are reported against the including line.
+     */
+    private processSourceCommand(command: ParsedCommand, state: ParseState): void {
+        const name = command.type === CommandType.SOURCE ? 'source' : 'runtime';
+        const target = command.args.join(' ');
+
+        if (!target) {
+            throw new Error(`${name} requires a file path`);
+        }
+
+        const path = resolveSourcePath(target, command.filePath);
+
+        if (state.includeStack.includes(path)) {
+            const cycle = [...state.includeStack, path].join(' -> ');
+            throw new Error(`Recursive ${name} detected: ${cycle}`);
+        }
+
+        const content = state.readSource ? state.readSource(path) : null;
+        if (content === null) {
+            if (command.type === CommandType.SOURCE) {
+                throw new Error(`Cannot read sourced file: ${path}`);
+            }
+            return;
+        }
+
+        state.includeStack.push(path);
+        try {
+            this.parseContent(content, path, state);
+        } finally {
+            state.includeStack.pop();
+        }
     }
 
     /**
@@ -104,89 +942,30 @@ export class VimrcParser {
 
         const { command, args } = this.extractCommand(cleanLine);
 
-        // Determine command type
-        const commandUpper = command.toUpperCase();
-        let type: CommandType;
-
-        switch (commandUpper) {
-            case 'MAP':
-                type = CommandType.MAP;
-                break;
-            case 'NMAP':
-                type = CommandType.NMAP;
-                break;
-            case 'IMAP':
-                type = CommandType.IMAP;
-                break;
-            case 'VMAP':
-                type = CommandType.VMAP;
-                break;
-            case 'OMAP':
-                type = CommandType.OMAP;
-                break;
-            case 'NOREMAP':
-                type = CommandType.NOREMAP;
-                break;
-            case 'NNOREMAP':
-                type = CommandType.NNOREMAP;
-                break;
-            case 'INOREMAP':
-                type = CommandType.INOREMAP;
-                break;
-            case 'VNOREMAP':
-                type = CommandType.VNOREMAP;
-                break;
-            case 'ONOREMAP':
-                type = CommandType.ONOREMAP;
-                break;
-            case 'OBCOMMAND':
-                type = CommandType.OBCOMMAND;
-                break;
-            case 'EXMAP':
-                type = CommandType.EXMAP;
-                break;
-            // obmap commands - direct mapping to Obsidian commands
-            case 'OBMAP':
-                type = CommandType.OBMAP;
-                break;
-            case 'NOBMAP':
-                type = CommandType.NOBMAP;
-                break;
-            case 'IOBMAP':
-                type = CommandType.IOBMAP;
-                break;
-            case 'VOBMAP':
-                type = CommandType.VOBMAP;
-                break;
-            // unmap commands
-            case 'UNMAP':
-                type = CommandType.UNMAP;
-                break;
-            case 'NUNMAP':
-                type = CommandType.NUNMAP;
-                break;
-            case 'IUNMAP':
-                type = CommandType.IUNMAP;
-                break;
-            case 'VUNMAP':
-                type = CommandType.VUNMAP;
-                break;
-            case 'LET':
-                type = CommandType.LET;
-                break;
-            default:
-                type = CommandType.UNKNOWN;
+        // `verbose {command}` runs the command, listing where things were defined
+        if (/^verb(o(se?)?)?$/i.test(command) && args.length > 0) {
+            const parsed = this.parseLine(cleanLine.slice(command.length).trim(), lineNumber);
+            parsed.raw = line;
+            parsed.verbose = true;
+            return parsed;
         }
 
+        // Determine command type
+        const type = getCommandType(command);
+
         // Substitute variables in args
         const substitutedArgs = args.map(arg => this.substituteVariables(arg));
 
-        return {
+        const parsed: ParsedCommand = {
             type,
             args: substitutedArgs,
             lineNumber,
             raw: line
         };
+        if (command.endsWith('!')) {
+            parsed.bang = true;
+        }
+        return parsed;
     }
 
     /**
@@ -206,6 +985,12 @@ export class VimrcParser {
      * We need to be careful to preserve quoted string values
      */
     private removeInlineComment(line: string): string {
+        // Expressions handle their own string literals and trailing comments
+        const commandName = line.trimStart().split(/\s/)[0].toLowerCase();
+        if (EXPRESSION_MAPPING_PATTERN.test(line) || EXPRESSION_COMMANDS.has(commandName) || takesBarArgument(line)) {
+            return line.trim();
+        }
+
         // Track if we're inside a quoted string
         let inQuote = false;
         let quoteChar = '';
@@ -246,68 +1031,71 @@ export class VimrcParser {
     }
 
     /**
-     * Substitute variables in text (e.g., <leader>)
+     * Substitute <leader> and <localleader> with g:mapleader and g:maplocalleader
      */
     private substituteVariables(text: string): string {
         let result = text;
 
-        // Replace variables from the variables map
-        this.variables.forEach((value, key) => {
-            const placeholder = `<${key}>`;
-            result = result.replace(new RegExp(placeholder, 'g'), value);
-        });
+        const leaders: Array<[RegExp, string]> = [
+            [/<leader>/gi, 'g:mapleader'],
+            [/<localleader>/gi, 'g:maplocalleader'],
+        ];
+        for (const [pattern, name] of leaders) {
+            const value = this.variables.get(name);
+            if (value !== undefined && !isList(value) && !isDict(value)) {
+                const replacement = toStringValue(value);
+                result = result.replace(pattern, () => replacement);
+            }
+        }
 
         return result;
     }
 
     /**
-     * Process a let command and store the variable
-     * Handles formats like:
-     * - let mapleader = " "
-     * - let mapleader=" "
-     * - let mapleader = ","
+     * Evaluate a let/unlet statement against the variable store
+     *
+     * @param command - The parsed let/unlet command
+     * @param line - The statement as written, since expressions may contain quoted whitespace
+     * @throws Error on invalid statements
      */
-    private processLetCommand(command: ParsedCommand): void {
-        const args = command.args;
-        if (args.length === 0) {
+    private processLetCommand(command: ParsedCommand, line: string): void {
+        const [name] = line.match(/^\S+/) ?? [''];
+        const statement = line.slice(name.length);
+
+        if (command.type === CommandType.UNLET) {
+            executeUnlet(statement, this.variables, command.bang === true);
             return;
         }
+        executeLet(statement, this.variables, this.evaluator);
+    }
 
-        // Join args and parse the assignment
-        const assignmentStr = args.join(' ');
-        
-        // Match patterns like: varname = "value" or varname="value" or varname = value
-        // Use a more careful regex that captures content inside quotes including spaces
-        const quotedMatch = assignmentStr.match(/^(\w+)\s*=\s*["'](.*)["']$/);
-        const unquotedMatch = assignmentStr.match(/^(\w+)\s*=\s*(\S+)$/);
-        
-        const match = quotedMatch || unquotedMatch;
-        if (match) {
-            const varName = match[1];
-            const varValue = match[2];
-            
-            // Handle special case for mapleader
-            if (varName === 'mapleader') {
-                this.variables.set('leader', varValue);
-            }
-            
-            // Store the variable with its original name too
-            this.variables.set(varName, varValue);
-        }
+    /**
+     * Evaluate the arguments of an execute command into the statements to run
+     *
+     * Arguments are joined with a space, as in Vim; the result may contain
+     * several lines and `|`-separated commands.
+     */
+    private processExecuteCommand(line: string): string[] {
+        const [name] = line.match(/^\S+/) ?? [''];
+        const values = this.evaluator.evaluateAll(line.slice(name.length));
+        const text = values.map(value => toStringValue(value)).join(' ');
+        return text.split('\n').flatMap(statement => splitBarCommands(statement.trim()));
     }
 
     /**
      * Store a variable (e.g., from let command)
      */
-    setVariable(name: string, value: string): void {
+    setVariable(name: string, value: VimValue): void {
         this.variables.set(name, value);
     }
 
     /**
      * Get a variable value
+     *
+     * `leader` is accepted as an alias for `g:mapleader`.
      */
-    getVariable(name: string): string | undefined {
-        return this.variables.get(name);
+    getVariable(name: string): VimValue | undefined {
+        return this.variables.get(name === 'leader' ? 'g:mapleader' : name);
     }
 
     /**
@@ -0,0 +1,419 @@
+/**
+ * VimrcSyntax - Syntax of Vimrc Lines for Editing
+ *
+ * Splits vimrc lines into highlighted tokens and explains the mapping
+ * commands on a line, for the vimrc editor view:
+ * - command names the parser understands, including Vim's short forms
+ * - `if` / `else` / `endif`, `profile` / `endprofile` and `verbose`
+ * - map arguments (`<silent>`, `<buffer>`, ...) and `<...>` key notation
+ * - option names and values of `set`
+ * - strings, numbers and variables in expressions (`let`, `if`, `execute`)
+ * - full-line and inline comments
+ *
+ * @module services/VimrcSyntax
+ */
+
+import type { ParsedCommand, ParseResult } from '../types/commands';
+import {
+  CommandType as CT,
+  MAPCLEAR_COMMAND_TYPES,
+  MAPPING_COMMAND_TYPES,
+  NON_RECURSIVE_COMMAND_TYPES,
+  OBMAP_COMMAND_TYPES,
+  UNMAP_COMMAND_TYPES,
+} from '../types/commands';
+import type { ExpandableMapping } from '../types/mappings';
+import { MAP_MODIFIER_NAMES, VIM_MODE_LETTERS } from '../types/mappings';
+import { getMapMode, getUnmapMode, parseMapArguments } from '../handlers/MappingHandler';
+import { expandInModes } from './MappingExpander';
+import { normalizeKeys, readKeyNotation } from './KeyNotation';
+import { getCommandType } from './VimrcParser';
+
+/**
+ * Kind of a highlighted token
+ */
+export type VimrcTokenType =
+  | 'comment'
+  | 'command'
+  | 'keyword'
+  | 'modifier'
+  | 'key'
+  | 'option'
+  | 'string'
+  | 'number'
+  | 'variable'
+  | 'operator';
+
+/**
+ * A highlighted part of a line
+ */
+export interface VimrcToken {
+  /** Offset of the first character in the line */
+  from: number;
+  /** Offset after the last character */
+  to: number;
+  type: VimrcTokenType;
+}
+
+/**
+ * Keywords of conditionals, profile blocks and command modifiers
+ */
+const KEYWORD_PATTERN = /^(if|elsei(f)?|el(se?)?|en(d(if?)?)?|verb(o(se?)?)?|profile|endprofile)$/i;
+
+/**
+ * Commands whose arguments are expressions
+ */
+const EXPRESSION_TYPES: CT[] = [CT.LET, CT.UNLET, CT.EXECUTE];
+
+/**
+ * Commands that take the rest of the line, including `|`, as their argument
+ */
+const BAR_ARGUMENT_TYPES: CT[] = [CT.AUTOCMD, CT.COMMAND];
+
+/**
+ * Tokens of expressions; strings may be unterminated while typing
+ */
+const EXPRESSION_TOKENS: Array<{ pattern: RegExp; type: VimrcTokenType }> = [
+  { pattern: /^("(?:[^"\\]|\\.)*"?|'(?:[^']|'')*'?)/, type: 'string' },
+  { pattern: /^([gbwtslav]:[A-Za-z_][\w#]*|&[a-z]+)/, type: 'variable' },
+  { pattern: /^\d+(\.\d+)?/, type: 'number' },
+];
+
+/**
+ * Names of the modes in VIM_MODE_LETTERS
+ */
+const MODE_NAMES: Record<string, string> = {
+  n: 'Normal',
+  x: 'Visual',
+  s: 'Select',
+  o: 'Operator-pending',
+  i: 'Insert',
+  c: 'Command-line',
+  l: 'Lang-Arg',
+};
+
+/**
+ * Modes of each obmap command
+ */
+const OBMAP_MODE_LETTERS: Partial<Record<CT, string>> = {
+  [CT.OBMAP]: 'nxsi',
+  [CT.NOBMAP]: 'n',
+  [CT.IOBMAP]: 'i',
+  [CT.VOBMAP]: 'xs',
+};
+
+/**
+ * Map commands that define mappings (not unmap or mapclear)
+ */
+function isMapCommand(type: CT): boolean {
+  return MAPPING_COMMAND_TYPES.includes(type) && !UNMAP_COMMAND_TYPES.includes(type)
+    && !MAPCLEAR_COMMAND_TYPES.includes(type);
+}
+
+/**
+ * Describe mode letters, e.g. `Normal and Visual mode`
+ */
+function describeModes(letters: string): string {
+  const names = [...letters].map((letter) => MODE_NAMES[letter]);
+  const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+  return `${list} mode`;
+}
+
+/**
+ * Tokenizes one line
+ */
+class LineTokenizer {
+  private tokens: VimrcToken[] = [];
+  private pos = 0;
+
+  constructor(private line: string) {}
+
+  run(): VimrcToken[] {
+    this.skipSpace();
+    if (this.line[this.pos] === '"') {
+      this.add(this.pos, this.line.length, 'comment');
+      return this.tokens;
+    }
+    if (this.line[this.pos] === '\\') {
+      this.add(this.pos, this.pos + 1, 'operator');
+      this.pos++;
+      this.readArguments(this.line.length, false);
+      return this.tokens;
+    }
+    while (this.pos < this.line.length) {
+      this.readStatement();
+    }
+    return this.tokens;
+  }
+
+  /**
+   * Read one `|`-separated command
+   */
+  private readStatement(): void {
+    this.skipSpace();
+    while (this.line[this.pos] === ':') {
+      this.pos++;
+    }
+    const name = /^[A-Za-z]+!?/.exec(this.line.slice(this.pos))?.[0];
+    if (!name) {
+      this.pos = this.line.length;
+      return;
+    }
+
+    const start = this.pos;
+    this.pos += name.length;
+    const keyword = KEYWORD_PATTERN.test(name);
+    if (keyword && /^verb/i.test(name)) {
+      this.add(start, this.pos, 'keyword');
+      this.readStatement();
+      return;
+    }
+
+    const type = keyword ? CT.UNKNOWN : getCommandType(name);
+    if (keyword || type !== CT.UNKNOWN) {
+      this.add(start, this.pos, keyword ? 'keyword' : 'command');
+    }
+    if (keyword || EXPRESSION_TYPES.includes(type)) {
+      this.readExpression(this.findBar());
+    } else if (type === CT.SET) {
+      this.readOptions(this.findBar());
+    } else if (BAR_ARGUMENT_TYPES.includes(type)) {
+      this.readArguments(this.line.length, true);
+    } else {
+      this.readArguments(this.findBar(), true, MAPPING_COMMAND_TYPES.includes(type));
+    }
+    if (this.line[this.pos] === '|') {
+      this.add(this.pos, this.pos + 1, 'operator');
+      this.pos++;
+    }
+  }
+
+  /**
+   * Read plain arguments: key notation and an inline comment
+   *
+   * @param end - Offset where the arguments end
+   * @param comments - Whether `"` after whitespace starts a comment
+   * @param modifiers - Whether leading map arguments such as `<silent>` are allowed
+   */
+  private readArguments(end: number, comments: boolean, modifiers = false): void {
+    let leading = modifiers;
+    let inlineComments = comments;
+    while (this.pos < end) {
+      const char = this.line[this.pos];
+      if (inlineComments && char === '"' && /\s/.test(this.line[this.pos - 1] ?? '')) {
+        this.add(this.pos, this.line.length, 'comment');
+        this.pos = this.line.length;
+        return;
+      }
+      if (/\s/.test(char)) {
+        this.pos++;
+        continue;
+      }
+      const modifier = leading ? /^<([a-z]+)>/.exec(this.line.slice(this.pos)) : null;
+      if (modifier && (MAP_MODIFIER_NAMES as readonly string[]).includes(modifier[1])) {
+        // The right-hand side of an <expr> mapping is an expression with its own strings
+        inlineComments = inlineComments && modifier[1] !== 'expr';
+        this.add(this.pos, this.pos + modifier[0].length, 'modifier');
+        this.pos += modifier[0].length;
+        continue;
+      }
+      leading = false;
+      const length = char === '<' ? this.readKey(this.line.slice(this.pos, end)) : 0;
+      if (length > 0) {
+        this.add(this.pos, this.pos + length, 'key');
+        this.pos += length;
+      } else {
+        this.pos++;
+      }
+    }
+  }
+
+  /**
+   * Read the options of `set`
+   */
+  private readOptions(end: number): void {
+    const text = this.line.slice(0, end);
+    const pattern = /(\S+)/g;
+    pattern.lastIndex = this.pos;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      if (match[1].startsWith('"')) {
+        this.add(match.index, this.line.length, 'comment');
+        this.pos = this.line.length;
+        return;
+      }
+      const option = /^(?:no|inv)?([a-z]+)([+\-^]?=|[?&!])?(.*)$/.exec(match[1]);
+      if (option) {
+        const nameEnd = match.index + match[1].length - option[3].length - (option[2]?.length ?? 0);
+        this.add(match.index, nameEnd, 'option');
+        if (/^\d+$/.test(option[3])) {
+          this.add(match.index + match[1].length - option[3].length, match.index + match[1].length, 'number');
+        }
+      }
+    }
+    this.pos = end;
+  }
+
+  /**
+   * Read an expression: strings, numbers and variables
+   */
+  private readExpression(end: number): void {
+    while (this.pos < end) {
+      const rest = this.line.slice(this.pos, end);
+      const token = EXPRESSION_TOKENS.map(({ pattern, type }) => ({ match: pattern.exec(rest), type }))
+        .find(({ match }) => match);
+      if (token?.match) {
+        this.add(this.pos, this.pos + token.match[0].length, token.type);
+        this.pos += token.match[0].length;
+      } else {
+        this.pos += /^[A-Za-z_]\w*/.exec(rest)?.[0].length ?? 1;
+      }
+    }
+  }
+
+  /**
+   * Get the length of key notation at the start of text, 0 if there is none
+   */
+  private readKey(text: string): number {
+    // <leader> is replaced by the parser, not a key name
+    const leader = /^<(local)?leader>/i.exec(text);
+    if (leader) {
+      return leader[0].length;
+    }
+    try {
+      return readKeyNotation(text)?.length ?? 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Find the `|` ending the current command; `\|` does not end it
+   */
+  private findBar(): number {
+    for (let i = this.pos; i < this.line.length; i++) {
+      if (this.line[i] === '|' && this.line[i - 1] !== '\\') {
+        return i;
+      }
+    }
+    return this.line.length;
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.line[this.pos] ?? '')) {
+      this.pos++;
+    }
+  }
+
+  private add(from: number, to: number, type: VimrcTokenType): void {
+    if (to > from) {
+      this.tokens.push({ from, to, type });
+    }
+  }
+}
+
+/**
+ * Split a vimrc line into highlighted tokens
+ *
+ * Continuation lines (starting with `\`) are highlighted as arguments.
+ *
+ * @param line - One physical line
+ * @returns Tokens in order; text between them is not highlighted
+ */
+export function tokenizeVimrcLine(line: string): VimrcToken[] {
+  return new LineTokenizer(line).run();
+}
+
+/**
+ * Get the mappings a parse result defines, for expanding keys
+ */
+function getMappings(result: ParseResult): Map<ParsedCommand, ExpandableMapping> {
+  const mappings = new Map<ParsedCommand, ExpandableMapping>();
+  for (const command of result.commands) {
+    if (!isMapCommand(command.type)) {
+      continue;
+    }
+    const { modifiers, args } = parseMapArguments(command.args);
+    if (args.length < 2) {
+      continue;
+    }
+    try {
+      mappings.set(command, {
+        source: normalizeKeys(args[0]),
+        target: modifiers.expr ? args.slice(1).join(' ') : normalizeKeys(args.slice(1).join(' ')),
+        mode: getMapMode(command.type),
+        recursive: !NON_RECURSIVE_COMMAND_TYPES.includes(command.type),
+        modifiers,
+      });
+    } catch {
+      // Unknown key names are reported by the parser and the linter
+    }
+  }
+  return mappings;
+}
+
+/**
+ * Explain what a mapping command does
+ *
+ * Recursive mappings are expanded through the other mappings of the parse
+ * result, as MappingExpander does once they are loaded.
+ *
+ * @param command - Command to explain
+ * @param result - Parse result the command belongs to
+ * @param maxDepth - 'maxmapdepth' for expanding recursive mappings
+ * @returns Lines of explanation, or null for commands that are not mappings
+ */
+export function describeMapping(command: ParsedCommand, result: ParseResult, maxDepth?: number): string[] | null {
+  const { type, args } = command;
+
+  if (OBMAP_COMMAND_TYPES.includes(type) && args.length >= 2) {
+    return [`${args[0]} runs Obsidian command ${args[1]}`, describeModes(OBMAP_MODE_LETTERS[type] ?? 'n')];
+  }
+  if (type === CT.EXMAP && args.length >= 3) {
+    return [`:${args[0]} runs Obsidian command ${args[2]}`];
+  }
+  if (UNMAP_COMMAND_TYPES.includes(type) && args.length > 0) {
+    const { args: keys } = parseMapArguments(args);
+    return [`Removes the mapping of ${keys.join(' ')}`, describeModes(VIM_MODE_LETTERS[getUnmapMode(type)])];
+  }
+  if (!isMapCommand(type)) {
+    return null;
+  }
+
+  const { modifiers, args: mapArgs } = parseMapArguments(args);
+  const mode = getMapMode(type);
+  if (mapArgs.length < 2) {
+    const prefix = mapArgs[0] ? ` starting with ${mapArgs[0]}` : '';
+    return [`Lists the mappings${prefix}`, describeModes(VIM_MODE_LETTERS[mode])];
+  }
+
+  const recursive = !NON_RECURSIVE_COMMAND_TYPES.includes(type);
+  const flags = MAP_MODIFIER_NAMES.filter((name) => modifiers[name]).map((name) => `<${name}>`);
+  const lines = [
+    `${mapArgs[0]} → ${mapArgs.slice(1).join(' ')}`,
+    [describeModes(VIM_MODE_LETTERS[mode]), recursive ? 'remapped' : 'not remapped', ...flags].join(', '),
+  ];
+  if (modifiers.expr) {
+    lines.push('Types the value of the expression');
+    return lines;
+  }
+
+  const mappings = getMappings(result);
+  const mapping = mappings.get(command);
+  if (!mapping) {
+    return lines;
+  }
+  const others = [...mappings.values()].filter((other) => other !== mapping);
+  const expansion = expandInModes(mapping.source, mode, [...others, mapping], { maxDepth });
+  if (expansion.error) {
+    lines.push(expansion.error);
+    return lines;
+  }
+  if (expansion.steps.length > 1) {
+    lines.push(`Expands to ${expansion.keys}`);
+  }
+  for (const name of expansion.commands) {
+    lines.push(`Runs :${name}`);
+  }
+  return lines;
+}
@@ -0,0 +1,111 @@
+/**
+ * AbbreviationStore - Abbreviation Storage
+ *
+ * Stores abbreviations defined by `abbreviate`, `iabbrev`, `cabbrev`, ...
+ * the way MappingStore stores mappings:
+ * - Add, remove and clear abbreviations
+ * - Query by the mode they are used in
+ * - Event emission through EventBus
+ *
+ * @module stores/AbbreviationStore
+ */
+
+import type { IEventBus } from '../types/services';
+import type { Abbreviation, IAbbreviationStore } from '../types/mappings';
+import { VimMode, VIM_MODE_LETTERS } from '../types/mappings';
+import { EventType } from '../types/events';
+
+/**
+ * AbbreviationStore implementation
+ *
+ * Emits events when abbreviations are added, removed, or cleared.
+ */
+export class AbbreviationStore implements IAbbreviationStore {
+  /**
+   * Internal storage for abbreviations, keyed by ID
+   */
+  private abbreviations = new Map<string, Abbreviation>();
+
+  /**
+   * EventBus for emitting abbreviation events
+   */
+  private eventBus: IEventBus;
+
+  /**
+   * Create a new AbbreviationStore
+   *
+   * @param eventBus - EventBus for event emission
+   */
+  constructor(eventBus: IEventBus) {
+    this.eventBus = eventBus;
+  }
+
+  /**
+   * Add an abbreviation to the store
+   *
+   * @param abbreviation - The abbreviation to add
+   */
+  add(abbreviation: Abbreviation): void {
+    this.abbreviations.set(abbreviation.id, abbreviation);
+    this.eventBus.emit(EventType.ABBREVIATION_ADDED, { abbreviation });
+  }
+
+  /**
+   * Remove an abbreviation by ID
+   *
+   * @param id - The ID of the abbreviation to remove
+   * @returns true if the abbreviation was removed, false if not found
+   */
+  remove(id: string): boolean {
+    const abbreviation = this.abbreviations.get(id);
+    if (!abbreviation) {
+      return false;
+    }
+
+    this.abbreviations.delete(id);
+    this.eventBus.emit(EventType.ABBREVIATION_REMOVED, { abbreviation });
+    return true;
+  }
+
+  /**
+   * Get all abbreviations
+   *
+   * @returns Array of all stored abbreviations
+   */
+  getAll(): Abbreviation[] {
+    return Array.from(this.abbreviations.values());
+  }
+
+  /**
+   * Get the abbreviations used in a mode
+   *
+   * `abbreviate` abbreviations are used in both Insert and Command-line mode.
+   *
+   * @param mode - VimMode.INSERT or VimMode.COMMAND_LINE
+   * @returns Array of abbreviations used in the mode
+   */
+  getByMode(mode: VimMode): Abbreviation[] {
+    const letters = VIM_MODE_LETTERS[mode];
+    return this.getAll().filter((abbreviation) =>
+      [...VIM_MODE_LETTERS[abbreviation.mode]].some((letter) => letters.includes(letter))
+    );
+  }
+
+  /**
+   * Clear all abbreviations
+   */
+  clear(): void {
+    const count = this.abbreviations.size;
+    this.abbreviations.clear();
+    this.eventBus.emit(EventType.ABBREVIATIONS_CLEARED, { count });
+  }
+
+  /**
+   * Get the count of abbreviations
+   *
+   * @returns The number of stored abbreviations
+   */
+  count(): number {
+    return this.abbreviations.size;
+  }
+}
@@ -139,56 +139,6 @@ export interface CommandHandler {
     cleanup?(): void;
 }
 
-/**
- * Special key mappings from Vim notation to actual keys
- */
-export const SPECIAL_KEYS: Record<string, string> = {
-    '<CR>': '\n',
-    '<Enter>': '\n',
-    '<Return>': '\n',
-    '<Esc>': '\x1b',
-    '<Space>': ' ',
-    '<Tab>': '\t',
-    '<BS>': '\b',
-    '<Backspace>': '\b',
-    '<Del>': '\x7f',
-    '<Delete>': '\x7f',
-    '<Up>': 'ArrowUp',
-    '<Down>': 'ArrowDown',
-    '<Left>': 'ArrowLeft',
-    '<Right>': 'ArrowRight',
-    '<Home>': 'Home',
-    '<End>': 'End',
-    '<PageUp>': 'PageUp',
-    '<PageDown>': 'PageDown',
-    '<C-a>': 'Ctrl-a',
-    '<C-b>': 'Ctrl-b',
-    '<C-c>': 'Ctrl-c',
-    '<C-d>': 'Ctrl-d',
-    '<C-e>': 'Ctrl-e',
-    '<C-f>': 'Ctrl-f',
-    '<C-g>': 'Ctrl-g',
-    '<C-h>': 'Ctrl-h',
-    '<C-i>': 'Ctrl-i',
-    '<C-j>': 'Ctrl-j',
-    '<C-k>': 'Ctrl-k',
-    '<C-l>': 'Ctrl-l',
-    '<C-m>': 'Ctrl-m',
-    '<C-n>': 'Ctrl-n',
-    '<C-o>': 'Ctrl-o',
-    '<C-p>': 'Ctrl-p',
-    '<C-q>': 'Ctrl-q',
-    '<C-r>': 'Ctrl-r',
-    '<C-s>': 'Ctrl-s',
-    '<C-t>': 'Ctrl-t',
-    '<C-u>': 'Ctrl-u',
-    '<C-v>': 'Ctrl-v',
-    '<C-w>': 'Ctrl-w',
-    '<C-x>': 'Ctrl-x',
-    '<C-y>': 'Ctrl-y',
-    '<C-z>': 'Ctrl-z',
-};
-
 /**
  * Error types for different error scenarios
  */
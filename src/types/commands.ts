@@ -13,14 +13,24 @@ export enum CommandType {
   NMAP = 'nmap',
   IMAP = 'imap',
   VMAP = 'vmap',
+  XMAP = 'xmap',
+  SMAP = 'smap',
   OMAP = 'omap',
+  CMAP = 'cmap',
+  LMAP = 'lmap',
+  MAP_BANG = 'map!',
 
   // Non-recursive mapping commands
   NOREMAP = 'noremap',
   NNOREMAP = 'nnoremap',
   INOREMAP = 'inoremap',
   VNOREMAP = 'vnoremap',
+  XNOREMAP = 'xnoremap',
+  SNOREMAP = 'snoremap',
   ONOREMAP = 'onoremap',
+  CNOREMAP = 'cnoremap',
+  LNOREMAP = 'lnoremap',
+  NOREMAP_BANG = 'noremap!',
 
   // Obsidian-specific commands
   OBCOMMAND = 'obcommand',
@@ -37,9 +47,58 @@ export enum CommandType {
   NUNMAP = 'nunmap',
   IUNMAP = 'iunmap',
   VUNMAP = 'vunmap',
+  XUNMAP = 'xunmap',
+  SUNMAP = 'sunmap',
+  OUNMAP = 'ounmap',
+  CUNMAP = 'cunmap',
+  LUNMAP = 'lunmap',
+  UNMAP_BANG = 'unmap!',
+
+  // Mapclear commands
+  MAPCLEAR = 'mapclear',
+  NMAPCLEAR = 'nmapclear',
+  IMAPCLEAR = 'imapclear',
+  VMAPCLEAR = 'vmapclear',
+  XMAPCLEAR = 'xmapclear',
+  SMAPCLEAR = 'smapclear',
+  OMAPCLEAR = 'omapclear',
+  CMAPCLEAR = 'cmapclear',
+  LMAPCLEAR = 'lmapclear',
+  MAPCLEAR_BANG = 'mapclear!',
+
+  // Abbreviations
+  ABBREVIATE = 'abbreviate',
+  IABBREV = 'iabbrev',
+  CABBREV = 'cabbrev',
+  NOREABBREV = 'noreabbrev',
+  INOREABBREV = 'inoreabbrev',
+  CNOREABBREV = 'cnoreabbrev',
+  UNABBREVIATE = 'unabbreviate',
+  IUNABBREV = 'iunabbrev',
+  CUNABBREV = 'cunabbrev',
+  ABCLEAR = 'abclear',
+  IABCLEAR = 'iabclear',
+  CABCLEAR = 'cabclear',
 
   // Variable assignment
   LET = 'let',
+  UNLET = 'unlet',
+  EXECUTE = 'execute',
+
+  // Options
+  SET = 'set',
+
+  // Autocommands
+  AUTOCMD = 'autocmd',
+  AUGROUP = 'augroup',
+
+  // User-defined ex commands
+  COMMAND = 'command',
+  DELCOMMAND = 'delcommand',
+
+  // File inclusion
+  SOURCE = 'source',
+  RUNTIME = 'runtime',
 
   // Comments and unknown
   COMMENT = 'comment',
@@ -54,6 +113,18 @@ export interface ParsedCommand {
   args: string[];
   lineNumber: number;
   raw: string;
+  /** Last source line when the command spans continuation lines */
+  endLineNumber?: number;
+  /** Vault-relative path of the file the command came from */
+  filePath?: string;
+  /** Whether the command name was followed by `!` (e.g. `autocmd!`, `unlet!`) */
+  bang?: boolean;
+  /** Whether the command was prefixed with `verbose` (e.g. `verbose nmap`) */
+  verbose?: boolean;
+  /** Keymap profile the command belongs to (`profile name` ... `endprofile`) */
+  profile?: string;
+  /** Whether the command was typed on the Vim command line rather than read from a file */
+  interactive?: boolean;
 }
 
 /**
@@ -72,6 +143,10 @@ export interface ParseError {
   lineNumber: number;
   message: string;
   raw: string;
+  /** Last source line when the error spans continuation lines */
+  endLineNumber?: number;
+  /** Vault-relative path of the file the error belongs to */
+  filePath?: string;
 }
 
 /**
@@ -81,6 +156,42 @@ export interface ParseWarning {
   lineNumber: number;
   message: string;
   raw: string;
+  /** Last source line when the warning spans continuation lines */
+  endLineNumber?: number;
+  /** Vault-relative path of the file the warning belongs to */
+  filePath?: string;
+}
+
+/**
+ * Options for parsing vimrc content
+ */
+export interface ParseOptions {
+  /** Vault-relative path of the content being parsed */
+  filePath?: string;
+  /**
+   * Synchronously read a file referenced by `source` / `runtime`.
+   * Returns null when the file does not exist or cannot be read.
+   */
+  readSource?: (path: string) => string | null;
+  /**
+   * Keep variables from earlier parses instead of starting from a clean
+   * state, for commands run after the load (e.g. by autocommands)
+   */
+  keepVariables?: boolean;
+}
+
+/**
+ * Host environment queried by vimrc conditions (`has()`, `plugin_enabled()`, ...)
+ */
+export interface VimrcEnvironment {
+  /** Feature names reported by has(), e.g. 'mobile', 'desktop', 'mac' */
+  features: string[];
+  /** Obsidian app version, e.g. '1.5.12' */
+  obsidianVersion: string;
+  /** Name of the current vault */
+  vaultName: string;
+  /** Check whether a community plugin is enabled */
+  isPluginEnabled(id: string): boolean;
 }
 
 /**
@@ -154,6 +265,8 @@ export interface ObmapDefinition {
   commandId: string;
   mode: 'normal' | 'insert' | 'visual' | 'all';
   lineNumber: number;
+  /** Vault-relative path of the file the obmap was defined in */
+  filePath?: string;
 }
 
 /**
@@ -163,6 +276,19 @@ export interface ExmapDefinition {
   name: string;
   commandId: string;
   lineNumber: number;
+  /** Vault-relative path of the file the exmap was defined in */
+  filePath?: string;
+}
+
+/**
+ * An Obsidian command from `app.commands.commands`
+ */
+export interface ObsidianCommandInfo {
+  id: string;
+  /** Display name, e.g. 'Save current file' */
+  name: string;
+  /** Hotkeys assigned to the command, e.g. ['Mod+S'] */
+  hotkeys: string[];
 }
 
 /**
@@ -197,36 +323,124 @@ export interface IExmapProvider {
   executeObsidianCommand(commandId: string): Promise<boolean>;
 }
 
+/**
+ * Events autocommands can be registered for
+ */
+export type AutocmdEvent =
+  | 'InsertEnter'
+  | 'InsertLeave'
+  | 'ModeChanged'
+  | 'BufEnter'
+  | 'BufLeave'
+  | 'BufWritePost'
+  | 'FileType'
+  | 'VimrcLoaded';
+
+/** All supported autocommand events */
+export const AUTOCMD_EVENTS: AutocmdEvent[] = [
+  'InsertEnter',
+  'InsertLeave',
+  'ModeChanged',
+  'BufEnter',
+  'BufLeave',
+  'BufWritePost',
+  'FileType',
+  'VimrcLoaded',
+];
+
+/**
+ * Autocommand definition
+ */
+export interface AutocmdDefinition {
+  /** Group from `augroup`, or null for the default group */
+  group: string | null;
+  event: AutocmdEvent;
+  /** File glob, file type (FileType) or `old:new` mode pattern (ModeChanged) */
+  pattern: string;
+  /** Vimrc command line executed when the autocommand fires */
+  command: string;
+  /** Remove the autocommand after it first fires (`++once`) */
+  once: boolean;
+  lineNumber: number;
+  filePath?: string;
+}
+
+/**
+ * Provider interface for autocommand definitions
+ * Decouples VimrcLoader from AutocmdHandler implementation
+ */
+export interface IAutocmdProvider {
+  /**
+   * Get all registered autocommands
+   */
+  getAutocmds(): AutocmdDefinition[];
+
+  /**
+   * Remove all autocommands and detach their event hooks
+   */
+  clearAutocmds(): void;
+}
+
+/**
+ * Number of arguments a user command accepts (`-nargs`)
+ */
+export type UserCommandNargs = '0' | '1' | '*' | '?' | '+';
+
+/**
+ * User-defined ex command from `command!`
+ */
+export interface UserCommandDefinition {
+  /** Command name, starting with an uppercase letter */
+  name: string;
+  nargs: UserCommandNargs;
+  /**
+   * Range accepted (`-range`): null when no range is allowed, '.' for the
+   * current line, '%' for the whole file, or a default count (`-range=N`)
+   */
+  range: null | '.' | '%' | number;
+  /** Default count (`-count=N`), null without `-count` */
+  count: number | null;
+  /** Whether the command accepts `!` (`-bang`) */
+  bang: boolean;
+  /** Ex line, key sequence or Obsidian command with `<args>`-style placeholders */
+  replacement: string;
+  lineNumber: number;
+  filePath?: string;
+}
+
+/**
+ * Provider interface for user command definitions
+ * Decouples VimrcLoader from UserCommandHandler implementation
+ */
+export interface IUserCommandProvider {
+  /**
+   * Get all user-defined commands
+   */
+  getUserCommands(): UserCommandDefinition[];
+
+  /**
+   * Remove all user-defined commands
+   */
+  clearUserCommands(): void;
+}
+
 // ============================================
 // Command Type Constants
 // Centralized definitions for handler registration
 // ============================================
 
-/** All mapping command types (map, nmap, noremap, unmap, etc.) */
-export const MAPPING_COMMAND_TYPES: CommandType[] = [
-  CommandType.MAP,
-  CommandType.NMAP,
-  CommandType.IMAP,
-  CommandType.VMAP,
-  CommandType.OMAP,
-  CommandType.NOREMAP,
-  CommandType.NNOREMAP,
-  CommandType.INOREMAP,
-  CommandType.VNOREMAP,
-  CommandType.ONOREMAP,
-  CommandType.UNMAP,
-  CommandType.NUNMAP,
-  CommandType.IUNMAP,
-  CommandType.VUNMAP,
-];
-
 /** Non-recursive mapping command types */
 export const NON_RECURSIVE_COMMAND_TYPES: CommandType[] = [
   CommandType.NOREMAP,
   CommandType.NNOREMAP,
   CommandType.INOREMAP,
   CommandType.VNOREMAP,
+  CommandType.XNOREMAP,
+  CommandType.SNOREMAP,
   CommandType.ONOREMAP,
+  CommandType.CNOREMAP,
+  CommandType.LNOREMAP,
+  CommandType.NOREMAP_BANG,
 ];
 
 /** Unmap command types */
@@ -235,6 +449,59 @@ export const UNMAP_COMMAND_TYPES: CommandType[] = [
   CommandType.NUNMAP,
   CommandType.IUNMAP,
   CommandType.VUNMAP,
+  CommandType.XUNMAP,
+  CommandType.SUNMAP,
+  CommandType.OUNMAP,
+  CommandType.CUNMAP,
+  CommandType.LUNMAP,
+  CommandType.UNMAP_BANG,
+];
+
+/** Mapclear command types */
+export const MAPCLEAR_COMMAND_TYPES: CommandType[] = [
+  CommandType.MAPCLEAR,
+  CommandType.NMAPCLEAR,
+  CommandType.IMAPCLEAR,
+  CommandType.VMAPCLEAR,
+  CommandType.XMAPCLEAR,
+  CommandType.SMAPCLEAR,
+  CommandType.OMAPCLEAR,
+  CommandType.CMAPCLEAR,
+  CommandType.LMAPCLEAR,
+  CommandType.MAPCLEAR_BANG,
+];
+
+/** All mapping command types (map, nmap, noremap, unmap, mapclear, etc.) */
+export const MAPPING_COMMAND_TYPES: CommandType[] = [
+  CommandType.MAP,
+  CommandType.NMAP,
+  CommandType.IMAP,
+  CommandType.VMAP,
+  CommandType.XMAP,
+  CommandType.SMAP,
+  CommandType.OMAP,
+  CommandType.CMAP,
+  CommandType.LMAP,
+  CommandType.MAP_BANG,
+  ...NON_RECURSIVE_COMMAND_TYPES,
+  ...UNMAP_COMMAND_TYPES,
+  ...MAPCLEAR_COMMAND_TYPES,
+];
+
+/** Abbreviation command types (abbreviate, iabbrev, unabbreviate, abclear, etc.) */
+export const ABBREVIATION_COMMAND_TYPES: CommandType[] = [
+  CommandType.ABBREVIATE,
+  CommandType.IABBREV,
+  CommandType.CABBREV,
+  CommandType.NOREABBREV,
+  CommandType.INOREABBREV,
+  CommandType.CNOREABBREV,
+  CommandType.UNABBREVIATE,
+  CommandType.IUNABBREV,
+  CommandType.CUNABBREV,
+  CommandType.ABCLEAR,
+  CommandType.IABCLEAR,
+  CommandType.CABCLEAR,
 ];
 
 /** Obmap command types (direct Obsidian command mapping) */
@@ -251,8 +518,23 @@ export const EXMAP_COMMAND_TYPES: CommandType[] = [
   CommandType.OBCOMMAND,
 ];
 
-/** Let command types (variable assignment) */
-export const LET_COMMAND_TYPES: CommandType[] = [CommandType.LET];
+/** Let command types (variable assignment, evaluated by the parser) */
+export const LET_COMMAND_TYPES: CommandType[] = [CommandType.LET, CommandType.UNLET];
+
+/** Set command types (Vim options) */
+export const SET_COMMAND_TYPES: CommandType[] = [CommandType.SET];
+
+/** Autocommand command types */
+export const AUTOCMD_COMMAND_TYPES: CommandType[] = [CommandType.AUTOCMD, CommandType.AUGROUP];
+
+/** User command types (`command`, `delcommand`) */
+export const USER_COMMAND_TYPES: CommandType[] = [CommandType.COMMAND, CommandType.DELCOMMAND];
+
+/** Source command types (file inclusion, resolved by the parser) */
+export const SOURCE_COMMAND_TYPES: CommandType[] = [
+  CommandType.SOURCE,
+  CommandType.RUNTIME,
+];
 
 /** All Obsidian-specific executor command types */
 export const EXECUTOR_COMMAND_TYPES: CommandType[] = [
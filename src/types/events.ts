@@ -2,7 +2,7 @@
  * Event type definitions for the EventBus system
  */
 
-import type { KeyMapping } from './mappings';
+import type { Abbreviation, KeyMapping, MappingDiff } from './mappings';
 import type { VimrcSettings } from './settings';
 
 /**
@@ -22,12 +22,22 @@ export enum EventType {
   VIMRC_LOADED = 'vimrc:loaded',
   VIMRC_ERROR = 'vimrc:error',
 
+  // Keymap profile events
+  PROFILE_CHANGED = 'profile:changed',
+
   // Mapping events
   MAPPING_ADDED = 'mapping:added',
   MAPPING_REMOVED = 'mapping:removed',
   MAPPING_APPLIED = 'mapping:applied',
+  MAPPING_FAILED = 'mapping:failed',
   MAPPINGS_CLEARED = 'mappings:cleared',
   MAPPING_CONFLICT = 'mapping:conflict',
+  MAPPINGS_DIFFED = 'mappings:diffed',
+
+  // Abbreviation events
+  ABBREVIATION_ADDED = 'abbreviation:added',
+  ABBREVIATION_REMOVED = 'abbreviation:removed',
+  ABBREVIATIONS_CLEARED = 'abbreviations:cleared',
 
   // Error events
   ERROR_OCCURRED = 'error:occurred',
@@ -38,6 +48,17 @@ export enum EventType {
   VIM_UNAVAILABLE = 'vim:unavailable',
 }
 
+/**
+ * Error or warning reported while loading a vimrc file
+ */
+export interface LoadDiagnostic {
+  lineNumber: number;
+  message: string;
+  raw: string;
+  /** Vault-relative path of the file the diagnostic belongs to */
+  filePath?: string;
+}
+
 /**
  * Load result from vimrc processing
  */
@@ -45,8 +66,12 @@ export interface LoadResult {
   success: boolean;
   path: string | null;
   mappingCount: number;
-  errors: Array<{ lineNumber: number; message: string; raw: string }>;
-  warnings: Array<{ lineNumber: number; message: string; raw: string }>;
+  errors: LoadDiagnostic[];
+  warnings: LoadDiagnostic[];
+  /** Mappings changed in Vim, set by a reload */
+  diff?: MappingDiff;
+  /** Set when a reload kept the applied configuration because the new one has too many errors */
+  keptPrevious?: boolean;
 }
 
 /**
@@ -76,11 +101,19 @@ export interface EventPayloadMap {
   [EventType.VIMRC_LOADED]: LoadResult;
   [EventType.VIMRC_ERROR]: { error: Error; path: string };
 
+  [EventType.PROFILE_CHANGED]: { name: string | null; previous: string | null };
+
   [EventType.MAPPING_ADDED]: { mapping: KeyMapping };
   [EventType.MAPPING_REMOVED]: { mapping: KeyMapping };
   [EventType.MAPPING_APPLIED]: { mapping: KeyMapping };
+  [EventType.MAPPING_FAILED]: { mapping: KeyMapping; error: Error };
   [EventType.MAPPINGS_CLEARED]: { count: number };
   [EventType.MAPPING_CONFLICT]: MappingConflict;
+  [EventType.MAPPINGS_DIFFED]: MappingDiff;
+
+  [EventType.ABBREVIATION_ADDED]: { abbreviation: Abbreviation };
+  [EventType.ABBREVIATION_REMOVED]: { abbreviation: Abbreviation };
+  [EventType.ABBREVIATIONS_CLEARED]: { count: number };
 
   [EventType.ERROR_OCCURRED]: { error: Error; context: string; severity: string };
   [EventType.ERROR_RECOVERED]: { error: Error; context: string; strategy: string };
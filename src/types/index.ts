@@ -9,6 +9,7 @@ export * from './events';
 export * from './commands';
 export * from './mappings';
 export * from './settings';
+export * from './options';
 
 // Re-export service-related types
 export type { ServiceToken, ServiceFactory, IServiceContainer } from './services';
@@ -8,11 +8,40 @@
 export enum VimMode {
   NORMAL = 'normal',
   INSERT = 'insert',
+  /** Visual and Select mode (vmap) */
   VISUAL = 'visual',
+  /** Visual mode only (xmap) */
+  VISUAL_ONLY = 'visualOnly',
+  SELECT = 'select',
   OPERATOR_PENDING = 'operatorPending',
+  COMMAND_LINE = 'commandLine',
+  /** Insert and Command-line mode (map!) */
+  INSERT_COMMAND_LINE = 'insertCommandLine',
+  /** Language mappings (lmap), used in Insert and Command-line mode */
+  LANG_ARG = 'langArg',
+  /** Normal, Visual, Select and Operator-pending mode (map) */
   ALL = 'all',
 }
 
+/**
+ * Vim mode letters each VimMode covers, as shown by `:map`
+ *
+ * n: Normal, x: Visual, s: Select, o: Operator-pending, i: Insert,
+ * c: Command-line, l: Lang-Arg
+ */
+export const VIM_MODE_LETTERS: Record<VimMode, string> = {
+  [VimMode.NORMAL]: 'n',
+  [VimMode.INSERT]: 'i',
+  [VimMode.VISUAL]: 'xs',
+  [VimMode.VISUAL_ONLY]: 'x',
+  [VimMode.SELECT]: 's',
+  [VimMode.OPERATOR_PENDING]: 'o',
+  [VimMode.COMMAND_LINE]: 'c',
+  [VimMode.INSERT_COMMAND_LINE]: 'ic',
+  [VimMode.LANG_ARG]: 'l',
+  [VimMode.ALL]: 'nxso',
+};
+
 /**
  * Status of a key mapping
  */
@@ -23,6 +52,32 @@ export enum MappingStatus {
   REMOVED = 'removed',
 }
 
+/**
+ * Map arguments given before the left-hand side, e.g. `nnoremap <silent> ...`
+ */
+export interface MapModifiers {
+  /** Do not echo the command line while executing the mapping */
+  silent?: boolean;
+  /** Fire without waiting for longer mappings that start with the same keys */
+  nowait?: boolean;
+  /** Fail if a mapping for the same keys and mode already exists */
+  unique?: boolean;
+  /** Only active in the buffer (file) that was current when it was applied */
+  buffer?: boolean;
+  /** The right-hand side is an expression evaluated when the mapping fires */
+  expr?: boolean;
+}
+
+/**
+ * Map argument names accepted before the left-hand side
+ */
+export const MAP_MODIFIER_NAMES: ReadonlyArray<keyof MapModifiers> = ['silent', 'nowait', 'unique', 'buffer', 'expr'];
+
+/**
+ * Evaluates the right-hand side of an `<expr>` mapping to the keys to execute
+ */
+export type MappingExpressionEvaluator = (expression: string, context: { count: number }) => string;
+
 /**
  * Key mapping with metadata
  */
@@ -39,12 +94,18 @@ export interface KeyMapping {
   recursive: boolean;
   /** Line number in the vimrc file */
   lineNumber: number;
+  /** Vault-relative path of the file the mapping was defined in */
+  filePath?: string;
   /** Timestamp when the mapping was created */
   createdAt: number;
   /** Timestamp when the mapping was applied (if applicable) */
   appliedAt?: number;
   /** Current status of the mapping */
   status: MappingStatus;
+  /** Map arguments such as <silent> or <expr> */
+  modifiers?: MapModifiers;
+  /** File path a <buffer> mapping is bound to, set when first applied */
+  buffer?: string;
 }
 
 /**
@@ -140,54 +201,154 @@ export interface IMappingApplier {
    * Unapply all mappings
    */
   unapplyAll(): Promise<void>;
+
+  /**
+   * Switch the active buffer, swapping in its <buffer> mappings
+   */
+  setActiveBuffer(path: string | null): void;
+
+  /**
+   * Set the evaluator used by <expr> mappings
+   */
+  setExpressionEvaluator(evaluator: MappingExpressionEvaluator): void;
+
+  /**
+   * Hold back changes to global mappings from Vim until commitBatch()
+   */
+  beginBatch(): void;
+
+  /**
+   * Bring Vim in line with the mappings applied since beginBatch()
+   */
+  commitBatch(): Promise<MappingDiff>;
 }
 
 /**
- * Special key mappings from Vim notation to actual keys
- */
-export const SPECIAL_KEYS: Record<string, string> = {
-  '<CR>': '\n',
-  '<Enter>': '\n',
-  '<Return>': '\n',
-  '<Esc>': '\x1b',
-  '<Space>': ' ',
-  '<Tab>': '\t',
-  '<BS>': '\b',
-  '<Backspace>': '\b',
-  '<Del>': '\x7f',
-  '<Delete>': '\x7f',
-  '<Up>': 'ArrowUp',
-  '<Down>': 'ArrowDown',
-  '<Left>': 'ArrowLeft',
-  '<Right>': 'ArrowRight',
-  '<Home>': 'Home',
-  '<End>': 'End',
-  '<PageUp>': 'PageUp',
-  '<PageDown>': 'PageDown',
-  '<C-a>': 'Ctrl-a',
-  '<C-b>': 'Ctrl-b',
-  '<C-c>': 'Ctrl-c',
-  '<C-d>': 'Ctrl-d',
-  '<C-e>': 'Ctrl-e',
-  '<C-f>': 'Ctrl-f',
-  '<C-g>': 'Ctrl-g',
-  '<C-h>': 'Ctrl-h',
-  '<C-i>': 'Ctrl-i',
-  '<C-j>': 'Ctrl-j',
-  '<C-k>': 'Ctrl-k',
-  '<C-l>': 'Ctrl-l',
-  '<C-m>': 'Ctrl-m',
-  '<C-n>': 'Ctrl-n',
-  '<C-o>': 'Ctrl-o',
-  '<C-p>': 'Ctrl-p',
-  '<C-q>': 'Ctrl-q',
-  '<C-r>': 'Ctrl-r',
-  '<C-s>': 'Ctrl-s',
-  '<C-t>': 'Ctrl-t',
-  '<C-u>': 'Ctrl-u',
-  '<C-v>': 'Ctrl-v',
-  '<C-w>': 'Ctrl-w',
-  '<C-x>': 'Ctrl-x',
-  '<C-y>': 'Ctrl-y',
-  '<C-z>': 'Ctrl-z',
-};
+ * Changes a batch of mapping updates made to Vim, keyed by mode and left-hand side
+ */
+export interface MappingDiff {
+  /** Mappings of keys that were not mapped before */
+  added: KeyMapping[];
+  /** Mappings whose keys are no longer mapped */
+  removed: KeyMapping[];
+  /** Mappings that replaced a different mapping of the same keys */
+  changed: KeyMapping[];
+  /** Number of mappings that were already applied the same way */
+  unchanged: number;
+}
+
+/**
+ * Default of the 'maxmapdepth' option
+ */
+export const DEFAULT_MAX_MAP_DEPTH = 1000;
+
+/**
+ * The parts of a mapping that decide how keys expand
+ */
+export type ExpandableMapping = Pick<KeyMapping, 'source' | 'target' | 'mode' | 'recursive' | 'modifiers'>;
+
+/**
+ * One mapping applied while expanding keys
+ */
+export interface ExpansionStep<T extends ExpandableMapping = KeyMapping> {
+  mapping: T;
+  /** Keys the mapping replaced */
+  keys: string;
+  /** Keys it replaced them with; null for an <expr> mapping that could not be evaluated */
+  target: string | null;
+  /** Number of mappings applied before this one */
+  depth: number;
+}
+
+/**
+ * Result of expanding keys through mappings
+ */
+export interface MappingExpansion<T extends ExpandableMapping = KeyMapping> {
+  /** Keys left once no more mappings apply, in canonical notation */
+  keys: string;
+  /** Ex commands the keys run, e.g. `w` for `:w<CR>` */
+  commands: string[];
+  /** Mappings applied, in order */
+  steps: ExpansionStep<T>[];
+  /** E223 error when expansion stopped at 'maxmapdepth' */
+  error?: string;
+}
+
+/**
+ * Mapping expander interface
+ */
+export interface IMappingExpander {
+  /**
+   * Expand keys typed in a mode through the stored mappings
+   *
+   * @param buffer - File whose <buffer> mappings apply; none if omitted
+   */
+  expand(keys: string, mode: VimMode, buffer?: string | null): MappingExpansion;
+
+  /**
+   * Expand the keys of a mapping in each of its modes
+   *
+   * @returns The first expansion that fails, otherwise the first one
+   */
+  explain(mapping: KeyMapping): MappingExpansion;
+
+  /**
+   * Set the evaluator used to expand <expr> mappings
+   */
+  setExpressionEvaluator(evaluator: MappingExpressionEvaluator): void;
+}
+
+/**
+ * Abbreviation with metadata (`iabbrev`, `cabbrev`, ...)
+ */
+export interface Abbreviation {
+  /** Unique identifier for the abbreviation */
+  id: string;
+  /** Abbreviated text (left-hand side), as typed characters */
+  lhs: string;
+  /** Replacement (right-hand side) in Vim key notation */
+  rhs: string;
+  /** INSERT, COMMAND_LINE or INSERT_COMMAND_LINE (`abbreviate`) */
+  mode: VimMode;
+  /** Whether mappings apply to the right-hand side */
+  recursive: boolean;
+  /** Line number in the vimrc file */
+  lineNumber: number;
+  /** Timestamp when the abbreviation was created */
+  createdAt: number;
+}
+
+/**
+ * Abbreviation store interface
+ */
+export interface IAbbreviationStore {
+  /**
+   * Add an abbreviation to the store
+   */
+  add(abbreviation: Abbreviation): void;
+
+  /**
+   * Remove an abbreviation by ID
+   */
+  remove(id: string): boolean;
+
+  /**
+   * Get all abbreviations
+   */
+  getAll(): Abbreviation[];
+
+  /**
+   * Get the abbreviations used in a mode (INSERT or COMMAND_LINE)
+   */
+  getByMode(mode: VimMode): Abbreviation[];
+
+  /**
+   * Clear all abbreviations
+   */
+  clear(): void;
+
+  /**
+   * Get the count of abbreviations
+   */
+  count(): number;
+}
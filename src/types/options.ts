@@ -0,0 +1,50 @@
+/**
+ * Vim option type definitions
+ */
+
+/**
+ * Value type of a Vim option
+ */
+export type VimOptionType = 'boolean' | 'number' | 'string';
+
+/**
+ * Value of a Vim option
+ */
+export type VimOptionValue = boolean | number | string;
+
+/**
+ * Option supported by the `set` command
+ */
+export interface VimOptionDefinition {
+  /** Full option name */
+  name: string;
+  /** Short names, e.g. `ic` for `ignorecase` */
+  aliases: string[];
+  type: VimOptionType;
+  defaultValue: VimOptionValue;
+  /** String option holding a comma-separated list (`+=` / `-=` add and remove items) */
+  list?: boolean;
+}
+
+/**
+ * Options supported by the `set` command
+ */
+export const VIM_OPTIONS: VimOptionDefinition[] = [
+  { name: 'ignorecase', aliases: ['ic'], type: 'boolean', defaultValue: false },
+  { name: 'smartcase', aliases: ['scs'], type: 'boolean', defaultValue: false },
+  { name: 'hlsearch', aliases: ['hls'], type: 'boolean', defaultValue: false },
+  { name: 'incsearch', aliases: ['is'], type: 'boolean', defaultValue: false },
+  { name: 'tabstop', aliases: ['ts'], type: 'number', defaultValue: 8 },
+  { name: 'shiftwidth', aliases: ['sw'], type: 'number', defaultValue: 8 },
+  { name: 'textwidth', aliases: ['tw'], type: 'number', defaultValue: 80 },
+  { name: 'timeoutlen', aliases: ['tm'], type: 'number', defaultValue: 1000 },
+  { name: 'maxmapdepth', aliases: ['mmd'], type: 'number', defaultValue: 1000 },
+  { name: 'clipboard', aliases: ['cb'], type: 'string', defaultValue: '', list: true },
+];
+
+/**
+ * Find a supported option by full or short name
+ */
+export function findVimOption(name: string): VimOptionDefinition | undefined {
+  return VIM_OPTIONS.find((option) => option.name === name || option.aliases.includes(name));
+}
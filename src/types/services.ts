@@ -4,8 +4,9 @@
 
 import type { EventType, EventPayload, EventHandler, Unsubscribe } from './events';
 import type { VimrcSettings, IConfigManager } from './settings';
-import type { IMappingStore, IMappingApplier, VimMode, KeyMapping } from './mappings';
-import type { ICommandRegistry, ICommandHandler, ParsedCommand, ParseResult, IObmapProvider, IExmapProvider } from './commands';
+import type { IMappingStore, IMappingApplier, IMappingExpander, IAbbreviationStore, VimMode, KeyMapping, MappingDiff } from './mappings';
+import type { ICommandRegistry, ICommandHandler, ParsedCommand, ParseResult, ParseOptions, IObmapProvider, IExmapProvider } from './commands';
+import type { LoadDiagnostic } from './events';
 
 /**
  * Service token type - a branded symbol for type-safe dependency injection
@@ -149,10 +150,40 @@ export interface IVimAdapter {
    */
   defineEx(name: string, prefix: string, callback: ExCallback): void;
 
+  /**
+   * Give an ex command defined over one of CodeMirror Vim back to it
+   */
+  restoreBuiltinEx(name: string, prefix: string): void;
+
   /**
    * Map keys to a command
    */
   mapCommand(keys: string, type: string, name: string, args?: unknown, extra?: unknown): void;
+
+  /**
+   * Execute keys in an editor as if typed, optionally applying mappings
+   */
+  feedKeys(cm: unknown, keys: string, remap: boolean): void;
+
+  /**
+   * Execute an ex command line in an editor, e.g. `normal! gg` or `s/a/b/`
+   */
+  handleEx(cm: unknown, input: string): void;
+
+  /**
+   * Define a Vim option unless it already exists
+   */
+  defineOption(name: string, defaultValue: unknown, type: string, aliases?: string[]): void;
+
+  /**
+   * Set a global Vim option
+   */
+  setOption(name: string, value: unknown): void;
+
+  /**
+   * Get the global value of a Vim option
+   */
+  getOption(name: string): unknown;
 }
 
 /**
@@ -178,6 +209,11 @@ export interface IFileWatcher {
    * Set debounce delay for file change events
    */
   setDebounceDelay(ms: number): void;
+
+  /**
+   * Get the watched paths
+   */
+  getWatchedPaths(): string[];
 }
 
 /**
@@ -187,8 +223,69 @@ export interface LoadResult {
   success: boolean;
   path: string | null;
   mappingCount: number;
-  errors: Array<{ lineNumber: number; message: string; raw: string }>;
-  warnings: Array<{ lineNumber: number; message: string; raw: string }>;
+  errors: LoadDiagnostic[];
+  warnings: LoadDiagnostic[];
+  /** Mappings changed in Vim, set by a reload */
+  diff?: MappingDiff;
+  /** Set when a reload kept the applied configuration because the new one has too many errors */
+  keptPrevious?: boolean;
+}
+
+/**
+ * Options of a vimrc reload
+ */
+export interface ReloadOptions {
+  /** Apply the new configuration whatever its errors */
+  force?: boolean;
+}
+
+/**
+ * Severity of a vimrc check diagnostic
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Range of vimrc text: 1-based lines, 0-based columns, end exclusive
+ */
+export interface DiagnosticRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+/**
+ * Edit that resolves a diagnostic
+ */
+export interface QuickFix {
+  /** Description of the edit, e.g. 'Use nnoremap' */
+  title: string;
+  /** Text to replace, in the file of the diagnostic */
+  range: DiagnosticRange;
+  replacement: string;
+}
+
+/**
+ * Problem found by checking a vimrc without applying it
+ */
+export interface VimrcDiagnostic {
+  severity: DiagnosticSeverity;
+  /** Stable identifier of the check, e.g. 'recursive-mapping' */
+  code: string;
+  message: string;
+  /** Vault-relative path of the file the problem is in */
+  filePath?: string;
+  range: DiagnosticRange;
+  quickFix?: QuickFix;
+}
+
+/**
+ * Result of checking a vimrc
+ */
+export interface CheckResult {
+  /** Checked vimrc file, or null if none was found */
+  path: string | null;
+  diagnostics: VimrcDiagnostic[];
 }
 
 /**
@@ -202,18 +299,113 @@ export interface IVimrcLoader {
 
   /**
    * Reload the vimrc file
+   *
+   * @param options - Reload options
    */
-  reload(): Promise<LoadResult>;
+  reload(options?: ReloadOptions): Promise<LoadResult>;
+
+  /**
+   * Reload with the vault vimrc replaced by the given content, without writing it
+   *
+   * @param content - Vimrc content
+   */
+  applyInMemory(content: string): Promise<LoadResult>;
 
   /**
    * Cleanup mappings and provider state
    */
   cleanup(): Promise<void>;
 
+  /**
+   * Execute a vimrc command line outside a load, e.g. the body of an autocmd
+   */
+  executeCommandLine(
+    line: string,
+    options?: { filePath?: string; buffer?: string; cm?: unknown }
+  ): Promise<LoadResult['errors']>;
+
   /**
    * Get the last load result
    */
   getLastResult(): LoadResult | null;
+
+  /**
+   * Check a vimrc file without applying it
+   *
+   * @param path - File to check; defaults to the vimrc file load() would use
+   */
+  check(path?: string): Promise<CheckResult>;
+
+  /**
+   * Write a vimrc file, or the embedded vimrc into the settings
+   *
+   * @param path - Vimrc file, or the embedded vimrc path
+   * @param content - New content
+   */
+  writeVimrc(path: string, content: string): Promise<void>;
+
+  /**
+   * Save an imported vimrc as the vimrc when there is none yet, otherwise
+   * next to it for review
+   *
+   * @param content - Converted vimrc
+   * @returns The written file, and whether it is the vimrc
+   */
+  saveImportedVimrc(content: string): Promise<{ path: string; isVimrc: boolean }>;
+
+  /**
+   * Apply the quick-fix of a check diagnostic to its file, then check again
+   *
+   * @param diagnostic - Diagnostic from check()
+   */
+  applyQuickFix(diagnostic: VimrcDiagnostic): Promise<CheckResult>;
+
+  /**
+   * Get every file read during the last load (main vimrc and sourced files)
+   */
+  getSourcedFiles(): string[];
+
+  /**
+   * Read every file a vimrc sources, for parsing it without loading it
+   *
+   * @returns Map of vault-relative path to content for every readable sourced file
+   */
+  readSourcedFiles(rootPath: string, rootContent: string): Promise<Map<string, string>>;
+
+  /**
+   * Apply the folder vimrc files of the active file's folders on top of the vimrc
+   *
+   * @param filePath - Path of the active file, or null
+   */
+  updateFolderOverlays(filePath: string | null): Promise<LoadResult['errors']>;
+
+  /**
+   * Get the folder vimrc files currently applied, outermost first
+   */
+  getFolderOverlays(): string[];
+
+  /**
+   * Get the vault files whose creation, change or deletion affects the
+   * configuration, whether or not they exist
+   */
+  getWatchedFiles(): string[];
+
+  /**
+   * Get the keymap profiles of the last load
+   */
+  getProfiles(): string[];
+
+  /**
+   * Get the active keymap profile, or null when none is active
+   */
+  getActiveProfile(): string | null;
+
+  /**
+   * Switch to another keymap profile, or to none with null
+   *
+   * @throws Error if the profile does not exist
+   */
+  switchProfile(name: string | null): Promise<LoadResult['errors']>;
 }
 
 /**
@@ -223,7 +415,16 @@ export interface IVimrcParser {
   /**
    * Parse vimrc content
    */
-  parse(content: string): ParseResult;
+  parse(content: string, options?: ParseOptions): ParseResult;
+
+  /**
+   * Evaluate an expression against the variables defined by the last parse
+   *
+   * @param expression - Expression source text
+   * @param variables - Extra variables such as `v:count`
+   * @returns The result as a string
+   */
+  evaluate(expression: string, variables?: Record<string, string | number>): string;
 }
 
 /**
@@ -303,6 +504,8 @@ export const ServiceTokens = {
   VimrcParser: Symbol('VimrcParser') as ServiceToken<IVimrcParser>,
   MappingStore: Symbol('MappingStore') as ServiceToken<IMappingStore>,
   MappingApplier: Symbol('MappingApplier') as ServiceToken<IMappingApplier>,
+  MappingExpander: Symbol('MappingExpander') as ServiceToken<IMappingExpander>,
+  AbbreviationStore: Symbol('AbbreviationStore') as ServiceToken<IAbbreviationStore>,
   CommandRegistry: Symbol('CommandRegistry') as ServiceToken<ICommandRegistry>,
   ObmapProvider: Symbol('ObmapProvider') as ServiceToken<IObmapProvider>,
   ExmapProvider: Symbol('ExmapProvider') as ServiceToken<IExmapProvider>,
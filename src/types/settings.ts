@@ -68,12 +68,41 @@ export const DEBUG_MODULE_INFO: Record<DebugModule, { name: string; desc: string
   statusBar: { name: 'Status Bar', desc: 'Vim mode status bar UI' },
 };
 
+/**
+ * Where the vault vimrc comes from: the vimrc file, the text embedded in
+ * the settings, or both with the embedded text applied after the file
+ */
+export type VimrcSource = 'file' | 'embedded' | 'both';
+
+/**
+ * Vimrc sources, for validating settings
+ */
+export const VIMRC_SOURCES: readonly VimrcSource[] = ['file', 'embedded', 'both'];
+
 /**
  * Plugin settings
  */
 export interface VimrcSettings {
   /** Path to the vimrc file relative to vault root */
   vimrcPath: string;
+  /** Whether the vimrc file, the embedded vimrc or both are loaded */
+  vimrcSource: VimrcSource;
+  /** Vimrc text kept in plugin data, for vaults where a dot-file is hard to create or sync */
+  embeddedVimrc: string;
+  /** Vimrc loaded before the vault vimrc: vault-relative or absolute (desktop); empty for global.vimrc in the plugin folder */
+  globalVimrcPath: string;
+  /** Whether .vimrc files in the active note's folders apply on top of the vimrc */
+  folderVimrc: boolean;
+  /** Vimrc files defining a keymap profile each, named after the file */
+  profileFiles: string[];
+  /** Name of the active keymap profile; empty for none */
+  activeProfile: string;
+  /** Whether a reload keeps the applied configuration when the new one has too many errors */
+  transactionalReload: boolean;
+  /** Number of errors a reload tolerates before keeping the applied configuration */
+  reloadErrorThreshold: number;
+  /** Number of successfully loaded vimrc versions kept in the load history; 0 for none */
+  loadHistorySize: number;
   /** Whether to show notification when vimrc is loaded */
   showLoadNotification: boolean;
   /** Enable debug mode for verbose logging */
@@ -97,6 +126,15 @@ export const DEFAULT_DEBUG_SETTINGS: DebugSettings = {
  */
 export const DEFAULT_SETTINGS: VimrcSettings = {
   vimrcPath: '.obsidian.vimrc',
+  vimrcSource: 'file',
+  embeddedVimrc: '',
+  globalVimrcPath: '',
+  folderVimrc: true,
+  profileFiles: [],
+  activeProfile: '',
+  transactionalReload: true,
+  reloadErrorThreshold: 0,
+  loadHistorySize: 10,
   showLoadNotification: false,
   debugMode: false,
   debug: { ...DEFAULT_DEBUG_SETTINGS },
@@ -181,6 +219,42 @@ export function normalizeSettings(settings: Partial<VimrcSettings>): VimrcSettin
       typeof settings.vimrcPath === 'string' && settings.vimrcPath.length > 0
         ? settings.vimrcPath
         : DEFAULT_SETTINGS.vimrcPath,
+    vimrcSource:
+      VIMRC_SOURCES.includes(settings.vimrcSource as VimrcSource)
+        ? settings.vimrcSource!
+        : DEFAULT_SETTINGS.vimrcSource,
+    embeddedVimrc:
+      typeof settings.embeddedVimrc === 'string'
+        ? settings.embeddedVimrc
+        : DEFAULT_SETTINGS.embeddedVimrc,
+    globalVimrcPath:
+      typeof settings.globalVimrcPath === 'string'
+        ? settings.globalVimrcPath
+        : DEFAULT_SETTINGS.globalVimrcPath,
+    folderVimrc:
+      typeof settings.folderVimrc === 'boolean'
+        ? settings.folderVimrc
+        : DEFAULT_SETTINGS.folderVimrc,
+    profileFiles:
+      Array.isArray(settings.profileFiles)
+        ? settings.profileFiles.filter((path) => typeof path === 'string' && path.length > 0)
+        : [...DEFAULT_SETTINGS.profileFiles],
+    activeProfile:
+      typeof settings.activeProfile === 'string'
+        ? settings.activeProfile
+        : DEFAULT_SETTINGS.activeProfile,
+    transactionalReload:
+      typeof settings.transactionalReload === 'boolean'
+        ? settings.transactionalReload
+        : DEFAULT_SETTINGS.transactionalReload,
+    reloadErrorThreshold:
+      Number.isInteger(settings.reloadErrorThreshold) && settings.reloadErrorThreshold! >= 0
+        ? settings.reloadErrorThreshold!
+        : DEFAULT_SETTINGS.reloadErrorThreshold,
+    loadHistorySize:
+      Number.isInteger(settings.loadHistorySize) && settings.loadHistorySize! >= 0
+        ? settings.loadHistorySize!
+        : DEFAULT_SETTINGS.loadHistorySize,
     showLoadNotification:
       typeof settings.showLoadNotification === 'boolean'
         ? settings.showLoadNotification
@@ -220,6 +294,45 @@ export function validateSettings(settings: unknown): string[] {
     }
   }
 
+  if (s.vimrcSource !== undefined && !VIMRC_SOURCES.includes(s.vimrcSource as VimrcSource)) {
+    errors.push(`vimrcSource must be one of ${VIMRC_SOURCES.join(', ')}`);
+  }
+
+  if (s.embeddedVimrc !== undefined && typeof s.embeddedVimrc !== 'string') {
+    errors.push('embeddedVimrc must be a string');
+  }
+
+  if (s.globalVimrcPath !== undefined && typeof s.globalVimrcPath !== 'string') {
+    errors.push('globalVimrcPath must be a string');
+  }
+
+  if (s.folderVimrc !== undefined && typeof s.folderVimrc !== 'boolean') {
+    errors.push('folderVimrc must be a boolean');
+  }
+
+  if (s.profileFiles !== undefined
+    && (!Array.isArray(s.profileFiles) || s.profileFiles.some((path) => typeof path !== 'string'))) {
+    errors.push('profileFiles must be an array of strings');
+  }
+
+  if (s.activeProfile !== undefined && typeof s.activeProfile !== 'string') {
+    errors.push('activeProfile must be a string');
+  }
+
+  if (s.transactionalReload !== undefined && typeof s.transactionalReload !== 'boolean') {
+    errors.push('transactionalReload must be a boolean');
+  }
+
+  if (s.reloadErrorThreshold !== undefined
+    && (!Number.isInteger(s.reloadErrorThreshold) || (s.reloadErrorThreshold as number) < 0)) {
+    errors.push('reloadErrorThreshold must be a non-negative integer');
+  }
+
+  if (s.loadHistorySize !== undefined
+    && (!Number.isInteger(s.loadHistorySize) || (s.loadHistorySize as number) < 0)) {
+    errors.push('loadHistorySize must be a non-negative integer');
+  }
+
   if (s.showLoadNotification !== undefined && typeof s.showLoadNotification !== 'boolean') {
     errors.push('showLoadNotification must be a boolean');
   }
@@ -0,0 +1,53 @@
+/**
+ * KeymapExportModal - Choice of the Keymap Export Format
+ *
+ * Lists the registered export targets (VSCodeVim, Neovim, ...) and writes
+ * the keymap in the chosen format to the vault root, numbering the file name
+ * rather than overwriting a file.
+ *
+ * @module ui/KeymapExportModal
+ */
+
+import { App, Notice, SuggestModal } from 'obsidian';
+import type { ExportTarget } from '../services/KeymapExporter';
+import { findFreeFileName } from '../services/VimrcLoader';
+
+/**
+ * Modal choosing an export target
+ */
+export class KeymapExportModal extends SuggestModal<ExportTarget> {
+  private targets: ExportTarget[];
+  private exportAs: (targetId: string) => string;
+
+  /**
+   * Create an export format chooser
+   *
+   * @param app - Obsidian app
+   * @param targets - Registered export targets
+   * @param exportAs - Exports the keymap in the format of a target
+   */
+  constructor(app: App, targets: ExportTarget[], exportAs: (targetId: string) => string) {
+    super(app);
+    this.targets = targets;
+    this.exportAs = exportAs;
+    this.emptyStateText = 'No export format found';
+    this.setPlaceholder('Export keymap as');
+  }
+
+  getSuggestions(query: string): ExportTarget[] {
+    const filter = query.toLowerCase();
+    return this.targets.filter((target) => target.name.toLowerCase().includes(filter));
+  }
+
+  renderSuggestion(target: ExportTarget, el: HTMLElement): void {
+    el.createEl('div', { text: target.name });
+    el.createEl('div', { text: target.fileName, cls: 'vimrc-mapping-list-detail' });
+  }
+
+  async onChooseSuggestion(target: ExportTarget): Promise<void> {
+    const { adapter } = this.app.vault;
+    const file = await findFreeFileName(target.fileName, (path) => adapter.exists(path));
+    await adapter.write(file, this.exportAs(target.id));
+    new Notice(`Keymap exported to ${file}`);
+  }
+}
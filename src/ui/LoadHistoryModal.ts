@@ -0,0 +1,142 @@
+/**
+ * LoadHistoryModal - Browsing and Restoring Vimrc Snapshots
+ *
+ * Lists the versions of the vimrc that loaded without errors, compares any
+ * two line by line, and restores one either by writing it back to its file
+ * or by applying it until the next reload.
+ *
+ * @module ui/LoadHistoryModal
+ */
+
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { diffLines } from '../services/LoadHistory';
+import type { LoadSnapshot } from '../services/LoadHistory';
+
+/**
+ * Restores snapshots
+ */
+export interface LoadHistoryCallbacks {
+  /** Write a snapshot back to its vimrc file and reload */
+  restore: (snapshot: LoadSnapshot) => Promise<void>;
+  /** Apply a snapshot without writing the file */
+  apply: (snapshot: LoadSnapshot) => Promise<void>;
+}
+
+/**
+ * Describe a snapshot in one line
+ */
+function describeSnapshot(snapshot: LoadSnapshot): string {
+  const time = new Date(snapshot.timestamp).toLocaleString();
+  const diff = snapshot.diff
+    ? ` (+${snapshot.diff.added.length} −${snapshot.diff.removed.length} ~${snapshot.diff.changed.length})`
+    : '';
+  return `${time} · ${snapshot.mappingCount} mapping(s)${diff}`;
+}
+
+/**
+ * Modal listing load history snapshots
+ */
+export class LoadHistoryModal extends Modal {
+  private snapshots: LoadSnapshot[];
+  private callbacks: LoadHistoryCallbacks;
+  /** Indexes of the compared snapshots, older one first */
+  private from: number;
+  private to = 0;
+
+  /**
+   * Create a load history browser
+   *
+   * @param app - Obsidian app
+   * @param snapshots - Snapshots, newest first
+   * @param callbacks - Restoring snapshots
+   */
+  constructor(app: App, snapshots: LoadSnapshot[], callbacks: LoadHistoryCallbacks) {
+    super(app);
+    this.snapshots = snapshots;
+    this.callbacks = callbacks;
+    this.from = Math.min(1, snapshots.length - 1);
+  }
+
+  onOpen(): void {
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Show the comparison and the snapshots
+   */
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText('Vimrc load history');
+
+    if (this.snapshots.length === 0) {
+      contentEl.createEl('p', { text: 'No vimrc has loaded without errors yet' });
+      return;
+    }
+
+    this.renderComparison(contentEl);
+
+    for (const snapshot of this.snapshots) {
+      new Setting(contentEl)
+        .setName(describeSnapshot(snapshot))
+        .setDesc(snapshot.path)
+        .addButton((button) => button
+          .setButtonText('Apply in memory')
+          .onClick(() => this.run(() => this.callbacks.apply(snapshot))))
+        .addButton((button) => button
+          .setButtonText('Write to file')
+          .setWarning()
+          .onClick(() => this.run(async () => {
+            await this.callbacks.restore(snapshot);
+            new Notice(`Restored ${snapshot.path} from ${new Date(snapshot.timestamp).toLocaleString()}`);
+          })));
+    }
+  }
+
+  /**
+   * Show the line changes between the two chosen snapshots
+   */
+  private renderComparison(containerEl: HTMLElement): void {
+    const chooser = (name: string, value: number, onChange: (index: number) => void) =>
+      new Setting(containerEl).setName(name).addDropdown((dropdown) => {
+        this.snapshots.forEach((snapshot, i) => dropdown.addOption(String(i), describeSnapshot(snapshot)));
+        dropdown.setValue(String(value));
+        dropdown.onChange((index) => {
+          onChange(Number(index));
+          this.render();
+        });
+      });
+    chooser('Compare', this.from, (index) => {
+      this.from = index;
+    });
+    chooser('With', this.to, (index) => {
+      this.to = index;
+    });
+
+    const changes = diffLines(this.snapshots[this.from].content, this.snapshots[this.to].content);
+    const output = containerEl.createDiv({ cls: 'vimrc-history-diff' });
+    if (changes.every((change) => change.type === 'same')) {
+      output.createDiv({ text: 'No differences' });
+    }
+    for (const change of changes) {
+      if (change.type === 'same') {
+        output.createDiv({ text: `  ${change.text}` });
+      } else {
+        const sign = change.type === 'added' ? '+' : '-';
+        output.createDiv({ text: `${sign} ${change.text}`, cls: `vimrc-history-${change.type}` });
+      }
+    }
+  }
+
+  /**
+   * Restore a snapshot and close
+   */
+  private async run(restore: () => Promise<void>): Promise<void> {
+    await restore();
+    this.close();
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * LoadNotices - Notices Reporting Vimrc Loads
+ *
+ * Shows the errors of a load, the load summary when load notifications are
+ * on, and for a reload kept back for its errors a notice offering to apply
+ * it anyway or to open the errors.
+ *
+ * @module ui/LoadNotices
+ */
+
+import { Notice } from 'obsidian';
+import type { LoadResult } from '../types/events';
+import type { IConfigManager } from '../types/settings';
+import { getLogger } from '../services/Logger';
+
+const log = getLogger('plugin');
+
+/**
+ * Configuration for LoadNotices
+ */
+export interface LoadNoticesConfig {
+  configManager: IConfigManager;
+  /** Reload applying the configuration whatever its errors */
+  onApplyAnyway: () => void;
+  /** Show the errors of a vimrc file, or of the vimrc when none is given */
+  onOpenErrors: (filePath?: string) => void;
+}
+
+/**
+ * Reporter of load results
+ */
+export class LoadNotices {
+  private configManager: IConfigManager;
+  private onApplyAnyway: () => void;
+  private onOpenErrors: (filePath?: string) => void;
+
+  constructor(config: LoadNoticesConfig) {
+    this.configManager = config.configManager;
+    this.onApplyAnyway = config.onApplyAnyway;
+    this.onOpenErrors = config.onOpenErrors;
+  }
+
+  /**
+   * Report a load or reload
+   */
+  report(result: LoadResult): void {
+    if (result.keptPrevious) {
+      this.showKeptPrevious(result);
+      return;
+    }
+    if (result.path) log.info(`Loaded from ${result.path}: ${result.mappingCount} mapping(s)`);
+    this.reportErrors(result.errors);
+    if (!this.configManager.getSettings().showLoadNotification || !result.success) return;
+    if (result.diff) {
+      const { added, removed, changed } = result.diff;
+      new Notice(`Vimrc reloaded: ${result.mappingCount} mapping(s) (+${added.length} −${removed.length} ~${changed.length})`);
+    } else {
+      new Notice(`Vimrc loaded: ${result.mappingCount} mapping(s)`);
+    }
+  }
+
+  /**
+   * Show a notice for each error, at its file and line
+   */
+  reportErrors(errors: LoadResult['errors']): void {
+    for (const error of errors) {
+      const location = error.filePath ? `${error.filePath}:${error.lineNumber}` : `line ${error.lineNumber}`;
+      new Notice(`Vimrc error (${location}): ${error.message}`);
+    }
+  }
+
+  /**
+   * Offer to apply a reload kept back for its errors, or to open them
+   */
+  private showKeptPrevious(result: LoadResult): void {
+    const notice = new Notice(createFragment((el) => {
+      el.createDiv({ text: `Vimrc has ${result.errors.length} error(s), kept the previous mappings` });
+      const actions = el.createDiv({ cls: 'vimrc-notice-actions' });
+      actions.createEl('button', { text: 'Apply anyway' }).addEventListener('click', () => {
+        notice.hide();
+        this.onApplyAnyway();
+      });
+      actions.createEl('button', { text: 'Open errors' }).addEventListener('click', () => {
+        notice.hide();
+        this.onOpenErrors(result.errors[0]?.filePath);
+      });
+    }), 0);
+  }
+}
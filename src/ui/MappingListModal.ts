@@ -0,0 +1,53 @@
+/**
+ * MappingListModal - Filterable Mapping Listing
+ *
+ * Shows the output of `:map`, `:nmap`, `:verbose map`, ... as a list that
+ * can be filtered by typing, one entry per mapping in Vim's `:map` format.
+ *
+ * @module ui/MappingListModal
+ */
+
+import { App, SuggestModal } from 'obsidian';
+import type { MappingListEntry } from '../services/MappingList';
+import { formatMappingListEntry } from '../services/MappingList';
+
+/**
+ * Modal listing mappings
+ */
+export class MappingListModal extends SuggestModal<MappingListEntry> {
+  private entries: MappingListEntry[];
+  private verbose: boolean;
+
+  /**
+   * Create a mapping listing
+   *
+   * @param app - Obsidian app
+   * @param entries - Entries to list, from buildMappingList
+   * @param verbose - Show where each mapping was defined
+   */
+  constructor(app: App, entries: MappingListEntry[], verbose: boolean) {
+    super(app);
+    this.entries = entries;
+    this.verbose = verbose;
+    this.limit = entries.length;
+    this.emptyStateText = 'No mapping found';
+    this.setPlaceholder('Filter mappings');
+  }
+
+  getSuggestions(query: string): MappingListEntry[] {
+    const filter = query.toLowerCase();
+    return this.entries.filter((entry) => formatMappingListEntry(entry, this.verbose).toLowerCase().includes(filter));
+  }
+
+  renderSuggestion(entry: MappingListEntry, el: HTMLElement): void {
+    const [line, ...details] = formatMappingListEntry(entry, this.verbose).split('\n');
+    el.createEl('code', { text: line, cls: 'vimrc-mapping-list-entry' });
+    for (const detail of details) {
+      el.createEl('div', { text: detail.trim(), cls: 'vimrc-mapping-list-detail' });
+    }
+  }
+
+  onChooseSuggestion(): void {
+    // Listing only; choosing an entry closes the modal
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * ProfileCommands - Commands Switching Keymap Profiles
+ *
+ * Adds a command switching to each keymap profile and one switching the
+ * profile off, each available only when it would change the profile.
+ * Profiles are only known after a load, so commands are added as loads
+ * find new profiles; commands of removed profiles stay hidden.
+ *
+ * @module ui/ProfileCommands
+ */
+
+import { Notice } from 'obsidian';
+import type { Plugin } from 'obsidian';
+import type { IEventBus, IVimrcLoader, LoadResult } from '../types/services';
+import { EventType } from '../types/events';
+
+/**
+ * Configuration for ProfileCommands
+ */
+export interface ProfileCommandsConfig {
+  plugin: Plugin;
+  eventBus: IEventBus;
+  loader: IVimrcLoader;
+  /** Report the errors of applying a profile */
+  onErrors: (errors: LoadResult['errors']) => void;
+}
+
+/**
+ * Switch-profile commands
+ */
+export class ProfileCommands {
+  private plugin: Plugin;
+  private eventBus: IEventBus;
+  private loader: IVimrcLoader;
+  private onErrors: (errors: LoadResult['errors']) => void;
+  private added = new Set<string>();
+
+  constructor(config: ProfileCommandsConfig) {
+    this.plugin = config.plugin;
+    this.eventBus = config.eventBus;
+    this.loader = config.loader;
+    this.onErrors = config.onErrors;
+  }
+
+  /**
+   * Add the switch-off command, and a command for each profile a load finds
+   */
+  initialize(): void {
+    this.plugin.addCommand({
+      id: 'switch-profile-off',
+      name: 'Switch off keymap profile',
+      checkCallback: (checking) => {
+        if (this.loader.getActiveProfile() === null) return false;
+        if (!checking) void this.switchProfile(null);
+        return true;
+      },
+    });
+    this.plugin.register(this.eventBus.on(EventType.VIMRC_LOADED, () => this.addProfileCommands()));
+  }
+
+  private addProfileCommands(): void {
+    for (const name of this.loader.getProfiles()) {
+      if (this.added.has(name)) continue;
+      this.added.add(name);
+      this.plugin.addCommand({
+        id: `switch-profile-${name}`,
+        name: `Switch to profile ${name}`,
+        checkCallback: (checking) => {
+          if (!this.loader.getProfiles().includes(name) || this.loader.getActiveProfile() === name) return false;
+          if (!checking) void this.switchProfile(name);
+          return true;
+        },
+      });
+    }
+  }
+
+  private async switchProfile(name: string | null): Promise<void> {
+    this.onErrors(await this.loader.switchProfile(name));
+    new Notice(name ? `Keymap profile: ${name}` : 'Keymap profile switched off');
+  }
+}
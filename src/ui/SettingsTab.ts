@@ -10,8 +10,14 @@
  */
 
 import { App, Notice, PluginSettingTab, Setting, Plugin } from 'obsidian';
-import type { IConfigManager, VimrcSettings, DebugModule } from '../types/settings';
+import { history, defaultKeymap, historyKeymap, indentWithTab } from '@codemirror/commands';
+import { EditorState } from '@codemirror/state';
+import { EditorView, keymap, lineNumbers } from '@codemirror/view';
+import type { IConfigManager, VimrcSettings, VimrcSource, DebugModule } from '../types/settings';
 import { DEBUG_MODULE_INFO } from '../types/settings';
+import { EMBEDDED_VIMRC_PATH, GLOBAL_VIMRC_FILE } from '../services/VimrcLoader';
+import { vimrcEditorExtensions } from './VimrcLanguage';
+import type { VimrcViewConfig } from './VimrcView';
 
 /**
  * Reload callback type for triggering vimrc reload
@@ -27,8 +33,15 @@ export interface SettingsTabConfig {
   configManager: IConfigManager;
   /** Optional callback to reload vimrc */
   onReload?: ReloadCallback;
+  /** Optional parsing and completion for editing the embedded vimrc */
+  vimrcEditor?: Omit<VimrcViewConfig, 'onSave'>;
 }
 
+/**
+ * Delay before writing the embedded vimrc to the settings, in milliseconds
+ */
+const EMBEDDED_SAVE_DELAY = 1000;
+
 /**
  * Settings tab for the Vimrc plugin
  *
@@ -40,8 +53,12 @@ export interface SettingsTabConfig {
 export class SettingsTab extends PluginSettingTab {
   private configManager: IConfigManager;
   private onReload?: ReloadCallback;
+  private vimrcEditor?: Omit<VimrcViewConfig, 'onSave'>;
   private unsubscribe?: () => void;
   private debugModulesContainer: HTMLElement | null = null;
+  private embeddedEditor: EditorView | null = null;
+  private embeddedSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  private embeddedChanged = false;
 
   /**
    * Create a new SettingsTab
@@ -54,6 +71,7 @@ export class SettingsTab extends PluginSettingTab {
     super(app, plugin);
     this.configManager = config.configManager;
     this.onReload = config.onReload;
+    this.vimrcEditor = config.vimrcEditor;
   }
 
   /**
@@ -85,6 +103,9 @@ export class SettingsTab extends PluginSettingTab {
       this.unsubscribe();
       this.unsubscribe = undefined;
     }
+    void this.reloadEmbeddedVimrc();
+    this.embeddedEditor?.destroy();
+    this.embeddedEditor = null;
   }
 
   /**
@@ -113,6 +134,103 @@ export class SettingsTab extends PluginSettingTab {
           })
       );
 
+    // Vimrc source setting
+    let embeddedEl: HTMLElement | null = null;
+    new Setting(containerEl)
+      .setName('Vimrc source')
+      .setDesc('Load the vimrc file, the vimrc embedded in the settings, or the file and then the embedded vimrc')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('file', 'File')
+          .addOption('embedded', 'Embedded')
+          .addOption('both', 'File, then embedded')
+          .setValue(settings.vimrcSource)
+          .onChange(async (value) => {
+            embeddedEl?.toggle(value !== 'file');
+            await this.updateSetting('vimrcSource', value as VimrcSource);
+          })
+      );
+    embeddedEl = this.renderEmbeddedVimrc(containerEl, settings);
+    embeddedEl.toggle(settings.vimrcSource !== 'file');
+
+    // Global vimrc setting
+    new Setting(containerEl)
+      .setName('Global vimrc file')
+      .setDesc(`Loaded before the vault vimrc. Vault-relative, or absolute on desktop (default: ${GLOBAL_VIMRC_FILE} in the plugin folder)`)
+      .addText((text) =>
+        text
+          .setPlaceholder(GLOBAL_VIMRC_FILE)
+          .setValue(settings.globalVimrcPath)
+          .onChange(async (value) => {
+            await this.updateSetting('globalVimrcPath', value);
+          })
+      );
+
+    // Folder vimrc setting
+    new Setting(containerEl)
+      .setName('Folder vimrc files')
+      .setDesc('Apply the mappings of .vimrc files in the folders of the active note on top of the vimrc')
+      .addToggle((toggle) =>
+        toggle.setValue(settings.folderVimrc).onChange(async (value) => {
+          await this.updateSetting('folderVimrc', value);
+        })
+      );
+
+    // Profile files setting
+    new Setting(containerEl)
+      .setName('Keymap profile files')
+      .setDesc('Vimrc files with the mappings of one keymap profile each, named after the file; one path per line')
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('vim/writing.vim\nvim/coding.vim')
+          .setValue(settings.profileFiles.join('\n'))
+          .onChange(async (value) => {
+            const paths = value.split('\n').map((path) => path.trim()).filter((path) => path.length > 0);
+            await this.updateSetting('profileFiles', paths);
+          })
+      );
+
+    // Transactional reload settings
+    new Setting(containerEl)
+      .setName('Keep mappings on reload errors')
+      .setDesc('When a changed vimrc has errors, keep the applied mappings until you choose to apply it anyway')
+      .addToggle((toggle) =>
+        toggle.setValue(settings.transactionalReload).onChange(async (value) => {
+          await this.updateSetting('transactionalReload', value);
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Reload error threshold')
+      .setDesc('Number of errors a changed vimrc may have and still be applied (default: 0)')
+      .addText((text) =>
+        text
+          .setPlaceholder('0')
+          .setValue(String(settings.reloadErrorThreshold))
+          .onChange(async (value) => {
+            const threshold = Number(value);
+            if (Number.isInteger(threshold) && threshold >= 0) {
+              await this.updateSetting('reloadErrorThreshold', threshold);
+            }
+          })
+      );
+
+    // Load history setting
+    new Setting(containerEl)
+      .setName('Load history size')
+      .setDesc('Number of vimrc versions that loaded without errors to keep for comparing and restoring; 0 keeps none (default: 10)')
+      .addText((text) =>
+        text
+          .setPlaceholder('10')
+          .setValue(String(settings.loadHistorySize))
+          .onChange(async (value) => {
+            const size = Number(value);
+            if (Number.isInteger(size) && size >= 0) {
+              await this.updateSetting('loadHistorySize', size);
+            }
+          })
+      );
+
     // Show load notification setting
     new Setting(containerEl)
       .setName('Show load notification')
@@ -134,6 +252,88 @@ export class SettingsTab extends PluginSettingTab {
       );
   }
 
+  /**
+   * Render the editor of the embedded vimrc, marking parse errors while typing
+   *
+   * @returns Element holding the setting and the editor
+   */
+  private renderEmbeddedVimrc(containerEl: HTMLElement, settings: VimrcSettings): HTMLElement {
+    const embeddedEl = containerEl.createDiv();
+    new Setting(embeddedEl)
+      .setName('Embedded vimrc')
+      .setDesc('Vimrc kept in the plugin settings, for vaults where a dot-file is hard to create or sync');
+
+    // Save the replaced editor's last changes before it goes
+    void this.saveEmbeddedVimrc();
+    this.embeddedEditor?.destroy();
+    const vimrcEditor = this.vimrcEditor;
+    this.embeddedEditor = new EditorView({
+      parent: embeddedEl.createDiv({ cls: 'vimrc-editor vimrc-embedded-editor' }),
+      state: EditorState.create({
+        doc: settings.embeddedVimrc,
+        extensions: [
+          lineNumbers(),
+          history(),
+          keymap.of([...defaultKeymap, ...historyKeymap, indentWithTab]),
+          EditorView.lineWrapping,
+          EditorView.updateListener.of((update) => {
+            if (update.docChanged) {
+              this.embeddedChanged = true;
+              this.scheduleEmbeddedSave();
+            }
+          }),
+          EditorView.domEventHandlers({
+            blur: () => {
+              void this.reloadEmbeddedVimrc();
+            },
+          }),
+          vimrcEditor
+            ? vimrcEditorExtensions({
+              filePath: EMBEDDED_VIMRC_PATH,
+              parse: (text) => vimrcEditor.parse(text, EMBEDDED_VIMRC_PATH),
+              getMaxMapDepth: vimrcEditor.getMaxMapDepth,
+              getCommands: vimrcEditor.getCommands,
+            })
+            : [],
+        ],
+      }),
+    });
+    return embeddedEl;
+  }
+
+  private scheduleEmbeddedSave(): void {
+    if (this.embeddedSaveTimer) clearTimeout(this.embeddedSaveTimer);
+    this.embeddedSaveTimer = setTimeout(() => {
+      void this.saveEmbeddedVimrc();
+    }, EMBEDDED_SAVE_DELAY);
+  }
+
+  /**
+   * Write pending changes of the embedded vimrc to the settings
+   */
+  private async saveEmbeddedVimrc(): Promise<void> {
+    if (!this.embeddedSaveTimer || !this.embeddedEditor) {
+      return;
+    }
+    clearTimeout(this.embeddedSaveTimer);
+    this.embeddedSaveTimer = null;
+    await this.updateSetting('embeddedVimrc', this.embeddedEditor.state.doc.toString());
+  }
+
+  /**
+   * Save the embedded vimrc and reload it, if it changed since the last reload
+   */
+  private async reloadEmbeddedVimrc(): Promise<void> {
+    if (!this.embeddedChanged) {
+      return;
+    }
+    this.embeddedChanged = false;
+    await this.saveEmbeddedVimrc();
+    if (this.onReload && this.configManager.getSettings().vimrcSource !== 'file') {
+      await this.onReload();
+    }
+  }
+
   /**
    * Render action buttons
    */
@@ -145,6 +345,8 @@ export class SettingsTab extends PluginSettingTab {
       .addButton((button) =>
         button.setButtonText('Reload').onClick(async () => {
           if (this.onReload) {
+            await this.saveEmbeddedVimrc();
+            this.embeddedChanged = false;
             await this.onReload();
             new Notice('Vimrc reloaded');
           } else {
@@ -1,9 +1,9 @@
 /**
  * VimModeStatusBar - Status Bar Vim Mode Display
  *
- * Displays the current Vim mode (Normal, Insert, Visual, Replace) in the
- * Obsidian status bar. Listens to CodeMirror Vim mode changes and updates
- * the display accordingly.
+ * Displays the current Vim mode (Normal, Insert, Visual, Replace) and the
+ * active keymap profile in the Obsidian status bar. Listens to CodeMirror
+ * Vim mode changes and updates the display accordingly.
  *
  * @module ui/VimModeStatusBar
  */
@@ -75,6 +75,7 @@ export class VimModeStatusBar {
   private configManager: IConfigManager;
   private statusBarEl: HTMLElement | null = null;
   private currentMode: VimModeType = 'normal';
+  private profile: string | null = null;
   private settingsUnsubscribe: (() => void) | null = null;
   private activeEditorChangeHandler: (() => void) | null = null;
   private currentEditor: CodeMirrorEditor | null = null;
@@ -244,7 +245,12 @@ export class VimModeStatusBar {
 
     // Add current mode class and update text
     this.statusBarEl.addClass(display.className);
-    this.statusBarEl.setText(display.text);
+    this.statusBarEl.setText(this.profile ? `${display.text} · ${this.profile}` : display.text);
+    if (this.profile) {
+      this.statusBarEl.setAttribute('aria-label', `Keymap profile: ${this.profile}`);
+    } else {
+      this.statusBarEl.removeAttribute('aria-label');
+    }
   }
 
   /**
@@ -264,6 +270,18 @@ export class VimModeStatusBar {
     }
   }
 
+  /**
+   * Show the active keymap profile next to the mode
+   *
+   * @param profile - Profile name, or null when no profile is active
+   */
+  setProfile(profile: string | null): void {
+    if (this.profile !== profile) {
+      this.profile = profile;
+      this.updateDisplay();
+    }
+  }
+
   /**
    * Clean up resources
    */
@@ -0,0 +1,93 @@
+/**
+ * VimrcCheckModal - Vimrc Check Results
+ *
+ * Lists the diagnostics of the "Check vimrc" command, one row per problem
+ * with its location, severity and code. Diagnostics with a quick-fix get a
+ * button that applies it and shows the results of checking again.
+ *
+ * @module ui/VimrcCheckModal
+ */
+
+import { App, Modal, Notice } from 'obsidian';
+import type { CheckResult, VimrcDiagnostic } from '../types/services';
+
+/**
+ * Applies the quick-fix of a diagnostic and checks the vimrc again
+ */
+export type QuickFixCallback = (diagnostic: VimrcDiagnostic) => Promise<CheckResult>;
+
+/**
+ * Open the diagnostics of a check, or tell that no vimrc file was found
+ *
+ * @param app - Obsidian app
+ * @param result - Result of VimrcLoader.check()
+ * @param applyFix - Called when a quick-fix button is clicked
+ */
+export function openCheckResult(app: App, result: CheckResult, applyFix: QuickFixCallback): void {
+  if (!result.path) {
+    new Notice('No vimrc file found');
+    return;
+  }
+  new VimrcCheckModal(app, result, applyFix).open();
+}
+
+/**
+ * Modal listing vimrc check diagnostics
+ */
+export class VimrcCheckModal extends Modal {
+  private result: CheckResult;
+  private applyFix: QuickFixCallback;
+
+  /**
+   * Create a check result listing
+   *
+   * @param app - Obsidian app
+   * @param result - Result of VimrcLoader.check()
+   * @param applyFix - Called when a quick-fix button is clicked
+   */
+  constructor(app: App, result: CheckResult, applyFix: QuickFixCallback) {
+    super(app);
+    this.result = result;
+    this.applyFix = applyFix;
+  }
+
+  onOpen(): void {
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Show the diagnostics of the current result
+   */
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText(`Check vimrc: ${this.result.path ?? 'no vimrc file'}`);
+
+    if (this.result.diagnostics.length === 0) {
+      contentEl.createEl('p', { text: 'No problems found' });
+      return;
+    }
+
+    for (const diagnostic of this.result.diagnostics) {
+      const row = contentEl.createDiv({ cls: `vimrc-check-diagnostic vimrc-check-${diagnostic.severity}` });
+      const { range } = diagnostic;
+      const location = `${diagnostic.filePath ?? ''}:${range.startLine}:${range.startColumn + 1}`;
+      row.createDiv({ text: `${diagnostic.severity} ${location} [${diagnostic.code}]`, cls: 'vimrc-check-location' });
+      row.createDiv({ text: diagnostic.message });
+
+      const { quickFix } = diagnostic;
+      if (quickFix) {
+        const button = row.createEl('button', { text: quickFix.title });
+        button.addEventListener('click', async () => {
+          button.disabled = true;
+          this.result = await this.applyFix(diagnostic);
+          this.render();
+        });
+      }
+    }
+  }
+}
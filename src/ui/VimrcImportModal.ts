@@ -0,0 +1,132 @@
+/**
+ * VimrcImportModal - Import of Other Vim Plugin Configurations
+ *
+ * Takes pasted obsidian-vimrc-support, IdeaVim or VSCodeVim configuration
+ * (the latter two usually live outside the vault), shows the converted vimrc
+ * with the report of lines that could not be translated, and saves it and
+ * opens it in the vimrc editor.
+ *
+ * @module ui/VimrcImportModal
+ */
+
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type { ImportFormat, ImportResult } from '../services/VimrcImporter';
+import { VIEW_TYPE_VIMRC } from './VimrcView';
+
+/**
+ * Converts and saves imported configurations
+ */
+export interface VimrcImportCallbacks {
+  /** Convert pasted content; the format is detected when undefined */
+  convert: (content: string, format: ImportFormat | undefined) => ImportResult;
+  /** Save a converted vimrc; returns the file and whether it is the vimrc */
+  save: (result: ImportResult) => Promise<{ path: string; isVimrc: boolean }>;
+}
+
+/**
+ * Names of the import formats
+ */
+const FORMAT_NAMES: Record<ImportFormat, string> = {
+  'obsidian-vimrc-support': 'obsidian-vimrc-support (.obsidian.vimrc)',
+  ideavim: 'IdeaVim (.ideavimrc)',
+  vscodevim: 'VSCodeVim (settings.json)',
+};
+
+/**
+ * Modal converting a pasted configuration into a vimrc
+ */
+export class VimrcImportModal extends Modal {
+  private callbacks: VimrcImportCallbacks;
+  private content = '';
+  private format: ImportFormat | undefined;
+
+  /**
+   * Create an import dialog
+   *
+   * @param app - Obsidian app
+   * @param callbacks - Conversion and saving
+   */
+  constructor(app: App, callbacks: VimrcImportCallbacks) {
+    super(app);
+    this.callbacks = callbacks;
+  }
+
+  onOpen(): void {
+    this.renderInput();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Ask for the configuration and its format
+   */
+  private renderInput(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText('Import vimrc');
+
+    new Setting(contentEl)
+      .setName('Format')
+      .addDropdown((dropdown) => {
+        dropdown.addOption('', 'Detect');
+        for (const [format, name] of Object.entries(FORMAT_NAMES)) {
+          dropdown.addOption(format, name);
+        }
+        dropdown.setValue(this.format ?? '');
+        dropdown.onChange((value) => {
+          this.format = (value || undefined) as ImportFormat | undefined;
+        });
+      });
+
+    const input = contentEl.createEl('textarea', {
+      cls: 'vimrc-import-input',
+      attr: { placeholder: 'Paste .obsidian.vimrc, .ideavimrc or settings.json content', rows: '14' },
+    });
+    input.value = this.content;
+    input.addEventListener('input', () => {
+      this.content = input.value;
+    });
+
+    new Setting(contentEl).addButton((button) => button
+      .setButtonText('Convert')
+      .setCta()
+      .onClick(() => this.renderResult(this.callbacks.convert(this.content, this.format))));
+  }
+
+  /**
+   * Show the converted vimrc and the lines that could not be translated
+   */
+  private renderResult(result: ImportResult): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText(`Import vimrc: ${FORMAT_NAMES[result.format]}`);
+
+    if (result.issues.length === 0) {
+      contentEl.createEl('p', { text: 'All lines were converted' });
+    }
+    for (const issue of result.issues) {
+      const row = contentEl.createDiv({ cls: `vimrc-check-diagnostic vimrc-check-${issue.severity}` });
+      row.createDiv({ text: `${issue.severity} line ${issue.lineNumber}: ${issue.raw}`, cls: 'vimrc-check-location' });
+      row.createDiv({ text: issue.message });
+    }
+
+    contentEl.createEl('pre', { text: result.content, cls: 'vimrc-import-output' });
+
+    new Setting(contentEl)
+      .addButton((button) => button
+        .setButtonText('Back')
+        .onClick(() => this.renderInput()))
+      .addButton((button) => button
+        .setButtonText('Save')
+        .setCta()
+        .onClick(async () => {
+          button.setDisabled(true);
+          const { path, isVimrc } = await this.callbacks.save(result);
+          new Notice(isVimrc ? `Imported into ${path}` : `Imported into ${path}; add "source ${path}" to your vimrc to use it`);
+          this.close();
+          await this.app.workspace.getLeaf(true).setViewState({ type: VIEW_TYPE_VIMRC, active: true, state: { file: path } });
+        }));
+  }
+}
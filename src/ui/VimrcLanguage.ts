@@ -0,0 +1,193 @@
+/**
+ * VimrcLanguage - CodeMirror 6 Language Mode for Vimrc Files
+ *
+ * Editor extensions for the vimrc view:
+ * - highlighting of the commands VimrcParser understands (see VimrcSyntax)
+ * - gutter markers and underlines for the parser's errors and warnings
+ * - hover text explaining the mappings on a line
+ * - completion of commands, Obsidian command IDs, keys, variables and
+ *   options (see VimrcCompletion)
+ *
+ * @module ui/VimrcLanguage
+ */
+
+import { autocompletion } from '@codemirror/autocomplete';
+import type { CompletionContext, CompletionResult } from '@codemirror/autocomplete';
+import { HighlightStyle, StreamLanguage, syntaxHighlighting } from '@codemirror/language';
+import { linter, lintGutter } from '@codemirror/lint';
+import type { Diagnostic } from '@codemirror/lint';
+import type { Extension, Text } from '@codemirror/state';
+import { hoverTooltip } from '@codemirror/view';
+import { tags } from '@lezer/highlight';
+import type { ObsidianCommandInfo, ParseResult } from '../types/commands';
+import { findLetVariables, getVimrcCompletions } from '../services/VimrcCompletion';
+import { describeMapping, tokenizeVimrcLine } from '../services/VimrcSyntax';
+import type { VimrcToken, VimrcTokenType } from '../services/VimrcSyntax';
+
+/**
+ * Options of the vimrc editor extensions
+ */
+export interface VimrcEditorOptions {
+  /** Vault-relative path of the edited file */
+  filePath: string;
+  /** Parse the document, reading the files it sources */
+  parse: (content: string) => Promise<ParseResult>;
+  /** Current 'maxmapdepth' for explaining recursive mappings */
+  getMaxMapDepth?: () => number | undefined;
+  /** Commands registered in Obsidian, for completing command IDs */
+  getCommands?: () => ObsidianCommandInfo[];
+}
+
+/**
+ * Stream parser style of each token type
+ */
+const TOKEN_STYLES: Record<VimrcTokenType, string> = {
+  comment: 'comment',
+  command: 'keyword',
+  keyword: 'controlKeyword',
+  modifier: 'modifier',
+  key: 'atom',
+  option: 'propertyName',
+  string: 'string',
+  number: 'number',
+  variable: 'variableName',
+  operator: 'operator',
+};
+
+/**
+ * Tokens of the line being read
+ */
+interface LineState {
+  tokens: VimrcToken[];
+}
+
+/**
+ * Vimrc language, highlighting one line at a time
+ */
+export const vimrcLanguage = StreamLanguage.define<LineState>({
+  name: 'vimrc',
+  startState: () => ({ tokens: [] }),
+  copyState: (state) => ({ tokens: state.tokens }),
+  token(stream, state) {
+    if (stream.sol()) {
+      state.tokens = tokenizeVimrcLine(stream.string);
+    }
+    const token = state.tokens.find((candidate) => candidate.to > stream.pos);
+    if (!token) {
+      stream.skipToEnd();
+      return null;
+    }
+    if (token.from > stream.pos) {
+      stream.pos = token.from;
+      return null;
+    }
+    stream.pos = token.to;
+    return TOKEN_STYLES[token.type];
+  },
+  languageData: {
+    commentTokens: { line: '"' },
+  },
+});
+
+/**
+ * Colors from Obsidian's code block theme
+ */
+const vimrcHighlightStyle = HighlightStyle.define([
+  { tag: tags.comment, color: 'var(--code-comment)', fontStyle: 'italic' },
+  { tag: tags.keyword, color: 'var(--code-keyword)' },
+  { tag: tags.controlKeyword, color: 'var(--code-keyword)', fontWeight: 'bold' },
+  { tag: tags.modifier, color: 'var(--code-tag)' },
+  { tag: tags.atom, color: 'var(--code-value)' },
+  { tag: tags.propertyName, color: 'var(--code-property)' },
+  { tag: tags.string, color: 'var(--code-string)' },
+  { tag: tags.number, color: 'var(--code-value)' },
+  { tag: tags.variableName, color: 'var(--code-function)' },
+  { tag: tags.operator, color: 'var(--code-operator)' },
+]);
+
+/**
+ * Convert the parser's problems in a file to editor diagnostics
+ *
+ * Problems in sourced files are left to the view of those files.
+ */
+function toDiagnostics(doc: Text, result: ParseResult, filePath: string): Diagnostic[] {
+  const problems = [
+    ...result.errors.map((problem) => ({ problem, severity: 'error' as const })),
+    ...result.warnings.map((problem) => ({ problem, severity: 'warning' as const })),
+  ];
+  return problems
+    .filter(({ problem }) => (problem.filePath ?? filePath) === filePath && problem.lineNumber <= doc.lines)
+    .map(({ problem, severity }) => {
+      const start = doc.line(problem.lineNumber);
+      const end = doc.line(Math.min(problem.endLineNumber ?? problem.lineNumber, doc.lines));
+      const indent = start.text.length - start.text.trimStart().length;
+      return { from: start.from + indent, to: end.to, severity, source: 'vimrc', message: problem.message };
+    });
+}
+
+/**
+ * Complete the text before the cursor
+ *
+ * Completions open while typing a word or `<`, and on an empty word only
+ * when requested with Ctrl-Space.
+ */
+function completeVimrc(context: CompletionContext, options: VimrcEditorOptions): CompletionResult | null {
+  const line = context.state.doc.lineAt(context.pos);
+  const lineBefore = line.text.slice(0, context.pos - line.from);
+  const result = getVimrcCompletions(lineBefore, {
+    getCommands: options.getCommands,
+    variables: findLetVariables(context.state.doc.toString()),
+  });
+  if (!result || (result.from === lineBefore.length && !context.explicit)) {
+    return null;
+  }
+  return { from: line.from + result.from, options: result.options, validFor: /^[\w<>:!#.-]*$/ };
+}
+
+/**
+ * Create the extensions of the vimrc editor
+ */
+export function vimrcEditorExtensions(options: VimrcEditorOptions): Extension[] {
+  const { filePath } = options;
+  let lastResult: ParseResult | null = null;
+
+  return [
+    vimrcLanguage,
+    syntaxHighlighting(vimrcHighlightStyle),
+    linter(async (view) => {
+      const doc = view.state.doc;
+      lastResult = await options.parse(doc.toString());
+      return toDiagnostics(doc, lastResult, filePath);
+    }, { delay: 500 }),
+    lintGutter(),
+    autocompletion({ override: [(context) => completeVimrc(context, options)] }),
+    hoverTooltip((view, pos) => {
+      const line = view.state.doc.lineAt(pos);
+      const descriptions = (lastResult?.commands ?? [])
+        .filter((command) => (command.filePath ?? filePath) === filePath
+          && command.lineNumber <= line.number && line.number <= (command.endLineNumber ?? command.lineNumber))
+        .map((command) => describeMapping(command, lastResult!, options.getMaxMapDepth?.()))
+        .filter((description): description is string[] => description !== null);
+      if (descriptions.length === 0) {
+        return null;
+      }
+      return {
+        pos: line.from,
+        end: line.to,
+        above: true,
+        create: () => {
+          const dom = document.createElement('div');
+          dom.className = 'vimrc-hover';
+          for (const description of descriptions) {
+            const entry = dom.appendChild(document.createElement('div'));
+            entry.className = 'vimrc-hover-entry';
+            for (const text of description) {
+              entry.appendChild(document.createElement('div')).textContent = text;
+            }
+          }
+          return { dom };
+        },
+      };
+    }),
+  ];
+}
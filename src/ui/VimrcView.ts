@@ -0,0 +1,149 @@
+/**
+ * VimrcView - Editor View for Vimrc Files
+ *
+ * Edits `.vimrc` and `.vim` files with the vimrc language mode: syntax
+ * highlighting, the parser's errors and warnings in the gutter and as
+ * underlines, hover text explaining mappings, and completion of commands,
+ * Obsidian command IDs, keys, variables and options. The file is read and
+ * written through the vault adapter, so dot-files such as `.obsidian.vimrc`
+ * that Obsidian does not list can be edited too.
+ *
+ * @module ui/VimrcView
+ */
+
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import type { ViewStateResult } from 'obsidian';
+import { history, defaultKeymap, historyKeymap, indentWithTab } from '@codemirror/commands';
+import { EditorState } from '@codemirror/state';
+import { EditorView, keymap, lineNumbers } from '@codemirror/view';
+import type { ObsidianCommandInfo, ParseResult } from '../types/commands';
+import { vimrcEditorExtensions } from './VimrcLanguage';
+
+/**
+ * View type of the vimrc editor
+ */
+export const VIEW_TYPE_VIMRC = 'vimrc-editor';
+
+/**
+ * Services the vimrc editor uses
+ */
+export interface VimrcViewConfig {
+  /** Parse vimrc content of a file, reading the files it sources */
+  parse: (content: string, filePath: string) => Promise<ParseResult>;
+  /** Current 'maxmapdepth' for explaining recursive mappings */
+  getMaxMapDepth?: () => number | undefined;
+  /** Commands registered in Obsidian, for completing command IDs */
+  getCommands?: () => ObsidianCommandInfo[];
+  /** Called after the file was written */
+  onSave?: (filePath: string) => void;
+}
+
+/**
+ * Delay before writing changes, in milliseconds
+ */
+const SAVE_DELAY = 1000;
+
+/**
+ * Editor view for one vimrc file, identified by the `file` view state
+ */
+export class VimrcView extends ItemView {
+  private config: VimrcViewConfig;
+  private filePath: string | null = null;
+  private editor: EditorView | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Create a vimrc editor
+   *
+   * @param leaf - Workspace leaf the view lives in
+   * @param config - Parsing and saving callbacks
+   */
+  constructor(leaf: WorkspaceLeaf, config: VimrcViewConfig) {
+    super(leaf);
+    this.config = config;
+    this.navigation = true;
+    this.icon = 'file-code';
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_VIMRC;
+  }
+
+  getDisplayText(): string {
+    return this.filePath?.split('/').pop() ?? 'vimrc';
+  }
+
+  getState(): Record<string, unknown> {
+    return { ...super.getState(), file: this.filePath };
+  }
+
+  async setState(state: unknown, result: ViewStateResult): Promise<void> {
+    const file = (state as { file?: unknown } | null)?.file;
+    if (typeof file === 'string' && file !== this.filePath) {
+      await this.open(file);
+    }
+    await super.setState(state, result);
+  }
+
+  protected async onClose(): Promise<void> {
+    await this.save();
+    this.editor?.destroy();
+    this.editor = null;
+  }
+
+  /**
+   * Show the contents of a file in a new editor
+   */
+  private async open(filePath: string): Promise<void> {
+    await this.save();
+    this.editor?.destroy();
+
+    const content = (await this.app.vault.adapter.exists(filePath)) ? await this.app.vault.adapter.read(filePath) : '';
+    this.filePath = filePath;
+    this.contentEl.empty();
+    this.contentEl.addClass('vimrc-editor');
+    this.editor = new EditorView({
+      parent: this.contentEl,
+      state: EditorState.create({
+        doc: content,
+        extensions: [
+          lineNumbers(),
+          history(),
+          keymap.of([...defaultKeymap, ...historyKeymap, indentWithTab]),
+          EditorView.lineWrapping,
+          EditorView.updateListener.of((update) => {
+            if (update.docChanged) {
+              this.scheduleSave();
+            }
+          }),
+          vimrcEditorExtensions({
+            filePath,
+            parse: (text) => this.config.parse(text, filePath),
+            getMaxMapDepth: this.config.getMaxMapDepth,
+            getCommands: this.config.getCommands,
+          }),
+        ],
+      }),
+    });
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      void this.save();
+    }, SAVE_DELAY);
+  }
+
+  /**
+   * Write pending changes to the file
+   */
+  private async save(): Promise<void> {
+    if (!this.saveTimer || !this.editor || !this.filePath) {
+      return;
+    }
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.app.vault.adapter.write(this.filePath, this.editor.state.doc.toString());
+    this.config.onSave?.(this.filePath);
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * MappingApplier Tests
+ */
+
+import { MappingApplier } from '../../src/appliers/MappingApplier';
+import { MappingStore } from '../../src/stores/MappingStore';
+import { EventBus } from '../../src/core/EventBus';
+import { EventType } from '../../src/types/events';
+import { MappingStatus, VimMode } from '../../src/types/mappings';
+import type { KeyMapping, MapModifiers } from '../../src/types/mappings';
+import type { ActionCallback, IVimAdapter } from '../../src/types/services';
+
+/**
+ * Create a VimAdapter double that records calls
+ */
+function createVimAdapter(): jest.Mocked<IVimAdapter> {
+  return {
+    isAvailable: jest.fn(() => true),
+    waitForReady: jest.fn(async () => {}),
+    map: jest.fn(),
+    noremap: jest.fn(),
+    unmap: jest.fn(),
+    mapclear: jest.fn(),
+    defineMotion: jest.fn(),
+    defineAction: jest.fn(),
+    defineOperator: jest.fn(),
+    defineEx: jest.fn(),
+    restoreBuiltinEx: jest.fn(),
+    mapCommand: jest.fn(),
+    feedKeys: jest.fn(),
+    handleEx: jest.fn(),
+    defineOption: jest.fn(),
+    setOption: jest.fn(),
+    getOption: jest.fn(),
+  };
+}
+
+let idCounter = 0;
+
+function createMapping(source: string, target: string, modifiers?: MapModifiers): KeyMapping {
+  return {
+    id: `mapping_${++idCounter}`,
+    source,
+    target,
+    mode: VimMode.NORMAL,
+    recursive: false,
+    lineNumber: 1,
+    createdAt: idCounter,
+    status: MappingStatus.PENDING,
+    modifiers,
+  };
+}
+
+describe('MappingApplier', () => {
+  let eventBus: EventBus;
+  let vimAdapter: jest.Mocked<IVimAdapter>;
+  let applier: MappingApplier;
+  let store: MappingStore;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    vimAdapter = createVimAdapter();
+    store = new MappingStore(eventBus);
+    applier = new MappingApplier(store, vimAdapter, eventBus);
+  });
+
+  describe('<silent>', () => {
+    it('should run a single ex command without the command line', async () => {
+      await applier.apply(createMapping('\\w', ':w<CR>', { silent: true }));
+
+      expect(vimAdapter.noremap).not.toHaveBeenCalled();
+      expect(vimAdapter.mapCommand).toHaveBeenCalledWith('\\w', 'keyToEx', '\\w', undefined, {
+        context: 'normal',
+        exArgs: { input: 'w' },
+      });
+    });
+
+    it('should fall back to a key mapping for other targets', async () => {
+      await applier.apply(createMapping('x', 'dd:w<CR>', { silent: true }));
+
+      expect(vimAdapter.noremap).toHaveBeenCalledWith('x', 'dd:w<CR>', VimMode.NORMAL);
+    });
+  });
+
+  describe('<expr>', () => {
+    function trigger(args: unknown = { repeat: 1, repeatIsExplicit: false }): void {
+      const [, callback] = vimAdapter.defineAction.mock.calls[0] as [string, ActionCallback];
+      callback({ editor: true }, args);
+    }
+
+    it('should evaluate the expression when triggered and feed the result', async () => {
+      const evaluator = jest.fn((_expression: string, { count }: { count: number }) => (count ? 'j' : 'gj'));
+      applier.setExpressionEvaluator(evaluator);
+      await applier.apply(createMapping('j', 'v:count ? "j" : "gj"', { expr: true }));
+
+      const [actionName] = vimAdapter.defineAction.mock.calls[0];
+      expect(vimAdapter.mapCommand).toHaveBeenCalledWith('j', 'action', actionName, undefined, { context: 'normal' });
+      expect(evaluator).not.toHaveBeenCalled();
+
+      trigger();
+      expect(vimAdapter.feedKeys).toHaveBeenLastCalledWith({ editor: true }, 'gj', false);
+
+      trigger({ repeat: 3, repeatIsExplicit: true });
+      expect(evaluator).toHaveBeenLastCalledWith('v:count ? "j" : "gj"', { count: 3 });
+      expect(vimAdapter.feedKeys).toHaveBeenLastCalledWith({ editor: true }, 'j', false);
+    });
+
+    it('should report evaluation errors', async () => {
+      const errors: Error[] = [];
+      eventBus.on(EventType.ERROR_OCCURRED, ({ error }) => {
+        errors.push(error);
+      });
+      applier.setExpressionEvaluator(() => {
+        throw new Error('Undefined variable: g:missing');
+      });
+      await applier.apply(createMapping('j', 'g:missing', { expr: true }));
+
+      trigger();
+
+      expect(errors.map((e) => e.message)).toEqual(['Undefined variable: g:missing']);
+      expect(vimAdapter.feedKeys).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('<buffer>', () => {
+    it('should only map keys while the bound buffer is active', async () => {
+      applier.setActiveBuffer('a.md');
+      await applier.apply(createMapping('x', 'dd', { buffer: true }));
+      expect(vimAdapter.noremap).toHaveBeenCalledWith('x', 'dd', VimMode.NORMAL);
+
+      applier.setActiveBuffer('b.md');
+      expect(vimAdapter.unmap).toHaveBeenCalledWith('x', VimMode.NORMAL);
+
+      vimAdapter.noremap.mockClear();
+      applier.setActiveBuffer('a.md');
+      expect(vimAdapter.noremap).toHaveBeenCalledWith('x', 'dd', VimMode.NORMAL);
+    });
+
+    it('should restore the global mapping it shadowed', async () => {
+      applier.setActiveBuffer('a.md');
+      await applier.apply(createMapping('x', 'global'));
+      await applier.apply(createMapping('x', 'local', { buffer: true }));
+      vimAdapter.noremap.mockClear();
+
+      applier.setActiveBuffer('b.md');
+
+      expect(vimAdapter.noremap).toHaveBeenCalledWith('x', 'global', VimMode.NORMAL);
+    });
+
+    it('should bind to the next active buffer when none is active', async () => {
+      const mapping = createMapping('x', 'dd', { buffer: true });
+      await applier.apply(mapping);
+      expect(vimAdapter.noremap).not.toHaveBeenCalled();
+
+      applier.setActiveBuffer('a.md');
+
+      expect(mapping.buffer).toBe('a.md');
+      expect(vimAdapter.noremap).toHaveBeenCalledWith('x', 'dd', VimMode.NORMAL);
+    });
+
+    it('should remove buffer mappings on unapplyAll', async () => {
+      applier.setActiveBuffer('a.md');
+      const mapping = createMapping('x', 'dd', { buffer: true });
+      await applier.apply(mapping);
+
+      await applier.unapplyAll();
+      vimAdapter.noremap.mockClear();
+      applier.setActiveBuffer('b.md');
+      applier.setActiveBuffer('a.md');
+
+      expect(mapping.status).toBe(MappingStatus.REMOVED);
+      expect(vimAdapter.noremap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recursion', () => {
+    function recursive(source: string, target: string): KeyMapping {
+      const mapping = { ...createMapping(source, target), recursive: true };
+      store.add(mapping);
+      return mapping;
+    }
+
+    it('should refuse mappings that expand past maxmapdepth', async () => {
+      const failures: string[] = [];
+      eventBus.on(EventType.MAPPING_FAILED, ({ mapping, error }) => {
+        failures.push(`${mapping.source}: ${error.message}`);
+      });
+      const j = recursive('j', 'k');
+      recursive('k', 'j');
+
+      await applier.applyAll();
+
+      expect(failures).toEqual([
+        'j: E223: recursive mapping: j -> k -> j',
+        'k: E223: recursive mapping: k -> j -> k',
+      ]);
+      expect(j.status).toBe(MappingStatus.FAILED);
+      expect(vimAdapter.map).not.toHaveBeenCalled();
+    });
+
+    it('should apply recursive mappings that end', async () => {
+      recursive('j', 'gj');
+      recursive('k', 'j');
+
+      await applier.applyAll();
+
+      expect(vimAdapter.map).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('applyAll', () => {
+    it('should roll back the mappings applied before one fails', async () => {
+      await applier.apply(createMapping('a', 'old'));
+      vimAdapter.noremap.mockClear();
+      vimAdapter.noremap.mockImplementation((lhs) => {
+        if (lhs === 'c') throw new Error('Vim refused c');
+      });
+      const added = createMapping('b', 'new');
+      store.add(createMapping('a', 'new'));
+      store.add(added);
+      store.add(createMapping('c', 'broken'));
+
+      await expect(applier.applyAll()).rejects.toThrow('Vim refused c');
+
+      expect(vimAdapter.noremap).toHaveBeenLastCalledWith('a', 'old', VimMode.NORMAL);
+      expect(vimAdapter.unmap).toHaveBeenCalledWith('b', VimMode.NORMAL);
+      expect(added.status).toBe(MappingStatus.PENDING);
+      expect(applier.isApplied('b', VimMode.NORMAL)).toBe(false);
+      expect(applier.getAppliedCount()).toBe(1);
+    });
+  });
+
+  describe('batch', () => {
+    it('should only touch Vim for added, removed and changed mappings', async () => {
+      await applier.apply(createMapping('a', 'same'));
+      await applier.apply(createMapping('b', 'old'));
+      await applier.apply(createMapping('c', 'gone'));
+      vimAdapter.noremap.mockClear();
+
+      applier.beginBatch();
+      await applier.unapplyAll();
+      await applier.apply(createMapping('a', 'same'));
+      await applier.apply(createMapping('b', 'new'));
+      await applier.apply(createMapping('d', 'added'));
+      expect(vimAdapter.unmap).not.toHaveBeenCalled();
+      expect(vimAdapter.noremap).not.toHaveBeenCalled();
+
+      const diff = await applier.commitBatch();
+
+      expect(diff.added.map((mapping) => mapping.source)).toEqual(['d']);
+      expect(diff.removed.map((mapping) => mapping.source)).toEqual(['c']);
+      expect(diff.changed.map((mapping) => mapping.source)).toEqual(['b']);
+      expect(diff.unchanged).toBe(1);
+      expect(vimAdapter.unmap.mock.calls).toEqual([['c', VimMode.NORMAL]]);
+      expect(vimAdapter.noremap.mock.calls).toEqual([['b', 'new', VimMode.NORMAL], ['d', 'added', VimMode.NORMAL]]);
+      expect(applier.isApplied('c', VimMode.NORMAL)).toBe(false);
+      expect(applier.getAppliedCount()).toBe(3);
+    });
+
+    it('should bring Vim back to the previous mappings when the commit fails', async () => {
+      const previous = createMapping('a', 'old');
+      await applier.apply(previous);
+      await applier.apply(createMapping('c', 'kept'));
+      vimAdapter.noremap.mockClear();
+      vimAdapter.noremap.mockImplementation((lhs) => {
+        if (lhs === 'b') throw new Error('Vim refused b');
+      });
+
+      applier.beginBatch();
+      await applier.unapplyAll();
+      await applier.apply(createMapping('a', 'new'));
+      const failing = createMapping('b', 'broken');
+      await applier.apply(failing);
+
+      await expect(applier.commitBatch()).rejects.toThrow('Vim refused b');
+      expect(vimAdapter.noremap.mock.calls).toEqual([
+        ['a', 'new', VimMode.NORMAL],
+        ['b', 'broken', VimMode.NORMAL],
+        ['c', 'kept', VimMode.NORMAL],
+        ['a', 'old', VimMode.NORMAL],
+      ]);
+      expect(vimAdapter.unmap.mock.calls).toEqual([['c', VimMode.NORMAL], ['b', VimMode.NORMAL]]);
+      expect(failing.status).toBe(MappingStatus.FAILED);
+      expect(previous.status).toBe(MappingStatus.APPLIED);
+      expect(applier.getAppliedCount()).toBe(2);
+    });
+
+    it('should leave keys held by an active buffer mapping alone', async () => {
+      applier.setActiveBuffer('a.md');
+      await applier.apply(createMapping('x', 'global'));
+      await applier.apply(createMapping('x', 'local', { buffer: true }));
+      vimAdapter.noremap.mockClear();
+
+      applier.beginBatch();
+      await applier.unapply(createMapping('x', 'global'));
+      await applier.apply(createMapping('x', 'changed'));
+      const diff = await applier.commitBatch();
+
+      expect(diff.changed.map((mapping) => mapping.target)).toEqual(['changed']);
+      expect(vimAdapter.noremap).not.toHaveBeenCalled();
+      applier.setActiveBuffer('b.md');
+      expect(vimAdapter.noremap).toHaveBeenCalledWith('x', 'changed', VimMode.NORMAL);
+    });
+  });
+});
@@ -56,6 +56,15 @@ describe('ConfigManager', () => {
     it('should load saved settings from persistence', async () => {
       const savedSettings: VimrcSettings = {
         vimrcPath: 'custom.vimrc',
+        vimrcSource: 'both',
+        embeddedVimrc: 'nmap j gj',
+        globalVimrcPath: '/home/user/.vimrc',
+        folderVimrc: false,
+        profileFiles: ['vim/writing.vim'],
+        activeProfile: 'writing',
+        transactionalReload: false,
+        reloadErrorThreshold: 3,
+        loadHistorySize: 5,
         showLoadNotification: true,
         debugMode: true,
         debug: {
@@ -119,8 +119,8 @@ nmap <leader>q :q<CR>
             // Verify leader was substituted
             const mappings = mappingStore.getAll();
             expect(mappings).toHaveLength(2);
-            expect(mappings[0].source).toBe(' w'); // Space + w
-            expect(mappings[1].source).toBe(' q'); // Space + q
+            expect(mappings[0].source).toBe('<Space>w');
+            expect(mappings[1].source).toBe('<Space>q');
         });
 
         it('should handle exmap commands with obcommand', async () => {
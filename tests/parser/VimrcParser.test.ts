@@ -2,7 +2,7 @@
  * Unit tests for VimrcParser
  */
 
-import { VimrcParser } from '../../src/services/VimrcParser';
+import { VimrcParser, resolveSourcePath, findSourcedPaths } from '../../src/services/VimrcParser';
 import { CommandType } from '../../src/types';
 
 describe('VimrcParser', () => {
@@ -78,6 +78,25 @@ imap jk <Esc>
             expect(result.commands[0].type).toBe(CommandType.NNOREMAP);
         });
 
+        it('should recognize the mode-specific map, unmap and mapclear commands', () => {
+            const names = ['xmap', 'smap', 'cmap', 'lmap', 'map!', 'cnoremap', 'noremap!', 'ounmap', 'cunmap', 'unmap!', 'nmapclear', 'mapclear!'];
+            const result = parser.parse(names.map((name) => `${name} a b`).join('\n'));
+            expect(result.commands.map((command) => command.type)).toEqual(names);
+        });
+
+        it('should recognize abbreviation commands by their short forms', () => {
+            const result = parser.parse(['ab', 'iab', 'cabbrev', 'inorea', 'una', 'cuna', 'abc', 'iabclear'].map((name) => `${name} a b`).join('\n'));
+            expect(result.commands.map((command) => command.type)).toEqual([
+                'abbreviate', 'iabbrev', 'cabbrev', 'inoreabbrev', 'unabbreviate', 'cunabbrev', 'abclear', 'iabclear',
+            ]);
+        });
+
+        it('should mark commands prefixed with verbose', () => {
+            const result = parser.parse('verb nmap <leader>w\nnmap a b');
+            expect(result.commands[0]).toMatchObject({ type: CommandType.NMAP, args: ['<leader>w'], verbose: true });
+            expect(result.commands[1].verbose).toBeUndefined();
+        });
+
         it('should recognize let command', () => {
             const result = parser.parse('let mapleader = " "');
             expect(result.commands[0].type).toBe(CommandType.LET);
@@ -176,4 +195,286 @@ imap jk <Esc>`;
             expect(result.errors).toHaveLength(0);
         });
     });
+
+    describe('Source Command', () => {
+        const files: Record<string, string> = {
+            'config/mappings.vim': 'nmap j gj\nsource ./leader.vim',
+            'config/leader.vim': 'nmap k gk\nbadcommand',
+            'loop/a.vim': 'source loop/b.vim',
+            'loop/b.vim': 'source ~/loop/a.vim',
+        };
+        const readSource = (path: string) => files[path] ?? null;
+
+        it('should resolve vault-relative and ~ paths', () => {
+            expect(resolveSourcePath('config/mappings.vim', '.obsidian.vimrc')).toBe('config/mappings.vim');
+            expect(resolveSourcePath('~/config/mappings.vim', 'a/b.vim')).toBe('config/mappings.vim');
+            expect(resolveSourcePath('./leader.vim', 'config/mappings.vim')).toBe('config/leader.vim');
+            expect(resolveSourcePath('../x.vim', 'config/sub/y.vim')).toBe('config/x.vim');
+        });
+
+        it('should expand sourced files in place', () => {
+            const vimrc = `nmap a b
+source config/mappings.vim
+nmap c d`;
+            const result = parser.parse(vimrc, { filePath: '.obsidian.vimrc', readSource });
+            expect(result.commands.map(c => c.args[0])).toEqual(['a', 'j', 'k', undefined, 'c']);
+            expect(result.commands[1].filePath).toBe('config/mappings.vim');
+            expect(result.commands[2].filePath).toBe('config/leader.vim');
+            expect(result.commands[4].filePath).toBe('.obsidian.vimrc');
+        });
+
+        it('should report warnings against the sourced file and line', () => {
+            const result = parser.parse('source config/mappings.vim', { filePath: '.obsidian.vimrc', readSource });
+            expect(result.warnings).toHaveLength(1);
+            expect(result.warnings[0].filePath).toBe('config/leader.vim');
+            expect(result.warnings[0].lineNumber).toBe(2);
+        });
+
+        it('should detect include cycles', () => {
+            const result = parser.parse('source loop/a.vim', { filePath: '.obsidian.vimrc', readSource });
+            expect(result.errors).toHaveLength(1);
+            expect(result.errors[0].message).toContain('.obsidian.vimrc -> loop/a.vim -> loop/b.vim -> loop/a.vim');
+            expect(result.errors[0].filePath).toBe('loop/b.vim');
+        });
+
+        it('should report missing files for source but not runtime', () => {
+            const result = parser.parse('source missing.vim\nruntime missing.vim', { readSource });
+            expect(result.errors).toHaveLength(1);
+            expect(result.errors[0].message).toContain('missing.vim');
+            expect(result.errors[0].lineNumber).toBe(1);
+        });
+
+        it('should find sourced paths in content', () => {
+            expect(findSourcedPaths('so a.vim\n" source b.vim\nruntime! ./c.vim', 'dir/x.vim'))
+                .toEqual(['a.vim', 'dir/c.vim']);
+        });
+    });
+
+    describe('Conditional Blocks', () => {
+        beforeEach(() => {
+            parser = new VimrcParser({
+                features: ['desktop', 'mac'],
+                obsidianVersion: '1.5.3',
+                vaultName: 'work',
+                isPluginEnabled: (id) => id === 'dataview',
+            });
+        });
+
+        const mappedKeys = (vimrc: string) => parser.parse(vimrc).commands.map(c => c.args[0]);
+
+        it('should take the first matching branch', () => {
+            const vimrc = `if has('mobile')
+nmap a 1
+elseif vault_name() == 'work'
+nmap b 2
+else
+nmap c 3
+endif`;
+            expect(mappedKeys(vimrc)).toEqual(['b']);
+        });
+
+        it('should fall through to else', () => {
+            expect(mappedKeys("if has('mobile')\nnmap a 1\nelse\nnmap c 3\nendif")).toEqual(['c']);
+        });
+
+        it('should evaluate the supported predicates', () => {
+            const vimrc = `let g:loaded = 1
+if exists('g:loaded') && !exists('g:missing')
+nmap a 1
+endif
+if plugin_enabled('dataview') && !plugin_enabled('calendar')
+nmap b 2
+endif
+if obsidian_version() >= '1.5' && obsidian_version() < '1.10'
+nmap c 3
+endif`;
+            expect(mappedKeys(vimrc)).toEqual(['g:loaded', 'a', 'b', 'c']);
+        });
+
+        it('should skip nested blocks inside inactive branches', () => {
+            const vimrc = `if has('mobile')
+if has('desktop')
+nmap a 1
+else
+nmap b 2
+endif
+else
+nmap c 3
+endif`;
+            expect(mappedKeys(vimrc)).toEqual(['c']);
+        });
+
+        it('should not evaluate conditions of skipped branches', () => {
+            const result = parser.parse("if 1\nnmap a 1\nelseif undefined_fn()\nnmap b 2\nendif");
+            expect(result.errors).toHaveLength(0);
+            expect(result.commands).toHaveLength(1);
+        });
+
+        it('should report unbalanced blocks', () => {
+            expect(parser.parse('endif').errors[0].message).toBe(':endif without :if');
+            expect(parser.parse('else').errors[0].message).toBe(':else without :if');
+            expect(parser.parse("if 1\nelse\nelse\nendif").errors[0].message).toBe('Multiple :else');
+
+            const unclosed = parser.parse("nmap a b\nif has('desktop')\nnmap c d");
+            expect(unclosed.errors).toHaveLength(1);
+            expect(unclosed.errors[0].message).toBe('Missing :endif');
+            expect(unclosed.errors[0].lineNumber).toBe(2);
+        });
+
+        it('should report invalid conditions with their line number', () => {
+            const result = parser.parse("nmap a b\nif unknown_fn()\nnmap c d\nendif");
+            expect(result.errors).toHaveLength(1);
+            expect(result.errors[0].lineNumber).toBe(2);
+            expect(result.commands.map(c => c.args[0])).toEqual(['a']);
+        });
+    });
+
+    describe('Profile Blocks', () => {
+        it('should assign the commands of a block and its sourced files to the profile', () => {
+            const result = parser.parse(
+                'nmap a 1\nprofile writing\nnmap b 2\nsource vim/extra.vim\nendprofile\nnmap d 4',
+                { readSource: () => 'nmap c 3' }
+            );
+
+            expect(result.errors).toHaveLength(0);
+            expect(result.commands.map(c => [c.args[0], c.profile])).toEqual([
+                ['a', undefined],
+                ['b', 'writing'],
+                ['c', 'writing'],
+                ['d', undefined],
+            ]);
+        });
+
+        it('should report unbalanced, nested and unnamed blocks', () => {
+            expect(parser.parse('endprofile').errors[0].message).toBe(':endprofile without :profile');
+            expect(parser.parse('profile').errors[0].message).toBe('Missing profile name');
+            expect(parser.parse('profile a b').errors[0].message).toBe('Invalid profile name: a b');
+            expect(parser.parse('profile a\nprofile b\nendprofile').errors[0].message).toBe('Nested :profile in profile a');
+
+            const unclosed = parser.parse('profile coding\nnmap a b');
+            expect(unclosed.errors.map(e => [e.lineNumber, e.message])).toEqual([[1, 'Missing :endprofile']]);
+        });
+    });
+
+    describe('Line Continuation and Bar Separation', () => {
+        it('should join continuation lines and keep the original location', () => {
+            const vimrc = `nmap a b
+nmap <leader>x
+    \\ :followLink<CR>
+nmap c d`;
+            const result = parser.parse(vimrc);
+            expect(result.commands).toHaveLength(3);
+            expect(result.commands[1].args).toEqual(['<leader>x', ':followLink<CR>']);
+            expect(result.commands[1].lineNumber).toBe(2);
+            expect(result.commands[1].endLineNumber).toBe(3);
+            expect(result.commands[1].raw).toBe('nmap <leader>x\n\\ :followLink<CR>');
+            expect(result.commands[2].lineNumber).toBe(4);
+        });
+
+        it('should skip comment lines inside a continuation', () => {
+            const result = parser.parse('nmap a\n"\\ target follows\n\\ b');
+            expect(result.commands).toHaveLength(1);
+            expect(result.commands[0].args).toEqual(['a', 'b']);
+            expect(result.commands[0].endLineNumber).toBe(3);
+        });
+
+        it('should split bar-separated commands on one line', () => {
+            const result = parser.parse('nmap x y | nmap z w\nnmap a b');
+            expect(result.commands.map(c => c.args)).toEqual([['x', 'y'], ['z', 'w'], ['a', 'b']]);
+            expect(result.commands[1].lineNumber).toBe(1);
+            expect(result.commands[1].raw).toBe('nmap x y | nmap z w');
+        });
+
+        it('should keep <Bar> and \\| as literal pipes', () => {
+            const result = parser.parse('nmap a x<Bar>y | nmap b x\\|y');
+            expect(result.commands.map(c => c.args)).toEqual([['a', 'x<Bar>y'], ['b', 'x|y']]);
+        });
+
+        it('should not split on bars inside strings or comments', () => {
+            const result = parser.parse('let g:sep = "a|b" | nmap a b " note | nmap c d');
+            expect(result.commands.map(c => c.args[0])).toEqual(['g:sep', 'a']);
+        });
+
+        it('should apply conditionals to bar-separated commands', () => {
+            const result = parser.parse("if has('mobile') | nmap a b | else | nmap c d | endif");
+            expect(result.errors).toHaveLength(0);
+            expect(result.commands.map(c => c.args[0])).toEqual(['c']);
+        });
+
+        it('should report errors at the first line of a joined command', () => {
+            const result = parser.parse('nmap a b\nsource\n\\ missing.vim');
+            expect(result.errors).toHaveLength(1);
+            expect(result.errors[0].lineNumber).toBe(2);
+            expect(result.errors[0].endLineNumber).toBe(3);
+        });
+    });
+
+    describe('Variables and execute', () => {
+        it('should make let variables readable by if conditions', () => {
+            const vimrc = `let g:use_arrows = 1 + 1
+if g:use_arrows == 2
+nmap a 1
+endif`;
+            const result = parser.parse(vimrc);
+            expect(result.errors).toEqual([]);
+            expect(result.commands.map(c => c.type)).toEqual([CommandType.LET, CommandType.NMAP]);
+        });
+
+        it('should interpolate variables through execute', () => {
+            const vimrc = `let s:keys = ['j', 'k']
+execute 'nnoremap' s:keys[0] 'g' . s:keys[0]`;
+            const result = parser.parse(vimrc);
+            expect(result.errors).toEqual([]);
+            expect(result.commands[1].type).toBe(CommandType.NNOREMAP);
+            expect(result.commands[1].args).toEqual(['j', 'gj']);
+        });
+
+        it('should run bar-separated commands built by execute', () => {
+            const result = parser.parse(`execute "nmap a 1 | nmap b 2"`);
+            expect(result.commands.map(c => c.args[0])).toEqual(['a', 'b']);
+        });
+
+        it('should unlet variables', () => {
+            const vimrc = `let g:flag = 1
+unlet g:flag
+if exists('g:flag')
+nmap a 1
+endif`;
+            const result = parser.parse(vimrc);
+            expect(result.errors).toEqual([]);
+            expect(result.commands.map(c => c.type)).toEqual([CommandType.LET, 'unlet']);
+        });
+
+        it('should report unlet of a missing variable unless forced', () => {
+            expect(parser.parse('unlet g:nope').errors[0].message).toContain('E108');
+            expect(parser.parse('unlet! g:nope').errors).toEqual([]);
+        });
+
+        it('should report invalid expressions', () => {
+            const result = parser.parse('let g:x = [1, 2');
+            expect(result.errors).toHaveLength(1);
+            expect(result.errors[0].lineNumber).toBe(1);
+        });
+
+        it('should substitute <leader> from g:mapleader', () => {
+            const result = parser.parse('let g:mapleader = "\\<Space>"\nnmap <Leader>w :w<CR>');
+            expect(result.commands[1].args[0]).toBe(' w');
+        });
+    });
+
+    describe('User commands', () => {
+        it('should keep | and " in the replacement of command', () => {
+            const result = parser.parse('command! -nargs=* Say echo "<args>" | nmap a b');
+            expect(result.commands).toHaveLength(1);
+            expect(result.commands[0].type).toBe('command');
+            expect(result.commands[0].bang).toBe(true);
+            expect(result.commands[0].args).toEqual(['-nargs=*', 'Say', 'echo', '"<args>"', '|', 'nmap', 'a', 'b']);
+        });
+
+        it('should split -bar commands at |', () => {
+            const result = parser.parse('com -bar Top normal! gg | nmap a b');
+            expect(result.commands.map(c => c.type)).toEqual(['command', CommandType.NMAP]);
+            expect(result.commands[0].args).toEqual(['-bar', 'Top', 'normal!', 'gg']);
+        });
+    });
 });
@@ -244,6 +244,10 @@ describe('MAPPING_COMMAND_TYPES', () => {
         expect(MAPPING_COMMAND_TYPES).toContain(CommandType.NNOREMAP);
         expect(MAPPING_COMMAND_TYPES).toContain(CommandType.INOREMAP);
         expect(MAPPING_COMMAND_TYPES).toContain(CommandType.VNOREMAP);
+        expect(MAPPING_COMMAND_TYPES).toContain(CommandType.CNOREMAP);
+        expect(MAPPING_COMMAND_TYPES).toContain(CommandType.NOREMAP_BANG);
+        expect(MAPPING_COMMAND_TYPES).toContain(CommandType.OUNMAP);
+        expect(MAPPING_COMMAND_TYPES).toContain(CommandType.MAPCLEAR);
     });
 });
 
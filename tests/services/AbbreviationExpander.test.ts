@@ -0,0 +1,147 @@
+/**
+ * AbbreviationExpander Tests
+ */
+
+import type { EditorView } from '@codemirror/view';
+import { AbbreviationExpander, findAbbreviation, isValidAbbreviation } from '../../src/services/AbbreviationExpander';
+import { AbbreviationStore } from '../../src/stores/AbbreviationStore';
+import { EventBus } from '../../src/core/EventBus';
+import { VimMode } from '../../src/types/mappings';
+import type { Abbreviation } from '../../src/types/mappings';
+import type { IVimAdapter } from '../../src/types/services';
+
+/**
+ * Create an abbreviation
+ */
+function abbreviation(lhs: string, rhs: string, mode: VimMode = VimMode.INSERT): Abbreviation {
+  return { id: `${mode}:${lhs}`, lhs, rhs, mode, recursive: true, lineNumber: 1, createdAt: 0 };
+}
+
+/**
+ * Create a single-line editor double with the cursor at the end
+ */
+function createView(text: string, insertMode = true) {
+  const view = {
+    text,
+    cursor: text.length,
+    cm: { state: { vim: { insertMode } } },
+    get state() {
+      return {
+        doc: { lineAt: () => ({ from: 0, text: view.text }) },
+        selection: { main: { from: view.cursor, to: view.cursor } },
+        replaceSelection: (insert: string) => ({
+          changes: { from: view.cursor, to: view.cursor, insert },
+          selection: { anchor: view.cursor + insert.length },
+        }),
+      };
+    },
+    dispatch: jest.fn((spec: { changes: { from: number; to: number; insert?: string }; selection: { anchor: number } }) => {
+      const { from, to, insert = '' } = spec.changes;
+      view.text = view.text.slice(0, from) + insert + view.text.slice(to);
+      view.cursor = spec.selection.anchor;
+    }),
+  };
+  return view;
+}
+
+/**
+ * Create a CodeMirror Vim prompt input holding a command line
+ */
+function createPrompt(value: string): HTMLInputElement {
+  const panel = document.createElement('div');
+  panel.className = 'cm-vim-panel';
+  const input = document.createElement('input');
+  panel.appendChild(input);
+  document.body.appendChild(panel);
+  input.value = value;
+  input.setSelectionRange(value.length, value.length);
+  return input;
+}
+
+describe('findAbbreviation', () => {
+  const abbreviations = [abbreviation('teh', 'the'), abbreviation('#i', '#include'), abbreviation('->>', '→')];
+
+  it('should match full-id abbreviations after a non-keyword character', () => {
+    expect(findAbbreviation('teh', abbreviations)?.rhs).toBe('the');
+    expect(findAbbreviation('(teh', abbreviations)?.rhs).toBe('the');
+    expect(findAbbreviation('xteh', abbreviations)).toBeNull();
+  });
+
+  it('should match end-id and non-id abbreviations after white space', () => {
+    expect(findAbbreviation('  #i', abbreviations)?.rhs).toBe('#include');
+    expect(findAbbreviation('a ->>', abbreviations)?.rhs).toBe('→');
+    expect(findAbbreviation('(->>', abbreviations)).toBeNull();
+  });
+
+  it('should reject left-hand sides that are no abbreviation kind', () => {
+    expect(['foo', '#i', '..f', 'def#', '->>'].every(isValidAbbreviation)).toBe(true);
+    expect(['a.b', 'a b', ''].some(isValidAbbreviation)).toBe(false);
+  });
+});
+
+describe('AbbreviationExpander', () => {
+  let store: AbbreviationStore;
+  let vimAdapter: jest.Mocked<Pick<IVimAdapter, 'feedKeys'>>;
+  let expander: AbbreviationExpander;
+
+  const typeText = (view: ReturnType<typeof createView>, text: string) =>
+    expander.handleInput(view as unknown as EditorView, view.cursor, view.cursor, text);
+  const pressKey = (view: ReturnType<typeof createView>, key: string, modifiers: KeyboardEventInit = {}) =>
+    expander.handleKeyDown(new KeyboardEvent('keydown', { key, ...modifiers }), view as unknown as EditorView);
+
+  beforeEach(() => {
+    store = new AbbreviationStore(new EventBus());
+    vimAdapter = { feedKeys: jest.fn() };
+    expander = new AbbreviationExpander(store, vimAdapter as unknown as IVimAdapter);
+    store.add(abbreviation('teh', 'the'));
+    store.add(abbreviation('W', 'w', VimMode.COMMAND_LINE));
+  });
+
+  afterEach(() => {
+    expander.dispose();
+    document.body.innerHTML = '';
+  });
+
+  it('should expand before a typed non-keyword character in Insert mode', () => {
+    const view = createView('I saw teh');
+
+    expect(typeText(view, 'x')).toBe(false);
+    expect(typeText(view, ' ')).toBe(true);
+    expect(view.text).toBe('I saw the ');
+    expect(view.cursor).toBe(10);
+
+    expect(typeText(createView('teh', false), ' ')).toBe(false);
+  });
+
+  it('should expand before <CR> and not after <C-v>', () => {
+    const view = createView('teh');
+    pressKey(view, 'Enter');
+    expect(view.text).toBe('the');
+
+    view.text = 'teh';
+    pressKey(view, 'v', { ctrlKey: true });
+    pressKey(view, ' ');
+    expect(typeText(view, ' ')).toBe(false);
+    expect(view.text).toBe('teh');
+  });
+
+  it('should feed a right-hand side with special keys to Vim', () => {
+    store.add(abbreviation('sig', 'Regards,<CR>Me'));
+    const view = createView('sig');
+
+    typeText(view, '.');
+
+    expect(vimAdapter.feedKeys).toHaveBeenCalledWith(view.cm, 'Regards,<CR>Me', true);
+    expect(view.text).toBe('.');
+  });
+
+  it('should expand command-line abbreviations in the prompt', () => {
+    const input = createPrompt('W');
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+    expect(input.value).toBe('w');
+
+    const other = createPrompt('teh');
+    other.dispatchEvent(new KeyboardEvent('keydown', { key: ' ', bubbles: true }));
+    expect(other.value).toBe('teh');
+  });
+});
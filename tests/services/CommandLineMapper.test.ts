@@ -0,0 +1,121 @@
+/**
+ * CommandLineMapper Tests
+ */
+
+import { CommandLineMapper } from '../../src/services/CommandLineMapper';
+
+/**
+ * Create a CodeMirror Vim prompt input holding a command line
+ */
+function createPrompt(value: string): HTMLInputElement {
+  const panel = document.createElement('div');
+  panel.className = 'cm-vim-panel';
+  const input = document.createElement('input');
+  panel.appendChild(input);
+  document.body.appendChild(panel);
+  input.value = value;
+  input.setSelectionRange(value.length, value.length);
+  return input;
+}
+
+/**
+ * Press a key in an input, returning whether the prompt saw the key
+ */
+function press(input: HTMLInputElement, key: string, modifiers: KeyboardEventInit = {}): boolean {
+  return input.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...modifiers }));
+}
+
+describe('CommandLineMapper', () => {
+  let mapper: CommandLineMapper;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mapper = new CommandLineMapper();
+  });
+
+  afterEach(() => {
+    mapper.dispose();
+    document.body.innerHTML = '';
+    jest.useRealTimers();
+  });
+
+  it('should edit the command line for a mapped key', () => {
+    mapper.map('<C-a>', '<Home>', false);
+    mapper.map('<C-d>', '<Del>x', false);
+    const input = createPrompt('s/a/b/');
+
+    expect(press(input, 'a', { ctrlKey: true })).toBe(false);
+    expect(input.selectionStart).toBe(0);
+
+    press(input, 'd', { ctrlKey: true });
+    expect(input.value).toBe('x/a/b/');
+  });
+
+  it('should ignore keys outside the prompt and unmapped keys', () => {
+    mapper.map('<C-a>', '<Home>', false);
+    const other = document.body.appendChild(document.createElement('input'));
+
+    expect(press(other, 'a', { ctrlKey: true })).toBe(true);
+    expect(press(createPrompt('w'), 'b', { ctrlKey: true })).toBe(true);
+  });
+
+  it('should remap recursive mappings only', () => {
+    mapper.map('%%', 'notes/', false);
+    mapper.map('<C-n>', '%%', true);
+    mapper.map('<C-l>', '%%', false);
+    const input = createPrompt('e ');
+
+    press(input, 'n', { ctrlKey: true });
+    press(input, 'l', { ctrlKey: true });
+
+    expect(input.value).toBe('e notes/%%');
+  });
+
+  it('should wait for longer mappings and type the keys when none follows', () => {
+    mapper.map('%%', 'notes/', false);
+    const input = createPrompt('e ');
+
+    press(input, '%');
+    expect(input.value).toBe('e ');
+    press(input, '%');
+    expect(input.value).toBe('e notes/');
+
+    press(input, '%');
+    jest.advanceTimersByTime(1000);
+    expect(input.value).toBe('e notes/%');
+  });
+
+  it("should wait 'timeoutlen' and nest up to 'maxmapdepth' mappings", () => {
+    const options: Record<string, unknown> = { timeoutlen: 200, maxmapdepth: 2 };
+    mapper.dispose();
+    mapper = new CommandLineMapper((name) => options[name]);
+    mapper.map('%%', 'notes/', false);
+    mapper.map('<C-a>', '<C-b>', true);
+    mapper.map('<C-b>', '<C-c>', true);
+    mapper.map('<C-c>', 'x', true);
+    const input = createPrompt('e ');
+
+    press(input, '%');
+    jest.advanceTimersByTime(200);
+    expect(input.value).toBe('e %');
+
+    press(input, 'b', { ctrlKey: true });
+    expect(input.value).toBe('e %x');
+    press(input, 'a', { ctrlKey: true });
+    expect(input.value).toBe('e %x');
+  });
+
+  it('should send <CR> to the prompt and stop after unmap', () => {
+    mapper.map('<C-s>', '<C-u>w<CR>', false);
+    const input = createPrompt('q');
+    const keys: string[] = [];
+    input.addEventListener('keydown', (event) => keys.push(event.key));
+
+    press(input, 's', { ctrlKey: true });
+    expect(input.value).toBe('w');
+    expect(keys).toEqual(['Enter']);
+
+    mapper.unmap('<C-s>');
+    expect(press(input, 's', { ctrlKey: true })).toBe(true);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * ExpressionEvaluator and VariableStore Tests
+ */
+
+import { ExpressionEvaluator } from '../../src/services/ExpressionEvaluator';
+import type { VimValue } from '../../src/services/ExpressionEvaluator';
+import { VariableStore, executeLet, executeUnlet } from '../../src/services/VariableStore';
+
+describe('ExpressionEvaluator', () => {
+  let store: VariableStore;
+  let evaluator: ExpressionEvaluator;
+
+  const evaluate = (expression: string): VimValue => evaluator.evaluate(expression);
+
+  beforeEach(() => {
+    store = new VariableStore();
+    evaluator = new ExpressionEvaluator({ getVariable: (name) => store.get(name) });
+  });
+
+  describe('literals', () => {
+    it('should evaluate numbers and strings', () => {
+      expect(evaluate('42')).toBe(42);
+      expect(evaluate('0x1F')).toBe(31);
+      expect(evaluate("'it''s'")).toBe("it's");
+      expect(evaluate('"a\\tb"')).toBe('a\tb');
+    });
+
+    it('should translate special keys in double-quoted strings', () => {
+      expect(evaluate('"\\<Space>"')).toBe(' ');
+      expect(evaluate('"\\<C-w>v"')).toBe('<C-w>v');
+    });
+
+    it('should evaluate lists and dictionaries', () => {
+      expect(evaluate("[1, 'two', [3]]")).toEqual([1, 'two', [3]]);
+      expect(evaluate("{'a': 1, 'b': [2]}")).toEqual({ a: 1, b: [2] });
+      expect(evaluate('#{one: 1, two: 2}')).toEqual({ one: 1, two: 2 });
+    });
+  });
+
+  describe('operators', () => {
+    it('should follow arithmetic precedence', () => {
+      expect(evaluate('1 + 2 * 3')).toBe(7);
+      expect(evaluate('(1 + 2) * 3')).toBe(9);
+      expect(evaluate('7 / 2')).toBe(3);
+      expect(evaluate('7 % 4')).toBe(3);
+      expect(evaluate('-2 + 5')).toBe(3);
+    });
+
+    it('should concatenate with . and ..', () => {
+      expect(evaluate("'a' . 'b'")).toBe('ab');
+      expect(evaluate("'n' .. 1")).toBe('n1');
+    });
+
+    it('should evaluate comparisons and the ternary operator', () => {
+      expect(evaluate("'Abc' ==? 'abc'")).toBe(1);
+      expect(evaluate("'Abc' ==# 'abc'")).toBe(0);
+      expect(evaluate("'1.10' > '1.9'")).toBe(1);
+      expect(evaluate('[1, 2] == [1, 2]')).toBe(1);
+      expect(evaluate("1 ? 'yes' : 'no'")).toBe('yes');
+    });
+
+    it('should index and slice', () => {
+      expect(evaluate('[1, 2, 3][-1]')).toBe(3);
+      expect(evaluate('[1, 2, 3][1:]')).toEqual([2, 3]);
+      expect(evaluate("'hello'[1:3]")).toBe('ell');
+      expect(evaluate("{'k': 'v'}['k']")).toBe('v');
+    });
+
+    it('should ignore trailing comments', () => {
+      expect(evaluate('1 + 1 " two')).toBe(2);
+    });
+  });
+
+  describe('built-in functions', () => {
+    it('should provide len, toupper, printf and get', () => {
+      expect(evaluate('len([1, 2, 3])')).toBe(3);
+      expect(evaluate("len('abcd')")).toBe(4);
+      expect(evaluate("toupper('abc')")).toBe('ABC');
+      expect(evaluate("printf('%s-%03d', 'x', 7)")).toBe('x-007');
+      expect(evaluate("get({'a': 1}, 'b', 'none')")).toBe('none');
+      expect(evaluate('get([10, 20], 1)')).toBe(20);
+    });
+
+    it('should prefer host functions over built-ins', () => {
+      evaluator = new ExpressionEvaluator({
+        getVariable: () => undefined,
+        functions: { len: () => 99 },
+      });
+      expect(evaluate("len('a')")).toBe(99);
+    });
+
+    it('should reject unknown functions', () => {
+      expect(() => evaluate('nope()')).toThrow('E117');
+    });
+  });
+
+  describe('errors', () => {
+    it('should reject undefined variables', () => {
+      expect(() => evaluate('g:missing')).toThrow('E121');
+    });
+
+    it('should reject lists used as strings', () => {
+      expect(() => evaluate("[1] . 'a'")).toThrow('E730');
+    });
+  });
+
+  it('should evaluate several expressions for execute', () => {
+    expect(evaluator.evaluateAll("'nnoremap' 'j' 'gj'")).toEqual(['nnoremap', 'j', 'gj']);
+  });
+});
+
+describe('VariableStore', () => {
+  let store: VariableStore;
+  let evaluator: ExpressionEvaluator;
+
+  const run = (statement: string) => executeLet(statement, store, evaluator);
+
+  beforeEach(() => {
+    store = new VariableStore();
+    evaluator = new ExpressionEvaluator({ getVariable: (name) => store.get(name) });
+  });
+
+  it('should treat unscoped names as globals', () => {
+    run('count = 1');
+    expect(store.get('g:count')).toBe(1);
+  });
+
+  it('should keep script-local variables per script', () => {
+    store.setScript('a.vim');
+    run('s:name = "a"');
+    store.setScript('b.vim');
+    expect(store.get('s:name')).toBeUndefined();
+    store.setScript('a.vim');
+    expect(store.get('s:name')).toBe('a');
+  });
+
+  it('should apply compound assignments', () => {
+    run('g:n = 10');
+    run('g:n += 5');
+    run('g:n -= 3');
+    expect(store.get('g:n')).toBe(12);
+
+    run('g:s = "a"');
+    run('g:s .= "b"');
+    run('g:s ..= 1');
+    expect(store.get('g:s')).toBe('ab1');
+
+    run('g:l = [1]');
+    run('g:l += [2]');
+    expect(store.get('g:l')).toEqual([1, 2]);
+  });
+
+  it('should assign list items and dictionary entries', () => {
+    run("g:d = {'a': 1}");
+    run("g:d['b'] = 2");
+    run('g:l = [1, 2]');
+    run('g:l[0] = 9');
+    expect(store.get('g:d')).toEqual({ a: 1, b: 2 });
+    expect(store.get('g:l')).toEqual([9, 2]);
+  });
+
+  it('should reject assignments to v: variables', () => {
+    expect(() => run('v:count = 1')).toThrow('E46');
+  });
+
+  it('should reject compound assignment to undefined variables', () => {
+    expect(() => run('g:missing += 1')).toThrow('E121');
+  });
+
+  it('should unlet variables', () => {
+    run('g:a = 1');
+    executeUnlet('g:a', store, false);
+    expect(store.has('g:a')).toBe(false);
+    expect(() => executeUnlet('g:a', store, false)).toThrow('E108');
+    expect(() => executeUnlet('g:a', store, true)).not.toThrow();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * FileWatcher Tests
+ */
+
+import { FileWatcher } from '../../src/services/FileWatcher';
+import type { VaultEvents } from '../../src/services/FileWatcher';
+import { EventBus } from '../../src/core/EventBus';
+import { EventType } from '../../src/types/events';
+
+/**
+ * Create a vault double whose events can be fired by name
+ */
+function createVault() {
+  const listeners = new Map<string, (...args: unknown[]) => void>();
+  const vault = {
+    on: jest.fn((name: string, callback: (...args: unknown[]) => void) => {
+      listeners.set(name, callback);
+      return { name };
+    }),
+    offref: jest.fn((ref: { name: string }) => {
+      listeners.delete(ref.name);
+    }),
+  };
+  return {
+    vault: vault as unknown as VaultEvents,
+    listeners,
+    fire(name: string, path: string, oldPath?: string) {
+      listeners.get(name)?.({ path }, oldPath);
+    },
+  };
+}
+
+describe('FileWatcher', () => {
+  let vault: ReturnType<typeof createVault>;
+  let watcher: FileWatcher;
+  let events: string[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    vault = createVault();
+    const eventBus = new EventBus();
+    watcher = new FileWatcher(eventBus, vault.vault);
+    events = [];
+    for (const type of [EventType.FILE_CREATED, EventType.FILE_CHANGED, EventType.FILE_DELETED] as const) {
+      eventBus.on(type, ({ path }: { path: string }) => {
+        events.push(`${type} ${path}`);
+      });
+    }
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should emit one event per watched path once its vault events settle', () => {
+    watcher.watch('.obsidian.vimrc');
+    vault.fire('create', '.obsidian.vimrc');
+    vault.fire('modify', '.obsidian.vimrc');
+    vault.fire('modify', 'notes/todo.md');
+    jest.advanceTimersByTime(100);
+    vault.fire('modify', '.obsidian.vimrc');
+    vault.fire('delete', '.obsidian.vimrc');
+    jest.advanceTimersByTime(100);
+
+    expect(events).toEqual(['file:created .obsidian.vimrc', 'file:deleted .obsidian.vimrc']);
+  });
+
+  it('should report a rename as the deletion and creation of the watched paths', () => {
+    watcher.watch('.obsidian.vimrc');
+    watcher.watch('vim/nav.vim');
+    vault.fire('rename', 'vim/nav.vim', '.obsidian.vimrc');
+    vault.fire('rename', 'vim/old.vim', 'notes/nav.vim');
+    jest.runAllTimers();
+
+    expect(events).toEqual(['file:deleted .obsidian.vimrc', 'file:created vim/nav.vim']);
+  });
+
+  it('should only listen to the vault while a path is watched', () => {
+    watcher.setDebounceDelay(0);
+    watcher.watch('.obsidian.vimrc');
+    watcher.watch('.vimrc');
+    expect([...vault.listeners.keys()]).toEqual(['create', 'modify', 'delete', 'rename']);
+
+    vault.fire('modify', '.vimrc');
+    watcher.unwatch('.vimrc');
+    jest.runAllTimers();
+    expect(events).toEqual([]);
+    expect(watcher.getWatchedPaths()).toEqual(['.obsidian.vimrc']);
+
+    watcher.unwatchAll();
+    expect(vault.listeners.size).toBe(0);
+  });
+});
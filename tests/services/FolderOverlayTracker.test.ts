@@ -0,0 +1,42 @@
+/**
+ * FolderOverlayTracker Tests
+ */
+
+import type { App, Plugin } from 'obsidian';
+import { FolderOverlayTracker } from '../../src/services/FolderOverlayTracker';
+import type { IVimrcLoader, LoadResult } from '../../src/types/services';
+
+describe('FolderOverlayTracker', () => {
+  it('should apply the folder vimrcs of the active note on start and on leaf changes', async () => {
+    let onLeafChange: () => void = () => {};
+    let activeFile: string | null = 'notes/a.md';
+    const app = {
+      workspace: {
+        on: (_name: string, callback: () => void) => {
+          onLeafChange = callback;
+          return {};
+        },
+        getActiveFile: () => (activeFile ? { path: activeFile } : null),
+      },
+    } as unknown as App;
+    const plugin = { registerEvent: jest.fn() } as unknown as Plugin;
+    const error = { lineNumber: 1, message: 'Unknown command', raw: 'foo', filePath: 'notes/.vimrc' };
+    const updateFolderOverlays = jest.fn(async (path: string | null) => (path ? [error] : []));
+    const loader = { updateFolderOverlays } as unknown as IVimrcLoader;
+    const reported: LoadResult['errors'][] = [];
+    const onUpdate = jest.fn();
+
+    new FolderOverlayTracker({ plugin, app, loader, onErrors: (errors) => reported.push(errors), onUpdate }).start();
+    await Promise.resolve();
+    await Promise.resolve();
+    activeFile = null;
+    onLeafChange();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(plugin.registerEvent).toHaveBeenCalledTimes(1);
+    expect(updateFolderOverlays.mock.calls).toEqual([['notes/a.md'], [null]]);
+    expect(reported).toEqual([[error], []]);
+    expect(onUpdate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * KeyNotation Tests
+ */
+
+import fc from 'fast-check';
+import { formatKeys, normalizeKeys, tokenizeKeys } from '../../src/services/KeyNotation';
+
+/**
+ * Special key names as written in vimrc files, including aliases
+ */
+const SPECIAL_NAMES = [
+  'CR', 'Enter', 'Return', 'Esc', 'Space', 'Tab', 'BS', 'Backspace', 'Del', 'Delete', 'Ins',
+  'Up', 'Down', 'Left', 'Right', 'Home', 'End', 'PageUp', 'PageDown', 'Nop', 'Plug',
+  'kEnter', 'kPlus', 'k5', 'F1', 'F7', 'F12', 'lt', 'Bar', 'Bslash',
+];
+
+/**
+ * One key written in Vim notation: a plain character or a `<...>` key with modifiers
+ */
+const keyNotation = fc.oneof(
+  fc.constantFrom(...'abcXYZ019>|\\-[]" '.split('')),
+  fc.record({
+    modifiers: fc.subarray(['C', 'A', 'M', 'D', 'S']),
+    name: fc.oneof(fc.constantFrom(...SPECIAL_NAMES), fc.constantFrom(...'axZ]-,.'.split(''))),
+  })
+    .filter(({ modifiers, name }) => modifiers.length > 0 || name.length > 1)
+    .map(({ modifiers, name }) => `<${modifiers.map((m) => `${m}-`).join('')}${name}>`)
+);
+
+/**
+ * Change the case of modifiers and special key names, e.g. `<C-CR>` to `<c-cR>`
+ *
+ * Single-character key names keep their case, since `<A-x>` and `<A-X>` differ.
+ */
+const randomCase = (notation: string, upper: boolean[]): string => {
+  let i = 0;
+  const recase = (word: string): string =>
+    word.split('').map((char) => (upper[i++ % upper.length] ? char.toUpperCase() : char.toLowerCase())).join('');
+  return notation.replace(/<[^<>]*.>/g, (key) =>
+    key.replace(/[A-Za-z](?=-)|(?<=[<-])[A-Za-z][A-Za-z0-9]+(?=>)/g, recase)
+  );
+};
+
+describe('KeyNotation', () => {
+  describe('normalizeKeys', () => {
+    it('should normalize case and aliases', () => {
+      expect(normalizeKeys('<c-w>v')).toBe('<C-w>v');
+      expect(normalizeKeys('<C-W>')).toBe('<C-w>');
+      expect(normalizeKeys('<cr><Enter><Return>')).toBe('<CR><CR><CR>');
+      expect(normalizeKeys('<esc><bs><Delete>')).toBe('<Esc><BS><Del>');
+      expect(normalizeKeys('<f1><kenter><NOP>')).toBe('<F1><kEnter><Nop>');
+    });
+
+    it('should order modifiers and treat <M-x> as Alt', () => {
+      expect(normalizeKeys('<M-x>')).toBe('<A-x>');
+      expect(normalizeKeys('<S-C-x>')).toBe('<C-S-X>');
+      expect(normalizeKeys('<D-s>')).toBe('<D-s>');
+      expect(normalizeKeys('<S-Tab>')).toBe('<S-Tab>');
+      expect(normalizeKeys('<S-a>')).toBe('A');
+      expect(normalizeKeys('<A-W>')).toBe('<A-S-W>');
+    });
+
+    it('should turn character names into characters', () => {
+      expect(normalizeKeys('a<Bar>b<Bslash>')).toBe('a|b\\');
+      expect(normalizeKeys('<lt>=')).toBe('<=');
+      expect(normalizeKeys('<lt>CR>')).toBe('<lt>CR>');
+      expect(normalizeKeys('a b\t')).toBe('a<Space>b<Tab>');
+    });
+
+    it('should substitute <Leader> and <LocalLeader>', () => {
+      expect(normalizeKeys('<leader>w')).toBe('\\w');
+      expect(normalizeKeys('<Leader>w<LocalLeader>', { leader: ' ', localLeader: ',' })).toBe('<Space>w,');
+    });
+
+    it('should keep < that does not start a key name', () => {
+      expect(normalizeKeys('a<=b')).toBe('a<=b');
+      expect(normalizeKeys(':s/\\<x\\>/y/<CR>')).toBe(':s/\\<x\\>/y/<CR>');
+    });
+
+    it('should reject unknown key names and modifiers', () => {
+      expect(() => normalizeKeys('<Foo>')).toThrow('Unknown key notation: <Foo>');
+      expect(() => normalizeKeys('<X-a>')).toThrow('Unknown key modifier "X" in <X-a>');
+      expect(() => normalizeKeys('<C-Foo>')).toThrow('Unknown key notation: <C-Foo>');
+    });
+  });
+
+  describe('properties', () => {
+    it('should normalize to a fixed point', () => {
+      fc.assert(
+        fc.property(fc.array(keyNotation), (parts) => {
+          const canonical = normalizeKeys(parts.join(''));
+          expect(normalizeKeys(canonical)).toBe(canonical);
+        })
+      );
+    });
+
+    it('should round-trip keys through their canonical string', () => {
+      fc.assert(
+        fc.property(fc.array(keyNotation), (parts) => {
+          const keys = tokenizeKeys(parts.join(''));
+          expect(tokenizeKeys(formatKeys(keys))).toEqual(keys);
+        })
+      );
+    });
+
+    it('should ignore the case of key names and modifiers', () => {
+      fc.assert(
+        fc.property(fc.array(keyNotation), fc.array(fc.boolean(), { minLength: 1 }), (parts, upper) => {
+          const written = parts.join('');
+          expect(normalizeKeys(randomCase(written, upper))).toBe(normalizeKeys(written));
+        })
+      );
+    });
+
+    it('should reject any unknown key name', () => {
+      fc.assert(
+        fc.property(fc.stringMatching(/^[A-Za-z][A-Za-z0-9]{1,8}$/), (name) => {
+          fc.pre(!/^(cr|enter|return|esc|space|tab|bs|backspace|del|delete|ins|insert|up|down|left|right|home|end|pageup|pagedown|nop|plug|sid|kenter|kplus|kminus|kmultiply|kdivide|kpoint|k\d|f([1-9]|1[0-2])|lt|bar|bslash|leader|localleader)$/i.test(name));
+          expect(() => tokenizeKeys(`<${name}>`)).toThrow('Unknown key notation');
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * KeymapExporter Tests
+ */
+
+import { collectExportEntries, KeymapExporter } from '../../src/services/KeymapExporter';
+import type { ExportSource, ExportTarget } from '../../src/services/KeymapExporter';
+import { MappingStatus, VimMode } from '../../src/types/mappings';
+import type { KeyMapping, MapModifiers } from '../../src/types/mappings';
+
+let lineNumber = 0;
+
+/**
+ * Create a stored mapping defined on the next line
+ */
+function mapping(mode: VimMode, source: string, target: string, recursive = false, modifiers?: MapModifiers): KeyMapping {
+  lineNumber++;
+  return {
+    id: `mapping_${lineNumber}`,
+    source,
+    target,
+    mode,
+    recursive,
+    lineNumber,
+    filePath: '.obsidian.vimrc',
+    createdAt: lineNumber,
+    status: MappingStatus.APPLIED,
+    modifiers,
+  };
+}
+
+/**
+ * Create an export source from mappings, one obmap and one exmap
+ */
+function createSource(mappings: KeyMapping[]): ExportSource {
+  return {
+    mappings,
+    obmaps: [{ key: '<Space>f', commandId: 'switcher:open', mode: 'normal', lineNumber: 20, filePath: '.obsidian.vimrc' }],
+    exmaps: [{ name: 'back', commandId: 'app:go-back', lineNumber: 21, filePath: '.obsidian.vimrc' }],
+    vimrcPath: '.obsidian.vimrc',
+  };
+}
+
+describe('KeymapExporter', () => {
+  beforeEach(() => {
+    lineNumber = 0;
+  });
+
+  describe('collectExportEntries', () => {
+    it('should keep only the modes a later mapping of the same keys does not cover', () => {
+      const entries = collectExportEntries(createSource([
+        mapping(VimMode.ALL, 'j', 'gj'),
+        mapping(VimMode.NORMAL, 'j', 'gjzz'),
+        mapping(VimMode.NORMAL, 'k', 'gk'),
+        mapping(VimMode.NORMAL, 'k', 'gkzz'),
+        mapping(VimMode.NORMAL, 'x', 'y', false, { buffer: true }),
+      ]));
+
+      expect(entries.map((entry) => [entry.modes, entry.lhs, entry.rhs, entry.kind])).toEqual([
+        ['xso', 'j', 'gj', 'map'],
+        ['n', 'j', 'gjzz', 'map'],
+        ['n', 'k', 'gkzz', 'map'],
+        ['n', 'x', 'y', 'map'],
+        ['n', '<Space>f', 'switcher:open', 'obmap'],
+        [':', ':back', 'app:go-back', 'exmap'],
+      ]);
+    });
+
+    it('should mark what only Obsidian can run', () => {
+      const entries = collectExportEntries(createSource([
+        mapping(VimMode.NORMAL, '<C-o>', ':back<CR>'),
+        mapping(VimMode.NORMAL, 'x', 'y', false, { buffer: true }),
+        mapping(VimMode.NORMAL, '<Space>w', ':w<CR>'),
+      ]));
+
+      expect(entries.map((entry) => entry.obsidianOnly)).toEqual([
+        'runs :back, Obsidian command app:go-back',
+        'is only active in one file (<buffer>)',
+        undefined,
+        'runs Obsidian command switcher:open',
+        'runs Obsidian command app:go-back',
+      ]);
+    });
+  });
+
+  describe('targets', () => {
+    let exporter: KeymapExporter;
+    let source: ExportSource;
+
+    beforeEach(() => {
+      exporter = new KeymapExporter();
+      source = createSource([
+        mapping(VimMode.NORMAL, '<Space>w', ':w<CR>', false, { silent: true }),
+        mapping(VimMode.ALL, 'j', 'gj', true),
+        mapping(VimMode.INSERT, 'jk', '<Esc>'),
+        mapping(VimMode.NORMAL, 'k', 'v:count ? "k" : "gk"', false, { expr: true }),
+        mapping(VimMode.COMMAND_LINE, '<C-a>', '<Home>'),
+        mapping(VimMode.NORMAL, '<C-o>', ':back<CR>'),
+      ]);
+    });
+
+    it('should write VSCodeVim key bindings with Obsidian-only entries as TODOs', () => {
+      expect(exporter.export('vscodevim', source)).toBe([
+        '{',
+        '  // Exported from .obsidian.vimrc',
+        '  "vim.normalModeKeyBindingsNonRecursive": [',
+        '    {"before":["<Space>","w"],"commands":[":w"],"silent":true}',
+        '  ],',
+        '  "vim.normalModeKeyBindings": [',
+        '    {"before":["j"],"after":["g","j"]}',
+        '  ],',
+        '  "vim.visualModeKeyBindings": [',
+        '    {"before":["j"],"after":["g","j"]}',
+        '  ],',
+        '  "vim.operatorPendingModeKeyBindings": [',
+        '    {"before":["j"],"after":["g","j"]}',
+        '  ],',
+        '  "vim.insertModeKeyBindingsNonRecursive": [',
+        '    {"before":["j","k"],"after":["<Esc>"]}',
+        '  ]',
+        '  // TODO: k (n) is an <expr> mapping [.obsidian.vimrc:4]',
+        '  // TODO: <C-a> (c) has no VSCodeVim mode [.obsidian.vimrc:5]',
+        '  // TODO: <C-o> (n) runs :back, Obsidian command app:go-back [.obsidian.vimrc:6]',
+        '  // TODO: <Space>f (n) runs Obsidian command switcher:open [.obsidian.vimrc:20]',
+        '  // TODO: :back runs Obsidian command app:go-back [.obsidian.vimrc:21]',
+        '}',
+        '',
+      ].join('\n'));
+    });
+
+    it('should write Neovim vim.keymap.set calls with Obsidian-only entries as TODOs', () => {
+      expect(exporter.export('neovim', source)).toBe([
+        '-- Exported from .obsidian.vimrc',
+        '',
+        "vim.keymap.set('n', '<Space>w', ':w<CR>', { silent = true })",
+        "vim.keymap.set({ 'n', 'v', 'o' }, 'j', 'gj', { remap = true })",
+        "vim.keymap.set('i', 'jk', '<Esc>')",
+        "vim.keymap.set('n', 'k', 'v:count ? \"k\" : \"gk\"', { expr = true })",
+        "vim.keymap.set('c', '<C-a>', '<Home>')",
+        '-- TODO: <C-o> (n) runs :back, Obsidian command app:go-back [.obsidian.vimrc:6]',
+        '-- TODO: <Space>f (n) runs Obsidian command switcher:open [.obsidian.vimrc:20]',
+        '-- TODO: :back runs Obsidian command app:go-back [.obsidian.vimrc:21]',
+        '',
+      ].join('\n'));
+    });
+
+    it('should export with registered targets', () => {
+      const target: ExportTarget = {
+        id: 'count',
+        name: 'Count',
+        fileName: 'count.txt',
+        render: (entries) => `${entries.length}`,
+      };
+      exporter.registerTarget(target);
+
+      expect(exporter.getTargets().map((candidate) => candidate.id)).toEqual(['vscodevim', 'neovim', 'count']);
+      expect(exporter.export('count', source)).toBe('8');
+      expect(exporter.unregisterTarget('count')).toBe(true);
+      expect(() => exporter.export('count', source)).toThrow('Unknown export target: count');
+    });
+  });
+});
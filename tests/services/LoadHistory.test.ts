@@ -0,0 +1,68 @@
+/**
+ * LoadHistory Tests
+ */
+
+import { LoadHistory, LOAD_HISTORY_KEY, diffLines } from '../../src/services/LoadHistory';
+import type { LoadSnapshot } from '../../src/services/LoadHistory';
+import { ConfigManager } from '../../src/infrastructure/ConfigManager';
+import { EventBus } from '../../src/core/EventBus';
+
+/**
+ * Create a snapshot of a vimrc content
+ */
+function snapshot(content: string, timestamp = 1): LoadSnapshot {
+  return { timestamp, path: '.obsidian.vimrc', content, mappingCount: 1 };
+}
+
+describe('LoadHistory', () => {
+  let data: Record<string, unknown>;
+  let configManager: ConfigManager;
+  let history: LoadHistory;
+
+  beforeEach(async () => {
+    data = { vimrcPath: '.obsidian.vimrc', loadHistorySize: 2 };
+    const persistence = {
+      loadData: async () => data,
+      saveData: async (saved: unknown) => {
+        data = saved as Record<string, unknown>;
+      },
+    };
+    configManager = new ConfigManager(new EventBus(), persistence);
+    await configManager.initialize();
+    history = new LoadHistory(persistence, configManager);
+    await history.initialize();
+  });
+
+  it('should keep the newest snapshots next to the settings', async () => {
+    expect(await history.record(snapshot('nmap a b', 1))).toBe(true);
+    expect(await history.record(snapshot('nmap a b', 2))).toBe(false);
+    await history.record(snapshot('nmap a c', 3));
+    await history.record(snapshot('nmap a d', 4));
+    await configManager.updateSettings({ folderVimrc: false });
+
+    expect(history.getSnapshots().map((s) => s.timestamp)).toEqual([4, 3]);
+    expect(data.folderVimrc).toBe(false);
+    expect((data[LOAD_HISTORY_KEY] as LoadSnapshot[]).map((s) => s.content)).toEqual(['nmap a d', 'nmap a c']);
+
+    const reloaded = new LoadHistory({ loadData: async () => data, saveData: async () => {} }, configManager);
+    await reloaded.initialize();
+    expect(reloaded.getSnapshots()).toEqual(history.getSnapshots());
+  });
+
+  it('should record nothing when the history size is 0', async () => {
+    await configManager.updateSettings({ loadHistorySize: 0 });
+
+    expect(await history.record(snapshot('nmap a b'))).toBe(false);
+    expect(history.getSnapshots()).toEqual([]);
+  });
+
+  it('should compare contents line by line', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'B' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' },
+    ]);
+  });
+});
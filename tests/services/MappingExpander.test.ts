@@ -0,0 +1,115 @@
+/**
+ * MappingExpander Tests
+ */
+
+import { expandKeys, MappingExpander } from '../../src/services/MappingExpander';
+import { MappingStore } from '../../src/stores/MappingStore';
+import { EventBus } from '../../src/core/EventBus';
+import { MappingStatus, VimMode } from '../../src/types/mappings';
+import type { ExpandableMapping, KeyMapping, MapModifiers } from '../../src/types/mappings';
+import type { IVimAdapter } from '../../src/types/services';
+
+/**
+ * Create a normal mode mapping
+ */
+function nmap(source: string, target: string, recursive = true, mode = VimMode.NORMAL): ExpandableMapping {
+  return { source, target, mode, recursive };
+}
+
+let idCounter = 0;
+
+/**
+ * Create a stored mapping
+ */
+function stored(source: string, target: string, modifiers?: MapModifiers, buffer?: string): KeyMapping {
+  return {
+    id: `mapping_${++idCounter}`,
+    source,
+    target,
+    mode: VimMode.NORMAL,
+    recursive: true,
+    lineNumber: idCounter,
+    createdAt: idCounter,
+    status: MappingStatus.PENDING,
+    modifiers,
+    buffer,
+  };
+}
+
+describe('MappingExpander', () => {
+  describe('expandKeys', () => {
+    it('should expand keys through recursive mappings to their final keys and commands', () => {
+      const mappings = [nmap('<Space>w', ':w<CR>'), nmap('<Space>s', '<Space>wzz'), nmap('Q', 'gq', false)];
+      const expansion = expandKeys('<Space>s', VimMode.NORMAL, mappings);
+
+      expect(expansion.keys).toBe(':w<CR>zz');
+      expect(expansion.commands).toEqual(['w']);
+      expect(expansion.steps.map((step) => [step.keys, step.depth])).toEqual([['<Space>s', 0], ['<Space>w', 1]]);
+      expect(expansion.error).toBeUndefined();
+    });
+
+    it('should stop cycles and runaway mappings with E223', () => {
+      const cycle = expandKeys('j', VimMode.NORMAL, [nmap('j', 'k'), nmap('k', 'j')]);
+      expect(cycle.error).toBe('E223: recursive mapping: j -> k -> j');
+      expect(cycle.steps).toHaveLength(1000);
+
+      const runaway = expandKeys('a', VimMode.NORMAL, [nmap('a', 'xa')], { maxDepth: 5 });
+      expect(runaway.error).toBe('E223: recursive mapping: a -> a');
+      expect(runaway.keys).toBe('xxxxx');
+    });
+
+    it('should not map keys Vim does not remap', () => {
+      const mappings = [nmap('j', 'gj'), nmap('k', 'jzz'), nmap('x', 'k', false), nmap('l', 'l<C-w>l')];
+
+      expect(expandKeys('j', VimMode.NORMAL, mappings).keys).toBe('gj');
+      expect(expandKeys('k', VimMode.NORMAL, mappings).keys).toBe('gjzz');
+      expect(expandKeys('x', VimMode.NORMAL, mappings).keys).toBe('k');
+      expect(expandKeys('l', VimMode.NORMAL, mappings).keys).toBe('l<C-w>l');
+    });
+
+    it('should use the longest match and the last of equal mappings in the mode', () => {
+      const mappings = [nmap('g', 'x'), nmap('gs', 'y'), nmap('gs', 'd'), nmap('d', 'q', true, VimMode.INSERT)];
+
+      expect(expandKeys('gsg', VimMode.NORMAL, mappings).keys).toBe('dx');
+      expect(expandKeys('d', VimMode.INSERT, mappings).keys).toBe('q');
+    });
+
+    it('should expand <expr> mappings only with an evaluator', () => {
+      const mappings = [{ ...nmap('j', 'v:count ? "j" : "gj"'), modifiers: { expr: true } }];
+
+      expect(expandKeys('j', VimMode.NORMAL, mappings).steps[0].target).toBeNull();
+      expect(expandKeys('j', VimMode.NORMAL, mappings, { evaluate: () => 'gj' }).keys).toBe('gj');
+    });
+  });
+
+  describe('MappingExpander', () => {
+    let store: MappingStore;
+    let maxMapDepth: number | undefined;
+    let expander: MappingExpander;
+
+    beforeEach(() => {
+      store = new MappingStore(new EventBus());
+      maxMapDepth = undefined;
+      const vimAdapter = { getOption: jest.fn(() => maxMapDepth) } as unknown as IVimAdapter;
+      expander = new MappingExpander(store, vimAdapter);
+    });
+
+    it('should use the maxmapdepth option', () => {
+      store.add(stored('a', 'xa'));
+
+      expect(expander.expand('a', VimMode.NORMAL).steps).toHaveLength(1000);
+      maxMapDepth = 3;
+      expect(expander.expand('a', VimMode.NORMAL).keys).toBe('xxx');
+    });
+
+    it('should only use the <buffer> mappings of the buffer', () => {
+      store.add(stored('j', 'gj'));
+      const local = stored('j', 'k', { buffer: true }, 'a.md');
+      store.add(local);
+
+      expect(expander.expand('j', VimMode.NORMAL).keys).toBe('gj');
+      expect(expander.expand('j', VimMode.NORMAL, 'a.md').keys).toBe('k');
+      expect(expander.explain(local).keys).toBe('k');
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * MappingList Tests
+ */
+
+import { buildMappingList, formatMappingListEntry } from '../../src/services/MappingList';
+import type { MappingListSources } from '../../src/services/MappingList';
+import { MappingStatus, VimMode } from '../../src/types/mappings';
+import type { KeyMapping } from '../../src/types/mappings';
+
+/**
+ * Create a stored mapping defined in the main vimrc
+ */
+function mapping(source: string, target: string, mode: VimMode, lineNumber: number, recursive = true): KeyMapping {
+  return {
+    id: `mapping_${lineNumber}`,
+    source,
+    target,
+    mode,
+    recursive,
+    lineNumber,
+    filePath: '.obsidian.vimrc',
+    createdAt: 0,
+    status: MappingStatus.APPLIED,
+  };
+}
+
+describe('MappingList', () => {
+  const sources: MappingListSources = {
+    mappings: [
+      mapping('j', 'gj', VimMode.ALL, 1),
+      mapping('<Space>w', ':w<CR>', VimMode.NORMAL, 2, false),
+      mapping('jk', '<Esc>', VimMode.INSERT, 3, false),
+      mapping('j', 'gk', VimMode.NORMAL, 4),
+    ],
+    obmaps: [{ key: 'gf', commandId: 'editor:follow-link', mode: 'normal', lineNumber: 5 }],
+    exmaps: [{ name: 'back', commandId: 'app:go-back', lineNumber: 6, filePath: 'vim/ex.vim' }],
+  };
+
+  it('should list the mappings of a mode in Vim format', () => {
+    const entries = buildMappingList(sources, { mode: VimMode.NORMAL, prefix: '', verbose: false });
+
+    expect(entries.map((entry) => formatMappingListEntry(entry, false))).toEqual([
+      '   j              gj',
+      'n  <Space>w     * :w<CR>',
+      'n  j              gk',
+      'n  gf           * obcommand editor:follow-link',
+      ':  :back        * obcommand app:go-back',
+    ]);
+    expect(buildMappingList(sources, { mode: VimMode.INSERT, prefix: '', verbose: false }).map((e) => e.lhs)).toEqual(['jk']);
+  });
+
+  it('should filter by the keys the left-hand side starts with', () => {
+    const entries = buildMappingList(sources, { mode: VimMode.ALL, prefix: 'j', verbose: false });
+
+    expect(entries.map((entry) => entry.rhs)).toEqual(['gj', 'gk']);
+  });
+
+  it('should show locations and overrides when verbose', () => {
+    const [map, nmap] = buildMappingList(sources, { mode: VimMode.NORMAL, prefix: 'j', verbose: true });
+
+    expect(formatMappingListEntry(map, true).split('\n').slice(1)).toEqual([
+      '\tLast set from .obsidian.vimrc line 1',
+      '\tOverridden by .obsidian.vimrc line 4',
+    ]);
+    expect(nmap.overriddenBy).toEqual([]);
+  });
+
+  it('should show what recursive mappings expand to when verbose', () => {
+    const explain = jest.fn((stored: KeyMapping) => ({
+      keys: stored.target === 'gj' ? 'gj' : 'gk',
+      commands: [],
+      steps: [],
+      error: stored.target === 'gk' ? 'E223: recursive mapping: j -> j' : undefined,
+    }));
+    const entries = buildMappingList({ ...sources, explain }, { mode: VimMode.NORMAL, prefix: '', verbose: true });
+
+    expect(entries.map((entry) => formatMappingListEntry(entry, true).split('\n').pop())).toEqual([
+      '\tExpands to gj',
+      '\tLast set from .obsidian.vimrc line 2',
+      '\tE223: recursive mapping: j -> j',
+      '\tLast set from line 5',
+      '\tLast set from vim/ex.vim line 6',
+    ]);
+    expect(explain).toHaveBeenCalledTimes(2);
+    expect(buildMappingList({ ...sources, explain }, { mode: VimMode.NORMAL, prefix: '', verbose: false })[0].expansion).toBeUndefined();
+  });
+
+  it('should hide mappings overridden in every mode unless verbose', () => {
+    const overridden: MappingListSources = {
+      mappings: [mapping('x', 'a', VimMode.NORMAL, 1), mapping('x', 'b', VimMode.ALL, 2)],
+      obmaps: [],
+      exmaps: [],
+    };
+
+    expect(buildMappingList(overridden, { mode: VimMode.NORMAL, prefix: '', verbose: false }).map((e) => e.rhs)).toEqual(['b']);
+    expect(buildMappingList(overridden, { mode: VimMode.NORMAL, prefix: '', verbose: true }).map((e) => e.rhs)).toEqual(['a', 'b']);
+  });
+});
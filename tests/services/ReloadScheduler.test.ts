@@ -0,0 +1,91 @@
+/**
+ * ReloadScheduler Tests
+ */
+
+import { ReloadScheduler } from '../../src/services/ReloadScheduler';
+import { EventBus } from '../../src/core/EventBus';
+import { EventType } from '../../src/types/events';
+import type { LoadResult } from '../../src/types/events';
+import { DEFAULT_SETTINGS } from '../../src/types/settings';
+import type { IFileWatcher, IVimrcLoader } from '../../src/types/services';
+
+/**
+ * Create a file watcher double keeping the watched paths
+ */
+function createWatcher(): IFileWatcher {
+  const paths = new Set<string>();
+  return {
+    watch: (path) => void paths.add(path),
+    unwatch: (path) => void paths.delete(path),
+    unwatchAll: () => paths.clear(),
+    setDebounceDelay: () => {},
+    getWatchedPaths: () => [...paths],
+  };
+}
+
+describe('ReloadScheduler', () => {
+  let eventBus: EventBus;
+  let watcher: IFileWatcher;
+  let watchedFiles: string[];
+  let reload: jest.Mock;
+  let results: LoadResult[];
+  let scheduler: ReloadScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    eventBus = new EventBus();
+    watcher = createWatcher();
+    watchedFiles = ['.obsidian.vimrc'];
+    reload = jest.fn(async () => ({ success: true, path: '.obsidian.vimrc', mappingCount: 0, errors: [], warnings: [] }));
+    const loader = { reload, getWatchedFiles: () => watchedFiles } as unknown as IVimrcLoader;
+    results = [];
+    scheduler = new ReloadScheduler({ eventBus, loader, watcher, onReload: (result) => results.push(result) });
+    scheduler.start();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it('should reload once for requests within the delay, forced when any was', async () => {
+    eventBus.emit(EventType.FILE_CHANGED, { path: '.obsidian.vimrc' });
+    scheduler.schedule(true);
+    eventBus.emit(EventType.FILE_CREATED, { path: 'vim/nav.vim' });
+    await jest.runAllTimersAsync();
+
+    expect(reload.mock.calls).toEqual([[{ force: true }]]);
+    expect(results).toHaveLength(1);
+
+    eventBus.emit(EventType.FILE_CHANGED, { path: '.obsidian.vimrc' });
+    await jest.runAllTimersAsync();
+    expect(reload.mock.calls[1]).toEqual([{ force: false }]);
+  });
+
+  it('should reload on settings naming the configuration files, not on the embedded vimrc', async () => {
+    const previous = DEFAULT_SETTINGS;
+    eventBus.emit(EventType.SETTINGS_CHANGED, { settings: { ...previous, embeddedVimrc: 'nmap j gj' }, previous });
+    await jest.runAllTimersAsync();
+    expect(reload).not.toHaveBeenCalled();
+
+    watchedFiles = ['vimrc'];
+    eventBus.emit(EventType.SETTINGS_CHANGED, { settings: { ...previous, vimrcPath: 'vimrc' }, previous });
+    expect(watcher.getWatchedPaths()).toEqual(['vimrc']);
+    await jest.runAllTimersAsync();
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should watch the files of every load until stopped', async () => {
+    expect(watcher.getWatchedPaths()).toEqual(['.obsidian.vimrc']);
+
+    watchedFiles = ['.obsidian.vimrc', 'vim/nav.vim'];
+    eventBus.emit(EventType.VIMRC_LOADED, { success: true, path: '.obsidian.vimrc', mappingCount: 0, errors: [], warnings: [] });
+    expect(watcher.getWatchedPaths()).toEqual(['.obsidian.vimrc', 'vim/nav.vim']);
+
+    scheduler.schedule();
+    scheduler.stop();
+    await jest.runAllTimersAsync();
+    expect(reload).not.toHaveBeenCalled();
+    expect(watcher.getWatchedPaths()).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * UserCommandExpander Tests
+ */
+
+import { createUserCommandInvocation, expandUserCommand } from '../../src/services/UserCommandExpander';
+import type { UserCommandDefinition } from '../../src/types/commands';
+
+/**
+ * Create a user command definition with defaults for unspecified attributes
+ */
+function define(overrides: Partial<UserCommandDefinition>): UserCommandDefinition {
+  return {
+    name: 'Test',
+    nargs: '0',
+    range: null,
+    count: null,
+    bang: false,
+    replacement: '',
+    lineNumber: 1,
+    ...overrides,
+  };
+}
+
+const editor = { cursorLine: 4, lastLine: 99 };
+
+describe('UserCommandExpander', () => {
+  it('should substitute arguments', () => {
+    const definition = define({ nargs: '*', replacement: 'echo <args> <q-args> [<f-args>] <lt>tab>' });
+    const invocation = createUserCommandInvocation(definition, { argString: ' a "b"' }, editor);
+
+    expect(expandUserCommand(definition, invocation)).toBe('echo a "b" "a \\"b\\"" ["a","\\"b\\""] <tab>');
+  });
+
+  it('should default the range to the cursor line', () => {
+    const definition = define({ range: '.', replacement: '<line1>,<line2>s/a/b/' });
+
+    expect(expandUserCommand(definition, createUserCommandInvocation(definition, {}, editor))).toBe('5,5s/a/b/');
+    expect(expandUserCommand(definition, createUserCommandInvocation(definition, { line: 1, lineEnd: 3 }, editor)))
+      .toBe('2,4s/a/b/');
+  });
+
+  it('should default -range=% to the whole file', () => {
+    const definition = define({ range: '%', replacement: '<line1>,<line2>sort' });
+
+    expect(expandUserCommand(definition, createUserCommandInvocation(definition, {}, editor))).toBe('1,100sort');
+  });
+
+  it('should use the default count unless one is given', () => {
+    const definition = define({ count: 3, replacement: 'normal! <count>j' });
+
+    expect(expandUserCommand(definition, createUserCommandInvocation(definition, {}, editor))).toBe('normal! 3j');
+    expect(expandUserCommand(definition, createUserCommandInvocation(definition, { line: 7 }, editor)))
+      .toBe('normal! 8j');
+  });
+
+  it('should pass a bang only to -bang commands', () => {
+    const definition = define({ bang: true, replacement: 'write<bang>' });
+
+    expect(expandUserCommand(definition, createUserCommandInvocation(definition, { argString: '!' }, editor)))
+      .toBe('write!');
+    expect(() => createUserCommandInvocation(define({}), { argString: '!' }, editor)).toThrow('E477');
+  });
+
+  it('should validate the number of arguments and the range', () => {
+    expect(() => createUserCommandInvocation(define({}), { argString: ' x' }, editor)).toThrow('E488');
+    expect(() => createUserCommandInvocation(define({ nargs: '+' }), {}, editor)).toThrow('E471');
+    expect(() => createUserCommandInvocation(define({}), { line: 2 }, editor)).toThrow('E481');
+  });
+});
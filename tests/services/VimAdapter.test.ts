@@ -0,0 +1,117 @@
+/**
+ * VimAdapter Tests
+ */
+
+import { initVim } from '@replit/codemirror-vim-core';
+import { VimAdapter } from '../../src/services/VimAdapter';
+import { VimMode } from '../../src/types/mappings';
+
+type Vim = ReturnType<typeof initVim>;
+
+/**
+ * Create the CodeMirror Vim engine on the smallest CodeMirror it runs on
+ */
+function createVim(): Vim {
+  function Pos(line: number, ch: number) {
+    return { line, ch };
+  }
+  return initVim({ Pos, commands: {}, on() {}, off() {}, signal() {}, isWordChar: (ch: string) => /\w/.test(ch) } as never);
+}
+
+/**
+ * Create an editor with the cursor at the start of an empty document
+ */
+function createEditor(): unknown {
+  const cursor = { line: 0, ch: 0 };
+  return {
+    state: {},
+    getCursor: () => cursor,
+    listSelections: () => [{ anchor: cursor, head: cursor }],
+    getOption() {},
+    setOption() {},
+    curOp: {},
+    operation: (fn: () => unknown) => fn(),
+    firstLine: () => 0,
+    lastLine: () => 0,
+    getLine: () => '',
+    on() {},
+    off() {},
+  };
+}
+
+describe('VimAdapter', () => {
+  let vim: Vim;
+  let adapter: VimAdapter;
+
+  beforeEach(() => {
+    vim = createVim();
+    (window as unknown as { CodeMirrorAdapter: { Vim: Vim } }).CodeMirrorAdapter = { Vim: vim };
+    adapter = new VimAdapter();
+  });
+
+  afterEach(() => {
+    adapter.cleanup();
+    delete (window as unknown as { CodeMirrorAdapter?: unknown }).CodeMirrorAdapter;
+  });
+
+  it('should run Cmd mappings on Cmd key presses', () => {
+    const runs: string[] = [];
+    adapter.defineAction('probe', () => {
+      runs.push('probe');
+    });
+    adapter.mapCommand('<D-x>', 'action', 'probe', {}, { context: VimMode.NORMAL });
+    adapter.map('<C-D-y>', '<D-x>', VimMode.NORMAL);
+
+    const cm = createEditor();
+    const press = (key: string, modifiers: KeyboardEventInit) =>
+      vim.handleKey(cm as never, vim.vimKeyFromEvent(new KeyboardEvent('keydown', { key, ...modifiers })) as string, 'user');
+
+    expect(press('x', { metaKey: true })).toBe(true);
+    expect(press('y', { ctrlKey: true, metaKey: true })).toBe(true);
+    expect(runs).toEqual(['probe', 'probe']);
+
+    adapter.unmap('<C-D-y>', VimMode.NORMAL);
+    press('y', { ctrlKey: true, metaKey: true });
+    expect(runs).toHaveLength(2);
+  });
+
+  it('should clear command-line mappings with cmapclear only, not with mapclear', () => {
+    adapter.map('<C-a>', '<Home>', VimMode.COMMAND_LINE);
+    const panel = document.body.appendChild(document.createElement('div'));
+    panel.className = 'cm-vim-panel';
+    const input = panel.appendChild(document.createElement('input'));
+    const press = () => input.dispatchEvent(new KeyboardEvent('keydown', { key: 'a', ctrlKey: true, bubbles: true, cancelable: true }));
+
+    adapter.mapclear();
+    expect(press()).toBe(false);
+
+    adapter.mapclear(VimMode.COMMAND_LINE);
+    expect(press()).toBe(true);
+    panel.remove();
+  });
+
+  it('should give ex commands back to CodeMirror Vim after the adapter is gone', () => {
+    const runs: string[] = [];
+    vim.defineAction('probe', () => {
+      runs.push('probe');
+    });
+    vim.mapCommand('<F2>', 'action', 'probe', {}, { context: 'normal' });
+    const defineEx = jest.spyOn(vim, 'defineEx');
+    adapter.defineEx('nmap', 'nm', () => {
+      throw new Error('plugin handler');
+    });
+
+    adapter.restoreBuiltinEx('nmap', 'nm');
+    adapter.restoreBuiltinEx('cmap', 'cm');
+    adapter.cleanup();
+
+    const [, [, nmPrefix, nmap], [, , cmap]] = defineEx.mock.calls;
+    const cm = createEditor();
+    expect(nmPrefix).toBe('nm');
+    nmap(cm as never, { args: ['<F3>', '<F2>'], input: 'nmap <F3> <F2>' } as never);
+    vim.handleKey(cm as never, '<F3>', 'user');
+    expect(runs).toEqual(['probe']);
+    expect(() => cmap(cm as never, { args: ['a', 'b'], input: 'cmap a b' } as never))
+      .toThrow('Not an editor command ":cmap a b"');
+  });
+});
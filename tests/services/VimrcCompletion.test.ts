@@ -0,0 +1,84 @@
+/**
+ * VimrcCompletion Tests
+ */
+
+import { findLetVariables, getVimrcCompletions } from '../../src/services/VimrcCompletion';
+import type { VimrcCompletionSources } from '../../src/services/VimrcCompletion';
+
+const sources: VimrcCompletionSources = {
+  getCommands: () => [
+    { id: 'app:go-back', name: 'Navigate back', hotkeys: ['Mod+Alt+ArrowLeft'] },
+    { id: 'editor:save-file', name: 'Save current file', hotkeys: [] },
+  ],
+  variables: ['g:surround'],
+};
+
+/**
+ * Get the labels completed at the end of a line and where they start
+ */
+function complete(lineBefore: string): { from: number; labels: string[] } | null {
+  const result = getVimrcCompletions(lineBefore, sources);
+  return result && { from: result.from, labels: result.options.map((option) => option.label) };
+}
+
+describe('VimrcCompletion', () => {
+  describe('getVimrcCompletions', () => {
+    it('should complete command names and keywords at the start of a statement', () => {
+      const result = complete('nno')!;
+
+      expect(result.from).toBe(0);
+      expect(result.labels).toEqual(expect.arrayContaining(['nnoremap', 'obmap', 'exmap', 'let', 'set', 'if', 'endif']));
+      expect(result.labels).not.toContain('comment');
+      expect(complete('if x | en')?.from).toBe(7);
+      expect(complete('  " nno')).toBeNull();
+    });
+
+    it('should complete Obsidian command IDs with their names and hotkeys', () => {
+      const obmap = getVimrcCompletions('nobmap gs edi', sources)!;
+      expect(obmap.from).toBe(10);
+      expect(obmap.options).toEqual([
+        { label: 'app:go-back', type: 'function', detail: 'Navigate back (Mod+Alt+ArrowLeft)', info: 'Hotkey: Mod+Alt+ArrowLeft' },
+        { label: 'editor:save-file', type: 'function', detail: 'Save current file', info: 'No hotkey' },
+      ]);
+
+      expect(complete('exmap back obcommand ')?.labels).toEqual(['app:go-back', 'editor:save-file']);
+      expect(complete('obcommand app')?.from).toBe(10);
+      expect(complete('exmap back ob')?.labels).toEqual(['obcommand']);
+      expect(complete('nobmap gs editor:save-file ')).toBeNull();
+      expect(getVimrcCompletions('obmap gs ')?.options).toEqual([]);
+    });
+
+    it('should complete key notation and map arguments', () => {
+      const lhs = complete('nnoremap <sil')!;
+      expect(lhs.from).toBe(9);
+      expect(lhs.labels).toEqual(expect.arrayContaining(['<silent>', '<expr>', '<leader>', '<CR>', '<F12>', '<Bar>']));
+
+      const rhs = complete('nnoremap <silent> <leader>w :w<C')!;
+      expect(rhs.from).toBe(30);
+      expect(rhs.labels).toContain('<CR>');
+      expect(rhs.labels).not.toContain('<silent>');
+      expect(complete('nnoremap j g')).toBeNull();
+      expect(complete('nobmap <Sp')?.labels).toContain('<Space>');
+    });
+
+    it('should complete variables after let and options after set', () => {
+      expect(complete('let g:')?.labels).toEqual(['g:mapleader', 'g:maplocalleader', 'g:surround']);
+      expect(complete('let g:x = ')).toBeNull();
+
+      const options = complete('set ts=4 no')!;
+      expect(options.from).toBe(9);
+      expect(options.labels).toEqual(expect.arrayContaining(['tabstop', 'ts', 'noignorecase', 'invic', 'clipboard']));
+      expect(options.labels).not.toContain('notabstop');
+      expect(complete('set ts=')).toBeNull();
+    });
+  });
+
+  describe('findLetVariables', () => {
+    it('should find the variables a document assigns', () => {
+      expect(findLetVariables('let mapleader = " "\n  let g:count += 1\nlet mapleader = ","\nunlet g:x')).toEqual([
+        'mapleader',
+        'g:count',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * VimrcImporter Tests
+ */
+
+import { detectImportFormat, importVimrc } from '../../src/services/VimrcImporter';
+import type { ImportResult } from '../../src/services/VimrcImporter';
+
+/**
+ * Get the converted lines without the header
+ */
+function lines(result: ImportResult): string[] {
+  return result.content.trimEnd().split('\n').slice(1);
+}
+
+/**
+ * Get the line number, severity and message of each issue
+ */
+function issues(result: ImportResult): Array<[number, string, string]> {
+  return result.issues.map((issue) => [issue.lineNumber, issue.severity, issue.message]);
+}
+
+describe('VimrcImporter', () => {
+  describe('detectImportFormat', () => {
+    it('should detect the format from the file name and content', () => {
+      expect(detectImportFormat('nmap j gj', '.ideavimrc')).toBe('ideavim');
+      expect(detectImportFormat('nmap gd <Action>(GotoDeclaration)')).toBe('ideavim');
+      expect(detectImportFormat('{ "vim.leader": "<space>" }')).toBe('vscodevim');
+      expect(detectImportFormat('{}', 'settings.json')).toBe('vscodevim');
+      expect(detectImportFormat('exmap back obcommand app:go-back\nnmap <C-o> :back<CR>')).toBe('obsidian-vimrc-support');
+    });
+  });
+
+  describe('obsidian-vimrc-support', () => {
+    it('should keep obcommand exmaps and comment out JavaScript commands', () => {
+      const result = importVimrc([
+        'exmap back obcommand app:go-back',
+        'nmap <C-o> :back<CR>',
+        'exmap wrap jscommand { editor.replaceSelection("x") }',
+        'nmap gw :wrap<CR>',
+        'jsfile mine.js {}',
+      ].join('\n'));
+
+      expect(result.format).toBe('obsidian-vimrc-support');
+      expect(result.content.split('\n')[0]).toBe('" Imported from obsidian-vimrc-support');
+      expect(lines(result)).toEqual([
+        'exmap back obcommand app:go-back',
+        'nmap <C-o> :back<CR>',
+        '" Not imported: exmap wrap jscommand { editor.replaceSelection("x") }',
+        'nmap gw :wrap<CR>',
+        '" Not imported: jsfile mine.js {}',
+      ]);
+      expect(issues(result)).toEqual([
+        [3, 'error', 'exmap wrap uses jscommand, which runs JavaScript and is not supported'],
+        [4, 'warning', 'Runs :wrap, which was not imported'],
+        [5, 'error', 'jsfile runs JavaScript, which is not supported; use obcommand or the plugin API'],
+      ]);
+    });
+
+    it('should validate Obsidian command IDs and report what the parser finds', () => {
+      const validateCommand = (id: string) => (id === 'app:go-back'
+        ? { valid: true }
+        : { valid: false, errorMessage: `Obsidian command not found: '${id}'` });
+      const result = importVimrc('exmap back obcommand app:go-back\nobcommand app:nope\nfrobnicate x', { validateCommand });
+
+      expect(issues(result)).toEqual([
+        [2, 'warning', "Obsidian command not found: 'app:nope'"],
+        [3, 'warning', 'Unknown command: frobnicate'],
+      ]);
+      expect(result.issues[1].raw).toBe('frobnicate x');
+    });
+  });
+
+  describe('ideavim', () => {
+    it('should translate IDE actions into obmaps and exmaps', () => {
+      const result = importVimrc([
+        'let mapleader = " "',
+        'nnoremap <leader>f <Action>(GotoFile)',
+        'map <leader>b :action Back<CR>',
+        'nnoremap <silent> <leader>s <Action>(SplitVertically)<C-w>l',
+        'onoremap <leader>c <Action>(CommentByLineComment)',
+        'nnoremap <leader>r <Action>(ReformatCode)',
+      ].join('\n'), { fileName: '.ideavimrc' });
+
+      expect(result.format).toBe('ideavim');
+      expect(lines(result)).toEqual([
+        'let mapleader = " "',
+        'nobmap <leader>f switcher:open',
+        'obmap <leader>b app:go-back',
+        'exmap workspaceSplitVertical obcommand workspace:split-vertical',
+        'nnoremap <silent> <leader>s :workspaceSplitVertical<CR><C-w>l',
+        'exmap editorToggleComments obcommand editor:toggle-comments',
+        'onoremap <leader>c :editorToggleComments<CR>',
+        '" Not imported: nnoremap <leader>r <Action>(ReformatCode)',
+      ]);
+      expect(issues(result)).toEqual([[6, 'error', 'No Obsidian command for IdeaVim action ReformatCode']]);
+    });
+
+    it('should comment out plugins, handlers and IDE options', () => {
+      const result = importVimrc([
+        "Plug 'tpope/vim-surround'",
+        "Plug 'preservim/nerdtree'",
+        'sethandler <C-a> a:vim',
+        'set ideajoin surround ignorecase ts=4',
+        'set idearefactormode=keep',
+      ].join('\n'), { format: 'ideavim' });
+
+      expect(lines(result)).toEqual([
+        "\" Not imported: Plug 'tpope/vim-surround'",
+        "\" Not imported: Plug 'preservim/nerdtree'",
+        '" Not imported: sethandler <C-a> a:vim',
+        'set ignorecase ts=4',
+        '" Not imported: set idearefactormode=keep',
+      ]);
+      expect(issues(result)).toEqual([
+        [1, 'error', 'Surround is built in as sa, sd and sr'],
+        [2, 'error', 'IdeaVim plugins are not supported'],
+        [3, 'error', 'sethandler is IdeaVim-only; key handlers are not supported'],
+        [4, 'error', "Option 'ideajoin' is not supported"],
+        [4, 'warning', 'Surround is built in as sa, sd and sr'],
+        [5, 'error', "Option 'idearefactormode' is not supported"],
+      ]);
+    });
+  });
+
+  describe('vscodevim', () => {
+    it('should convert key bindings, the leader and options', () => {
+      const settings = `{
+  // Vim
+  "editor.fontSize": 14,
+  "vim.normalModeKeyBindingsNonRecursive": [
+    { "before": ["<leader>", "w"], "commands": ["workbench.action.files.save"] },
+    { "before": ["j"], "after": ["g", "j"] },
+    { "before": ["<leader>", "v"], "commands": ["workbench.action.splitEditor", ":q"], "silent": true },
+    { "before": ["<leader>", "t"], "commands": ["workbench.action.terminal.toggleTerminal"] },
+  ],
+  "vim.insertModeKeyBindings": [{ "before": ["j", "k"], "after": ["<Esc>"] }],
+  "vim.leader": "<space>",
+  "vim.hlsearch": true,
+  "vim.useSystemClipboard": true,
+  "vim.easymotion": true, /* not supported */
+}`;
+      const result = importVimrc(settings);
+
+      expect(result.format).toBe('vscodevim');
+      expect(lines(result)).toEqual([
+        'let mapleader = "\\<space>"',
+        'nobmap <leader>w editor:save-file',
+        'nnoremap j gj',
+        'exmap workspaceSplitVertical obcommand workspace:split-vertical',
+        'nnoremap <silent> <leader>v :workspaceSplitVertical<CR>:q<CR>',
+        expect.stringMatching(/^" Not imported: \{"before":\["<leader>","t"\]/),
+        'imap jk <Esc>',
+        'set hlsearch',
+        'set clipboard=unnamed',
+      ]);
+      expect(issues(result)).toEqual([
+        [4, 'error', 'No Obsidian command for VS Code command workbench.action.terminal.toggleTerminal'],
+        [14, 'warning', 'Setting vim.easymotion is not supported'],
+      ]);
+    });
+
+    it('should report settings.json that cannot be read', () => {
+      const result = importVimrc('{ "vim.leader": ', { format: 'vscodevim' });
+
+      expect(lines(result)).toEqual([]);
+      expect(result.issues[0]).toMatchObject({ lineNumber: 1, severity: 'error' });
+      expect(result.issues[0].message).toMatch(/^Invalid settings\.json/);
+    });
+  });
+});
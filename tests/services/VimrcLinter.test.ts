@@ -0,0 +1,139 @@
+/**
+ * VimrcLinter Tests
+ */
+
+import { applyQuickFix, lintVimrc } from '../../src/services/VimrcLinter';
+import type { LintOptions } from '../../src/services/VimrcLinter';
+import { VimrcParser } from '../../src/services/VimrcParser';
+
+const PATH = '.obsidian.vimrc';
+
+/**
+ * Check vimrc content
+ */
+function lint(content: string, validateCommand?: LintOptions['validateCommand']) {
+  const parseResult = new VimrcParser().parse(content, { filePath: PATH });
+  return lintVimrc(parseResult, { files: new Map([[PATH, content]]), validateCommand });
+}
+
+/**
+ * Get the codes of diagnostics
+ */
+function codes(content: string): string[] {
+  return lint(content).map((diagnostic) => diagnostic.code);
+}
+
+describe('VimrcLinter', () => {
+  it('should report mappings overridden later with a fix removing them', () => {
+    const content = 'nmap j gj\nnnoremap k gk\nnnoremap j gk\n';
+    const [diagnostic] = lint(content);
+
+    expect(diagnostic).toMatchObject({
+      severity: 'warning',
+      code: 'shadowed-mapping',
+      filePath: PATH,
+      range: { startLine: 1, startColumn: 5, endLine: 1, endColumn: 6 },
+    });
+    expect(applyQuickFix(content, diagnostic.quickFix!)).toBe('nnoremap k gk\nnnoremap j gk\n');
+
+    expect(codes('map j gj\nnmap j gk')).toEqual(['shadowed-mapping']);
+    expect(codes('nmap j gj\nimap j gk\nnmap <buffer> j gk')).toEqual([]);
+  });
+
+  it('should report recursive mapping cycles with a noremap fix', () => {
+    const content = 'nmap a b\n  nmap b a\nnmap j jzz\nnmap k gk\n';
+    const diagnostics = lint(content);
+
+    expect(diagnostics.map((diagnostic) => diagnostic.code)).toEqual(['recursive-mapping', 'recursive-mapping']);
+    expect(diagnostics[1].message).toBe('E223: recursive mapping: b -> a -> b');
+    expect(diagnostics[1].range).toEqual({ startLine: 2, startColumn: 7, endLine: 2, endColumn: 8 });
+    expect(applyQuickFix(content, diagnostics[1].quickFix!)).toBe('nmap a b\n  nnoremap b a\nnmap j jzz\nnmap k gk\n');
+
+    expect(codes('nnoremap a b\nnmap b a')).toEqual([]);
+    expect(codes('nmap j jj')).toEqual(['recursive-mapping']);
+    expect(lint('nmap a xa')[0].message).toBe('E223: recursive mapping: a -> a');
+  });
+
+  it('should report prefixes that wait for a timeout or make mappings unreachable', () => {
+    const [waiting] = lint('nmap <Space>g :Git<CR>\nnmap <Space>gs :Status<CR>');
+    expect(waiting).toMatchObject({ severity: 'info', code: 'prefix-conflict', range: { startLine: 1 } });
+
+    const [unreachable] = lint('nmap <nowait> g x\nnmap gs y');
+    expect(unreachable).toMatchObject({ severity: 'warning', code: 'prefix-conflict', range: { startLine: 2 } });
+
+    expect(codes('nmap g x\nimap gs y')).toEqual([]);
+  });
+
+  it('should check each keymap profile against the vimrc but not against other profiles', () => {
+    const content = [
+      'nmap j gj',
+      'nmap a b',
+      'profile writing',
+      'nmap j gk',
+      'nunmap a',
+      'endprofile',
+      'profile coding',
+      'nmap j gjzz',
+      'nmap j gkzz',
+      'nmap b a',
+      'endprofile',
+    ].join('\n');
+
+    expect(lint(content).map((diagnostic) => [diagnostic.code, diagnostic.range.startLine])).toEqual([
+      ['recursive-mapping', 2],
+      ['shadowed-mapping', 8],
+      ['recursive-mapping', 10],
+    ]);
+  });
+
+  it('should report unmap of keys that are not mapped', () => {
+    expect(codes('nmap a b\nnunmap a')).toEqual([]);
+    expect(codes('map a b\nunmap a\nnunmap a')).toEqual(['unmap-unmapped']);
+    expect(codes('map a b\nnunmap a\nounmap a')).toEqual([]);
+    expect(codes('map a b\nnunmap a\nnunmap a')).toEqual(['unmap-unmapped']);
+    expect(lint('iunmap jk')[0].message).toBe('E31: No such mapping: jk');
+  });
+
+  it('should report <leader> used before let mapleader', () => {
+    const diagnostics = lint('nmap <leader>w :w<CR>\nlet mapleader = " "\nnmap <leader>q :q<CR>');
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      code: 'leader-before-mapleader',
+      range: { startLine: 1, startColumn: 5, endLine: 1, endColumn: 13 },
+    });
+    expect(codes('nmap <leader>w :w<CR>')).toEqual([]);
+  });
+
+  it('should report unknown key names with a <lt> fix', () => {
+    const content = 'nmap <Foo> x\ninoremap <C-x> <Bar<Esc>\n';
+    const [unknown] = lint(content);
+
+    expect(unknown).toMatchObject({ severity: 'error', code: 'unknown-key', range: { startLine: 1, startColumn: 5, endColumn: 10 } });
+    expect(applyQuickFix(content, unknown.quickFix!)).toBe('nmap <lt>Foo> x\ninoremap <C-x> <Bar<Esc>\n');
+    expect(codes('obmap <C-Foo> editor:save-file')).toEqual(['unknown-key']);
+  });
+
+  it('should report unknown Obsidian command IDs', () => {
+    const validate = (commandId: string) => ({ valid: commandId.startsWith('editor:') });
+    const diagnostics = lint('obmap gs editor:save-file\nexmap back obcommand app:go-back\nnobmap gb app:go-back', validate);
+
+    expect(diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.range.startLine, diagnostic.range.startColumn]))
+      .toEqual([['unknown-obsidian-command', 2, 21], ['unknown-obsidian-command', 3, 10]]);
+  });
+
+  it('should include parser problems and locate commands in sourced files', () => {
+    const files = new Map([[PATH, 'frobnicate\nsource keys.vim\nnmap j gk'], ['keys.vim', 'nmap j gj']]);
+    const parseResult = new VimrcParser().parse(files.get(PATH)!, {
+      filePath: PATH,
+      readSource: (path) => files.get(path) ?? null,
+    });
+    const diagnostics = lintVimrc(parseResult, { files });
+
+    expect(diagnostics.map((diagnostic) => [diagnostic.filePath, diagnostic.code])).toEqual([
+      [PATH, 'parse-warning'],
+      ['keys.vim', 'shadowed-mapping'],
+    ]);
+    expect(diagnostics[1].message).toBe('Mapping of j is overridden by .obsidian.vimrc line 3');
+  });
+});
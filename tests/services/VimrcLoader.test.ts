@@ -0,0 +1,1007 @@
+/**
+ * VimrcLoader Tests
+ */
+
+import { VimrcLoader, IFileAdapter, findFolderVimrcPaths, EMBEDDED_VIMRC_PATH } from '../../src/services/VimrcLoader';
+import { VimrcParser } from '../../src/services/VimrcParser';
+import { EventBus } from '../../src/core/EventBus';
+import { ConfigManager } from '../../src/infrastructure/ConfigManager';
+import { ErrorHandler } from '../../src/infrastructure/ErrorHandler';
+import { MappingStore } from '../../src/stores/MappingStore';
+import { MappingApplier } from '../../src/appliers/MappingApplier';
+import { CommandRegistry } from '../../src/registry/CommandRegistry';
+import { MappingHandler } from '../../src/handlers/MappingHandler';
+import { SetHandler } from '../../src/handlers/SetHandler';
+import { AutocmdHandler, matchAutocmdPattern } from '../../src/handlers/AutocmdHandler';
+import { UserCommandHandler } from '../../src/handlers/UserCommandHandler';
+import { AbbreviationHandler } from '../../src/handlers/AbbreviationHandler';
+import { AbbreviationStore } from '../../src/stores/AbbreviationStore';
+import { LoadHistory } from '../../src/services/LoadHistory';
+import type { LoadSnapshot } from '../../src/services/LoadHistory';
+import { EventType } from '../../src/types/events';
+import { MappingStatus } from '../../src/types/mappings';
+import type { IVimAdapter } from '../../src/types/services';
+import type { App } from 'obsidian';
+
+/**
+ * Create a VimAdapter double that records calls
+ */
+function createVimAdapter(): jest.Mocked<IVimAdapter> {
+  return {
+    isAvailable: jest.fn(() => true),
+    waitForReady: jest.fn(async () => {}),
+    map: jest.fn(),
+    noremap: jest.fn(),
+    unmap: jest.fn(),
+    mapclear: jest.fn(),
+    defineMotion: jest.fn(),
+    defineAction: jest.fn(),
+    defineOperator: jest.fn(),
+    defineEx: jest.fn(),
+    restoreBuiltinEx: jest.fn(),
+    mapCommand: jest.fn(),
+    feedKeys: jest.fn(),
+    handleEx: jest.fn(),
+    defineOption: jest.fn(),
+    setOption: jest.fn(),
+    getOption: jest.fn(),
+  };
+}
+
+/**
+ * Create an App double whose workspace and vault events can be fired by name
+ */
+function createApp() {
+  const listeners = new Map<string, (...args: unknown[]) => void>();
+  const source = {
+    on: jest.fn((name: string, callback: (...args: unknown[]) => void) => {
+      listeners.set(name, callback);
+      return { name };
+    }),
+    offref: jest.fn((ref: { name: string }) => {
+      listeners.delete(ref.name);
+    }),
+  };
+  let activeFile: string | null = null;
+  const app = {
+    workspace: { ...source, getActiveFile: () => (activeFile ? { path: activeFile } : null), activeLeaf: null },
+    vault: source,
+  } as unknown as App;
+  return {
+    app,
+    listeners,
+    openFile(path: string) {
+      activeFile = path;
+      listeners.get('active-leaf-change')?.();
+    },
+  };
+}
+
+/**
+ * Create a file adapter backed by an in-memory file map
+ */
+function createFileAdapter(files: Record<string, string>): IFileAdapter {
+  return {
+    exists: async (path: string) => path in files,
+    read: async (path: string) => files[path],
+    write: async (path: string, content: string) => {
+      files[path] = content;
+    },
+  };
+}
+
+describe('VimrcLoader', () => {
+  let files: Record<string, string>;
+  let eventBus: EventBus;
+  let mappingStore: MappingStore;
+  let vimAdapter: jest.Mocked<IVimAdapter>;
+  let registry: CommandRegistry;
+  let loader: VimrcLoader;
+  let configManager: ConfigManager;
+  let parser: VimrcParser;
+  let onList: jest.Mock;
+
+  beforeEach(async () => {
+    files = {};
+    eventBus = new EventBus();
+    mappingStore = new MappingStore(eventBus);
+    vimAdapter = createVimAdapter();
+    onList = jest.fn();
+
+    configManager = new ConfigManager(eventBus, {
+      loadData: async () => null,
+      saveData: async () => {},
+    });
+    await configManager.initialize();
+
+    registry = new CommandRegistry(eventBus);
+    registry.register(new MappingHandler({ eventBus, mappingStore, onList }));
+
+    parser = new VimrcParser();
+    loader = new VimrcLoader(
+      eventBus,
+      parser,
+      registry,
+      new MappingApplier(mappingStore, vimAdapter, eventBus),
+      mappingStore,
+      configManager,
+      new ErrorHandler(eventBus),
+      createFileAdapter(files)
+    );
+    loader.setVimAdapter(vimAdapter);
+  });
+
+  describe('source', () => {
+    it('should load mappings from sourced files', async () => {
+      files['.obsidian.vimrc'] = 'nmap a b\nsource vim/nav.vim';
+      files['vim/nav.vim'] = 'nmap j gj\nruntime ./extra.vim';
+      files['vim/extra.vim'] = 'nmap k gk';
+
+      const result = await loader.load();
+
+      expect(result.success).toBe(true);
+      expect(result.mappingCount).toBe(3);
+      expect(loader.getSourcedFiles()).toEqual(['.obsidian.vimrc', 'vim/nav.vim', 'vim/extra.vim']);
+    });
+
+    it('should report errors against the sourced file', async () => {
+      files['.obsidian.vimrc'] = 'nmap a b\nsource vim/nav.vim';
+      files['vim/nav.vim'] = 'nmap j gj\nsource vim/missing.vim';
+
+      const result = await loader.load();
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].filePath).toBe('vim/nav.vim');
+      expect(result.errors[0].lineNumber).toBe(2);
+    });
+  });
+
+  describe('layers', () => {
+    const globalVimrc = '.obsidian/plugins/vimrc/global.vimrc';
+
+    beforeEach(() => {
+      loader.setDataFolder('.obsidian/plugins/vimrc');
+    });
+
+    /**
+     * Describe the stored mappings as `source:target`
+     */
+    function storedMappings(): string[] {
+      return mappingStore.getAll().map((m) => `${m.source}:${m.target}`);
+    }
+
+    it('should load the global vimrc before the vault vimrc with its variables', async () => {
+      files[globalVimrc] = 'let mapleader = ","\nnmap j gj';
+      files['.obsidian.vimrc'] = 'nmap <leader>w :w<CR>\nnmap j gjzz';
+
+      const result = await loader.load();
+
+      expect(result.path).toBe('.obsidian.vimrc');
+      expect(loader.getSourcedFiles()).toEqual([globalVimrc, '.obsidian.vimrc']);
+      expect(storedMappings()).toEqual(['j:gj', ',w::w<CR>', 'j:gjzz']);
+      expect(vimAdapter.map.mock.calls.at(-1)).toEqual(['j', 'gjzz', 'normal']);
+    });
+
+    it('should layer the embedded vimrc after the vimrc file and report its errors', async () => {
+      files['.obsidian.vimrc'] = 'let mapleader = ","\nnmap j gj';
+      await configManager.updateSettings({ vimrcSource: 'both', embeddedVimrc: 'nmap <leader>w :w<CR>\nnmap j gjzz\nif 1' });
+
+      const result = await loader.load();
+
+      expect(result.path).toBe('.obsidian.vimrc');
+      expect(storedMappings()).toEqual(['j:gj', ',w::w<CR>', 'j:gjzz']);
+      expect(result.errors.map((e) => [e.filePath, e.message])).toEqual([[EMBEDDED_VIMRC_PATH, 'Missing :endif']]);
+      expect(loader.getWatchedFiles()).toEqual(['.obsidian/plugins/vimrc/global.vimrc', '.obsidian.vimrc', '.vimrc']);
+    });
+
+    it('should load and check only the embedded vimrc with the embedded source', async () => {
+      files['.obsidian.vimrc'] = 'nmap j gj';
+      await configManager.updateSettings({ vimrcSource: 'embedded', embeddedVimrc: 'nmap k gk\nnunmap x' });
+
+      const result = await loader.load();
+
+      expect(result.path).toBe(EMBEDDED_VIMRC_PATH);
+      expect(storedMappings()).toEqual(['k:gk']);
+      const check = await loader.check();
+      expect(check.path).toBe(EMBEDDED_VIMRC_PATH);
+      expect(check.diagnostics.map((d) => [d.filePath, d.code])).toEqual([[EMBEDDED_VIMRC_PATH, 'unmap-unmapped']]);
+
+      await configManager.updateSettings({ embeddedVimrc: 'nmap k gkzz' });
+      await loader.reload();
+      expect(storedMappings()).toEqual(['k:gkzz']);
+    });
+
+    it('should list the folder vimrc files of a file outermost first', () => {
+      expect(findFolderVimrcPaths('notes/daily/2024.md')).toEqual(['notes/.vimrc', 'notes/daily/.vimrc']);
+      expect(findFolderVimrcPaths('inbox.md')).toEqual([]);
+    });
+
+    it('should add and remove folder overlays as the active file changes', async () => {
+      files['.obsidian.vimrc'] = 'nmap j gj\nnmap k gk';
+      files['notes/.vimrc'] = 'nmap j gjzz\nnunmap k\nset tabstop=2';
+      files['notes/daily/.vimrc'] = 'nnoremap t :today<CR>';
+      await loader.load();
+      const reload = jest.spyOn(loader, 'reload');
+
+      const errors = await loader.updateFolderOverlays('notes/daily/2024.md');
+      expect(errors).toEqual([]);
+      expect(loader.getFolderOverlays()).toEqual(['notes/.vimrc', 'notes/daily/.vimrc']);
+      expect(storedMappings()).toEqual(['j:gj', 'j:gjzz', 't::today<CR>']);
+      expect(vimAdapter.unmap).toHaveBeenCalledWith('k', 'normal');
+
+      await loader.updateFolderOverlays('notes/todo.md');
+      expect(loader.getFolderOverlays()).toEqual(['notes/.vimrc']);
+      expect(storedMappings()).toEqual(['j:gj', 'j:gjzz']);
+
+      vimAdapter.map.mockClear();
+      await loader.updateFolderOverlays('inbox.md');
+      expect(loader.getFolderOverlays()).toEqual([]);
+      expect(storedMappings()).toEqual(['j:gj', 'k:gk']);
+      expect(vimAdapter.map.mock.calls).toEqual([['j', 'gj', 'normal'], ['k', 'gk', 'normal']]);
+      expect(reload).not.toHaveBeenCalled();
+    });
+
+    it('should warn about commands other than mappings in a folder vimrc', async () => {
+      files['notes/.vimrc'] = 'set tabstop=2\nnmap j gj';
+      await loader.load();
+
+      await loader.updateFolderOverlays('notes/a.md');
+      const result = await loader.reload();
+
+      expect(result.warnings.map((w) => [w.filePath, w.lineNumber])).toEqual([['notes/.vimrc', 1]]);
+      expect(storedMappings()).toEqual(['j:gj']);
+      expect(loader.getFolderOverlays()).toEqual(['notes/.vimrc']);
+    });
+  });
+
+  describe('profiles', () => {
+    beforeEach(async () => {
+      configManager = new ConfigManager(eventBus, {
+        loadData: async () => ({ profileFiles: ['vim/coding.vim'] }),
+        saveData: async () => {},
+      });
+      await configManager.initialize();
+      loader = new VimrcLoader(
+        eventBus,
+        new VimrcParser(),
+        registry,
+        new MappingApplier(mappingStore, vimAdapter, eventBus),
+        mappingStore,
+        configManager,
+        new ErrorHandler(eventBus),
+        createFileAdapter(files)
+      );
+      loader.setVimAdapter(vimAdapter);
+      files['.obsidian.vimrc'] = [
+        'nmap j gj',
+        'nmap k gk',
+        'profile writing',
+        'nmap <Space>w :w<CR>',
+        'nmap j gjzz',
+        'set tabstop=2',
+        'endprofile',
+      ].join('\n');
+      files['vim/coding.vim'] = 'nmap <Space>w :w<CR>\nnunmap k';
+    });
+
+    it('should collect profile blocks and profile files without applying them', async () => {
+      const result = await loader.load();
+
+      expect(loader.getProfiles()).toEqual(['writing', 'coding']);
+      expect(loader.getActiveProfile()).toBeNull();
+      expect(mappingStore.getAll().map((m) => m.source)).toEqual(['j', 'k']);
+      expect(result.warnings.map((w) => [w.lineNumber, w.message])).toEqual([
+        [6, 'Only mapping commands apply in profile writing: set'],
+      ]);
+    });
+
+    it('should skip a missing profile file with a warning and load the other files', async () => {
+      delete files['vim/coding.vim'];
+      await loader.load();
+      files['.obsidian.vimrc'] = 'nmap j gj\nnmap k gk\nnmap l gl';
+
+      const result = await loader.reload();
+
+      expect(result.success).toBe(true);
+      expect(result.keptPrevious).toBeUndefined();
+      expect(result.warnings.map((w) => [w.filePath, w.message])).toEqual([
+        ['vim/coding.vim', 'Profile file not found: vim/coding.vim'],
+      ]);
+      expect(mappingStore.getAll().map((m) => m.source)).toEqual(['j', 'k', 'l']);
+      expect(loader.getProfiles()).toEqual([]);
+    });
+
+    it('should only unapply and apply the mappings that differ between profiles', async () => {
+      const changes: Array<string | null> = [];
+      eventBus.on(EventType.PROFILE_CHANGED, ({ name }) => {
+        changes.push(name);
+      });
+      await loader.load();
+      await loader.switchProfile('writing');
+      expect(vimAdapter.map).toHaveBeenLastCalledWith('j', 'gjzz', 'normal');
+      vimAdapter.map.mockClear();
+      vimAdapter.unmap.mockClear();
+
+      await loader.switchProfile('coding');
+
+      expect(loader.getActiveProfile()).toBe('coding');
+      expect(configManager.getSettings().activeProfile).toBe('coding');
+      expect(vimAdapter.unmap.mock.calls).toEqual([['j', 'normal'], ['k', 'normal']]);
+      expect(vimAdapter.map.mock.calls).toEqual([['j', 'gj', 'normal']]);
+      expect(mappingStore.getAll().map((m) => `${m.source}:${m.target}`)).toEqual(['j:gj', '<Space>w::w<CR>']);
+
+      await loader.switchProfile(null);
+      expect(mappingStore.getAll().map((m) => `${m.source}:${m.target}`)).toEqual(['j:gj', 'k:gk']);
+      expect(changes).toEqual(['writing', 'coding', null]);
+      await expect(loader.switchProfile('reading')).rejects.toThrow('Unknown profile: reading');
+    });
+
+    it('should keep the active profile across reloads', async () => {
+      await loader.load();
+      await loader.switchProfile('writing');
+
+      await loader.reload();
+
+      expect(loader.getActiveProfile()).toBe('writing');
+      expect(mappingStore.getAll().map((m) => `${m.source}:${m.target}`)).toEqual([
+        'j:gj', 'k:gk', '<Space>w::w<CR>', 'j:gjzz',
+      ]);
+    });
+  });
+
+  describe('reload', () => {
+    it('should only update the mappings that changed and emit the diff', async () => {
+      files['.obsidian.vimrc'] = 'nnoremap j gj\nnnoremap k gk\nnnoremap x dd';
+      await loader.load();
+      vimAdapter.noremap.mockClear();
+      const diffs: string[] = [];
+      eventBus.on(EventType.MAPPINGS_DIFFED, ({ added, removed, changed, unchanged }) => {
+        diffs.push(`+${added.length} -${removed.length} ~${changed.length} =${unchanged}`);
+      });
+
+      files['.obsidian.vimrc'] = 'nnoremap j gj\nnnoremap k gkzz\nnnoremap Y y$';
+      const result = await loader.reload();
+
+      expect(diffs).toEqual(['+1 -1 ~1 =1']);
+      expect(result.diff?.changed.map((mapping) => mapping.target)).toEqual(['gkzz']);
+      expect(vimAdapter.unmap.mock.calls).toEqual([['x', 'normal']]);
+      expect(vimAdapter.noremap.mock.calls).toEqual([['k', 'gkzz', 'normal'], ['Y', 'y$', 'normal']]);
+    });
+
+    it('should keep the applied mappings when the new vimrc has too many errors', async () => {
+      files['.obsidian.vimrc'] = 'let mapleader = ","\nnnoremap j gj\nnnoremap k gk';
+      await loader.load();
+      vimAdapter.unmap.mockClear();
+
+      files['.obsidian.vimrc'] = 'let mapleader = ";"\nlet g:x = 1\nnnoremap j gj\nif 1\nnnoremap Y y$';
+      const kept = await loader.reload();
+
+      expect(kept.keptPrevious).toBe(true);
+      expect(kept.success).toBe(false);
+      expect(kept.errors.map((error) => error.message)).toEqual(['Missing :endif']);
+      expect(mappingStore.getAll().map((m) => m.source)).toEqual(['j', 'k']);
+      expect(vimAdapter.unmap).not.toHaveBeenCalled();
+      expect(parser.getVariable('g:mapleader')).toBe(',');
+      expect(parser.getVariable('g:x')).toBeUndefined();
+
+      const forced = await loader.reload({ force: true });
+
+      expect(forced.keptPrevious).toBeUndefined();
+      expect(vimAdapter.unmap).toHaveBeenCalledWith('k', 'normal');
+    });
+
+    it('should watch the files read and unapply every mapping once the vimrc is deleted', async () => {
+      files['.obsidian.vimrc'] = 'source vim/nav.vim\nnnoremap j gj';
+      files['vim/nav.vim'] = 'nnoremap k gk';
+      await loader.load();
+
+      expect(loader.getWatchedFiles()).toEqual(['.obsidian.vimrc', '.vimrc', 'vim/nav.vim']);
+
+      delete files['.obsidian.vimrc'];
+      const result = await loader.reload();
+
+      expect(result.path).toBeNull();
+      expect(mappingStore.getAll()).toEqual([]);
+      expect(vimAdapter.unmap.mock.calls).toEqual([['k', 'normal'], ['j', 'normal']]);
+      expect(loader.getWatchedFiles()).toEqual(['.obsidian.vimrc', '.vimrc']);
+    });
+
+    it('should record versions that load without errors and apply one in memory', async () => {
+      const data: { loadHistory?: LoadSnapshot[] } = {};
+      const history = new LoadHistory({
+        loadData: async () => data,
+        saveData: async (saved) => {
+          Object.assign(data, saved);
+        },
+      }, configManager);
+      loader.setLoadHistory(history);
+
+      files['.obsidian.vimrc'] = 'nnoremap j gj';
+      await loader.load();
+      files['.obsidian.vimrc'] = 'nnoremap j gj\nnnoremap k gk';
+      await loader.reload();
+      files['.obsidian.vimrc'] = 'nnoremap k gk\nif 1';
+      await loader.reload({ force: true });
+
+      expect(history.getSnapshots().map((snapshot) => [snapshot.content, snapshot.mappingCount, snapshot.diff])).toEqual([
+        ['nnoremap j gj\nnnoremap k gk', 2, { added: ['n k'], removed: [], changed: [] }],
+        ['nnoremap j gj', 1, undefined],
+      ]);
+
+      const result = await loader.applyInMemory(history.getSnapshots()[1].content);
+
+      expect(result.errors).toEqual([]);
+      expect(mappingStore.getAll().map((m) => m.source)).toEqual(['j']);
+      expect(files['.obsidian.vimrc']).toBe('nnoremap k gk\nif 1');
+    });
+  });
+
+  describe('bar separation', () => {
+    it('should load each bar-separated mapping with <Bar> as a literal pipe', async () => {
+      files['.obsidian.vimrc'] = 'nmap a x<Bar>y | nmap b c';
+
+      const result = await loader.load();
+
+      expect(result.mappingCount).toBe(2);
+      expect(mappingStore.getAll().map((m) => m.target)).toEqual(['x|y', 'c']);
+    });
+  });
+
+  describe('map modifiers', () => {
+    it('should store modifiers instead of mapping them as keys', async () => {
+      files['.obsidian.vimrc'] = 'nnoremap <silent><buffer> <leader>w :w<CR>\nnmap <expr> j v:count ? "j" : "gj"';
+
+      await loader.load();
+
+      const [silent, expr] = mappingStore.getAll();
+      expect(silent.source).toBe('\\w');
+      expect(silent.modifiers).toEqual({ silent: true, buffer: true });
+      expect(expr.source).toBe('j');
+      expect(expr.target).toBe('v:count ? "j" : "gj"');
+      expect(expr.modifiers).toEqual({ expr: true });
+    });
+
+    it('should fail <unique> mappings when the keys are already mapped', async () => {
+      files['.obsidian.vimrc'] = 'nmap j gj\nnmap <unique> j k\nnmap <unique> k gk';
+
+      const result = await loader.load();
+
+      expect(mappingStore.getAll().map((m) => m.target)).toEqual(['gj', 'gk']);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].lineNumber).toBe(2);
+      expect(result.errors[0].message).toContain('E227');
+    });
+
+    it('should check <unique> against mappings of the same scope only', async () => {
+      files['.obsidian.vimrc'] = 'nmap j gj\nnmap <buffer> <unique> j k\nnmap <buffer> <unique> j gk';
+
+      const result = await loader.load();
+
+      expect(mappingStore.getAll().map((m) => m.target)).toEqual(['gj', 'k']);
+      expect(result.errors.map((e) => e.lineNumber)).toEqual([3]);
+    });
+  });
+
+  describe('map modes', () => {
+    it('should apply each map command in its mode', async () => {
+      files['.obsidian.vimrc'] = [
+        'xnoremap a b',
+        'snoremap c d',
+        'cnoremap <C-a> <Home>',
+        'noremap! e f',
+        'lmap g h',
+        'map! i j',
+      ].join('\n');
+
+      await loader.load();
+
+      expect(vimAdapter.noremap.mock.calls).toEqual([
+        ['a', 'b', 'visualOnly'],
+        ['c', 'd', 'select'],
+        ['<C-a>', '<Home>', 'commandLine'],
+        ['e', 'f', 'insertCommandLine'],
+      ]);
+      expect(vimAdapter.map.mock.calls).toEqual([
+        ['g', 'h', 'langArg'],
+        ['i', 'j', 'insertCommandLine'],
+      ]);
+    });
+
+    it('should unmap mappings in the modes of the unmap only', async () => {
+      files['.obsidian.vimrc'] = [
+        'nmap a b',
+        'xmap a c',
+        'imap a d',
+        'map! e f',
+        'unmap a',
+        'cunmap e',
+      ].join('\n');
+
+      await loader.load();
+
+      expect(mappingStore.getAll().map((m) => `${m.mode}:${m.source}`)).toEqual(['insert:a', 'insert:e']);
+    });
+
+    it('should keep a map mapping in its other modes after nunmap', async () => {
+      files['.obsidian.vimrc'] = 'map x y\nnunmap x';
+
+      await loader.load();
+
+      expect(mappingStore.getAll().map((m) => `${m.mode}:${m.source}:${m.target}`))
+        .toEqual(['visual:x:y', 'operatorPending:x:y']);
+      expect(vimAdapter.map.mock.calls).toEqual([['x', 'y', 'visual'], ['x', 'y', 'operatorPending']]);
+    });
+
+    it('should clear global or <buffer> mappings of a mode with mapclear', async () => {
+      files['.obsidian.vimrc'] = [
+        'nmap a b',
+        'vmap c d',
+        'imap e f',
+        'nmap <buffer> g h',
+        'nmapclear',
+        'mapclear! <buffer>',
+        'vmapclear <buffer>',
+      ].join('\n');
+
+      await loader.load();
+
+      expect(mappingStore.getAll().map((m) => m.source)).toEqual(['c', 'e', 'g']);
+    });
+
+    it('should remove applied mappings unmapped after the load', async () => {
+      files['.obsidian.vimrc'] = 'nmap a b\ncmap c d';
+      await loader.load();
+
+      expect(await loader.executeCommandLine('nunmap a | cmapclear')).toEqual([]);
+
+      expect(vimAdapter.unmap.mock.calls).toEqual([['a', 'normal'], ['c', 'commandLine']]);
+      expect(mappingStore.count()).toBe(0);
+    });
+  });
+
+  describe('map listing', () => {
+    /**
+     * Run a map ex command the way CodeMirror Vim calls it
+     */
+    const runEx = async (name: string, argString: string) => {
+      const call = vimAdapter.defineEx.mock.calls.filter(([defined]) => defined === name).pop();
+      call![2]({}, { argString });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    };
+
+    it('should list mappings for map commands without a right-hand side', async () => {
+      files['.obsidian.vimrc'] = 'let mapleader = " "\nnnoremap <leader>w :w<CR>';
+      await loader.load();
+
+      await runEx('nmap', '');
+      await runEx('verbose', ' nmap <leader>w');
+      await runEx('map', '!');
+
+      expect(onList.mock.calls).toEqual([
+        [{ mode: 'normal', prefix: '', verbose: false }],
+        [{ mode: 'normal', prefix: '<Space>w', verbose: true }],
+        [{ mode: 'insertCommandLine', prefix: '', verbose: false }],
+      ]);
+    });
+
+    it('should store and apply mappings typed as ex commands', async () => {
+      files['.obsidian.vimrc'] = '';
+      await loader.load();
+
+      await runEx('inoremap', ' jk <Esc>');
+
+      expect(mappingStore.getAll().map((m) => [m.source, m.target, m.mode])).toEqual([['jk', '<Esc>', 'insert']]);
+      expect(vimAdapter.noremap).toHaveBeenCalledWith('jk', '<Esc>', 'insert');
+    });
+
+    it('should not list mappings for map lines without a right-hand side in a vimrc', async () => {
+      files['.obsidian.vimrc'] = 'nmap\nnmap <leader>';
+
+      await loader.load();
+      await loader.executeCommandLine('nmap');
+
+      expect(onList).not.toHaveBeenCalled();
+    });
+
+    it('should give the map commands and :command back to CodeMirror Vim on cleanup', async () => {
+      files['.obsidian.vimrc'] = '';
+      await loader.load();
+      expect(vimAdapter.restoreBuiltinEx).not.toHaveBeenCalled();
+
+      await loader.cleanup();
+
+      const restored = vimAdapter.restoreBuiltinEx.mock.calls.map(([name]) => name);
+      expect(restored).toEqual(expect.arrayContaining(['command', 'map', 'nnoremap', 'cmap', 'verbose']));
+    });
+  });
+
+  describe('check', () => {
+    it('should report problems without applying the vimrc', async () => {
+      files['.obsidian.vimrc'] = 'nmap a b\nnmap b a\nsource more.vim';
+      files['more.vim'] = 'nunmap x';
+      loader.setCommandValidator(() => ({ valid: true }));
+
+      const result = await loader.check();
+
+      expect(result.path).toBe('.obsidian.vimrc');
+      expect(result.diagnostics.map((d) => [d.filePath, d.range.startLine, d.code])).toEqual([
+        ['.obsidian.vimrc', 1, 'recursive-mapping'],
+        ['.obsidian.vimrc', 2, 'recursive-mapping'],
+        ['more.vim', 1, 'unmap-unmapped'],
+      ]);
+      expect(mappingStore.count()).toBe(0);
+      expect(vimAdapter.map).not.toHaveBeenCalled();
+    });
+
+    it('should check a given file and report unreadable ones', async () => {
+      files['other.vim'] = 'nmap <Foo> x';
+
+      expect((await loader.check('other.vim')).diagnostics.map((d) => d.code)).toEqual(['unknown-key']);
+      expect(await loader.check('missing.vim')).toMatchObject({
+        path: 'missing.vim',
+        diagnostics: [{ severity: 'error', code: 'unreadable-file' }],
+      });
+      expect(await loader.check()).toEqual({ path: null, diagnostics: [] });
+    });
+
+    it('should check with the variables of the global vimrc and keep those loaded', async () => {
+      loader.setDataFolder('.obsidian/plugins/vimrc');
+      files['.obsidian/plugins/vimrc/global.vimrc'] = 'let g:bar = "b"';
+      files['.obsidian.vimrc'] = 'execute "nmap a " . g:bar';
+      await loader.load();
+
+      const result = await loader.check();
+
+      expect(result.diagnostics).toEqual([]);
+      expect(parser.getVariable('g:bar')).toBe('b');
+    });
+
+    it('should save an imported vimrc as the vimrc, then next to it', async () => {
+      const created = jest.fn();
+      eventBus.on(EventType.FILE_CREATED, created);
+
+      expect(await loader.saveImportedVimrc('nmap j gj')).toEqual({ path: '.obsidian.vimrc', isVimrc: true });
+      expect(created).toHaveBeenCalledWith({ path: '.obsidian.vimrc' });
+      files['imported.vimrc'] = '';
+      expect(await loader.saveImportedVimrc('nmap k gk')).toEqual({ path: 'imported-2.vimrc', isVimrc: false });
+      expect(files).toEqual({ '.obsidian.vimrc': 'nmap j gj', 'imported.vimrc': '', 'imported-2.vimrc': 'nmap k gk' });
+      expect(created).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply a quick-fix to its file and check again', async () => {
+      files['.obsidian.vimrc'] = 'nmap j gj\nnunmap x';
+      const [diagnostic] = (await loader.check()).diagnostics;
+
+      const result = await loader.applyQuickFix(diagnostic);
+
+      expect(files['.obsidian.vimrc']).toBe('nmap j gj\n');
+      expect(result).toEqual({ path: '.obsidian.vimrc', diagnostics: [] });
+    });
+
+    it('should apply a quick-fix to the embedded vimrc and report it changed', async () => {
+      await configManager.updateSettings({ vimrcSource: 'embedded', embeddedVimrc: 'nmap j gj\nnunmap x' });
+      const changed = jest.fn();
+      eventBus.on(EventType.FILE_CHANGED, changed);
+      const [diagnostic] = (await loader.check()).diagnostics;
+
+      const result = await loader.applyQuickFix(diagnostic);
+
+      expect(configManager.getSettings().embeddedVimrc).toBe('nmap j gj\n');
+      expect(changed).toHaveBeenCalledWith({ path: EMBEDDED_VIMRC_PATH });
+      expect(result).toEqual({ path: EMBEDDED_VIMRC_PATH, diagnostics: [] });
+    });
+  });
+
+  describe('set', () => {
+    beforeEach(() => {
+      registry.register(new SetHandler({ eventBus, vimAdapter }));
+    });
+
+    it('should forward options to the Vim API', async () => {
+      files['.obsidian.vimrc'] = 'set ignorecase noincsearch\nset ts=4 | set ts+=2\nset clipboard=unnamed\nset cb+=unnamedplus';
+
+      const result = await loader.load();
+
+      expect(result.errors).toEqual([]);
+      expect(vimAdapter.setOption.mock.calls).toEqual([
+        ['ignorecase', true],
+        ['incsearch', false],
+        ['tabstop', 4],
+        ['tabstop', 6],
+        ['clipboard', 'unnamed'],
+        ['clipboard', 'unnamed,unnamedplus'],
+      ]);
+    });
+
+    it('should report unknown options and invalid values', async () => {
+      files['.obsidian.vimrc'] = 'set nosuchoption\nset tabstop=wide\nset ic=1\nset noshiftwidth';
+
+      const result = await loader.load();
+
+      expect(result.errors.map((e) => e.message.slice(0, 5))).toEqual(['E518:', 'E521:', 'E474:', 'E474:']);
+      expect(result.errors.map((e) => e.lineNumber)).toEqual([1, 2, 3, 4]);
+      expect(vimAdapter.setOption).not.toHaveBeenCalled();
+    });
+
+    it('should reset options the file no longer sets on reload', async () => {
+      files['.obsidian.vimrc'] = 'set hlsearch\nset tw=100';
+      await loader.load();
+      vimAdapter.setOption.mockClear();
+
+      files['.obsidian.vimrc'] = 'set tw=90';
+      await loader.reload();
+
+      expect(vimAdapter.setOption.mock.calls).toEqual([
+        ['textwidth', 90],
+        ['hlsearch', false],
+      ]);
+    });
+  });
+
+  describe('autocmd', () => {
+    let fake: ReturnType<typeof createApp>;
+    let autocmdHandler: AutocmdHandler;
+    let executed: string[];
+
+    beforeEach(() => {
+      fake = createApp();
+      executed = [];
+      autocmdHandler = new AutocmdHandler({
+        eventBus,
+        app: fake.app,
+        execute: async (command, { file }) => {
+          executed.push(command);
+          await loader.executeCommandLine(command, { buffer: file ?? undefined });
+        },
+      });
+      registry.register(autocmdHandler);
+      loader.setProviders(
+        { getObmapDefinitions: () => [], executeObsidianCommand: async () => true },
+        { getExmapDefinitions: () => [], executeObsidianCommand: async () => true },
+        autocmdHandler
+      );
+    });
+
+    it('should match file globs against paths and basenames', () => {
+      expect(matchAutocmdPattern('*.md', 'Journal/today.md')).toBe(true);
+      expect(matchAutocmdPattern('Journal/*.md', 'Journal/today.md')).toBe(true);
+      expect(matchAutocmdPattern('Journal/*.md', 'Notes/today.md')).toBe(false);
+      expect(matchAutocmdPattern('*.{txt,md}', 'a.txt')).toBe(true);
+      expect(matchAutocmdPattern('*.js,*.ts', 'src/a.ts')).toBe(true);
+    });
+
+    it('should run matching autocommands when a file is entered', async () => {
+      files['.obsidian.vimrc'] = 'autocmd BufEnter Journal/*.md nmap <buffer> j gj\nautocmd BufEnter *.txt nmap k gk';
+      await loader.load();
+
+      fake.openFile('Journal/today.md');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(executed).toEqual(['nmap <buffer> j gj']);
+      const [mapping] = mappingStore.getAll();
+      expect(mapping.target).toBe('gj');
+      expect(mapping.buffer).toBe('Journal/today.md');
+    });
+
+    it('should replace the <buffer> mapping of a file entered again', async () => {
+      files['.obsidian.vimrc'] = 'autocmd BufEnter *.md nmap <buffer> j gj';
+      await loader.load();
+
+      await autocmdHandler.trigger('BufEnter', 'a.md', 'a.md');
+      const [first] = mappingStore.getAll();
+      await autocmdHandler.trigger('BufEnter', 'b.md', 'b.md');
+      await autocmdHandler.trigger('BufEnter', 'a.md', 'a.md');
+      await autocmdHandler.trigger('BufEnter', 'a.md', 'a.md');
+
+      expect(executed).toHaveLength(4);
+      expect(mappingStore.getAll().map((m) => `${m.source}:${m.buffer}`)).toEqual(['j:b.md', 'j:a.md']);
+      expect(first.status).toBe(MappingStatus.REMOVED);
+    });
+
+    it('should run events occurring during autocommands after them, but not nested ones', async () => {
+      files['.obsidian.vimrc'] = 'autocmd BufEnter *.md nmap <buffer> j gj\nautocmd BufWritePost *.md nmap k gk';
+      await loader.load();
+
+      const first = autocmdHandler.trigger('BufEnter', 'a.md', 'a.md');
+      await autocmdHandler.trigger('BufEnter', 'a.md', 'a.md');
+      await autocmdHandler.trigger('BufWritePost', 'b.md', 'b.md');
+      await autocmdHandler.trigger('BufEnter', 'b.md', 'b.md');
+      await first;
+
+      expect(executed).toEqual(['nmap <buffer> j gj', 'nmap k gk', 'nmap <buffer> j gj']);
+      expect(mappingStore.getAll().map((m) => `${m.source}:${m.buffer ?? ''}`)).toEqual(['j:a.md', 'k:', 'j:b.md']);
+    });
+
+    it('should replace autocommands in a group cleared with autocmd!', async () => {
+      files['.obsidian.vimrc'] = [
+        'augroup notes',
+        '  autocmd!',
+        '  autocmd BufEnter *.md nmap a b',
+        'augroup END',
+        'augroup notes',
+        '  autocmd!',
+        '  autocmd BufEnter *.md ++once nmap c d | nmap e f',
+        'augroup END',
+      ].join('\n');
+      await loader.load();
+
+      expect(autocmdHandler.getAutocmds()).toMatchObject([
+        { group: 'notes', event: 'BufEnter', pattern: '*.md', command: 'nmap c d | nmap e f', once: true },
+      ]);
+
+      await autocmdHandler.trigger('BufEnter', 'a.md');
+      await autocmdHandler.trigger('BufEnter', 'a.md');
+      expect(executed).toEqual(['nmap c d | nmap e f']);
+      expect(mappingStore.getAll().map((m) => m.target)).toEqual(['d', 'f']);
+    });
+
+    it('should report unknown events', async () => {
+      files['.obsidian.vimrc'] = 'autocmd BufNope * nmap a b';
+
+      const result = await loader.load();
+
+      expect(result.errors.map((e) => e.message)).toEqual(['E216: No such event: BufNope']);
+    });
+
+    it('should tear down every hook on reload', async () => {
+      files['.obsidian.vimrc'] = 'autocmd BufWritePost *.md obcommand editor:save-file';
+      await loader.load();
+      expect([...fake.listeners.keys()]).toEqual(['active-leaf-change', 'modify']);
+
+      files['.obsidian.vimrc'] = 'nmap j gj';
+      await loader.reload();
+
+      expect(autocmdHandler.getAutocmds()).toEqual([]);
+      expect(fake.listeners.size).toBe(0);
+    });
+  });
+
+  describe('command', () => {
+    let executeObsidianCommand: jest.Mock;
+    const editor = { getCursor: () => ({ line: 0 }), lastLine: () => 9 };
+
+    /**
+     * Call the ex command defined in Vim under a name
+     */
+    const runEx = (name: string, params: object) => {
+      const call = vimAdapter.defineEx.mock.calls.filter(([defined]) => defined === name).pop();
+      call![2](editor, params);
+      return new Promise((resolve) => setTimeout(resolve, 0));
+    };
+
+    beforeEach(() => {
+      executeObsidianCommand = jest.fn(async () => true);
+      const userCommandHandler = new UserCommandHandler({ eventBus });
+      registry.register(userCommandHandler);
+      loader.setProviders(
+        { getObmapDefinitions: () => [], executeObsidianCommand },
+        { getExmapDefinitions: () => [], executeObsidianCommand },
+        undefined,
+        userCommandHandler
+      );
+    });
+
+    it('should run ex lines with arguments substituted', async () => {
+      files['.obsidian.vimrc'] = 'command! -nargs=1 -range Wrap <line1>,<line2>s/^/<args>/';
+      await loader.load();
+
+      await runEx('Wrap', { argString: ' > ', line: 1, lineEnd: 2 });
+
+      expect(vimAdapter.handleEx).toHaveBeenCalledWith(editor, '2,3s/^/>/');
+    });
+
+    it('should run Obsidian commands and vimrc commands', async () => {
+      files['.obsidian.vimrc'] = 'command Save obcommand editor:save-file\ncommand -nargs=1 Jump nmap <args> gg';
+      await loader.load();
+
+      await runEx('Save', {});
+      await runEx('Jump', { argString: ' J' });
+
+      expect(executeObsidianCommand).toHaveBeenCalledWith('editor:save-file');
+      expect(mappingStore.getAll().map((m) => [m.source, m.target])).toEqual([['J', 'gg']]);
+    });
+
+    it('should report redefinition without ! and invalid names', async () => {
+      files['.obsidian.vimrc'] = 'command Top normal! gg\ncommand Top normal! G\ncommand top gg\ncommand -nargs=2 Two x';
+
+      const result = await loader.load();
+
+      expect(result.errors.map((e) => e.message.slice(0, 5))).toEqual(['E174:', 'E183:', 'E176:']);
+    });
+
+    it('should remove user commands on reload', async () => {
+      files['.obsidian.vimrc'] = 'command Top normal! gg';
+      await loader.load();
+      expect(vimAdapter.defineEx).toHaveBeenCalledWith('Top', 'Top', expect.any(Function));
+
+      files['.obsidian.vimrc'] = '';
+      vimAdapter.defineEx.mockClear();
+      await loader.reload();
+
+      await runEx('Top', {});
+      expect(vimAdapter.handleEx).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('abbreviations', () => {
+    let abbreviationStore: AbbreviationStore;
+
+    beforeEach(() => {
+      abbreviationStore = new AbbreviationStore(eventBus);
+      registry.register(new AbbreviationHandler({ eventBus, abbreviationStore }));
+      loader.setAbbreviationStore(abbreviationStore);
+    });
+
+    it('should store abbreviations in their modes', async () => {
+      files['.obsidian.vimrc'] = 'iab teh the\ncnorea W w\nab ->> → <lt>x>\nab #i #include';
+
+      const result = await loader.load();
+
+      expect(result.errors).toEqual([]);
+      expect(abbreviationStore.getAll().map((a) => [a.mode, a.lhs, a.rhs, a.recursive])).toEqual([
+        ['insert', 'teh', 'the', true],
+        ['commandLine', 'W', 'w', false],
+        ['insertCommandLine', '->>', '→<Space><lt>x>', true],
+        ['insertCommandLine', '#i', '#include', true],
+      ]);
+    });
+
+    it('should remove or narrow abbreviations with unabbreviate and abclear', async () => {
+      files['.obsidian.vimrc'] = [
+        'ab foo bar',
+        'ab baz qux',
+        'iab one two',
+        'iuna foo',
+        'cab baz quux',
+        'iabc',
+      ].join('\n');
+
+      await loader.load();
+
+      expect(abbreviationStore.getAll().map((a) => `${a.mode}:${a.lhs}:${a.rhs}`)).toEqual([
+        'commandLine:foo:bar',
+        'commandLine:baz:quux',
+      ]);
+    });
+
+    it('should report invalid and missing abbreviations', async () => {
+      files['.obsidian.vimrc'] = 'iab a.b c\nuna nothing\niab <expr> x y';
+
+      const result = await loader.load();
+
+      expect(result.errors.map((e) => [e.lineNumber, e.message.slice(0, 4)])).toEqual([
+        [1, 'E474'],
+        [2, 'E24:'],
+        [3, 'E474'],
+      ]);
+    });
+
+    it('should clear abbreviations on reload', async () => {
+      files['.obsidian.vimrc'] = 'iab teh the';
+      await loader.load();
+
+      files['.obsidian.vimrc'] = 'iab adn and';
+      await loader.reload();
+
+      expect(abbreviationStore.getAll().map((a) => a.lhs)).toEqual(['adn']);
+    });
+
+    it('should roll back mappings and abbreviations, not options, when applying a reload fails', async () => {
+      registry.register(new SetHandler({ eventBus, vimAdapter }));
+      files['.obsidian.vimrc'] = 'nnoremap j gj\niab teh the\nset ts=4';
+      await loader.load();
+      vimAdapter.noremap.mockImplementation((lhs) => {
+        if (lhs === 'Y') throw new Error('Vim refused Y');
+      });
+
+      files['.obsidian.vimrc'] = 'nnoremap k gk\nnnoremap Y y$\niab adn and\nset ts=2';
+      const result = await loader.reload();
+
+      expect(result.success).toBe(false);
+      expect(result.errors.map((e) => e.message)).toEqual(['Kept the previous mappings and abbreviations: Vim refused Y']);
+      expect(mappingStore.getAll().map((m) => `${m.source}:${m.target}`)).toEqual(['j:gj']);
+      expect(abbreviationStore.getAll().map((a) => a.lhs)).toEqual(['teh']);
+      expect(vimAdapter.setOption).toHaveBeenLastCalledWith('tabstop', 2);
+    });
+  });
+});
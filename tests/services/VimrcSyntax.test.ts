@@ -0,0 +1,101 @@
+/**
+ * VimrcSyntax Tests
+ */
+
+import { describeMapping, tokenizeVimrcLine } from '../../src/services/VimrcSyntax';
+import { VimrcParser } from '../../src/services/VimrcParser';
+
+/**
+ * Get the text and type of each token of a line
+ */
+function tokens(line: string): string[][] {
+  return tokenizeVimrcLine(line).map((token) => [line.slice(token.from, token.to), token.type]);
+}
+
+/**
+ * Explain the commands on a line of vimrc content
+ */
+function explain(content: string, lineNumber: number, maxDepth?: number): string[] | null {
+  const result = new VimrcParser().parse(content);
+  const command = result.commands.find((candidate) => candidate.lineNumber === lineNumber)!;
+  return describeMapping(command, result, maxDepth);
+}
+
+describe('VimrcSyntax', () => {
+  describe('tokenizeVimrcLine', () => {
+    it('should highlight mapping commands, map arguments and key notation', () => {
+      expect(tokens('nnoremap <silent> <leader>w :w<CR> " save')).toEqual([
+        ['nnoremap', 'command'],
+        ['<silent>', 'modifier'],
+        ['<leader>', 'key'],
+        ['<CR>', 'key'],
+        ['" save', 'comment'],
+      ]);
+      expect(tokens('  " a comment')).toEqual([['" a comment', 'comment']]);
+      expect(tokens('nmap <Foo> x')).toEqual([['nmap', 'command']]);
+      expect(tokens('iab teh the')).toEqual([['iab', 'command']]);
+    });
+
+    it('should highlight expressions and conditionals', () => {
+      expect(tokens('if has("mac") | let g:x = 10 | endif')).toEqual([
+        ['if', 'keyword'],
+        ['"mac"', 'string'],
+        ['|', 'operator'],
+        ['let', 'command'],
+        ['g:x', 'variable'],
+        ['10', 'number'],
+        ['|', 'operator'],
+        ['endif', 'keyword'],
+      ]);
+      expect(tokens('let g:name = "a \\" b" | nmap x y')).toEqual([
+        ['let', 'command'],
+        ['g:name', 'variable'],
+        ['"a \\" b"', 'string'],
+        ['|', 'operator'],
+        ['nmap', 'command'],
+      ]);
+      expect(tokens('nnoremap <expr> j v:count ? "j" : "gj"').map(([, type]) => type))
+        .toEqual(['command', 'modifier']);
+    });
+
+    it('should highlight options of set', () => {
+      expect(tokens('set noic ts=4 cb+=unnamed')).toEqual([
+        ['set', 'command'],
+        ['noic', 'option'],
+        ['ts', 'option'],
+        ['4', 'number'],
+        ['cb', 'option'],
+      ]);
+    });
+
+    it('should not highlight unknown commands or continuation text', () => {
+      expect(tokens('frobnicate <CR>')).toEqual([['<CR>', 'key']]);
+      expect(tokens('  \\ <CR>')).toEqual([['\\', 'operator'], ['<CR>', 'key']]);
+    });
+  });
+
+  describe('describeMapping', () => {
+    it('should explain what a recursive mapping expands to', () => {
+      const content = 'nmap <Space>w :w<CR>\nnmap <silent> <Space>s <Space>wzz';
+
+      expect(explain(content, 2)).toEqual([
+        '<Space>s → <Space>wzz',
+        'Normal mode, remapped, <silent>',
+        'Expands to :w<CR>zz',
+        'Runs :w',
+      ]);
+      expect(explain('vnoremap x y', 1)).toEqual(['x → y', 'Visual and Select mode, not remapped']);
+    });
+
+    it('should report runaway recursion', () => {
+      expect(explain('nmap j k\nnmap k j', 1, 10)?.pop()).toBe('E223: recursive mapping: j -> k -> j');
+    });
+
+    it('should explain obmaps, exmaps and unmaps and skip other commands', () => {
+      expect(explain('nobmap gs editor:save-file', 1)).toEqual(['gs runs Obsidian command editor:save-file', 'Normal mode']);
+      expect(explain('exmap back obcommand app:go-back', 1)).toEqual([':back runs Obsidian command app:go-back']);
+      expect(explain('iunmap jk', 1)).toEqual(['Removes the mapping of jk', 'Insert mode']);
+      expect(explain('set ic', 1)).toBeNull();
+    });
+  });
+});